@@ -1,11 +1,26 @@
 import { describe, it, expect } from 'vitest';
-import { createInvoice, decodeInvoice, payInvoice, getInvoice, getPayment } from '../lib/api';
+import {
+  createInvoice,
+  cancelInvoice,
+  decodeInvoice,
+  payInvoice,
+  sendKeysend,
+  getInvoice,
+  getPayment,
+  getTransactions,
+  resolveLnurl,
+} from '../lib/api';
 
 /**
  * API Client Validation Tests
  * The API functions validate inputs and return errors BEFORE making any network call.
  * This prevents invalid data from ever reaching the server.
  */
+
+// BOLT11 spec example (mainnet)
+const SPEC_INVOICE =
+  'lnbc1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq9qrsgq357wnc5r2ueh7ck6q93dj32dlqnls087fxdwk8qakdyafkq3yap9us6v52vjjsrvywa6rt52cm9r9zqt8r2t7mlcwspyetp5h2tztugp9lfyql';
+
 describe('createInvoice validation', () => {
   it('rejects zero amount', async () => {
     const result = await createInvoice(0);
@@ -44,6 +59,27 @@ describe('decodeInvoice validation', () => {
     expect(result.success).toBe(false);
     expect(result.error).toBe('Payment request is required');
   });
+
+  it('rejects a mistyped invoice by its checksum', async () => {
+    const result = await decodeInvoice(SPEC_INVOICE.replace(/l$/, 'q'));
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('INVALID_CHECKSUM');
+  });
+
+  it('rejects unknown network prefixes', async () => {
+    const result = await decodeInvoice('lnxy1' + 'q'.repeat(120));
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('UNKNOWN_NETWORK');
+  });
+
+  it('rejects invoices for another network than the node runs on', async () => {
+    const result = await decodeInvoice(SPEC_INVOICE, 'regtest');
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('WRONG_NETWORK');
+    expect(result.error).toBe(
+      'Invoice is for mainnet, but this server runs on regtest'
+    );
+  });
 });
 
 describe('payInvoice validation', () => {
@@ -70,6 +106,56 @@ describe('payInvoice validation', () => {
     expect(result.success).toBe(false);
     expect(result.error).toBe('Idempotency key is required');
   });
+
+  it('rejects a non-positive amount', async () => {
+    const result = await payInvoice('lnbcrt1...', 'valid-key', { amount: 0 });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Amount must be a positive integer');
+  });
+
+  it('rejects an invoice that is not bech32', async () => {
+    const result = await payInvoice('lnbcrt1000n...', 'valid-key');
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('INVALID_ENCODING');
+  });
+
+  it('requires an amount for Lightning Addresses', async () => {
+    const result = await payInvoice('alice@pay.example.com', 'valid-key');
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('AMOUNT_REQUIRED');
+  });
+});
+
+describe('resolveLnurl validation', () => {
+  it('rejects invoices and other text', async () => {
+    for (const target of ['', SPEC_INVOICE, 'not an address']) {
+      const result = await resolveLnurl(target);
+      expect(result.success).toBe(false);
+      expect(result.code).toBe('INVALID_LNURL');
+    }
+  });
+});
+
+describe('sendKeysend validation', () => {
+  const destination = '02' + 'ab'.repeat(32);
+
+  it('rejects a malformed destination', async () => {
+    const result = await sendKeysend('not-a-pubkey', 100, 'valid-key');
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Destination must be a node public key');
+  });
+
+  it('rejects a non-positive amount', async () => {
+    const result = await sendKeysend(destination, 0, 'valid-key');
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Amount must be a positive integer');
+  });
+
+  it('rejects empty idempotency key', async () => {
+    const result = await sendKeysend(destination, 100, '');
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Idempotency key is required');
+  });
 });
 
 describe('getInvoice validation', () => {
@@ -80,6 +166,14 @@ describe('getInvoice validation', () => {
   });
 });
 
+describe('cancelInvoice validation', () => {
+  it('rejects empty payment hash', async () => {
+    const result = await cancelInvoice('');
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Payment hash is required');
+  });
+});
+
 describe('getPayment validation', () => {
   it('rejects empty payment hash', async () => {
     const result = await getPayment('');
@@ -87,3 +181,19 @@ describe('getPayment validation', () => {
     expect(result.error).toBe('Payment hash is required');
   });
 });
+
+describe('getTransactions validation', () => {
+  it('rejects negative or fractional amount filters', async () => {
+    for (const filters of [{ min_amount: -1 }, { max_amount: 10.5 }]) {
+      const result = await getTransactions(filters);
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Amounts must be non-negative integers');
+    }
+  });
+
+  it('rejects a payment hash prefix that is not hex', async () => {
+    const result = await getTransactions({ payment_hash: 'xyz' });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Payment hash must be 1-64 hex characters');
+  });
+});
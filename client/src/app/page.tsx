@@ -22,7 +22,11 @@ export default function Home() {
     retry: 2,
   });
 
-  const connected = isLoading ? null : isError ? false : true;
+  const connected = isLoading
+    ? null
+    : isError || !nodes || nodes.some((node) => !node.info)
+    ? false
+    : true;
 
   const tabs: { id: Tab; label: string; description: string }[] = [
     { id: 'receive', label: 'Receive', description: 'Generate invoice (Alice)' },
@@ -63,7 +67,9 @@ export default function Home() {
 
             {nodes && (
               <div className="text-sm text-gray-700">
-                Alice: {nodes.node_a.alias} | Bob: {nodes.node_b.alias}
+                {nodes
+                  .map((node) => `${node.alias} (${node.role}): ${node.info?.alias ?? 'offline'}`)
+                  .join(' | ')}
               </div>
             )}
           </div>
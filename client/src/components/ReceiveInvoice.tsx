@@ -2,32 +2,47 @@
 
 import { useState, useEffect } from 'react';
 import Image from 'next/image';
-import { useQueryClient } from '@tanstack/react-query';
-import { createInvoice } from '@/lib/api';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { createInvoice, cancelInvoice, getPayUsernames } from '@/lib/api';
 import { Invoice } from '@/lib/types';
-import { getSocket, InvoiceUpdateEvent } from '@/lib/socket';
+import { subscribeToPaymentHash } from '@/lib/socket';
 
 export default function ReceiveInvoice() {
   const queryClient = useQueryClient();
   const [amount, setAmount] = useState('');
+  const [anyAmount, setAnyAmount] = useState(false);
   const [description, setDescription] = useState('');
   const [invoice, setInvoice] = useState<Invoice | null>(null);
   const [loading, setLoading] = useState(false);
+  const [canceling, setCanceling] = useState(false);
   const [error, setError] = useState('');
   const [copied, setCopied] = useState(false);
+  // Reused when creating the same invoice again after a failure, so a
+  // request that did reach the server doesn't create a second invoice
+  const [idempotencyKey, setIdempotencyKey] = useState<string | null>(null);
 
-  // Listen for real-time invoice updates via WebSocket
+  // Lightning Addresses that reach this node without an invoice
+  const { data: payUsernames } = useQuery({
+    queryKey: ['pay-usernames'],
+    queryFn: async () => {
+      const result = await getPayUsernames();
+      return result.success ? (result.data ?? []) : [];
+    },
+  });
+
+  // Listen for real-time updates to the current invoice via WebSocket
+  const paymentHash = invoice?.payment_hash;
   useEffect(() => {
-    const socket = getSocket();
+    if (!paymentHash) return;
 
-    const handleInvoiceUpdate = (data: InvoiceUpdateEvent) => {
-      // Only update if it's for our current invoice
-      if (invoice && data.payment_hash === invoice.payment_hash) {
+    return subscribeToPaymentHash(paymentHash, {
+      onInvoiceUpdate: (data) => {
         setInvoice((prev) =>
           prev
             ? {
                 ...prev,
                 status: data.status,
+                received_amount: data.received_amount ?? prev.received_amount,
                 preimage: data.preimage || prev.preimage,
               }
             : null,
@@ -38,15 +53,9 @@ export default function ReceiveInvoice() {
           queryClient.invalidateQueries({ queryKey: ['transactions'] });
           queryClient.invalidateQueries({ queryKey: ['balance'] });
         }
-      }
-    };
-
-    socket.on('invoice:updated', handleInvoiceUpdate);
-
-    return () => {
-      socket.off('invoice:updated', handleInvoiceUpdate);
-    };
-  }, [invoice, queryClient]);
+      },
+    });
+  }, [paymentHash, queryClient]);
 
   const handleCreateInvoice = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -54,17 +63,21 @@ export default function ReceiveInvoice() {
     setError('');
     setInvoice(null);
 
-    const amountNum = parseInt(amount, 10);
-    if (isNaN(amountNum) || amountNum <= 0) {
+    const amountNum = anyAmount ? null : parseInt(amount, 10);
+    if (amountNum !== null && (isNaN(amountNum) || amountNum <= 0)) {
       setError('Please enter a valid amount');
       setLoading(false);
       return;
     }
 
-    const result = await createInvoice(amountNum, description || undefined);
+    const key = idempotencyKey ?? crypto.randomUUID();
+    setIdempotencyKey(key);
+
+    const result = await createInvoice(amountNum, description || undefined, key);
 
     if (result.success && result.data) {
       setInvoice(result.data);
+      setIdempotencyKey(null);
       // Invalidate transactions cache so History tab shows the new invoice
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       queryClient.invalidateQueries({ queryKey: ['balance'] });
@@ -75,12 +88,35 @@ export default function ReceiveInvoice() {
     setLoading(false);
   };
 
+  const handleCancelInvoice = async () => {
+    if (!invoice) return;
+
+    setCanceling(true);
+    setError('');
+
+    const result = await cancelInvoice(invoice.payment_hash);
+
+    if (result.success && result.data) {
+      const { status } = result.data;
+      setInvoice((prev) => (prev ? { ...prev, status } : null));
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    } else {
+      setError(result.error || 'Failed to cancel invoice');
+    }
+
+    setCanceling(false);
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
+  // Newly created invoices have no status yet
+  const isOpen =
+    !!invoice && (!invoice.status || invoice.status === 'pending' || invoice.status === 'held');
+
   return (
     <div className='space-y-6'>
       <h2 className='text-2xl font-bold text-gray-700'>Receive Payment</h2>
@@ -96,12 +132,27 @@ export default function ReceiveInvoice() {
           <input
             type='number'
             value={amount}
-            onChange={(e) => setAmount(e.target.value)}
-            placeholder='1000'
+            onChange={(e) => {
+              setAmount(e.target.value);
+              setIdempotencyKey(null); // A different invoice needs a new key
+            }}
+            placeholder={anyAmount ? 'Payer chooses' : '1000'}
             min='1'
-            className='text-gray-500 w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none focus:border-transparent border-gray-300'
-            required
+            disabled={anyAmount}
+            className='text-gray-500 w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none focus:border-transparent border-gray-300 disabled:bg-gray-100'
+            required={!anyAmount}
           />
+          <label className='flex items-center gap-2 mt-2 text-sm text-gray-700'>
+            <input
+              type='checkbox'
+              checked={anyAmount}
+              onChange={(e) => {
+                setAnyAmount(e.target.checked);
+                setIdempotencyKey(null);
+              }}
+            />
+            Let the payer choose the amount
+          </label>
         </div>
 
         <div>
@@ -111,7 +162,10 @@ export default function ReceiveInvoice() {
           <input
             type='text'
             value={description}
-            onChange={(e) => setDescription(e.target.value)}
+            onChange={(e) => {
+              setDescription(e.target.value);
+              setIdempotencyKey(null);
+            }}
             placeholder='Payment for...'
             className='border-gray-300 outline-none text-gray-500 w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
           />
@@ -130,6 +184,24 @@ export default function ReceiveInvoice() {
         <div className='p-4 bg-red-100 text-red-700 rounded-lg'>{error}</div>
       )}
 
+      {payUsernames && payUsernames.length > 0 && (
+        <div className='p-4 bg-gray-50 rounded-lg'>
+          <label className='block text-sm font-medium text-gray-800 mb-1'>
+            Or share a Lightning Address
+          </label>
+          <ul className='space-y-1'>
+            {payUsernames.map((payUsername) => (
+              <li
+                key={payUsername.username}
+                className='font-mono text-sm break-all text-gray-500'
+              >
+                {payUsername.lightning_address}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {invoice && (
         <div className='space-y-4 p-4 bg-gray-50 rounded-lg'>
           <div className='flex items-center justify-between'>
@@ -140,7 +212,7 @@ export default function ReceiveInvoice() {
               className={`px-3 py-1 rounded-full text-sm font-medium ${
                 invoice.status === 'succeeded'
                   ? 'bg-green-100 text-green-800'
-                  : invoice.status === 'expired'
+                  : invoice.status === 'expired' || invoice.status === 'canceled'
                     ? 'bg-red-100 text-red-800'
                     : 'bg-yellow-100 text-yellow-800'
               }`}
@@ -150,7 +222,7 @@ export default function ReceiveInvoice() {
           </div>
 
           {invoice.qr_code && (
-            <div className='flex justify-center'>
+            <div className='flex flex-col items-center gap-2'>
               <Image
                 src={invoice.qr_code}
                 alt='Invoice QR Code'
@@ -158,6 +230,15 @@ export default function ReceiveInvoice() {
                 height={192}
                 unoptimized
               />
+              {isOpen && (
+                <button
+                  onClick={handleCancelInvoice}
+                  disabled={canceling}
+                  className='px-3 py-1 text-sm rounded-lg text-red-700 border border-red-300 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed'
+                >
+                  {canceling ? 'Canceling...' : 'Cancel invoice'}
+                </button>
+              )}
             </div>
           )}
 
@@ -166,7 +247,12 @@ export default function ReceiveInvoice() {
               <label className='block text-sm font-medium text-gray-800'>
                 Amount
               </label>
-              <p className='font-mono text-gray-500'>{invoice.amount} sats</p>
+              <p className='font-mono text-gray-500'>
+                {invoice.amount === null ? 'Any amount' : `${invoice.amount} sats`}
+                {invoice.received_amount != null &&
+                  invoice.received_amount !== invoice.amount &&
+                  ` (received ${invoice.received_amount} sats)`}
+              </p>
             </div>
 
             <div>
@@ -1,9 +1,11 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
-import { decodeInvoice, payInvoice } from '@/lib/api';
-import { DecodedInvoice, Payment } from '@/lib/types';
+import { decodeInvoice, payInvoice, getPayment, resolveLnurl } from '@/lib/api';
+import { isLnurlPayTarget } from '@/lib/lnurl';
+import { subscribeToPaymentHash } from '@/lib/socket';
+import { DecodedInvoice, Payment, ResolvedPayRequest } from '@/lib/types';
 
 export default function SendPayment() {
   const queryClient = useQueryClient();
@@ -11,6 +13,10 @@ export default function SendPayment() {
   const [decodedInvoice, setDecodedInvoice] = useState<DecodedInvoice | null>(
     null,
   );
+  // Set instead of decodedInvoice when paying a Lightning Address or LNURL
+  const [payRequest, setPayRequest] = useState<ResolvedPayRequest | null>(
+    null,
+  );
   const [payment, setPayment] = useState<Payment | null>(null);
   const [loading, setLoading] = useState(false);
   const [decoding, setDecoding] = useState(false);
@@ -18,6 +24,46 @@ export default function SendPayment() {
   // Idempotency key to prevent duplicate payments
   // Generated fresh for each new invoice, reused on retry
   const [idempotencyKey, setIdempotencyKey] = useState<string | null>(null);
+  const [maxFee, setMaxFee] = useState('');
+  // Only used for invoices that leave the amount to the payer, and pay requests
+  const [amount, setAmount] = useState('');
+  const [comment, setComment] = useState('');
+
+  // Payments are sent in the background - follow their updates over the
+  // WebSocket and fetch the full record (attempts included) on each one.
+  // Large payments wait for another API key to approve them before they're sent
+  const pendingHash =
+    payment?.status === 'pending' || payment?.status === 'awaiting_approval'
+      ? payment.payment_hash
+      : null;
+  useEffect(() => {
+    if (!pendingHash) return;
+
+    const refresh = async () => {
+      const result = await getPayment(pendingHash);
+
+      if (result.success && result.data) {
+        const { data } = result;
+        // Keep the note that the invoice already had this payment
+        setPayment((current) => ({ ...data, duplicate: current?.duplicate }));
+        if (
+          result.data.status === 'succeeded' ||
+          result.data.status === 'failed'
+        ) {
+          queryClient.invalidateQueries({ queryKey: ['transactions'] });
+          queryClient.invalidateQueries({ queryKey: ['balance'] });
+        }
+      }
+    };
+
+    const unsubscribe = subscribeToPaymentHash(pendingHash, {
+      onPaymentUpdate: () => void refresh(),
+    });
+    // The payment may have finished before the subscription was in place
+    void refresh();
+
+    return unsubscribe;
+  }, [pendingHash, queryClient]);
 
   const handleDecode = async () => {
     if (!invoiceString.trim()) {
@@ -28,16 +74,29 @@ export default function SendPayment() {
     setDecoding(true);
     setError('');
     setDecodedInvoice(null);
+    setPayRequest(null);
     setPayment(null);
+    setAmount('');
+    setComment('');
     // Generate fresh idempotency key for this payment attempt
     setIdempotencyKey(crypto.randomUUID());
 
-    const result = await decodeInvoice(invoiceString.trim());
+    if (isLnurl) {
+      const result = await resolveLnurl(invoiceString.trim());
 
-    if (result.success && result.data) {
-      setDecodedInvoice(result.data);
+      if (result.success && result.data) {
+        setPayRequest(result.data);
+      } else {
+        setError(result.error || 'Failed to look up the Lightning Address');
+      }
     } else {
-      setError(result.error || 'Failed to decode invoice');
+      const result = await decodeInvoice(invoiceString.trim());
+
+      if (result.success && result.data) {
+        setDecodedInvoice(result.data);
+      } else {
+        setError(result.error || 'Failed to decode invoice');
+      }
     }
 
     setDecoding(false);
@@ -50,7 +109,11 @@ export default function SendPayment() {
     setError('');
 
     // Use stored idempotency key - same key on retry prevents duplicate payment
-    const result = await payInvoice(invoiceString.trim(), idempotencyKey);
+    const result = await payInvoice(invoiceString.trim(), idempotencyKey, {
+      ...(needsAmount && { amount: parseInt(amount, 10) }),
+      ...(payRequest && comment.trim() && { comment: comment.trim() }),
+      ...(maxFee && { max_fee_sats: parseInt(maxFee) }),
+    });
 
     if (result.success && result.data) {
       setPayment(result.data);
@@ -58,7 +121,11 @@ export default function SendPayment() {
       queryClient.invalidateQueries({ queryKey: ['transactions'] });
       queryClient.invalidateQueries({ queryKey: ['balance'] });
     } else {
-      setError(result.error || 'Payment failed');
+      setError(
+        result.code === 'FEE_LIMIT_EXCEEDED'
+          ? `${result.error}. Raise the max fee to pay this invoice.`
+          : result.error || 'Payment failed',
+      );
       // Keep same idempotencyKey so retry uses the same key
     }
 
@@ -68,27 +135,40 @@ export default function SendPayment() {
   const isExpired = decodedInvoice
     ? new Date(decodedInvoice.expires_at) < new Date()
     : false;
+  const isLnurl = isLnurlPayTarget(invoiceString);
+  const needsAmount = decodedInvoice?.amount === 0 || !!payRequest;
+  const amountToPay = needsAmount ? parseInt(amount, 10) : decodedInvoice?.amount;
+  // Pay requests accept whole sats within their millisatoshi range
+  const minSats = payRequest ? Math.ceil(payRequest.min_sendable / 1000) : 1;
+  const maxSats = payRequest ? Math.floor(payRequest.max_sendable / 1000) : undefined;
+  const hasAmount =
+    !!amountToPay &&
+    amountToPay >= minSats &&
+    (maxSats === undefined || amountToPay <= maxSats);
 
   return (
     <div className='space-y-6'>
       <h2 className='text-2xl font-bold text-gray-700'>Send Payment</h2>
-      <p className='text-gray-700'>Pay a Lightning invoice from Node B (Bob)</p>
+      <p className='text-gray-700'>
+        Pay a Lightning invoice, Lightning Address or LNURL from Node B (Bob)
+      </p>
 
       <div className='space-y-4'>
         <div>
           <label className='block text-sm font-semibold text-gray-900 mb-1'>
-            Invoice String
+            Invoice, Lightning Address or LNURL
           </label>
           <textarea
             value={invoiceString}
             onChange={(e) => {
               setInvoiceString(e.target.value);
               setDecodedInvoice(null);
+              setPayRequest(null);
               setPayment(null);
               setError('');
               setIdempotencyKey(null); // Clear key when invoice changes
             }}
-            placeholder='lnbcrt...'
+            placeholder='lnbcrt... or alice@example.com'
             rows={4}
             className='w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent font-mono text-sm outline-none text-gray-500 border-gray-300'
           />
@@ -99,7 +179,11 @@ export default function SendPayment() {
           disabled={decoding || !invoiceString.trim()}
           className='w-full bg-gray-600 text-white py-2 px-4 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed'
         >
-          {decoding ? 'Decoding...' : 'Decode Invoice'}
+          {decoding
+            ? 'Decoding...'
+            : isLnurl
+              ? 'Look Up Address'
+              : 'Decode Invoice'}
         </button>
       </div>
 
@@ -107,70 +191,173 @@ export default function SendPayment() {
         <div className='p-4 bg-red-100 text-red-700 rounded-lg'>{error}</div>
       )}
 
-      {decodedInvoice && !payment && (
+      {(decodedInvoice || payRequest) && !payment && (
         <div className='space-y-4 p-4 bg-gray-50 rounded-lg'>
           <h3 className='text-lg font-semibold text-gray-700'>
-            Invoice Details
+            {payRequest ? 'Pay Request' : 'Invoice Details'}
           </h3>
 
-          <div className='space-y-2'>
-            <div>
-              <label className='block text-sm font-medium text-gray-800'>
-                Amount
-              </label>
-              <p className='font-mono text-xl text-gray-500'>
-                {decodedInvoice.amount} sats
-              </p>
-            </div>
+          {payRequest && (
+            <div className='space-y-2'>
+              <div>
+                <label className='block text-sm font-medium text-gray-800'>
+                  Pay To
+                </label>
+                <p className='font-mono text-sm break-all text-gray-500'>
+                  {payRequest.target}
+                </p>
+              </div>
 
-            <div>
-              <label className='block text-sm font-medium text-gray-800'>
-                Description
-              </label>
-              <p className='text-gray-500'>
-                {decodedInvoice.description || 'No description'}
-              </p>
+              <div>
+                <label className='block text-sm font-medium text-gray-800'>
+                  Description
+                </label>
+                <p className='text-gray-500'>
+                  {payRequest.description || 'No description'}
+                </p>
+              </div>
+
+              <div>
+                <label className='block text-sm font-medium text-gray-800'>
+                  Accepts
+                </label>
+                <p className='text-sm text-gray-500'>
+                  {minSats} - {maxSats} sats via {payRequest.domain}
+                </p>
+              </div>
             </div>
+          )}
 
-            <div>
-              <label className='block text-sm font-medium text-gray-800'>
-                Payment Hash
-              </label>
-              <p className='font-mono text-xs break-all text-gray-500'>
-                {decodedInvoice.payment_hash}
-              </p>
+          {decodedInvoice && (
+            <div className='space-y-2'>
+              <div>
+                <label className='block text-sm font-medium text-gray-800'>
+                  Amount
+                </label>
+                <p className='font-mono text-xl text-gray-500'>
+                  {needsAmount ? 'Any amount' : `${decodedInvoice.amount} sats`}
+                </p>
+              </div>
+
+              <div>
+                <label className='block text-sm font-medium text-gray-800'>
+                  Description
+                </label>
+                <p className='text-gray-500'>
+                  {decodedInvoice.description || 'No description'}
+                </p>
+              </div>
+
+              <div>
+                <label className='block text-sm font-medium text-gray-800'>
+                  Payment Hash
+                </label>
+                <p className='font-mono text-xs break-all text-gray-500'>
+                  {decodedInvoice.payment_hash}
+                </p>
+              </div>
+
+              <div>
+                <label className='block text-sm font-medium text-gray-800'>
+                  Destination
+                </label>
+                <p className='font-mono text-xs break-all text-gray-500'>
+                  {decodedInvoice.destination}
+                </p>
+              </div>
+
+              <div>
+                <label className='block text-sm font-medium text-gray-800'>
+                  Network
+                </label>
+                <p className='text-sm text-gray-500'>
+                  {decodedInvoice.network}
+                  {decodedInvoice.route_hints.length > 0 &&
+                    ` (${decodedInvoice.route_hints.length} route hint${decodedInvoice.route_hints.length === 1 ? '' : 's'})`}
+                </p>
+              </div>
+
+              <div>
+                <label className='block text-sm font-medium text-gray-800'>
+                  Expires At
+                </label>
+                <p
+                  className={`text-sm text-gray-500 ${isExpired ? 'text-red-600' : ''}`}
+                >
+                  {new Date(decodedInvoice.expires_at).toLocaleString()}
+                  {isExpired && ' (EXPIRED)'}
+                </p>
+              </div>
             </div>
+          )}
 
+          {needsAmount && (
             <div>
-              <label className='block text-sm font-medium text-gray-800'>
-                Destination
+              <label className='block text-sm font-medium text-gray-800 mb-1'>
+                Amount to Send (sats)
               </label>
-              <p className='font-mono text-xs break-all text-gray-500'>
-                {decodedInvoice.destination}
-              </p>
+              <input
+                type='number'
+                min={minSats}
+                max={maxSats}
+                value={amount}
+                onChange={(e) => {
+                  setAmount(e.target.value);
+                  // A key belongs to one request body; the invoice is still only paid once
+                  setIdempotencyKey(crypto.randomUUID());
+                }}
+                placeholder='1000'
+                className='w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none text-gray-500 border-gray-300'
+              />
             </div>
+          )}
 
+          {payRequest && payRequest.comment_allowed > 0 && (
             <div>
-              <label className='block text-sm font-medium text-gray-800'>
-                Expires At
+              <label className='block text-sm font-medium text-gray-800 mb-1'>
+                Comment (optional)
               </label>
-              <p
-                className={`text-sm text-gray-500 ${isExpired ? 'text-red-600' : ''}`}
-              >
-                {new Date(decodedInvoice.expires_at).toLocaleString()}
-                {isExpired && ' (EXPIRED)'}
-              </p>
+              <input
+                type='text'
+                maxLength={payRequest.comment_allowed}
+                value={comment}
+                onChange={(e) => {
+                  setComment(e.target.value);
+                  setIdempotencyKey(crypto.randomUUID());
+                }}
+                placeholder='Thanks!'
+                className='w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none text-gray-500 border-gray-300'
+              />
             </div>
+          )}
+
+          <div>
+            <label className='block text-sm font-medium text-gray-800 mb-1'>
+              Max Routing Fee (sats, optional)
+            </label>
+            <input
+              type='number'
+              min='0'
+              value={maxFee}
+              onChange={(e) => {
+                setMaxFee(e.target.value);
+                setIdempotencyKey(crypto.randomUUID());
+              }}
+              placeholder='Server default'
+              className='w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none text-gray-500 border-gray-300'
+            />
           </div>
 
           <button
             onClick={handlePay}
-            disabled={loading || isExpired}
+            disabled={loading || isExpired || !hasAmount}
             className='w-full bg-orange-600 text-white py-3 px-4 rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold'
           >
             {loading
               ? 'Processing Payment...'
-              : `Pay ${decodedInvoice.amount} sats`}
+              : hasAmount
+                ? `Pay ${amountToPay} sats`
+                : 'Enter an amount'}
           </button>
         </div>
       )}
@@ -178,7 +365,13 @@ export default function SendPayment() {
       {payment && (
         <div
           className={`space-y-4 p-4 rounded-lg ${
-            payment.status === 'succeeded' ? 'bg-green-50' : 'bg-red-50'
+            payment.status === 'succeeded'
+              ? 'bg-green-50'
+              : payment.status === 'pending'
+                ? 'bg-yellow-50'
+                : payment.status === 'awaiting_approval'
+                  ? 'bg-purple-50'
+                  : 'bg-red-50'
           }`}
         >
           <div className='flex items-center justify-between'>
@@ -189,10 +382,14 @@ export default function SendPayment() {
               className={`px-3 py-1 rounded-full text-sm font-medium ${
                 payment.status === 'succeeded'
                   ? 'bg-green-100 text-green-800'
-                  : 'bg-red-100 text-red-800'
+                  : payment.status === 'pending'
+                    ? 'bg-yellow-100 text-yellow-800'
+                    : payment.status === 'awaiting_approval'
+                      ? 'bg-purple-100 text-purple-800'
+                      : 'bg-red-100 text-red-800'
               }`}
             >
-              {payment.status.toUpperCase()}
+              {payment.status.replace('_', ' ').toUpperCase()}
             </span>
           </div>
 
@@ -233,12 +430,51 @@ export default function SendPayment() {
               </div>
             )}
 
-            {payment.error && (
+            {payment.status === 'pending' && (
+              <p className='text-sm text-yellow-800'>
+                Payment in flight - waiting for the route to settle...
+              </p>
+            )}
+
+            {payment.duplicate && (
+              <p className='text-sm text-gray-700'>
+                {payment.duplicate === 'already_paid'
+                  ? 'This invoice was already paid - showing that payment instead of paying it again.'
+                  : 'This invoice is already being paid - following that payment instead of paying it again.'}
+              </p>
+            )}
+
+            {payment.status === 'awaiting_approval' && (
+              <p className='text-sm text-purple-800'>
+                Amount is above the approval threshold - the payment is sent
+                once another API key approves it...
+              </p>
+            )}
+
+            {payment.attempts && payment.attempts.length > 1 && (
+              <div>
+                <label className='block text-sm font-medium text-gray-800'>
+                  Attempts
+                </label>
+                <ul className='text-sm text-gray-500 space-y-1'>
+                  {payment.attempts.map((attempt) => (
+                    <li key={attempt.attempt_number}>
+                      #{attempt.attempt_number}: {attempt.status}
+                      {attempt.failure_reason && ` - ${attempt.failure_reason}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {(payment.error || payment.error_message) && (
               <div>
                 <label className='block text-sm font-medium text-gray-800'>
                   Error
                 </label>
-                <p className='text-red-600'>{payment.error}</p>
+                <p className='text-red-600'>
+                  {payment.error || payment.error_message}
+                </p>
               </div>
             )}
           </div>
@@ -1,28 +1,98 @@
 'use client';
 
-import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import { getTransactions, getBalance } from '@/lib/api';
+import { Transaction, TransactionFilters } from '@/lib/types';
 
-const ITEMS_PER_PAGE = 10;
+const ITEMS_PER_PAGE = 20;
+
+const STATUSES: Transaction['status'][] = [
+  'pending',
+  'held',
+  'succeeded',
+  'failed',
+  'awaiting_approval',
+  'canceled',
+  'expired',
+];
+
+interface FilterForm {
+  type: '' | Transaction['type'];
+  status: '' | Transaction['status'];
+  from: string; // yyyy-mm-dd
+  to: string; // yyyy-mm-dd
+  minAmount: string;
+  maxAmount: string;
+  q: string;
+  paymentHash: string;
+}
+
+const EMPTY_FORM: FilterForm = {
+  type: '',
+  status: '',
+  from: '',
+  to: '',
+  minAmount: '',
+  maxAmount: '',
+  q: '',
+  paymentHash: '',
+};
+
+// Dates are whole local days
+const toFilters = (form: FilterForm): TransactionFilters => ({
+  type: form.type || undefined,
+  status: form.status || undefined,
+  from: form.from
+    ? new Date(`${form.from}T00:00:00`).toISOString()
+    : undefined,
+  to: form.to ? new Date(`${form.to}T23:59:59.999`).toISOString() : undefined,
+  min_amount: form.minAmount === '' ? undefined : Number(form.minAmount),
+  max_amount: form.maxAmount === '' ? undefined : Number(form.maxAmount),
+  q: form.q.trim() || undefined,
+  payment_hash: form.paymentHash.trim() || undefined,
+});
 
 export default function TransactionHistory() {
-  const [page, setPage] = useState(1);
+  const [form, setForm] = useState<FilterForm>(EMPTY_FORM);
+  const [filters, setFilters] = useState<TransactionFilters>({});
+  const sentinel = useRef<HTMLDivElement>(null);
 
   const {
     data: txData,
     isLoading: txLoading,
     error: txError,
-  } = useQuery({
-    queryKey: ['transactions', page],
-    queryFn: async () => {
-      const result = await getTransactions(page, ITEMS_PER_PAGE);
-      if (!result.success)
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['transactions', filters],
+    queryFn: async ({ pageParam }) => {
+      const result = await getTransactions(
+        filters,
+        pageParam ?? undefined,
+        ITEMS_PER_PAGE,
+      );
+      if (!result.success || !result.data)
         throw new Error(result.error || 'Failed to fetch transactions');
       return result.data;
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.pagination.next_cursor,
   });
 
+  // Load the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const target = sentinel.current;
+    if (!target || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    });
+    observer.observe(target);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
   const { data: balance } = useQuery({
     queryKey: ['balance'],
     queryFn: async () => {
@@ -33,8 +103,22 @@ export default function TransactionHistory() {
     },
   });
 
-  const transactions = txData?.transactions ?? [];
-  const pagination = txData?.pagination;
+  const transactions = txData?.pages.flatMap((page) => page.transactions) ?? [];
+  const total = txData?.pages[0]?.pagination.total ?? 0;
+  const filtered = Object.values(filters).some((value) => value !== undefined);
+
+  const applyFilters = (e: FormEvent) => {
+    e.preventDefault();
+    setFilters(toFilters(form));
+  };
+
+  const resetFilters = () => {
+    setForm(EMPTY_FORM);
+    setFilters({});
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
@@ -47,20 +131,17 @@ export default function TransactionHistory() {
       case 'failed':
         return 'bg-red-100 text-red-800';
       case 'expired':
+      case 'canceled':
         return 'bg-gray-100 text-gray-800';
+      case 'held':
+        return 'bg-blue-100 text-blue-800';
+      case 'awaiting_approval':
+        return 'bg-purple-100 text-purple-800';
       default:
         return 'bg-yellow-100 text-yellow-800';
     }
   };
 
-  if (txLoading) {
-    return (
-      <div className='flex items-center justify-center py-12'>
-        <div className='text-gray-700'>Loading...</div>
-      </div>
-    );
-  }
-
   return (
     <div className='space-y-6'>
       <div className='flex items-center justify-between'>
@@ -98,9 +179,126 @@ export default function TransactionHistory() {
         </div>
       )}
 
-      {transactions.length === 0 ? (
+      <form
+        onSubmit={applyFilters}
+        className='grid grid-cols-2 md:grid-cols-4 gap-3 p-4 bg-gray-50 rounded-lg'
+      >
+        <div>
+          <label className='block text-sm font-medium text-gray-800 mb-1'>Type</label>
+          <select
+            value={form.type}
+            onChange={(e) =>
+              setForm({ ...form, type: e.target.value as FilterForm['type'] })
+            }
+            className={inputClass}
+          >
+            <option value=''>All</option>
+            <option value='invoice'>Received</option>
+            <option value='payment'>Sent</option>
+          </select>
+        </div>
+        <div>
+          <label className='block text-sm font-medium text-gray-800 mb-1'>Status</label>
+          <select
+            value={form.status}
+            onChange={(e) =>
+              setForm({
+                ...form,
+                status: e.target.value as FilterForm['status'],
+              })
+            }
+            className={inputClass}
+          >
+            <option value=''>All</option>
+            {STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className='block text-sm font-medium text-gray-800 mb-1'>From</label>
+          <input
+            type='date'
+            value={form.from}
+            onChange={(e) => setForm({ ...form, from: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className='block text-sm font-medium text-gray-800 mb-1'>To</label>
+          <input
+            type='date'
+            value={form.to}
+            onChange={(e) => setForm({ ...form, to: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className='block text-sm font-medium text-gray-800 mb-1'>Min sats</label>
+          <input
+            type='number'
+            min='0'
+            value={form.minAmount}
+            onChange={(e) => setForm({ ...form, minAmount: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className='block text-sm font-medium text-gray-800 mb-1'>Max sats</label>
+          <input
+            type='number'
+            min='0'
+            value={form.maxAmount}
+            onChange={(e) => setForm({ ...form, maxAmount: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className='block text-sm font-medium text-gray-800 mb-1'>Description</label>
+          <input
+            type='text'
+            value={form.q}
+            onChange={(e) => setForm({ ...form, q: e.target.value })}
+            placeholder='Search text'
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className='block text-sm font-medium text-gray-800 mb-1'>Payment hash</label>
+          <input
+            type='text'
+            value={form.paymentHash}
+            onChange={(e) => setForm({ ...form, paymentHash: e.target.value })}
+            placeholder='Starts with'
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+        <div className='col-span-2 md:col-span-4 flex justify-end gap-2'>
+          <button
+            type='button'
+            onClick={resetFilters}
+            className='px-3 py-1 border rounded text-sm font-medium text-gray-700 hover:bg-gray-100'
+          >
+            Reset
+          </button>
+          <button
+            type='submit'
+            className='px-3 py-1 rounded text-sm font-medium bg-blue-600 text-white hover:bg-blue-700'
+          >
+            Apply filters
+          </button>
+        </div>
+      </form>
+
+      {txLoading ? (
+        <div className='flex items-center justify-center py-12'>
+          <div className='text-gray-700'>Loading...</div>
+        </div>
+      ) : transactions.length === 0 ? (
         <div className='text-center py-12 text-gray-700'>
-          No transactions yet
+          {filtered ? 'No transactions match the filters' : 'No transactions yet'}
         </div>
       ) : (
         <>
@@ -141,10 +339,19 @@ export default function TransactionHistory() {
                       >
                         {tx.type === 'invoice' ? 'Received' : 'Sent'}
                       </span>
+                      {tx.kind === 'keysend' && (
+                        <span className='ml-2 text-xs text-gray-500'>keysend</span>
+                      )}
                     </td>
                     <td className='py-3 px-2 font-mono text-gray-700'>
-                      {tx.type === 'invoice' ? '+' : '-'}
-                      {tx.amount.toLocaleString()} sats
+                      {tx.amount === null ? (
+                        'Any amount'
+                      ) : (
+                        <>
+                          {tx.type === 'invoice' ? '+' : '-'}
+                          {tx.amount.toLocaleString()} sats
+                        </>
+                      )}
                     </td>
                     <td className='py-3 px-2'>
                       <span
@@ -165,63 +372,13 @@ export default function TransactionHistory() {
             </table>
           </div>
 
-          {/* Pagination */}
-          {pagination && pagination.totalPages > 1 && (
-            <div className='flex items-center justify-between border-t pt-4'>
-              <p className='text-sm text-gray-700'>
-                Showing {(page - 1) * ITEMS_PER_PAGE + 1} to{' '}
-                {Math.min(page * ITEMS_PER_PAGE, pagination.total)} of{' '}
-                {pagination.total} transactions
-              </p>
-              <div className='flex gap-2'>
-                <button
-                  onClick={() => setPage((p) => Math.max(1, p - 1))}
-                  disabled={page === 1}
-                  className='px-3 py-1 border rounded text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
-                >
-                  Previous
-                </button>
-                <div className='flex items-center gap-1'>
-                  {Array.from(
-                    { length: pagination.totalPages },
-                    (_, i) => i + 1,
-                  )
-                    .filter(
-                      (p) =>
-                        p === 1 ||
-                        p === pagination.totalPages ||
-                        Math.abs(p - page) <= 1,
-                    )
-                    .map((p, idx, arr) => (
-                      <span key={p} className='flex items-center'>
-                        {idx > 0 && arr[idx - 1] !== p - 1 && (
-                          <span className='px-1 text-gray-500'>...</span>
-                        )}
-                        <button
-                          onClick={() => setPage(p)}
-                          className={`px-3 py-1 rounded text-sm font-medium ${
-                            p === page
-                              ? 'bg-blue-600 text-white'
-                              : 'text-gray-700 hover:bg-gray-100'
-                          }`}
-                        >
-                          {p}
-                        </button>
-                      </span>
-                    ))}
-                </div>
-                <button
-                  onClick={() =>
-                    setPage((p) => Math.min(pagination.totalPages, p + 1))
-                  }
-                  disabled={page === pagination.totalPages}
-                  className='px-3 py-1 border rounded text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
-                >
-                  Next
-                </button>
-              </div>
-            </div>
-          )}
+          {/* Infinite scrolling */}
+          <div ref={sentinel} />
+          <p className='text-sm text-gray-700 text-center'>
+            {isFetchingNextPage
+              ? 'Loading more...'
+              : `Showing ${transactions.length} of ${total} transactions`}
+          </p>
         </>
       )}
     </div>
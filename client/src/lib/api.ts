@@ -2,13 +2,33 @@ import {
   Invoice,
   DecodedInvoice,
   Payment,
-  Transaction,
+  PaymentOptions,
+  KeysendOptions,
+  TransactionFilters,
+  TransactionPage,
   Balance,
-  NodeInfo,
+  NodeSummary,
+  PayUsername,
+  ResolvedPayRequest,
   ApiResponse,
+  LightningNetwork,
 } from './types';
+import { validateInvoice } from './invoiceValidation';
+import { isLnurlPayTarget } from './lnurl';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+const API_KEY = process.env.NEXT_PUBLIC_API_KEY;
+
+/**
+ * Headers sent with every request, including the configured API key.
+ */
+function requestHeaders(headers?: Record<string, string>): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(API_KEY && { Authorization: `Bearer ${API_KEY}` }),
+    ...headers,
+  };
+}
 
 async function fetchApi<T>(
   endpoint: string,
@@ -16,9 +36,7 @@ async function fetchApi<T>(
 ): Promise<ApiResponse<T>> {
   try {
     const response = await fetch(`${API_URL}${endpoint}`, {
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers: requestHeaders(),
       ...options,
     });
 
@@ -36,6 +54,7 @@ async function fetchApi<T>(
       return {
         success: false,
         error: data.error || `Request failed with status ${response.status}`,
+        code: data.code,
       };
     }
 
@@ -55,11 +74,21 @@ async function fetchApi<T>(
 }
 
 // Invoice APIs
+
+/**
+ * Create an invoice on the receiving node.
+ *
+ * @param amount - Amount in satoshis, or null to let the payer choose
+ * @param description - Optional description shown to the payer
+ * @param idempotencyKey - Optional key; retrying with the same key returns
+ *                         the invoice the first request created
+ */
 export async function createInvoice(
-  amount: number,
-  description?: string
+  amount: number | null,
+  description?: string,
+  idempotencyKey?: string
 ): Promise<ApiResponse<Invoice>> {
-  if (!Number.isInteger(amount) || amount <= 0) {
+  if (amount !== null && (!Number.isInteger(amount) || amount <= 0)) {
     return { success: false, error: 'Amount must be a positive integer' };
   }
   if (description !== undefined && typeof description !== 'string') {
@@ -68,7 +97,12 @@ export async function createInvoice(
 
   return fetchApi<Invoice>('/api/invoice', {
     method: 'POST',
-    body: JSON.stringify({ amount, description }),
+    ...(idempotencyKey && {
+      headers: requestHeaders({ 'X-Idempotency-Key': idempotencyKey }),
+    }),
+    body: JSON.stringify(
+      amount === null ? { any_amount: true, description } : { amount, description }
+    ),
   });
 }
 
@@ -82,11 +116,34 @@ export async function getInvoice(
   return fetchApi<Invoice>(`/api/invoice/${encodeURIComponent(paymentHash)}`);
 }
 
+export async function cancelInvoice(
+  paymentHash: string
+): Promise<ApiResponse<Invoice>> {
+  if (!paymentHash || typeof paymentHash !== 'string') {
+    return { success: false, error: 'Payment hash is required' };
+  }
+
+  return fetchApi<Invoice>(`/api/invoice/${encodeURIComponent(paymentHash)}`, {
+    method: 'DELETE',
+  });
+}
+
+/**
+ * Decode a BOLT11 invoice on the server.
+ *
+ * The invoice is validated first with the same rules the server uses, so
+ * mistyped or malformed invoices fail without a request.
+ *
+ * @param paymentRequest - BOLT11 invoice string
+ * @param network - Network the invoice must be for, if known (see NodeInfo)
+ */
 export async function decodeInvoice(
-  paymentRequest: string
+  paymentRequest: string,
+  network?: LightningNetwork | null
 ): Promise<ApiResponse<DecodedInvoice>> {
-  if (!paymentRequest || typeof paymentRequest !== 'string') {
-    return { success: false, error: 'Payment request is required' };
+  const validation = validateInvoice(paymentRequest, network);
+  if (!validation.valid) {
+    return { success: false, error: validation.error, code: validation.code };
   }
 
   return fetchApi<DecodedInvoice>('/api/invoice/decode', {
@@ -98,16 +155,22 @@ export async function decodeInvoice(
 // Payment APIs
 
 /**
- * Pay a Lightning invoice with idempotency protection.
+ * Pay a Lightning invoice, Lightning Address or LNURL with idempotency
+ * protection.
  *
- * @param paymentRequest - BOLT11 invoice string
+ * @param paymentRequest - BOLT11 invoice string, Lightning Address or LNURL
  * @param idempotencyKey - Unique key to prevent duplicate payments.
  *                         Generate with crypto.randomUUID().
  *                         Reuse the same key when retrying a failed payment.
+ * @param options - Amount to send (zero-amount invoices, Lightning Addresses
+ *                  and LNURLs), comment (Lightning Addresses and LNURLs),
+ *                  and optional fee cap and timeout (server defaults apply
+ *                  otherwise)
  */
 export async function payInvoice(
   paymentRequest: string,
-  idempotencyKey: string
+  idempotencyKey: string,
+  options: PaymentOptions = {}
 ): Promise<ApiResponse<Payment>> {
   if (!paymentRequest || typeof paymentRequest !== 'string') {
     return { success: false, error: 'Payment request is required' };
@@ -115,14 +178,77 @@ export async function payInvoice(
   if (!idempotencyKey || typeof idempotencyKey !== 'string') {
     return { success: false, error: 'Idempotency key is required' };
   }
+  if (
+    options.amount !== undefined &&
+    (!Number.isInteger(options.amount) || options.amount <= 0)
+  ) {
+    return { success: false, error: 'Amount must be a positive integer' };
+  }
 
-  const response = await fetch(`${API_URL}/api/payment`, {
+  if (isLnurlPayTarget(paymentRequest)) {
+    if (options.amount === undefined) {
+      return {
+        success: false,
+        error: 'Amount is required to pay a Lightning Address or LNURL',
+        code: 'AMOUNT_REQUIRED',
+      };
+    }
+  } else {
+    const validation = validateInvoice(paymentRequest);
+    if (!validation.valid) {
+      return { success: false, error: validation.error, code: validation.code };
+    }
+  }
+
+  return postPayment('/api/payment', idempotencyKey, {
+    payment_request: paymentRequest,
+    ...options,
+  });
+}
+
+/**
+ * Send a keysend (spontaneous) payment to a node, without an invoice.
+ *
+ * @param destination - Public key of the receiving node (66 hex characters)
+ * @param amount - Amount in satoshis
+ * @param idempotencyKey - Unique key to prevent duplicate payments
+ * @param options - Optional message, custom TLV records, fee cap and timeout
+ */
+export async function sendKeysend(
+  destination: string,
+  amount: number,
+  idempotencyKey: string,
+  options: KeysendOptions = {}
+): Promise<ApiResponse<Payment>> {
+  if (!destination || !/^0[23][0-9a-fA-F]{64}$/.test(destination)) {
+    return { success: false, error: 'Destination must be a node public key' };
+  }
+  if (!Number.isInteger(amount) || amount <= 0) {
+    return { success: false, error: 'Amount must be a positive integer' };
+  }
+  if (!idempotencyKey || typeof idempotencyKey !== 'string') {
+    return { success: false, error: 'Idempotency key is required' };
+  }
+
+  return postPayment('/api/payment/keysend', idempotencyKey, {
+    destination,
+    amount,
+    ...options,
+  });
+}
+
+/**
+ * Start a payment, keeping the server's error code on failure.
+ */
+async function postPayment(
+  endpoint: string,
+  idempotencyKey: string,
+  body: object
+): Promise<ApiResponse<Payment>> {
+  const response = await fetch(`${API_URL}${endpoint}`, {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Idempotency-Key': idempotencyKey,
-    },
-    body: JSON.stringify({ payment_request: paymentRequest }),
+    headers: requestHeaders({ 'X-Idempotency-Key': idempotencyKey }),
+    body: JSON.stringify(body),
   });
 
   let data: ApiResponse<Payment>;
@@ -139,6 +265,7 @@ export async function payInvoice(
     return {
       success: false,
       error: data.error || `Request failed with status ${response.status}`,
+      code: data.code,
     };
   }
 
@@ -157,15 +284,26 @@ export async function getPayment(
 
 // Transaction APIs
 export async function getTransactions(
-  page: number = 1,
+  filters: TransactionFilters = {},
+  cursor?: string,
   limit: number = 10
-): Promise<
-  ApiResponse<{ transactions: Transaction[]; pagination: { page: number; limit: number; total: number; totalPages: number } }>
-> {
-  const params = new URLSearchParams({
-    page: String(page),
-    limit: String(limit),
-  });
+): Promise<ApiResponse<TransactionPage>> {
+  for (const amount of [filters.min_amount, filters.max_amount]) {
+    if (amount !== undefined && (!Number.isInteger(amount) || amount < 0)) {
+      return { success: false, error: 'Amounts must be non-negative integers' };
+    }
+  }
+
+  if (filters.payment_hash && !/^[0-9a-fA-F]{1,64}$/.test(filters.payment_hash)) {
+    return { success: false, error: 'Payment hash must be 1-64 hex characters' };
+  }
+
+  const params = new URLSearchParams({ limit: String(limit) });
+  for (const [name, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') params.set(name, String(value));
+  }
+  if (cursor) params.set('cursor', cursor);
+
   return fetchApi(`/api/transactions?${params}`);
 }
 
@@ -175,8 +313,34 @@ export async function getBalance(): Promise<ApiResponse<Balance>> {
 }
 
 // Nodes API
-export async function getNodes(): Promise<
-  ApiResponse<{ node_a: NodeInfo; node_b: NodeInfo }>
-> {
-  return fetchApi('/api/nodes');
+export async function getNodes(): Promise<ApiResponse<NodeSummary[]>> {
+  return fetchApi<NodeSummary[]>('/api/nodes');
+}
+
+// LNURL API
+export async function getPayUsernames(): Promise<ApiResponse<PayUsername[]>> {
+  return fetchApi<PayUsername[]>('/api/lnurl/usernames');
+}
+
+/**
+ * Look up the pay request behind a Lightning Address or LNURL: what it is
+ * for and the amounts it accepts.
+ *
+ * @param target - Lightning Address (user@domain) or LNURL
+ */
+export async function resolveLnurl(
+  target: string
+): Promise<ApiResponse<ResolvedPayRequest>> {
+  if (!target || typeof target !== 'string' || !isLnurlPayTarget(target)) {
+    return {
+      success: false,
+      error: 'Enter a Lightning Address or LNURL',
+      code: 'INVALID_LNURL',
+    };
+  }
+
+  return fetchApi<ResolvedPayRequest>('/api/lnurl/resolve', {
+    method: 'POST',
+    body: JSON.stringify({ target: target.trim() }),
+  });
 }
@@ -0,0 +1,16 @@
+// Lightning Addresses (LUD-16): local part at a host with optional port
+const LIGHTNING_ADDRESS_PATTERN = /^[a-z0-9._+-]+@[a-z0-9.-]+(:\d{1,5})?$/i;
+
+/**
+ * Is a payment target a Lightning Address or LNURL rather than an invoice?
+ *
+ * Only checks the shape; the server resolves and validates the pay request.
+ */
+export function isLnurlPayTarget(target: string): boolean {
+  const value = target.trim().replace(/^lightning:/i, '');
+  return (
+    /^lnurl1/i.test(value) ||
+    /^lnurlp:\/\//i.test(value) ||
+    LIGHTNING_ADDRESS_PATTERN.test(value)
+  );
+}
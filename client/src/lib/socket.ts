@@ -1,12 +1,79 @@
 import { io, Socket } from 'socket.io-client';
+import { InvoiceStatus, TransactionKind } from './types';
 
 const SOCKET_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+const API_KEY = process.env.NEXT_PUBLIC_API_KEY;
 
-let socket: Socket | null = null;
+export interface InvoiceUpdateEvent {
+  payment_hash: string;
+  node_id: string;
+  kind: TransactionKind;
+  status: InvoiceStatus;
+  amount: number | null;
+  received_amount: number | null;
+  preimage: string | null;
+  settled_at: string | null;
+}
+
+export interface PaymentUpdateEvent {
+  payment_hash: string;
+  node_id: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempt: number;
+  fee: number | null;
+  preimage: string | null;
+  error_message: string | null;
+  failure_code: string | null;
+}
+
+// Either one payment hash or a whole node
+type SubscriptionRequest = { payment_hash: string } | { node_id: string };
+
+interface SubscriptionAck {
+  success: boolean;
+  error?: string;
+}
+
+interface ServerToClientEvents {
+  'invoice:updated': (event: InvoiceUpdateEvent) => void;
+  'payment:updated': (event: PaymentUpdateEvent) => void;
+}
+
+interface ClientToServerEvents {
+  subscribe: (request: SubscriptionRequest, ack?: (result: SubscriptionAck) => void) => void;
+  unsubscribe: (request: SubscriptionRequest, ack?: (result: SubscriptionAck) => void) => void;
+}
+
+export type LightningSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export interface SubscriptionHandlers {
+  onInvoiceUpdate?: (event: InvoiceUpdateEvent) => void;
+  onPaymentUpdate?: (event: PaymentUpdateEvent) => void;
+}
+
+let socket: LightningSocket | null = null;
 
-export const getSocket = (): Socket => {
+// Rooms joined on the server, with how many subscribers share each
+const rooms = new Map<string, { request: SubscriptionRequest; count: number }>();
+
+const toRoom = (request: SubscriptionRequest): string =>
+  'payment_hash' in request
+    ? `payment:${request.payment_hash.toLowerCase()}`
+    : `node:${request.node_id}`;
+
+const join = (request: SubscriptionRequest) => {
+  getSocket().emit('subscribe', request, (result) => {
+    if (!result.success) {
+      console.warn('WebSocket subscription refused:', result.error);
+    }
+  });
+};
+
+export const getSocket = (): LightningSocket => {
   if (!socket) {
     socket = io(SOCKET_URL, {
+      // Following a whole node needs a key with the read scope
+      ...(API_KEY && { auth: { token: API_KEY } }),
       autoConnect: true,
       reconnection: true,
       reconnectionAttempts: 5,
@@ -15,6 +82,11 @@ export const getSocket = (): Socket => {
 
     socket.on('connect', () => {
       console.log('WebSocket connected');
+
+      // Rooms don't survive a reconnect - join them again
+      for (const { request } of rooms.values()) {
+        join(request);
+      }
     });
 
     socket.on('disconnect', () => {
@@ -36,10 +108,71 @@ export const disconnectSocket = () => {
   }
 };
 
-export interface InvoiceUpdateEvent {
-  payment_hash: string;
-  status: 'pending' | 'succeeded' | 'expired';
-  amount: number;
-  preimage: string | null;
-  settled_at: string | null;
-}
+/**
+ * Receive the events of a payment hash or node until unsubscribed
+ *
+ * Handlers only see events matching the request, even when the socket is in
+ * other rooms too.
+ *
+ * @returns Function that unsubscribes
+ */
+const subscribe = (
+  request: SubscriptionRequest,
+  { onInvoiceUpdate, onPaymentUpdate }: SubscriptionHandlers,
+): (() => void) => {
+  const socket = getSocket();
+  const room = toRoom(request);
+  const matches = (event: { payment_hash: string; node_id: string }) =>
+    'payment_hash' in request
+      ? event.payment_hash === request.payment_hash.toLowerCase()
+      : event.node_id === request.node_id;
+
+  const handleInvoiceUpdate = (event: InvoiceUpdateEvent) => {
+    if (matches(event)) onInvoiceUpdate?.(event);
+  };
+  const handlePaymentUpdate = (event: PaymentUpdateEvent) => {
+    if (matches(event)) onPaymentUpdate?.(event);
+  };
+
+  socket.on('invoice:updated', handleInvoiceUpdate);
+  socket.on('payment:updated', handlePaymentUpdate);
+
+  const joined = rooms.get(room);
+  if (joined) {
+    joined.count += 1;
+  } else {
+    rooms.set(room, { request, count: 1 });
+    // Not connected yet: the connect handler joins it
+    if (socket.connected) join(request);
+  }
+
+  return () => {
+    socket.off('invoice:updated', handleInvoiceUpdate);
+    socket.off('payment:updated', handlePaymentUpdate);
+
+    const current = rooms.get(room);
+    if (!current) return;
+
+    current.count -= 1;
+    if (current.count === 0) {
+      rooms.delete(room);
+      if (socket.connected) socket.emit('unsubscribe', request);
+    }
+  };
+};
+
+/**
+ * Follow the invoice and payment events of one payment hash
+ */
+export const subscribeToPaymentHash = (
+  paymentHash: string,
+  handlers: SubscriptionHandlers,
+): (() => void) => subscribe({ payment_hash: paymentHash }, handlers);
+
+/**
+ * Follow every invoice and payment event of a node
+ */
+export const subscribeToNode = (
+  nodeId: string,
+  handlers: SubscriptionHandlers,
+): (() => void) => subscribe({ node_id: nodeId }, handlers);
@@ -1,9 +1,22 @@
+export type InvoiceStatus =
+  | 'pending'
+  | 'held'
+  | 'succeeded'
+  | 'canceled'
+  | 'expired';
+
+export type TransactionKind = 'invoice' | 'keysend';
+
 export interface Invoice {
   payment_hash: string;
   payment_request: string;
-  amount: number;
+  node_id: string;
+  amount: number | null;
+  received_amount?: number | null;
   description: string | null;
-  status: 'pending' | 'succeeded' | 'expired';
+  username?: string | null;
+  comment?: string | null;
+  status: InvoiceStatus;
   expires_at: string;
   created_at: string;
   qr_code?: string;
@@ -11,37 +24,143 @@ export interface Invoice {
   preimage?: string | null;
 }
 
+export type LightningNetwork = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+export interface RouteHintHop {
+  public_key: string;
+  short_channel_id: string;
+  fee_base_msat: number;
+  fee_proportional_millionths: number;
+  cltv_expiry_delta: number;
+}
+
+export interface InvoiceFeature {
+  bit: number;
+  name: string | null;
+  is_required: boolean;
+}
+
+export interface InvoiceCrossCheck {
+  node_id: string;
+  matches: boolean | null;
+  mismatches: string[];
+  error?: string;
+}
+
 export interface DecodedInvoice {
   payment_hash: string;
+  network: LightningNetwork;
   amount: number;
+  amount_msat: number;
   description: string;
+  description_hash: string | null;
   expires_at: string;
   destination: string;
   timestamp: number;
+  payment_secret: string | null;
+  metadata: string | null;
+  min_final_cltv_expiry: number;
+  fallback_addresses: string[];
+  route_hints: RouteHintHop[][];
+  features: InvoiceFeature[];
+  signature: string;
+  signature_valid: boolean;
+  cross_check?: InvoiceCrossCheck;
 }
 
 export interface Payment {
   payment_hash: string;
-  status: 'pending' | 'succeeded' | 'failed';
+  node_id: string;
+  kind?: TransactionKind;
+  status: 'awaiting_approval' | 'pending' | 'succeeded' | 'failed';
   preimage: string | null;
   amount: number;
   fee: number;
-  payment_request: string;
+  payment_request: string | null;
+  destination?: string | null;
+  custom_records?: CustomRecord[];
+  withdraw_link_id?: string | null; // Voucher this payment redeemed
+  requested_by?: string | null; // API key that asked for the payment
+  reviewed_by?: string | null; // API key that approved or rejected it
+  reviewed_at?: string | null;
   created_at: string;
   error?: string;
+  error_message?: string | null;
+  failure_code?: string | null;
+  max_fee?: number | null;
+  timeout_seconds?: number | null;
+  retry_count?: number;
+  attempts?: PaymentAttempt[];
+  duplicate?: 'already_paid' | 'in_flight'; // The invoice already had this payment
+}
+
+export interface PaymentLimits {
+  max_fee_sats?: number;
+  max_fee_percent?: number;
+  timeout_seconds?: number;
+}
+
+export interface PaymentOptions extends PaymentLimits {
+  amount?: number;
+  comment?: string; // Lightning Addresses and LNURLs only
+}
+
+export interface CustomRecord {
+  type: string;
+  value: string;
+}
+
+export interface KeysendOptions extends PaymentLimits {
+  message?: string;
+  custom_records?: CustomRecord[];
+}
+
+export interface PaymentAttempt {
+  attempt_number: number;
+  status: 'pending' | 'succeeded' | 'failed';
+  route: { channel: string; public_key: string; fee: number }[] | null;
+  fee: number | null;
+  failure_code: string | null;
+  failure_reason: string | null;
+  started_at: string;
+  finished_at: string | null;
 }
 
 export interface Transaction {
   paymentHash: string;
   type: 'invoice' | 'payment';
-  amount: number;
-  status: 'pending' | 'succeeded' | 'failed' | 'expired';
+  kind: TransactionKind;
+  nodeId: string;
+  amount: number | null;
+  status: InvoiceStatus | 'failed' | 'awaiting_approval';
   description: string | null;
   fee?: number | null;
   createdAt: string;
   settledAt: string | null;
 }
 
+export interface TransactionFilters {
+  type?: Transaction['type'];
+  status?: Transaction['status'];
+  from?: string; // ISO 8601, created at or after
+  to?: string; // ISO 8601, created at or before
+  min_amount?: number;
+  max_amount?: number;
+  q?: string; // Text in the description
+  payment_hash?: string; // Hex prefix
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    next_cursor: string | null; // Pass back as cursor for the next page
+  };
+}
+
 export interface Balance {
   recorded: {
     total_received: number;
@@ -69,10 +188,54 @@ export interface NodeInfo {
   synced_to_chain: boolean;
   block_height: number;
   version: string;
+  network: LightningNetwork | null;
+}
+
+export interface NodeConnectionStatus {
+  state: 'idle' | 'connecting' | 'connected' | 'reconnecting';
+  connected_at: string | null;
+  checked_at: string | null;
+  credentials_loaded_at: string | null;
+  error: string | null;
+  reconnect_attempts: number;
+  next_retry_at: string | null;
+}
+
+export interface NodeSummary {
+  id: string;
+  alias: string;
+  role: 'receiver' | 'sender' | 'both';
+  host: string;
+  connection: NodeConnectionStatus;
+  info: NodeInfo | null;
+  error?: string;
+}
+
+export interface PayUsername {
+  username: string;
+  node_id: string;
+  lightning_address: string;
+  lnurl: string;
+  description: string | null;
+  min_sendable: number;
+  max_sendable: number;
+  comment_allowed: number;
+  created_at: string;
+}
+
+export interface ResolvedPayRequest {
+  target: string;
+  url: string;
+  domain: string;
+  description: string;
+  min_sendable: number; // millisatoshis
+  max_sendable: number; // millisatoshis
+  comment_allowed: number;
 }
 
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: string;
 }
@@ -0,0 +1,13 @@
+-- AlterTable: existing rows belong to the classic two-node setup
+ALTER TABLE "invoices" ADD COLUMN "node_id" VARCHAR(64) NOT NULL DEFAULT 'node_a';
+ALTER TABLE "invoices" ALTER COLUMN "node_id" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "node_id" VARCHAR(64) NOT NULL DEFAULT 'node_b';
+ALTER TABLE "payments" ALTER COLUMN "node_id" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "idx_invoices_node" ON "invoices"("node_id");
+
+-- CreateIndex
+CREATE INDEX "idx_payments_node" ON "payments"("node_id");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "payment_attempts" (
+    "id" SERIAL NOT NULL,
+    "payment_hash" VARCHAR(64) NOT NULL,
+    "attempt_number" INTEGER NOT NULL,
+    "status" "payment_status" NOT NULL DEFAULT 'pending',
+    "route" JSONB,
+    "fee" BIGINT,
+    "failure_code" VARCHAR(64),
+    "failure_reason" TEXT,
+    "started_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMPTZ,
+
+    CONSTRAINT "payment_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "idx_payment_attempts_number" ON "payment_attempts"("payment_hash", "attempt_number");
+
+-- AddForeignKey
+ALTER TABLE "payment_attempts" ADD CONSTRAINT "payment_attempts_payment_hash_fkey" FOREIGN KEY ("payment_hash") REFERENCES "payments"("payment_hash") ON DELETE CASCADE ON UPDATE CASCADE;
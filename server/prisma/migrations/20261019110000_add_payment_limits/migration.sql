@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "max_fee" BIGINT,
+ADD COLUMN "timeout_seconds" INTEGER;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "invoices" ALTER COLUMN "amount" DROP NOT NULL,
+ADD COLUMN "received_amount" BIGINT;
+
+-- Backfill invoices settled before amounts were recorded
+UPDATE "invoices" SET "received_amount" = "amount" WHERE "status" = 'succeeded';
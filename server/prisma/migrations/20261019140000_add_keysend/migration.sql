@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "transaction_kind" AS ENUM ('invoice', 'keysend');
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "kind" "transaction_kind" NOT NULL DEFAULT 'invoice',
+ALTER COLUMN "payment_request" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "custom_records" JSONB,
+ADD COLUMN "kind" "transaction_kind" NOT NULL DEFAULT 'invoice',
+ALTER COLUMN "payment_request" DROP NOT NULL;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "pay_usernames" (
+    "username" VARCHAR(64) NOT NULL,
+    "node_id" VARCHAR(64) NOT NULL,
+    "description" TEXT,
+    "min_sendable" BIGINT NOT NULL,
+    "max_sendable" BIGINT NOT NULL,
+    "comment_allowed" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pay_usernames_pkey" PRIMARY KEY ("username")
+);
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "comment" TEXT,
+ADD COLUMN "username" VARCHAR(64);
+
+-- CreateIndex
+CREATE INDEX "idx_invoices_username" ON "invoices"("username");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_username_fkey" FOREIGN KEY ("username") REFERENCES "pay_usernames"("username") ON DELETE SET NULL ON UPDATE CASCADE;
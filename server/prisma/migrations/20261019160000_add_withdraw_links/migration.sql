@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "withdraw_links" (
+    "id" UUID NOT NULL,
+    "k1" VARCHAR(64) NOT NULL,
+    "node_id" VARCHAR(64) NOT NULL,
+    "description" TEXT,
+    "min_withdrawable" BIGINT NOT NULL,
+    "max_withdrawable" BIGINT NOT NULL,
+    "max_uses" INTEGER NOT NULL DEFAULT 1,
+    "uses" INTEGER NOT NULL DEFAULT 0,
+    "expires_at" TIMESTAMPTZ,
+    "disabled_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "withdraw_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "idx_withdraw_links_k1" ON "withdraw_links"("k1");
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "withdraw_link_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "idx_payments_withdraw_link" ON "payments"("withdraw_link_id");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_withdraw_link_id_fkey" FOREIGN KEY ("withdraw_link_id") REFERENCES "withdraw_links"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "invoice_subscription_cursors" (
+    "node_id" VARCHAR(64) NOT NULL,
+    "add_index" BIGINT NOT NULL DEFAULT 0,
+    "settle_index" BIGINT NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoice_subscription_cursors_pkey" PRIMARY KEY ("node_id")
+);
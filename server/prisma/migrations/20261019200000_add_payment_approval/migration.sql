@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "payment_status" ADD VALUE 'awaiting_approval';
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "requested_by" VARCHAR(64),
+ADD COLUMN "reviewed_by" VARCHAR(64),
+ADD COLUMN "reviewed_at" TIMESTAMPTZ;
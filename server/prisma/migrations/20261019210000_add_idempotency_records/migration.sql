@@ -0,0 +1,21 @@
+-- Keys are kept in idempotency_records now and may be reused once they expire
+DROP INDEX "idx_payments_idempotency";
+
+-- CreateIndex
+CREATE INDEX "idx_payments_idempotency" ON "payments"("idempotency_key");
+
+-- CreateTable
+CREATE TABLE "idempotency_records" (
+    "client" VARCHAR(64) NOT NULL,
+    "key" VARCHAR(64) NOT NULL,
+    "fingerprint" VARCHAR(64) NOT NULL,
+    "status_code" INTEGER,
+    "response_body" JSONB,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "idempotency_records_pkey" PRIMARY KEY ("client","key")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_idempotency_records_expires" ON "idempotency_records"("expires_at");
@@ -0,0 +1,34 @@
+-- CreateView
+-- Invoices and payments as one list, newest first by (created_at, payment_hash, type)
+CREATE VIEW "transaction_ledger" AS
+SELECT
+    'invoice'::TEXT AS "type",
+    "payment_hash",
+    "kind",
+    "node_id",
+    COALESCE("received_amount", "amount") AS "amount",
+    NULL::BIGINT AS "fee",
+    "status"::TEXT AS "status",
+    "description",
+    "created_at",
+    "settled_at"
+FROM "invoices"
+UNION ALL
+SELECT
+    'payment'::TEXT AS "type",
+    "payment_hash",
+    "kind",
+    "node_id",
+    "amount",
+    "fee",
+    "status"::TEXT AS "status",
+    "description",
+    "created_at",
+    "settled_at"
+FROM "payments";
+
+-- CreateIndex
+CREATE INDEX "idx_invoices_ledger" ON "invoices"("created_at" DESC, "payment_hash" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_payments_ledger" ON "payments"("created_at" DESC, "payment_hash" DESC);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "idempotency_records" ADD COLUMN "locked_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP;
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import express from 'express';
 import request from 'supertest';
+import { setBackend, createMockBackend } from '../services/backends/index.js';
 
 /**
  * Integration tests for API routes.
@@ -20,9 +21,11 @@ const createTestApp = async () => {
   // Import real validation middleware
   const { default: invoiceRoutes } = await import('../routes/invoice.js');
   const { default: paymentRoutes } = await import('../routes/payment.js');
+  const { default: nodeRoutes } = await import('../routes/nodes.js');
 
   app.use('/api/invoice', invoiceRoutes);
   app.use('/api/payment', paymentRoutes);
+  app.use('/api/nodes', nodeRoutes);
 
   return app;
 };
@@ -74,6 +77,42 @@ describe('Invoice API Validation', () => {
     expect(res.status).toBe(400);
   });
 
+  it('POST /api/invoice rejects an amount on any amount invoices', async () => {
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/invoice')
+      .send({ any_amount: true, amount: 1000 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors.map((e: { path: string }) => e.path)).toEqual(['amount']);
+  });
+
+  it('POST /api/invoice/hold rejects a missing payment hash', async () => {
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/invoice/hold')
+      .send({ amount: 1000 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors.map((e: { path: string }) => e.path)).toContain('payment_hash');
+  });
+
+  it('POST /api/invoice/:payment_hash/settle rejects a malformed preimage', async () => {
+    const app = await createTestApp();
+    const res = await request(app)
+      .post(`/api/invoice/${'ab'.repeat(32)}/settle`)
+      .send({ preimage: 'not-hex' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('DELETE /api/invoice/:payment_hash rejects a malformed payment hash', async () => {
+    const app = await createTestApp();
+    const res = await request(app).delete('/api/invoice/not-a-hash');
+
+    expect(res.status).toBe(400);
+  });
+
   it('POST /api/invoice/decode rejects invalid invoice format', async () => {
     const app = await createTestApp();
     const res = await request(app)
@@ -83,6 +122,42 @@ describe('Invoice API Validation', () => {
     expect(res.status).toBe(400);
   });
 
+  it('POST /api/invoice/decode decodes an invoice and cross-checks it with the node', async () => {
+    const backend = createMockBackend({ seed: 'api-test' });
+    setBackend(backend);
+    const invoice = await backend.createInvoice('node_a', { tokens: 1500, description: 'Coffee' });
+    const alice = await backend.getInfo('node_a');
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/invoice/decode')
+      .send({ payment_request: invoice.request, cross_check: true });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.payment_hash).toBe(invoice.id);
+    expect(res.body.data.amount).toBe(1500);
+    expect(res.body.data.description).toBe('Coffee');
+    expect(res.body.data.network).toBe('regtest');
+    expect(res.body.data.destination).toBe(alice.public_key);
+    expect(res.body.data.signature_valid).toBe(true);
+    expect(res.body.data.cross_check).toEqual({ node_id: 'node_b', matches: true, mismatches: [] });
+  });
+
+  it('POST /api/invoice/decode rejects invoices for another network than the node runs on', async () => {
+    // The mock nodes report the regtest chain
+    setBackend(createMockBackend({ seed: 'api-test' }));
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/invoice/decode')
+      .send({
+        payment_request:
+          'lnbc1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq9qrsgq357wnc5r2ueh7ck6q93dj32dlqnls087fxdwk8qakdyafkq3yap9us6v52vjjsrvywa6rt52cm9r9zqt8r2t7mlcwspyetp5h2tztugp9lfyql',
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('WRONG_NETWORK');
+  });
+
   it('POST /api/invoice/decode rejects missing payment_request', async () => {
     const app = await createTestApp();
     const res = await request(app)
@@ -111,4 +186,127 @@ describe('Payment API Validation', () => {
 
     expect(res.status).toBe(400);
   });
+
+  it('POST /api/payment reports which invoice check failed', async () => {
+    const backend = createMockBackend({ seed: 'api-test' });
+    setBackend(backend);
+    const invoice = await backend.createInvoice('node_a', { tokens: 1000 });
+    const mistyped = invoice.request.replace(/.$/, (c) => (c === 'q' ? 'p' : 'q'));
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/payment')
+      .send({ payment_request: mistyped });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('INVALID_CHECKSUM');
+  });
+
+  it('POST /api/payment rejects out of range fee and timeout limits', async () => {
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/payment')
+      .send({ payment_request: 'lnbcrt1000n1test', max_fee_percent: 150, timeout_seconds: 0 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors.map((e: { path: string }) => e.path)).toEqual([
+      'max_fee_percent',
+      'timeout_seconds',
+    ]);
+  });
+
+  it('POST /api/payment requires an amount for zero-amount invoices', async () => {
+    const backend = createMockBackend({ seed: 'api-test' });
+    setBackend(backend);
+    const invoice = await backend.createInvoice('node_a', { tokens: 0 });
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/payment')
+      .send({ payment_request: invoice.request });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('AMOUNT_REQUIRED');
+  });
+
+  it('POST /api/payment rejects an amount for invoices that specify one', async () => {
+    const backend = createMockBackend({ seed: 'api-test' });
+    setBackend(backend);
+    const invoice = await backend.createInvoice('node_a', { tokens: 1000 });
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/payment')
+      .send({ payment_request: invoice.request, amount: 500 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('AMOUNT_NOT_ALLOWED');
+  });
+
+  it('POST /api/payment/keysend validates destination, amount and custom records', async () => {
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/payment/keysend')
+      .send({
+        destination: 'not-a-pubkey',
+        amount: 0,
+        custom_records: [{ type: '100', value: '0102' }, { type: '65536', value: 'xyz' }],
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors.map((e: { path: string }) => e.path)).toEqual([
+      'destination',
+      'amount',
+      'custom_records[0].type',
+      'custom_records[1].value',
+    ]);
+  });
+
+  it('POST /api/payment refuses routes above the fee cap with FEE_LIMIT_EXCEEDED', async () => {
+    const backend = createMockBackend({ seed: 'api-test', routing_fee: 10 });
+    setBackend(backend);
+    const invoice = await backend.createInvoice('node_a', { tokens: 1000 });
+
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/payment')
+      .send({ payment_request: invoice.request, max_fee_sats: 5 });
+
+    expect(res.status).toBe(422);
+    expect(res.body.code).toBe('FEE_LIMIT_EXCEEDED');
+    expect(res.body.details).toEqual({ estimated_fee: 10, max_fee: 5 });
+  });
+});
+
+describe('Node Registry API', () => {
+  it('GET /api/nodes lists every registered node', async () => {
+    setBackend(createMockBackend({ seed: 'api-test' }));
+    const app = await createTestApp();
+    const res = await request(app).get('/api/nodes');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.map((node: { id: string }) => node.id)).toEqual(['node_a', 'node_b']);
+    expect(res.body.data[0].role).toBe('receiver');
+    expect(res.body.data[0].info.alias).toBe('alice');
+    expect(res.body.data[0].info.network).toBe('regtest');
+    expect(res.body.data[0].connection.state).toBe('connected');
+  });
+
+  it('POST /api/nodes/:id/invoice rejects unknown nodes', async () => {
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/nodes/unknown/invoice')
+      .send({ amount: 1000 });
+
+    expect(res.status).toBe(404);
+  });
+
+  it('POST /api/nodes/:id/payment validates the body for a known node', async () => {
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/nodes/node_b/payment')
+      .send({ payment_request: 'invalid' });
+
+    expect(res.status).toBe(400);
+  });
 });
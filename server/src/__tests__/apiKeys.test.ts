@@ -0,0 +1,199 @@
+import { createHash, randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { apiKeyAuth, getRequiredScope } from '../middleware/apiKeyAuth.js';
+
+/**
+ * API key tests.
+ * The database is replaced with spies over an in-memory key table; the
+ * routes behind the middleware answer with the key that got through.
+ */
+
+const db = vi.hoisted(() => ({
+  apiKey: {
+    create: vi.fn(),
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+}));
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+
+const ADMIN_KEY = 'test-admin-key';
+
+const apiKeys = new Map<string, any>();
+
+const createTestApp = async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api', apiKeyAuth);
+
+  const { default: apiKeyRoutes } = await import('../routes/apiKeys.js');
+  app.use('/api/keys', apiKeyRoutes);
+  app.all('/api/*', (req, res) => {
+    res.json({ success: true, data: { key: req.apiKey?.name ?? null } });
+  });
+
+  return app;
+};
+
+const bearer = (key: string) => ({ Authorization: `Bearer ${key}` });
+
+describe('API keys', () => {
+  let app: express.Express;
+
+  // Create a key through the API with the admin key
+  const createKey = async (scopes: string[]) => {
+    const res = await request(app)
+      .post('/api/keys')
+      .set(bearer(ADMIN_KEY))
+      .send({ name: scopes.join('+'), scopes });
+    expect(res.status).toBe(201);
+    return res.body.data;
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    apiKeys.clear();
+    process.env.API_ADMIN_KEY = ADMIN_KEY;
+
+    db.apiKey.create.mockImplementation(async ({ data }) => {
+      const apiKey = {
+        id: randomUUID(),
+        lastUsedAt: null,
+        revokedAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...data,
+      };
+      apiKeys.set(apiKey.id, apiKey);
+      return apiKey;
+    });
+    db.apiKey.findMany.mockImplementation(async () => [...apiKeys.values()]);
+    db.apiKey.findUnique.mockImplementation(async ({ where }) =>
+      [...apiKeys.values()].find((apiKey) =>
+        where.id ? apiKey.id === where.id : apiKey.keyHash === where.keyHash
+      ) ?? null
+    );
+    db.apiKey.update.mockImplementation(async ({ where, data }) =>
+      Object.assign(apiKeys.get(where.id), data)
+    );
+    db.apiKey.updateMany.mockImplementation(async ({ where, data }) => {
+      Object.assign(apiKeys.get(where.id), data);
+      return { count: 1 };
+    });
+
+    app = await createTestApp();
+  });
+
+  afterEach(() => {
+    delete process.env.API_ADMIN_KEY;
+  });
+
+  it('creates keys, showing them once and storing only their hash', async () => {
+    const created = await createKey(['read', 'payments:write']);
+
+    expect(created).toMatchObject({
+      name: 'read+payments:write',
+      scopes: ['read', 'payments:write'],
+      revoked_at: null,
+    });
+    expect(created.key).toMatch(/^lnk_[0-9a-f]{48}$/);
+    expect(created.prefix).toBe(created.key.slice(0, 12));
+
+    const stored = apiKeys.get(created.id);
+    expect(stored.keyHash).toBe(createHash('sha256').update(created.key).digest('hex'));
+    expect(JSON.stringify(stored)).not.toContain(created.key);
+
+    const list = await request(app).get('/api/keys').set(bearer(created.key));
+    expect(list.status).toBe(403);
+
+    const listed = await request(app).get('/api/keys').set(bearer(ADMIN_KEY));
+    expect(listed.status).toBe(200);
+    expect(listed.body.data).toEqual([expect.objectContaining({ id: created.id, prefix: created.prefix })]);
+    expect(listed.body.data[0]).not.toHaveProperty('key');
+
+    const invalid = await request(app)
+      .post('/api/keys')
+      .set(bearer(ADMIN_KEY))
+      .send({ name: 'bad', scopes: ['everything'] });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('refuses requests without a valid key, except on public routes', async () => {
+    const missing = await request(app).post('/api/payment').send({});
+    expect(missing.status).toBe(401);
+    expect(missing.body.code).toBe('API_KEY_REQUIRED');
+
+    const unknown = await request(app).get('/api/transactions').set(bearer('lnk_nope'));
+    expect(unknown.status).toBe(401);
+    expect(unknown.body.code).toBe('INVALID_API_KEY');
+
+    const basic = await request(app).get('/api/transactions').set('Authorization', `Basic ${ADMIN_KEY}`);
+    expect(basic.status).toBe(401);
+
+    for (const path of ['/api/health', '/api/lnurl/pay/alice/callback', `/api/lnurl/withdraw/${'ab'.repeat(32)}`]) {
+      const res = await request(app).get(path);
+      expect(res.status, path).toBe(200);
+    }
+
+    delete process.env.API_ADMIN_KEY;
+    const noAdmin = await request(app).get('/api/keys').set(bearer(ADMIN_KEY));
+    expect(noAdmin.status).toBe(401);
+  });
+
+  it('only lets keys call routes their scopes cover', async () => {
+    const reader = await createKey(['read']);
+    const payer = await createKey(['payments:write']);
+    const invoicer = await createKey(['invoices:write']);
+
+    const status = async (key: string, method: 'get' | 'post' | 'delete', path: string) =>
+      (await request(app)[method](path).set(bearer(key)).send({})).status;
+
+    expect(await status(reader.key, 'get', '/api/transactions')).toBe(200);
+    expect(await status(reader.key, 'post', '/api/invoice/decode')).toBe(200);
+    expect(await status(reader.key, 'post', '/api/payment')).toBe(403);
+    expect(await status(reader.key, 'post', '/api/invoice')).toBe(403);
+    expect(await status(reader.key, 'get', '/api/lnurl/withdraw-links')).toBe(403);
+
+    expect(await status(payer.key, 'post', '/api/payment/keysend')).toBe(200);
+    expect(await status(payer.key, 'post', '/api/nodes/node_b/payment')).toBe(200);
+    expect(await status(payer.key, 'post', '/api/lnurl/withdraw-links')).toBe(200);
+    expect(await status(payer.key, 'get', '/api/lnurl/withdraw-links')).toBe(200);
+    expect(await status(payer.key, 'post', '/api/invoice')).toBe(403);
+    expect(await status(payer.key, 'get', '/api/balance')).toBe(403);
+
+    expect(await status(invoicer.key, 'post', '/api/nodes/node_a/invoice/hold')).toBe(200);
+    expect(await status(invoicer.key, 'delete', `/api/invoice/${'ab'.repeat(32)}`)).toBe(200);
+    expect(await status(invoicer.key, 'post', '/api/payment')).toBe(403);
+    expect(await status(invoicer.key, 'post', '/api/webhooks')).toBe(403);
+
+    expect(await status(ADMIN_KEY, 'post', '/api/webhooks')).toBe(200);
+    expect(await status(ADMIN_KEY, 'post', '/api/payment')).toBe(200);
+
+    // Routes nobody listed need the admin scope
+    expect(getRequiredScope('PUT', '/invoice/abc')).toBe('admin');
+    expect(getRequiredScope('POST', '/something-new')).toBe('admin');
+
+    // Stored keys record when they were used
+    expect(apiKeys.get(reader.id).lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it('refuses keys once they are revoked', async () => {
+    const reader = await createKey(['read']);
+    expect((await request(app).get('/api/balance').set(bearer(reader.key))).status).toBe(200);
+
+    const revoked = await request(app).delete(`/api/keys/${reader.id}`).set(bearer(ADMIN_KEY));
+    expect(revoked.status).toBe(200);
+    expect(revoked.body.data.revoked_at).toEqual(expect.any(String));
+
+    const res = await request(app).get('/api/balance').set(bearer(reader.key));
+    expect(res.status).toBe(401);
+
+    const unknown = await request(app).delete(`/api/keys/${randomUUID()}`).set(bearer(ADMIN_KEY));
+    expect(unknown.status).toBe(404);
+  });
+});
@@ -0,0 +1,149 @@
+import { createECDH, createHash } from 'crypto';
+import { describe, it, expect, afterEach } from 'vitest';
+import bolt11 from 'bolt11';
+import { decodeBolt11 } from '../lib/bolt11.js';
+import { decodeBech32, encodeBech32 } from '../lib/bech32.js';
+import { decodeInvoice } from '../services/lightning.js';
+
+/**
+ * BOLT11 decoder tests.
+ * Checked against the examples from the BOLT11 spec and against invoices
+ * signed with the bolt11 package.
+ */
+
+// From the BOLT11 spec; signed by this key
+const SPEC_PAYEE = '03e7156ae33b0a208d0744199163177e909e80176e55d97a2f221ede0f934dd9ad';
+const SPEC_INVOICE =
+  'lnbc1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq9qrsgq357wnc5r2ueh7ck6q93dj32dlqnls087fxdwk8qakdyafkq3yap9us6v52vjjsrvywa6rt52cm9r9zqt8r2t7mlcwspyetp5h2tztugp9lfyql';
+
+const REGTEST = { bech32: 'bcrt', pubKeyHash: 0x6f, scriptHash: 0xc4, validWitnessVersions: [0, 1] };
+const PRIVATE_KEY = createHash('sha256').update('bolt11-test').digest('hex');
+
+const sign = (options: bolt11.PaymentRequestObject): string =>
+  bolt11.sign(
+    bolt11.encode({ network: REGTEST, timestamp: 1_700_000_000, ...options }),
+    PRIVATE_KEY
+  ).paymentRequest as string;
+
+describe('BOLT11 decoder', () => {
+  afterEach(() => {
+    delete process.env.LIGHTNING_NETWORK;
+  });
+
+  it('decodes the spec example and recovers its payee', () => {
+    const invoice = decodeBolt11(SPEC_INVOICE);
+
+    expect(invoice).toMatchObject({
+      network: 'mainnet',
+      amount_msat: null,
+      timestamp: 1496314658,
+      payment_hash: '0001020304050607080900010203040506070809000102030405060708090102',
+      payment_secret: '11'.repeat(32),
+      description: 'Please consider supporting this project',
+      payee: SPEC_PAYEE,
+      expiry: 3600,
+      min_final_cltv_expiry: 18,
+      signature_valid: true,
+    });
+    expect(invoice.features.map((f) => f.name)).toEqual(['var_onion_optin', 'payment_secret']);
+  });
+
+  it('decodes amounts, route hints, fallback addresses and the CLTV delta', () => {
+    const hop = {
+      pubkey: '02' + 'aa'.repeat(32),
+      short_channel_id: '0001f40000070002',
+      fee_base_msat: 1000,
+      fee_proportional_millionths: 100,
+      cltv_expiry_delta: 40,
+    };
+    const request = sign({
+      millisatoshis: '2500000',
+      tags: [
+        { tagName: 'payment_hash', data: 'ab'.repeat(32) },
+        { tagName: 'description', data: 'Route hints' },
+        { tagName: 'expire_time', data: 600 },
+        { tagName: 'min_final_cltv_expiry', data: 144 },
+        { tagName: 'routing_info', data: [hop] },
+        {
+          tagName: 'fallback_address',
+          data: {
+            code: 0,
+            address: 'bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080',
+            addressHash: '751e76e8199196d454941c45d1b3a323f1433bd6',
+          },
+        },
+      ],
+    });
+
+    const invoice = decodeBolt11(request);
+    const reference = bolt11.decode(request, REGTEST);
+
+    expect(invoice).toMatchObject({
+      network: 'regtest',
+      amount_msat: 2_500_000n,
+      expiry: 600,
+      min_final_cltv_expiry: 144,
+      payee: reference.payeeNodeKey,
+      fallback_addresses: ['bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080'],
+      route_hints: [
+        [
+          {
+            public_key: hop.pubkey,
+            short_channel_id: '500x7x2',
+            fee_base_msat: 1000,
+            fee_proportional_millionths: 100,
+            cltv_expiry_delta: 40,
+          },
+        ],
+      ],
+      signature_valid: true,
+    });
+  });
+
+  it('checks the signature against an explicit payee key', () => {
+    const ecdh = createECDH('secp256k1');
+    ecdh.setPrivateKey(PRIVATE_KEY, 'hex');
+    const payee = ecdh.getPublicKey('hex', 'compressed');
+    const request = sign({
+      satoshis: 10,
+      tags: [
+        { tagName: 'payment_hash', data: 'cd'.repeat(32) },
+        { tagName: 'payee_node_key', data: payee },
+        { tagName: 'description', data: 'Signed' },
+      ],
+    });
+
+    expect(decodeBolt11(request)).toMatchObject({ payee, signature_valid: true });
+
+    // Change a word of the signed data and fix up the checksum
+    const { prefix, words } = decodeBech32(request)!;
+    words[words.length - 105] ^= 1;
+    const tampered = encodeBech32(prefix, words);
+
+    expect(decodeBolt11(tampered)).toMatchObject({ payee, signature_valid: false });
+  });
+
+  it('rejects a corrupted checksum', () => {
+    const corrupted = SPEC_INVOICE.slice(0, -1) + (SPEC_INVOICE.endsWith('l') ? 'q' : 'l');
+
+    expect(() => decodeBolt11(corrupted)).toThrowError(
+      expect.objectContaining({ 1: 'InvalidPaymentRequest' })
+    );
+  });
+
+  it('rejects invoices for another network than the configured one', async () => {
+    process.env.LIGHTNING_NETWORK = 'regtest';
+
+    await expect(decodeInvoice(SPEC_INVOICE)).rejects.toEqual([
+      400,
+      'InvalidPaymentRequest',
+      expect.objectContaining({ code: 'WRONG_NETWORK' }),
+    ]);
+
+    process.env.LIGHTNING_NETWORK = 'mainnet';
+    await expect(decodeInvoice(SPEC_INVOICE)).resolves.toMatchObject({
+      network: 'mainnet',
+      destination: SPEC_PAYEE,
+    });
+  });
+});
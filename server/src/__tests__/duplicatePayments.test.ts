@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { setBackend, createMockBackend } from '../services/backends/index.js';
+import { LightningBackend } from '../types/backend.js';
+
+/**
+ * Duplicate payment tests.
+ * The database is replaced with spies over in-memory payment rows, so a
+ * second request for the same invoice sees the first one's payment.
+ */
+
+const db = vi.hoisted(() => ({
+  invoice: { updateMany: vi.fn() },
+  webhook: { findMany: vi.fn() },
+  payment: { findUnique: vi.fn(), create: vi.fn(), updateMany: vi.fn() },
+  paymentAttempt: { create: vi.fn(), updateMany: vi.fn(), findFirst: vi.fn() },
+  idempotencyRecord: { findUnique: vi.fn(), create: vi.fn(), update: vi.fn(), delete: vi.fn(), deleteMany: vi.fn() },
+}));
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+
+describe('Duplicate payments', () => {
+  let app: express.Express;
+  let backend: LightningBackend;
+  let payments: any[] = [];
+
+  const createTestApp = async () => {
+    const app = express();
+    app.use(express.json());
+
+    const { default: paymentRoutes } = await import('../routes/payment.js');
+    app.use('/api/payment', paymentRoutes);
+
+    return app;
+  };
+
+  const pay = (payment_request: string, idempotencyKey: string) =>
+    request(app).post('/api/payment').set('X-Idempotency-Key', idempotencyKey).send({ payment_request });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    payments = [];
+
+    db.invoice.updateMany.mockResolvedValue({ count: 1 });
+    db.webhook.findMany.mockResolvedValue([]);
+    // Every request has a key of its own
+    db.idempotencyRecord.findUnique.mockResolvedValue(null);
+    db.idempotencyRecord.create.mockResolvedValue({});
+    db.idempotencyRecord.update.mockResolvedValue({});
+    db.idempotencyRecord.deleteMany.mockResolvedValue({ count: 0 });
+    db.payment.findUnique.mockImplementation(
+      async ({ where }) => payments.find((payment) => payment.paymentHash === where.paymentHash) ?? null
+    );
+    db.payment.create.mockImplementation(async ({ data }) => {
+      const payment = { kind: 'invoice', preimage: null, errorMessage: null, createdAt: new Date(), ...data };
+      payments.push(payment);
+      return payment;
+    });
+    // Failed payments can be taken again; the tracker's updates are ignored to keep payments in flight
+    db.payment.updateMany.mockImplementation(async ({ where, data }) => {
+      if (where.status !== 'failed') return { count: 0 };
+      const matching = payments.filter(
+        (payment) => payment.paymentHash === where.paymentHash && payment.status === 'failed'
+      );
+      matching.forEach((payment) => Object.assign(payment, data));
+      return { count: matching.length };
+    });
+    db.paymentAttempt.create.mockResolvedValue({});
+    db.paymentAttempt.updateMany.mockResolvedValue({ count: 1 });
+    db.paymentAttempt.findFirst.mockResolvedValue({ attemptNumber: 2 });
+
+    backend = createMockBackend({ seed: 'duplicate-payments' });
+    setBackend(backend);
+    app = await createTestApp();
+  });
+
+  it('pays an invoice once when requests with different keys race', async () => {
+    const { request: invoice } = await backend.createInvoice('node_a', { tokens: 1000 });
+
+    const responses = await Promise.all([pay(invoice, 'first-request'), pay(invoice, 'second-request')]);
+
+    expect(db.payment.create).toHaveBeenCalledTimes(1);
+    expect(responses.map((res) => res.status)).toEqual([202, 202]);
+    expect(responses[0].body.data.duplicate).toBeUndefined();
+    expect(responses[1].body.data).toMatchObject({
+      payment_hash: responses[0].body.data.payment_hash,
+      duplicate: 'in_flight',
+    });
+  });
+
+  it('returns the payment of an invoice that was already paid', async () => {
+    const { request: invoice } = await backend.createInvoice('node_a', { tokens: 1000 });
+    const first = await pay(invoice, 'first-request');
+    Object.assign(payments[0], { status: 'succeeded', preimage: 'ab'.repeat(32) });
+
+    const res = await pay(invoice, 'second-request');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({
+      payment_hash: first.body.data.payment_hash,
+      status: 'succeeded',
+      duplicate: 'already_paid',
+    });
+    expect(db.paymentAttempt.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('tries a failed payment again under the same row', async () => {
+    const { request: invoice } = await backend.createInvoice('node_a', { tokens: 1000 });
+    const first = await pay(invoice, 'first-request');
+    Object.assign(payments[0], { status: 'failed', errorMessage: 'No route found' });
+
+    const res = await pay(invoice, 'second-request');
+
+    expect(res.status).toBe(202);
+    expect(res.body.data).toMatchObject({ payment_hash: first.body.data.payment_hash, status: 'pending' });
+    expect(db.payment.create).toHaveBeenCalledTimes(1);
+    expect(payments).toHaveLength(1);
+    expect(payments[0]).toMatchObject({ status: 'pending', errorMessage: null, idempotencyKey: 'second-request' });
+
+    // The attempt after the two recorded ones
+    await vi.waitFor(() =>
+      expect(db.paymentAttempt.create).toHaveBeenLastCalledWith({
+        data: { paymentHash: first.body.data.payment_hash, attemptNumber: 3 },
+      })
+    );
+  });
+
+  it('refuses to try a failed payment again once another server took it', async () => {
+    const { request: invoice } = await backend.createInvoice('node_a', { tokens: 1000 });
+    await pay(invoice, 'first-request');
+    Object.assign(payments[0], { status: 'failed', errorMessage: 'No route found' });
+    const attempts = db.paymentAttempt.create.mock.calls.length;
+
+    // Another instance flips the row between this one reading and updating it
+    const updatePayments = db.payment.updateMany.getMockImplementation()!;
+    db.payment.updateMany.mockImplementation(async (args) => {
+      if (args.where.status !== 'failed') return updatePayments(args);
+      payments[0].status = 'pending';
+      return { count: 0 };
+    });
+
+    const res = await pay(invoice, 'second-request');
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('DUPLICATE_PAYMENT');
+    expect(db.paymentAttempt.create).toHaveBeenCalledTimes(attempts);
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { Prisma } from '@prisma/client';
+import { setBackend, createMockBackend } from '../services/backends/index.js';
+import { LightningBackend } from '../types/backend.js';
+
+/**
+ * Idempotency key tests.
+ * The database is replaced with spies over in-memory idempotency records,
+ * payments and invoices.
+ */
+
+const db = vi.hoisted(() => ({
+  invoice: { create: vi.fn(), updateMany: vi.fn() },
+  webhook: { findMany: vi.fn() },
+  payment: { findUnique: vi.fn(), create: vi.fn(), updateMany: vi.fn() },
+  paymentAttempt: { create: vi.fn(), updateMany: vi.fn() },
+  idempotencyRecord: {
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    delete: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+}));
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+
+describe('Idempotency keys', () => {
+  let app: express.Express;
+  let backend: LightningBackend;
+  let records: Map<string, any>;
+  let payments: any[] = [];
+
+  const recordId = ({ client, key }: { client: string; key: string }) => `${client}:${key}`;
+
+  const createTestApp = async () => {
+    const app = express();
+    app.use(express.json());
+
+    const { default: invoiceRoutes } = await import('../routes/invoice.js');
+    const { default: paymentRoutes } = await import('../routes/payment.js');
+    app.use('/api/invoice', invoiceRoutes);
+    app.use('/api/payment', paymentRoutes);
+
+    return app;
+  };
+
+  const pay = (payment_request: string, idempotencyKey: string) =>
+    request(app).post('/api/payment').set('X-Idempotency-Key', idempotencyKey).send({ payment_request });
+
+  const invoiceFor = async (tokens: number) => (await backend.createInvoice('node_a', { tokens })).request;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    records = new Map();
+    payments = [];
+
+    db.idempotencyRecord.findUnique.mockImplementation(
+      async ({ where }) => records.get(recordId(where.client_key)) ?? null
+    );
+    db.idempotencyRecord.create.mockImplementation(async ({ data }) => {
+      if (records.has(recordId(data))) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        });
+      }
+      const record = { statusCode: null, responseBody: null, createdAt: new Date(), ...data };
+      records.set(recordId(data), record);
+      return record;
+    });
+    db.idempotencyRecord.update.mockImplementation(async ({ where, data }) =>
+      Object.assign(records.get(recordId(where.client_key)), data)
+    );
+    db.idempotencyRecord.updateMany.mockImplementation(async ({ where, data }) => {
+      const record = records.get(recordId(where));
+      if (!record || record.statusCode !== null || record.lockedAt.getTime() !== where.lockedAt.getTime()) {
+        return { count: 0 };
+      }
+      Object.assign(record, data);
+      return { count: 1 };
+    });
+    db.idempotencyRecord.delete.mockImplementation(async ({ where }) => records.delete(recordId(where.client_key)));
+    db.idempotencyRecord.deleteMany.mockImplementation(async ({ where }) => {
+      const expired = [...records.entries()].filter(
+        ([, record]) =>
+          (!where.key || (record.client === where.client && record.key === where.key)) &&
+          (!where.expiresAt || record.expiresAt <= where.expiresAt.lte) &&
+          (where.statusCode !== null || record.statusCode === null)
+      );
+      expired.forEach(([id]) => records.delete(id));
+      return { count: expired.length };
+    });
+
+    db.invoice.create.mockResolvedValue({});
+    db.invoice.updateMany.mockResolvedValue({ count: 1 });
+    db.webhook.findMany.mockResolvedValue([]);
+    db.payment.findUnique.mockImplementation(
+      async ({ where }) => payments.find((payment) => payment.paymentHash === where.paymentHash) ?? null
+    );
+    db.payment.create.mockImplementation(async ({ data }) => {
+      const payment = { kind: 'invoice', createdAt: new Date(), ...data };
+      payments.push(payment);
+      return payment;
+    });
+    db.payment.updateMany.mockResolvedValue({ count: 0 });
+    db.paymentAttempt.create.mockResolvedValue({});
+    db.paymentAttempt.updateMany.mockResolvedValue({ count: 1 });
+
+    backend = createMockBackend({ seed: 'idempotency' });
+    setBackend(backend);
+    app = await createTestApp();
+  });
+
+  it('returns the first response verbatim when a payment is retried', async () => {
+    const invoice = await invoiceFor(1000);
+
+    const first = await pay(invoice, 'retry-payment');
+    const retry = await pay(invoice, 'retry-payment');
+
+    expect(first.status).toBe(202);
+    expect(retry.status).toBe(202);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(db.payment.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a key reused with a different request', async () => {
+    await pay(await invoiceFor(1000), 'reused-key');
+
+    const res = await pay(await invoiceFor(2000), 'reused-key');
+
+    expect(res.status).toBe(422);
+    expect(res.body).toMatchObject({ success: false, code: 'IDEMPOTENCY_KEY_REUSED' });
+    expect(db.payment.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets a key be used again once it expired', async () => {
+    await pay(await invoiceFor(1000), 'expiring-key');
+    records.get('anonymous:expiring-key').expiresAt = new Date(Date.now() - 1000);
+
+    const res = await pay(await invoiceFor(2000), 'expiring-key');
+
+    expect(res.status).toBe(202);
+    expect(res.headers).not.toHaveProperty('idempotent-replayed');
+    expect(db.payment.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs a request again once the one holding its key is abandoned', async () => {
+    const invoice = await invoiceFor(1000);
+    const hung = () => records.get('anonymous:hung-request');
+
+    // The first request recorded its key, then the process died before it answered
+    await pay(invoice, 'hung-request');
+    Object.assign(hung(), { statusCode: null, responseBody: null, lockedAt: new Date() });
+    payments = [];
+
+    const early = await pay(invoice, 'hung-request');
+    expect(early.status).toBe(409);
+    expect(early.body.code).toBe('IDEMPOTENCY_IN_PROGRESS');
+
+    hung().lockedAt = new Date(Date.now() - 61_000);
+    const retry = await pay(invoice, 'hung-request');
+
+    expect(retry.status).toBe(202);
+    expect(retry.headers).not.toHaveProperty('idempotent-replayed');
+    expect(hung()).toMatchObject({ statusCode: 202 });
+    expect(db.payment.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('frees the key when the response could not be stored', async () => {
+    const invoice = await invoiceFor(1000);
+    db.idempotencyRecord.update.mockRejectedValueOnce(new Error('connection lost'));
+
+    const first = await pay(invoice, 'unstored-response');
+    expect(first.status).toBe(202);
+    expect(records.has('anonymous:unstored-response')).toBe(false);
+
+    // The retry isn't refused as in progress; the invoice is already being paid
+    const retry = await pay(invoice, 'unstored-response');
+    expect(retry.status).toBe(202);
+    expect(retry.body.data.duplicate).toBe('in_flight');
+  });
+
+  it('creates one invoice for retried invoice requests', async () => {
+    const create = () =>
+      request(app)
+        .post('/api/invoice')
+        .set('X-Idempotency-Key', 'retry-invoice')
+        .send({ amount: 1000, description: 'coffee' });
+
+    const first = await create();
+    const retry = await create();
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.body.data.payment_hash).toBe(first.body.data.payment_hash);
+    expect(db.invoice.create).toHaveBeenCalledTimes(1);
+
+    // Validation errors answer as usual and don't take the key
+    const invalid = await request(app).post('/api/invoice').set('X-Idempotency-Key', 'short').send({ amount: 1000 });
+    expect(invalid.status).toBe(400);
+    expect(records.size).toBe(1);
+  });
+});
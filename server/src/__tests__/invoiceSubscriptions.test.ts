@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { setBackend, createMockBackend } from '../services/backends/index.js';
+import { startInvoiceSubscriptions, stopInvoiceSubscriptions } from '../services/invoiceSubscriptions.js';
+import { recordInvoiceUpdate } from '../services/invoiceUpdates.js';
+import { LightningBackend } from '../types/backend.js';
+
+/**
+ * Invoice subscription tests.
+ * The database is replaced with spies; invoices are created and paid on the
+ * mock backend, some of them while no subscription is running.
+ */
+
+const db = vi.hoisted(() => {
+  process.env.INVOICE_SUBSCRIPTION_RETRY_BASE_DELAY_MS = '1';
+
+  return {
+    invoiceSubscriptionCursor: { findUnique: vi.fn(), upsert: vi.fn() },
+    invoice: { updateMany: vi.fn() },
+    webhook: { findMany: vi.fn() },
+  };
+});
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+
+// Invoices whose settlement was written to their row
+const settledHashes = () =>
+  db.invoice.updateMany.mock.calls
+    .map(([args]) => args)
+    .filter((args) => args.data.status === 'succeeded')
+    .map((args) => args.where.paymentHash);
+
+const lastCursor = () => db.invoiceSubscriptionCursor.upsert.mock.calls.at(-1)?.[0].update;
+
+describe('Invoice subscriptions', () => {
+  let backend: LightningBackend;
+
+  // Create an invoice on Alice and have Bob pay it
+  const settleInvoice = async (tokens: number) => {
+    const invoice = await backend.createInvoice('node_a', { tokens });
+    await backend.pay('node_b', { request: invoice.request });
+    return invoice;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.invoiceSubscriptionCursor.findUnique.mockResolvedValue(null);
+    db.invoiceSubscriptionCursor.upsert.mockResolvedValue({});
+    db.invoice.updateMany.mockResolvedValue({ count: 1 });
+    db.webhook.findMany.mockResolvedValue([]);
+
+    backend = createMockBackend({ seed: 'invoice-subscriptions' });
+    setBackend(backend);
+  });
+
+  afterEach(() => {
+    stopInvoiceSubscriptions();
+  });
+
+  it('replays invoices settled while the server was down', async () => {
+    const seen = await settleInvoice(100);
+    const missed = await settleInvoice(200);
+    db.invoiceSubscriptionCursor.findUnique.mockImplementation(async ({ where }) =>
+      where.nodeId === 'node_a' ? { nodeId: 'node_a', addIndex: 1n, settleIndex: 1n } : null
+    );
+
+    await startInvoiceSubscriptions();
+
+    await vi.waitFor(() => expect(lastCursor()).toMatchObject({ addIndex: 2, settleIndex: 2 }));
+    expect(settledHashes()).toEqual([missed.id, missed.id]);
+    expect(settledHashes()).not.toContain(seen.id);
+    expect(db.invoice.updateMany).toHaveBeenCalledWith({
+      where: { paymentHash: missed.id, status: { not: 'succeeded' } },
+      data: expect.objectContaining({ status: 'succeeded', preimage: missed.secret, settledAt: expect.any(Date) }),
+    });
+  });
+
+  it('records invoices the node canceled at their expiry as expired', async () => {
+    const hour = 60 * 60 * 1000;
+    const update = {
+      id: 'ab'.repeat(32),
+      is_confirmed: false,
+      is_held: false,
+      is_canceled: true,
+      is_push: false,
+      tokens: 100,
+      received: 0,
+      description: '',
+      secret: null,
+      created_at: new Date(Date.now() - 2 * hour).toISOString(),
+      expires_at: new Date(Date.now() - hour).toISOString(),
+      confirmed_at: null,
+      payments: [],
+      index: 1,
+      confirmed_index: null,
+    };
+
+    expect(await recordInvoiceUpdate('node_a', update)).toBe('expired');
+    expect(db.invoice.updateMany).toHaveBeenCalledWith({
+      where: { paymentHash: update.id, status: { notIn: ['expired', 'canceled'] } },
+      data: expect.objectContaining({ status: 'expired' }),
+    });
+    expect(db.webhook.findMany).toHaveBeenCalledWith({
+      where: { enabled: true, events: { has: 'invoice.expired' } },
+    });
+
+    // Canceled before its expiry, it was canceled on purpose
+    const canceled = { ...update, expires_at: new Date(Date.now() + hour).toISOString() };
+    expect(await recordInvoiceUpdate('node_a', canceled)).toBe('canceled');
+  });
+
+  it('resubscribes from the stored indexes after an error', async () => {
+    const subscriptions: EventEmitter[] = [];
+    const subscribe = backend.subscribeToInvoices;
+    const spy = vi.spyOn(backend, 'subscribeToInvoices').mockImplementation((node, start) => {
+      const subscription = subscribe(node, start);
+      if (node === 'node_a') subscriptions.push(subscription as unknown as EventEmitter);
+      return subscription;
+    });
+
+    await startInvoiceSubscriptions();
+    expect(spy).toHaveBeenCalledWith('node_a', {});
+
+    const live = await settleInvoice(100);
+    await vi.waitFor(() => expect(lastCursor()).toMatchObject({ addIndex: 1, settleIndex: 1 }));
+
+    subscriptions[0].emit('error', new Error('stream closed'));
+    const missed = await settleInvoice(200);
+
+    await vi.waitFor(() => expect(settledHashes()).toContain(missed.id));
+    expect(spy).toHaveBeenLastCalledWith('node_a', { added_after: 1, confirmed_after: 1 });
+    expect(settledHashes().filter((hash) => hash === live.id)).toHaveLength(1);
+  });
+
+  it('keeps the cursor where it was when an update cannot be recorded', async () => {
+    await settleInvoice(100);
+    db.invoiceSubscriptionCursor.findUnique.mockResolvedValue({ addIndex: 1n, settleIndex: 1n });
+    db.invoice.updateMany.mockRejectedValueOnce(new Error('database unavailable'));
+
+    await startInvoiceSubscriptions();
+    const invoice = await settleInvoice(200);
+
+    // The failed update is replayed by the next subscription
+    await vi.waitFor(() => expect(lastCursor()).toMatchObject({ addIndex: 2, settleIndex: 2 }));
+    expect(settledHashes()[0]).toBe(invoice.id);
+    expect(settledHashes().length).toBeGreaterThan(1);
+    expect(db.invoiceSubscriptionCursor.upsert).toHaveBeenCalledTimes(1);
+  });
+});
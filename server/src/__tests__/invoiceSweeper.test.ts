@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  getInvoiceSweeperStatus,
+  startInvoiceSweeper,
+  stopInvoiceSweeper,
+  sweepExpiredInvoices,
+} from '../services/invoiceSweeper.js';
+
+/**
+ * Invoice expiry sweeper tests.
+ * The database is replaced with spies over an in-memory invoice table.
+ */
+
+const db = vi.hoisted(() => ({
+  invoice: { findMany: vi.fn(), updateManyAndReturn: vi.fn() },
+  webhook: { findMany: vi.fn() },
+}));
+
+const realtime = vi.hoisted(() => ({ publishInvoiceUpdate: vi.fn() }));
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+vi.mock('../services/realtime.js', () => realtime);
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+let invoices: any[] = [];
+
+const createInvoice = (n: number, status: string, expiresAt: Date) => ({
+  paymentHash: n.toString(16).padStart(64, '0'),
+  nodeId: 'node_a',
+  kind: 'invoice',
+  status,
+  amount: 100n,
+  preimage: null,
+  expiresAt,
+});
+
+const expiredAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60_000);
+
+describe('Invoice expiry sweeper', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.INVOICE_SWEEP_BATCH_SIZE = '2';
+
+    invoices = [
+      createInvoice(1, 'pending', expiredAgo(5)),
+      createInvoice(2, 'pending', expiredAgo(50)),
+      createInvoice(3, 'pending', expiredAgo(1)),
+      createInvoice(4, 'held', expiredAgo(5)),
+      createInvoice(5, 'succeeded', expiredAgo(5)),
+      createInvoice(6, 'pending', new Date(NOW.getTime() + 60_000)),
+    ];
+
+    db.invoice.findMany.mockImplementation(async ({ where, take }) =>
+      invoices
+        .filter((invoice) => invoice.status === where.status && invoice.expiresAt < where.expiresAt.lt)
+        .sort((a, b) => a.expiresAt - b.expiresAt)
+        .slice(0, take)
+    );
+    db.invoice.updateManyAndReturn.mockImplementation(async ({ where, data }) => {
+      const matches = invoices.filter(
+        (invoice) => where.paymentHash.in.includes(invoice.paymentHash) && invoice.status === where.status
+      );
+      matches.forEach((invoice) => Object.assign(invoice, data));
+      return matches.map(({ paymentHash }) => ({ paymentHash }));
+    });
+    db.webhook.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    stopInvoiceSweeper();
+    delete process.env.INVOICE_SWEEP_BATCH_SIZE;
+    delete process.env.INVOICE_SWEEP_INTERVAL_MS;
+  });
+
+  it('expires open invoices past their expiry in batches', async () => {
+    const expired = await sweepExpiredInvoices(NOW);
+
+    expect(expired).toBe(3);
+    expect(invoices.map((invoice) => invoice.status)).toEqual([
+      'expired',
+      'expired',
+      'expired',
+      'held',
+      'succeeded',
+      'pending',
+    ]);
+    expect(db.invoice.findMany).toHaveBeenCalledTimes(2);
+    expect(db.invoice.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 2 }));
+    expect(db.invoice.updateManyAndReturn).toHaveBeenCalledTimes(2);
+
+    // Oldest expiry first, each announced once
+    expect(realtime.publishInvoiceUpdate.mock.calls.map(([event]) => event.payment_hash)).toEqual([
+      invoices[1].paymentHash,
+      invoices[0].paymentHash,
+      invoices[2].paymentHash,
+    ]);
+    expect(realtime.publishInvoiceUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ node_id: 'node_a', status: 'expired', amount: 100 })
+    );
+    expect(db.webhook.findMany).toHaveBeenCalledWith({
+      where: { enabled: true, events: { has: 'invoice.expired' } },
+    });
+  });
+
+  it('expires each invoice once when instances sweep at the same time', async () => {
+    const [first, second] = await Promise.all([sweepExpiredInvoices(NOW), sweepExpiredInvoices(NOW)]);
+
+    expect(first + second).toBe(3);
+    expect(realtime.publishInvoiceUpdate).toHaveBeenCalledTimes(3);
+    expect(new Set(realtime.publishInvoiceUpdate.mock.calls.map(([event]) => event.payment_hash)).size).toBe(3);
+  });
+
+  it('reports its last run and counts', async () => {
+    process.env.INVOICE_SWEEP_INTERVAL_MS = '60000';
+    invoices = [createInvoice(1, 'pending', expiredAgo(5))];
+    const before = getInvoiceSweeperStatus().total_expired;
+
+    startInvoiceSweeper();
+
+    await vi.waitFor(() => expect(invoices[0].status).toBe('expired'));
+    await vi.waitFor(() => expect(getInvoiceSweeperStatus().running).toBe(false));
+    expect(getInvoiceSweeperStatus()).toMatchObject({
+      interval_ms: 60_000,
+      batch_size: 2,
+      last_run_at: expect.any(String),
+      last_expired: 1,
+      total_expired: before + 1,
+      last_error: null,
+    });
+  });
+
+  it('rejects a malformed batch size', () => {
+    process.env.INVOICE_SWEEP_BATCH_SIZE = 'lots';
+
+    expect(() => startInvoiceSweeper()).toThrow('INVOICE_SWEEP_BATCH_SIZE must be a non-negative integer');
+  });
+});
@@ -0,0 +1,66 @@
+import { readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { describe, it, expect } from 'vitest';
+import bolt11 from 'bolt11';
+import { validateInvoice } from '../lib/invoiceValidation.js';
+import { encodeBech32, decodeBech32 } from '../lib/bech32.js';
+
+/**
+ * Invoice validation tests.
+ * The same rules run in the client, so its copy must stay identical.
+ */
+
+const PRIVATE_KEY = createHash('sha256').update('invoice-validation-test').digest('hex');
+
+const sign = (bech32: string, millisatoshis?: string): string =>
+  bolt11.sign(
+    bolt11.encode({
+      network: { bech32, pubKeyHash: 0x6f, scriptHash: 0xc4, validWitnessVersions: [0, 1] },
+      timestamp: 1_700_000_000,
+      millisatoshis,
+      tags: [
+        { tagName: 'payment_hash', data: 'ab'.repeat(32) },
+        { tagName: 'description', data: 'Validation' },
+      ],
+    }),
+    PRIVATE_KEY
+  ).paymentRequest as string;
+
+describe('Invoice validation', () => {
+  it('accepts invoices for every network, including signet', () => {
+    expect(validateInvoice(sign('bcrt', '2500000'))).toEqual({ valid: true, network: 'regtest', has_amount: true });
+    expect(validateInvoice(sign('tbs'))).toEqual({ valid: true, network: 'signet', has_amount: false });
+    expect(validateInvoice(sign('tb'), 'testnet')).toMatchObject({ valid: true, network: 'testnet' });
+    expect(validateInvoice(`lightning:${sign('bc').toUpperCase()}`, 'mainnet')).toMatchObject({ valid: true });
+  });
+
+  it('returns a code for each failed check', () => {
+    const request = sign('bcrt', '2500000');
+    const { prefix, words } = decodeBech32(request)!;
+
+    const codeOf = (value: unknown, network?: 'regtest') => {
+      const result = validateInvoice(value, network);
+      return result.valid ? null : result.code;
+    };
+
+    expect(codeOf('')).toBe('PAYMENT_REQUEST_REQUIRED');
+    expect(codeOf(42)).toBe('PAYMENT_REQUEST_REQUIRED');
+    expect(codeOf('lnbcrt1Qqqq')).toBe('INVALID_ENCODING');
+    expect(codeOf('not-a-valid-invoice')).toBe('INVALID_ENCODING');
+    expect(codeOf(request.replace(/.$/, (c) => (c === 'q' ? 'p' : 'q')))).toBe('INVALID_CHECKSUM');
+    expect(codeOf(encodeBech32('bc', words))).toBe('INVALID_PREFIX');
+    expect(codeOf(encodeBech32('lnxy', words))).toBe('UNKNOWN_NETWORK');
+    expect(codeOf(encodeBech32('lnbcrt25x', words))).toBe('INVALID_AMOUNT');
+    expect(codeOf(encodeBech32('lnbcrt0n', words))).toBe('INVALID_AMOUNT');
+    expect(codeOf(encodeBech32('lnbcrt15p', words))).toBe('INVALID_AMOUNT');
+    expect(codeOf(encodeBech32(prefix, words.slice(0, 50)))).toBe('INVALID_LENGTH');
+    expect(codeOf(sign('bc'), 'regtest')).toBe('WRONG_NETWORK');
+  });
+
+  it('is shared verbatim with the client', () => {
+    const server = readFileSync(new URL('../lib/invoiceValidation.ts', import.meta.url), 'utf8');
+    const client = readFileSync(new URL('../../../client/src/lib/invoiceValidation.ts', import.meta.url), 'utf8');
+
+    expect(client).toBe(server);
+  });
+});
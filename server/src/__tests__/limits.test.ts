@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { setBackend, createMockBackend } from '../services/backends/index.js';
+import { apiKeyAuth } from '../middleware/apiKeyAuth.js';
+import { ipRateLimit, rateLimit, resetRateLimits } from '../middleware/rateLimit.js';
+import { LightningBackend } from '../types/backend.js';
+
+/**
+ * Rate limit and spending policy tests.
+ * The database is replaced with spies; payments recorded by the routes are
+ * kept in memory so budgets see them.
+ */
+
+const db = vi.hoisted(() => ({
+  apiKey: { findUnique: vi.fn(), updateMany: vi.fn() },
+  invoice: { updateMany: vi.fn() },
+  webhook: { findMany: vi.fn() },
+  payment: { findFirst: vi.fn(), findUnique: vi.fn(), create: vi.fn(), updateMany: vi.fn(), aggregate: vi.fn() },
+  paymentAttempt: { create: vi.fn(), updateMany: vi.fn() },
+}));
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+
+const ADMIN_KEY = 'test-admin-key';
+
+const ENV = [
+  'API_ADMIN_KEY',
+  'RATE_LIMIT_MAX_REQUESTS',
+  'RATE_LIMIT_MAX_PAYMENTS',
+  'RATE_LIMIT_MAX_IP_REQUESTS',
+  'PAYMENT_MAX_AMOUNT_SATS',
+  'PAYMENT_HOURLY_BUDGET_SATS',
+  'PAYMENT_DAILY_BUDGET_SATS',
+  'PAYMENT_ALLOWED_DESTINATIONS',
+  'PAYMENT_DENIED_DESTINATIONS',
+];
+
+describe('Rate limits', () => {
+  const createTestApp = () => {
+    const app = express();
+    app.use('/api', ipRateLimit);
+    app.use('/api', apiKeyAuth);
+    app.use('/api', rateLimit);
+    app.all('/api/*', (_req, res) => {
+      res.json({ success: true });
+    });
+    app.use('/.well-known/lnurlp', ipRateLimit, rateLimit, (_req, res) => {
+      res.json({ tag: 'payRequest' });
+    });
+    return app;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetRateLimits();
+    process.env.API_ADMIN_KEY = ADMIN_KEY;
+    process.env.RATE_LIMIT_MAX_REQUESTS = '3';
+    process.env.RATE_LIMIT_MAX_PAYMENTS = '2';
+  });
+
+  afterEach(() => {
+    ENV.forEach((name) => delete process.env[name]);
+  });
+
+  it('limits each client to its requests per window', async () => {
+    const app = createTestApp();
+    const get = () => request(app).get('/api/transactions').set('Authorization', `Bearer ${ADMIN_KEY}`);
+
+    for (let i = 0; i < 3; i++) {
+      const res = await get();
+      expect(res.status).toBe(200);
+      expect(res.headers['ratelimit-remaining']).toBe(String(2 - i));
+    }
+
+    const limited = await get();
+    expect(limited.status).toBe(429);
+    expect(limited.body).toMatchObject({ success: false, code: 'RATE_LIMITED', details: { limit: 3 } });
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+
+    // Public routes are counted per IP address, apart from the key
+    expect((await request(app).get('/api/health')).status).toBe(200);
+
+    resetRateLimits();
+    expect((await get()).status).toBe(200);
+  });
+
+  it('gives payment routes a lower limit of their own', async () => {
+    process.env.RATE_LIMIT_MAX_REQUESTS = '10';
+    const app = createTestApp();
+    const pay = () => request(app).post('/api/payment').set('Authorization', `Bearer ${ADMIN_KEY}`);
+
+    expect((await pay()).status).toBe(200);
+    expect((await pay()).status).toBe(200);
+
+    const limited = await pay();
+    expect(limited.status).toBe(429);
+    expect(limited.body.details.limit).toBe(2);
+
+    // Other routes still have requests left
+    const res = await request(app).get('/api/balance').set('Authorization', `Bearer ${ADMIN_KEY}`);
+    expect(res.status).toBe(200);
+  });
+
+  it('limits each IP address before checking keys', async () => {
+    process.env.RATE_LIMIT_MAX_IP_REQUESTS = '3';
+    const app = createTestApp();
+    const guess = (key: string) => request(app).get('/api/transactions').set('Authorization', `Bearer ${key}`);
+
+    for (const key of ['lnk_guess-1', 'lnk_guess-2', 'lnk_guess-3']) {
+      expect((await guess(key)).status).toBe(401);
+    }
+
+    const limited = await guess(ADMIN_KEY);
+    expect(limited.status).toBe(429);
+    expect(limited.body).toMatchObject({ code: 'RATE_LIMITED', details: { limit: 3 } });
+
+    // Lightning Address lookups count against the same address
+    expect((await request(app).get('/.well-known/lnurlp/alice')).status).toBe(429);
+  });
+
+  it('limits Lightning Address lookups', async () => {
+    const app = createTestApp();
+    const lookup = () => request(app).get('/.well-known/lnurlp/alice');
+
+    for (let i = 0; i < 3; i++) {
+      expect((await lookup()).status).toBe(200);
+    }
+    expect((await lookup()).status).toBe(429);
+  });
+
+  it('can be turned off', async () => {
+    process.env.RATE_LIMIT_MAX_REQUESTS = '0';
+    process.env.RATE_LIMIT_MAX_PAYMENTS = '0';
+    const app = createTestApp();
+
+    for (let i = 0; i < 5; i++) {
+      const res = await request(app).post('/api/payment').set('Authorization', `Bearer ${ADMIN_KEY}`);
+      expect(res.status).toBe(200);
+      expect(res.headers).not.toHaveProperty('ratelimit-limit');
+    }
+  });
+});
+
+describe('Spending policy', () => {
+  let backend: LightningBackend;
+  let alice: string; // node_a's public key
+  let payments: any[] = [];
+
+  const createTestApp = async () => {
+    const app = express();
+    app.use(express.json());
+
+    const { default: paymentRoutes } = await import('../routes/payment.js');
+    app.use('/api/payment', paymentRoutes);
+
+    return app;
+  };
+
+  const invoiceFor = async (tokens: number) => (await backend.createInvoice('node_a', { tokens })).request;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    payments = [];
+
+    db.invoice.updateMany.mockResolvedValue({ count: 1 });
+    db.webhook.findMany.mockResolvedValue([]);
+    db.payment.findFirst.mockResolvedValue(null);
+    db.payment.findUnique.mockImplementation(
+      async ({ where }) => payments.find((payment) => payment.paymentHash === where.paymentHash) ?? null
+    );
+    db.payment.create.mockImplementation(async ({ data }) => {
+      const payment = { kind: 'invoice', createdAt: new Date(), ...data };
+      payments.push(payment);
+      return payment;
+    });
+    db.payment.updateMany.mockResolvedValue({ count: 1 });
+    db.payment.aggregate.mockImplementation(async ({ where }) => {
+      const matching = payments.filter(
+        (payment) =>
+          payment.nodeId === where.nodeId &&
+          where.status.in.includes(payment.status) &&
+          payment.createdAt >= where.createdAt.gte
+      );
+      return {
+        _sum: {
+          amount: matching.length ? BigInt(matching.reduce((sum, payment) => sum + Number(payment.amount), 0)) : null,
+          fee: matching.length ? BigInt(matching.reduce((sum, payment) => sum + Number(payment.fee), 0)) : null,
+        },
+      };
+    });
+    db.paymentAttempt.create.mockResolvedValue({});
+    db.paymentAttempt.updateMany.mockResolvedValue({ count: 1 });
+
+    backend = createMockBackend({ seed: 'spending-policy' });
+    setBackend(backend);
+    alice = (await backend.getInfo('node_a')).public_key;
+  });
+
+  afterEach(() => {
+    ENV.forEach((name) => delete process.env[name]);
+  });
+
+  it('refuses payments above the largest payment allowed', async () => {
+    process.env.PAYMENT_MAX_AMOUNT_SATS = '500';
+    const app = await createTestApp();
+
+    const res = await request(app).post('/api/payment').send({ payment_request: await invoiceFor(1000) });
+
+    expect(res.status).toBe(422);
+    expect(res.body).toMatchObject({
+      success: false,
+      code: 'PAYMENT_AMOUNT_EXCEEDED',
+      details: { amount: 1000, max_amount: 500 },
+    });
+    expect(db.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('keeps concurrent payments within the hourly budget', async () => {
+    process.env.PAYMENT_HOURLY_BUDGET_SATS = '1500';
+    const app = await createTestApp();
+    const [first, second] = [await invoiceFor(1000), await invoiceFor(1000)];
+
+    const responses = await Promise.all([
+      request(app).post('/api/payment').send({ payment_request: first }),
+      request(app).post('/api/payment').send({ payment_request: second }),
+    ]);
+
+    expect(responses.map((res) => res.status).sort()).toEqual([202, 422]);
+    expect(responses.find((res) => res.status === 422)?.body).toMatchObject({
+      code: 'HOURLY_BUDGET_EXCEEDED',
+      details: { amount: 1000, budget: 1500, spent: 1000 },
+    });
+    expect(db.payment.create).toHaveBeenCalledTimes(1);
+
+    const usage = await request(app).get('/api/payment/spending');
+    expect(usage.status).toBe(200);
+    expect(usage.body.data).toMatchObject({
+      node_id: 'node_b',
+      max_amount: null,
+      hourly: { budget: 1500, spent: 1000, remaining: 500 },
+      daily: { budget: null, spent: 1000, remaining: null },
+    });
+  });
+
+  it('only pays destinations the allow and deny lists permit', async () => {
+    const other = `02${'11'.repeat(32)}`;
+    process.env.PAYMENT_DENIED_DESTINATIONS = alice.toUpperCase();
+    const app = await createTestApp();
+
+    const denied = await request(app).post('/api/payment').send({ payment_request: await invoiceFor(100) });
+    expect(denied.status).toBe(403);
+    expect(denied.body).toMatchObject({ code: 'DESTINATION_NOT_ALLOWED', details: { destination: alice } });
+
+    const keysend = await request(app).post('/api/payment/keysend').send({ destination: alice, amount: 100 });
+    expect(keysend.status).toBe(403);
+    expect(keysend.body.code).toBe('DESTINATION_NOT_ALLOWED');
+
+    delete process.env.PAYMENT_DENIED_DESTINATIONS;
+    process.env.PAYMENT_ALLOWED_DESTINATIONS = other;
+    const unlisted = await request(app).post('/api/payment').send({ payment_request: await invoiceFor(100) });
+    expect(unlisted.status).toBe(403);
+
+    process.env.PAYMENT_ALLOWED_DESTINATIONS = `${other},${alice}`;
+    const listed = await request(app).post('/api/payment').send({ payment_request: await invoiceFor(100) });
+    expect(listed.status).toBe(202);
+  });
+});
@@ -0,0 +1,150 @@
+import fs from 'fs';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createLndConnectionManager, isConnectionError } from '../services/backends/lndConnections.js';
+
+/**
+ * LND connection manager tests.
+ * ln-service and the node registry are replaced with spies, timers are fake
+ * and credential file watchers are captured instead of polling the disk.
+ */
+
+const ln = vi.hoisted(() => ({
+  authenticatedLndGrpc: vi.fn(),
+  getWalletInfo: vi.fn(),
+}));
+
+vi.mock('ln-service', () => ({ default: ln }));
+
+vi.mock('../config/lightning.js', () => ({
+  findNode: () => ({ id: 'node_a', cert_path: '/creds/tls.cert', macaroon_path: '/creds/admin.macaroon' }),
+  getNodeConfig: () => ({ host: 'localhost:10001', cert: Buffer.from('cert'), macaroon: Buffer.from('macaroon') }),
+}));
+
+const UNREACHABLE = [503, 'FailedToConnectToDaemon'];
+
+type WatchListener = (curr: { mtimeMs: number; size: number }, prev: { mtimeMs: number; size: number }) => void;
+
+describe('LND connection manager', () => {
+  let manager: ReturnType<typeof createLndConnectionManager>;
+  let clients: number;
+  let watchers: Map<string, WatchListener>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    clients = 0;
+    watchers = new Map();
+
+    ln.authenticatedLndGrpc.mockImplementation(() => ({ lnd: { client: ++clients } }));
+    ln.getWalletInfo.mockResolvedValue({});
+    vi.spyOn(fs, 'watchFile').mockImplementation(((file: string, _options: unknown, listener: WatchListener) => {
+      watchers.set(file, listener);
+    }) as typeof fs.watchFile);
+    vi.spyOn(fs, 'unwatchFile').mockImplementation(() => undefined);
+
+    manager = createLndConnectionManager({
+      healthCheckIntervalMs: 30_000,
+      healthCheckTimeoutMs: 5_000,
+      reconnectBaseDelayMs: 1_000,
+      reconnectMaxDelayMs: 4_000,
+    });
+  });
+
+  afterEach(() => {
+    manager.close();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('reconnects after a failed health check', async () => {
+    ln.getWalletInfo.mockRejectedValueOnce(UNREACHABLE);
+
+    manager.getLnd('node_a');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(manager.getStatus('node_a')).toMatchObject({
+      state: 'reconnecting',
+      error: '503 FailedToConnectToDaemon',
+      reconnect_attempts: 1,
+    });
+    expect(ln.authenticatedLndGrpc).toHaveBeenCalledTimes(1);
+
+    // The retry authenticates from scratch
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(ln.authenticatedLndGrpc).toHaveBeenCalledTimes(2);
+    expect(manager.getStatus('node_a')).toMatchObject({ state: 'connected', reconnect_attempts: 0, error: null });
+    expect(manager.getLnd('node_a')).toEqual({ client: 2 });
+  });
+
+  it('doubles the reconnect delay up to the maximum and resets it once connected', async () => {
+    ln.getWalletInfo.mockRejectedValue(UNREACHABLE);
+
+    manager.getLnd('node_a');
+    await vi.advanceTimersByTimeAsync(0);
+
+    for (const delay of [1_000, 2_000, 4_000, 4_000]) {
+      const checks = ln.getWalletInfo.mock.calls.length;
+
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      expect(ln.getWalletInfo).toHaveBeenCalledTimes(checks);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(ln.getWalletInfo).toHaveBeenCalledTimes(checks + 1);
+    }
+    expect(manager.getStatus('node_a').reconnect_attempts).toBe(5);
+
+    ln.getWalletInfo.mockResolvedValue({});
+    await vi.advanceTimersByTimeAsync(4_000);
+    expect(manager.getStatus('node_a')).toMatchObject({ state: 'connected', reconnect_attempts: 0 });
+
+    // A later failure starts again from the first delay
+    ln.getWalletInfo.mockRejectedValueOnce(UNREACHABLE);
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(manager.getStatus('node_a').reconnect_attempts).toBe(1);
+
+    const checks = ln.getWalletInfo.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(ln.getWalletInfo).toHaveBeenCalledTimes(checks + 1);
+  });
+
+  it('rebuilds the client when a credential file changes', async () => {
+    manager.getLnd('node_a');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect([...watchers.keys()]).toEqual(['/creds/tls.cert', '/creds/admin.macaroon']);
+
+    // Polls that find the file unchanged keep the client
+    watchers.get('/creds/admin.macaroon')!({ mtimeMs: 1, size: 10 }, { mtimeMs: 1, size: 10 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(ln.authenticatedLndGrpc).toHaveBeenCalledTimes(1);
+
+    watchers.get('/creds/admin.macaroon')!({ mtimeMs: 2, size: 10 }, { mtimeMs: 1, size: 10 });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(ln.authenticatedLndGrpc).toHaveBeenCalledTimes(2);
+    expect(manager.getLnd('node_a')).toEqual({ client: 2 });
+    expect(manager.getStatus('node_a').state).toBe('connected');
+  });
+
+  it('checks a connected node right away when a call reports a failure', async () => {
+    manager.getLnd('node_a');
+    await vi.advanceTimersByTimeAsync(0);
+    const checks = ln.getWalletInfo.mock.calls.length;
+
+    manager.reportFailure('node_a');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(ln.getWalletInfo).toHaveBeenCalledTimes(checks + 1);
+  });
+
+  it('tells connection failures apart from other ln-service errors', () => {
+    expect(isConnectionError(UNREACHABLE)).toBe(true);
+    expect(isConnectionError([503, 'UnexpectedLookupInvoiceErr', { err: { code: 14 } }])).toBe(true);
+    expect(isConnectionError(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }))).toBe(true);
+
+    expect(isConnectionError([404, 'InvoiceNotFound'])).toBe(false);
+    expect(isConnectionError([503, 'PaymentPathfindingFailedToFindPossibleRoute'])).toBe(false);
+    expect(isConnectionError([400, 'InsufficientBalanceToAttemptPayment'])).toBe(false);
+  });
+});
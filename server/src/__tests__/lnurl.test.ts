@@ -0,0 +1,153 @@
+import { createHash } from 'crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { setBackend, createMockBackend } from '../services/backends/index.js';
+import { encodeLnurl } from '../services/lnurl.js';
+import { decodeBolt11 } from '../lib/bolt11.js';
+
+/**
+ * LNURL-pay tests.
+ * The database is replaced with spies; invoices come from the mock backend.
+ */
+
+const db = vi.hoisted(() => ({
+  payUsername: { findUnique: vi.fn(), create: vi.fn() },
+  invoice: { create: vi.fn() },
+}));
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+
+const ALICE = {
+  username: 'alice',
+  nodeId: 'node_a',
+  description: 'Tips for Alice',
+  minSendable: 1000n,
+  maxSendable: 5_000_000n,
+  commentAllowed: 32,
+  createdAt: new Date('2026-10-19T00:00:00Z'),
+  updatedAt: new Date('2026-10-19T00:00:00Z'),
+};
+
+const createTestApp = async () => {
+  const app = express();
+  app.use(express.json());
+
+  const { default: lnurlRoutes, wellKnownRouter } = await import('../routes/lnurl.js');
+  app.use('/api/lnurl', lnurlRoutes);
+  app.use('/.well-known/lnurlp', wellKnownRouter);
+
+  return app;
+};
+
+describe('LNURL-pay', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.LNURL_BASE_URL = 'https://pay.example.com';
+    db.payUsername.findUnique.mockImplementation(async ({ where }) =>
+      where.username === ALICE.username ? ALICE : null
+    );
+    db.invoice.create.mockResolvedValue({});
+    setBackend(createMockBackend({ seed: 'lnurl-test' }));
+  });
+
+  afterEach(() => {
+    delete process.env.LNURL_BASE_URL;
+  });
+
+  it('encodes LNURLs as in LUD-01', () => {
+    expect(
+      encodeLnurl('https://service.com/api?q=3fc3645b439ce8e7f2553a69e5267081d96dcd340693afabe04be7b0ccd178df')
+    ).toBe(
+      'LNURL1DP68GURN8GHJ7UM9WFMXJCM99E3K7MF0V9CXJ0M385EKVCENXC6R2C35XVUKXEFCV5MKVV34X5EKZD3EV56NYD3HXQURZEPEXEJXXEPNXSCRVWFNV9NXZCN9XQ6XYEFHVGCXXCMYXYMNSERXFQ5FNS'
+    );
+  });
+
+  it('serves the pay request behind a Lightning Address', async () => {
+    const app = await createTestApp();
+    const res = await request(app).get('/.well-known/lnurlp/alice');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['access-control-allow-origin']).toBe('*');
+    expect(res.body).toEqual({
+      tag: 'payRequest',
+      callback: 'https://pay.example.com/api/lnurl/pay/alice/callback',
+      minSendable: 1000,
+      maxSendable: 5_000_000,
+      metadata: JSON.stringify([
+        ['text/plain', 'Tips for Alice'],
+        ['text/identifier', 'alice@pay.example.com'],
+      ]),
+      commentAllowed: 32,
+    });
+  });
+
+  it('answers unknown usernames with an LNURL error', async () => {
+    const app = await createTestApp();
+    const res = await request(app).get('/.well-known/lnurlp/bob');
+
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({ status: 'ERROR', reason: 'Unknown username' });
+  });
+
+  it('creates an invoice for the exact amount that commits to the metadata', async () => {
+    const app = await createTestApp();
+    const { body: payRequest } = await request(app).get('/.well-known/lnurlp/alice');
+    const res = await request(app)
+      .get('/api/lnurl/pay/alice/callback')
+      .query({ amount: 1_500_500, comment: 'thanks!' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.routes).toEqual([]);
+
+    const invoice = decodeBolt11(res.body.pr);
+    expect(invoice.amount_msat).toBe(1_500_500n);
+    expect(invoice.description_hash).toBe(
+      createHash('sha256').update(payRequest.metadata, 'utf8').digest('hex')
+    );
+
+    expect(db.invoice.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        paymentHash: invoice.payment_hash,
+        nodeId: 'node_a',
+        amount: 1500,
+        username: 'alice',
+        comment: 'thanks!',
+      }),
+    });
+  });
+
+  it('refuses amounts outside the range and comments that are too long', async () => {
+    const app = await createTestApp();
+
+    const tooLarge = await request(app).get('/api/lnurl/pay/alice/callback').query({ amount: 5_000_001 });
+    expect(tooLarge.status).toBe(400);
+    expect(tooLarge.body).toEqual({
+      status: 'ERROR',
+      reason: 'Amount must be between 1000 and 5000000 millisatoshis',
+    });
+
+    const longComment = await request(app)
+      .get('/api/lnurl/pay/alice/callback')
+      .query({ amount: 2000, comment: 'x'.repeat(33) });
+    expect(longComment.status).toBe(400);
+    expect(longComment.body.status).toBe('ERROR');
+
+    expect(db.invoice.create).not.toHaveBeenCalled();
+  });
+
+  it('validates new usernames', async () => {
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/lnurl/usernames')
+      .send({ username: 'Alice!', node_id: 'unknown', comment_allowed: 1000 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors.map((e: { path: string }) => e.path)).toEqual([
+      'username',
+      'node_id',
+      'comment_allowed',
+    ]);
+    expect(db.payUsername.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import request from 'supertest';
+import { setBackend, createMockBackend } from '../services/backends/index.js';
+import { isNonPublicAddress, resolvePayRequest, setLnurlFetcher, toPayRequestUrl } from '../services/lnurlClient.js';
+import { encodeLnurl } from '../services/lnurl.js';
+import { decodeBolt11 } from '../lib/bolt11.js';
+import { LnurlFetcher } from '../types/lnurl.js';
+
+/**
+ * LNURL-pay client tests.
+ * Lightning Addresses are resolved against this server's own LNURL routes,
+ * served in-process as a stand-in for a remote LNURL service. The database
+ * is replaced with spies.
+ */
+
+const db = vi.hoisted(() => ({
+  payUsername: { findUnique: vi.fn() },
+  invoice: { create: vi.fn(), updateMany: vi.fn() },
+  webhook: { findMany: vi.fn() },
+  payment: { findFirst: vi.fn(), findUnique: vi.fn(), create: vi.fn(), updateMany: vi.fn() },
+  paymentAttempt: { create: vi.fn(), updateMany: vi.fn() },
+}));
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+
+const ALICE = {
+  username: 'alice',
+  nodeId: 'node_a',
+  description: 'Tips for Alice',
+  minSendable: 1000n,
+  maxSendable: 5_000_000n,
+  commentAllowed: 32,
+  createdAt: new Date('2026-10-19T00:00:00Z'),
+  updatedAt: new Date('2026-10-19T00:00:00Z'),
+};
+
+const createTestApp = async () => {
+  const app = express();
+  app.use(express.json());
+
+  const { default: lnurlRoutes, wellKnownRouter } = await import('../routes/lnurl.js');
+  const { default: paymentRoutes } = await import('../routes/payment.js');
+  app.use('/api/lnurl', lnurlRoutes);
+  app.use('/.well-known/lnurlp', wellKnownRouter);
+  app.use('/api/payment', paymentRoutes);
+
+  return app;
+};
+
+// Answer LNURL requests from an in-process app instead of the network
+const standIn =
+  (app: express.Express): LnurlFetcher =>
+  async (url) => {
+    const { pathname, search } = new URL(url);
+    const res = await request(app).get(pathname + search);
+    return { status: res.status, body: res.body };
+  };
+
+describe('LNURL-pay client', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.LNURL_BASE_URL = 'https://pay.example.com';
+    db.payUsername.findUnique.mockImplementation(async ({ where }) =>
+      where.username === ALICE.username ? ALICE : null
+    );
+    db.invoice.create.mockResolvedValue({});
+    db.invoice.updateMany.mockResolvedValue({ count: 1 });
+    db.webhook.findMany.mockResolvedValue([]);
+    db.payment.findFirst.mockResolvedValue(null);
+    db.payment.findUnique.mockResolvedValue(null);
+    db.payment.create.mockImplementation(async ({ data }) => ({ ...data, kind: 'invoice', createdAt: new Date() }));
+    db.payment.updateMany.mockResolvedValue({ count: 1 });
+    db.paymentAttempt.create.mockResolvedValue({});
+    db.paymentAttempt.updateMany.mockResolvedValue({ count: 1 });
+    setBackend(createMockBackend({ seed: 'lnurl-client-test' }));
+    setLnurlFetcher(standIn(await createTestApp()));
+  });
+
+  afterEach(() => {
+    delete process.env.LNURL_BASE_URL;
+    delete process.env.LNURL_ALLOW_PRIVATE_HOSTS;
+    setLnurlFetcher();
+  });
+
+  it('finds the pay request behind LNURLs and Lightning Addresses', () => {
+    expect(
+      toPayRequestUrl(
+        'lightning:LNURL1DP68GURN8GHJ7UM9WFMXJCM99E3K7MF0V9CXJ0M385EKVCENXC6R2C35XVUKXEFCV5MKVV34X5EKZD3EV56NYD3HXQURZEPEXEJXXEPNXSCRVWFNV9NXZCN9XQ6XYEFHVGCXXCMYXYMNSERXFQ5FNS'
+      )
+    ).toBe('https://service.com/api?q=3fc3645b439ce8e7f2553a69e5267081d96dcd340693afabe04be7b0ccd178df');
+    expect(toPayRequestUrl('Alice@Pay.Example.com')).toBe('https://pay.example.com/.well-known/lnurlp/alice');
+    expect(toPayRequestUrl('bob@localhost:3001')).toBe('http://localhost:3001/.well-known/lnurlp/bob');
+    expect(toPayRequestUrl('lnurlp://pay.example.com/.well-known/lnurlp/alice')).toBe(
+      'https://pay.example.com/.well-known/lnurlp/alice'
+    );
+    expect(() => toPayRequestUrl(encodeLnurl('http://example.com/pay'))).toThrow();
+    expect(() => toPayRequestUrl('lnurl1notbech32')).toThrow();
+  });
+
+  it('resolves a Lightning Address for the payer', async () => {
+    const app = await createTestApp();
+    const res = await request(app).post('/api/lnurl/resolve').send({ target: 'alice@pay.example.com' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({
+      target: 'alice@pay.example.com',
+      url: 'https://pay.example.com/.well-known/lnurlp/alice',
+      domain: 'pay.example.com',
+      description: 'Tips for Alice',
+      min_sendable: 1000,
+      max_sendable: 5_000_000,
+      comment_allowed: 32,
+    });
+  });
+
+  it('pays a Lightning Address with the invoice fetched for the amount', async () => {
+    const app = await createTestApp();
+    const res = await request(app)
+      .post('/api/payment')
+      .send({ payment_request: 'alice@pay.example.com', amount: 1500, comment: 'thanks!' });
+
+    expect(res.status).toBe(202);
+    expect(res.body.data).toMatchObject({ status: 'pending', amount: 1500 });
+
+    const invoice = decodeBolt11(res.body.data.payment_request);
+    expect(invoice.amount_msat).toBe(1_500_000n);
+    expect(db.invoice.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ username: 'alice', comment: 'thanks!', paymentHash: invoice.payment_hash }),
+    });
+    expect(db.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        paymentHash: invoice.payment_hash,
+        nodeId: 'node_b',
+        amount: 1500,
+        description: 'Tips for Alice',
+      }),
+    });
+
+    await vi.waitFor(() =>
+      expect(db.payment.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'succeeded' }) })
+      )
+    );
+  });
+
+  it('requires an amount within the pay request range', async () => {
+    const app = await createTestApp();
+
+    const missing = await request(app).post('/api/payment').send({ payment_request: 'alice@pay.example.com' });
+    expect(missing.status).toBe(400);
+    expect(missing.body.code).toBe('AMOUNT_REQUIRED');
+
+    const tooLarge = await request(app)
+      .post('/api/payment')
+      .send({ payment_request: 'alice@pay.example.com', amount: 5001 });
+    expect(tooLarge.status).toBe(400);
+    expect(tooLarge.body).toEqual({
+      success: false,
+      error: 'Amount must be between 1 and 5000 sats',
+      code: 'AMOUNT_OUT_OF_RANGE',
+    });
+
+    expect(db.invoice.create).not.toHaveBeenCalled();
+    expect(db.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('passes on errors from the LNURL service', async () => {
+    const app = await createTestApp();
+    const res = await request(app).post('/api/payment').send({ payment_request: 'bob@pay.example.com', amount: 10 });
+
+    expect(res.status).toBe(502);
+    expect(res.body).toEqual({
+      success: false,
+      error: 'LNURL service refused: Unknown username',
+      code: 'LNURL_ERROR',
+    });
+  });
+
+  it('refuses LNURL services on private and local addresses', async () => {
+    setLnurlFetcher();
+
+    for (const target of ['alice@127.0.0.1:3001', 'alice@localhost:3001', 'lnurlp://[::1]/pay', 'alice@10.0.0.7']) {
+      await expect(resolvePayRequest(target), target).rejects.toEqual([
+        400,
+        'LnurlPayFailed',
+        expect.objectContaining({ code: 'LNURL_HOST_NOT_ALLOWED' }),
+      ]);
+    }
+
+    for (const address of ['169.254.169.254', '192.168.1.1', '100.64.0.1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isNonPublicAddress(address), address).toBe(true);
+    }
+    expect(isNonPublicAddress('93.184.216.34')).toBe(false);
+    expect(isNonPublicAddress('2606:2800:220:1::')).toBe(false);
+  });
+
+  it('stops reading answers larger than a pay request can be', async () => {
+    process.env.LNURL_ALLOW_PRIVATE_HOSTS = 'true';
+    setLnurlFetcher();
+
+    const server = createServer((_req, res) => {
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ tag: 'payRequest', padding: 'x'.repeat(100_000) }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      await expect(resolvePayRequest(`alice@127.0.0.1:${port}`)).rejects.toEqual([
+        502,
+        'LnurlPayFailed',
+        { reason: 'LNURL service answered with more than 65536 bytes', code: 'LNURL_UNREACHABLE' },
+      ]);
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('refuses invoices that do not match the pay request', async () => {
+    const app = await createTestApp();
+    const fetcher = standIn(app);
+    // A service that hands out invoices for less than was asked for
+    setLnurlFetcher((url) => fetcher(url.replace('amount=2000000', 'amount=1000000')));
+
+    const res = await request(app).post('/api/payment').send({ payment_request: 'alice@pay.example.com', amount: 2000 });
+
+    expect(res.status).toBe(502);
+    expect(res.body.code).toBe('INVOICE_MISMATCH');
+    expect(db.payment.create).not.toHaveBeenCalled();
+  });
+});
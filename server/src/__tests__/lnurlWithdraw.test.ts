@@ -0,0 +1,274 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { setBackend, createMockBackend } from '../services/backends/index.js';
+import { LightningBackend } from '../types/backend.js';
+
+/**
+ * LNURL-withdraw tests.
+ * The database is replaced with spies; node A pays the wallet's invoices on
+ * the mock backend.
+ */
+
+const db = vi.hoisted(() => ({
+  withdrawLink: {
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    updateMany: vi.fn(),
+    fields: { maxUses: 'max_uses' },
+  },
+  payment: { findUnique: vi.fn(), create: vi.fn(), updateMany: vi.fn() },
+  paymentAttempt: { create: vi.fn(), updateMany: vi.fn() },
+  invoice: { updateMany: vi.fn() },
+  webhook: { findMany: vi.fn() },
+}));
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+
+const K1 = 'ab'.repeat(32);
+
+const VOUCHER = {
+  id: '5b0c6a8e-3f7e-4d55-9d59-2a8f3c1e7b10',
+  k1: K1,
+  nodeId: 'node_a',
+  description: 'Faucet',
+  minWithdrawable: 1000n,
+  maxWithdrawable: 500_000_000n,
+  maxUses: 2,
+  uses: 0,
+  expiresAt: null,
+  disabledAt: null,
+  createdAt: new Date('2026-10-19T00:00:00Z'),
+  updatedAt: new Date('2026-10-19T00:00:00Z'),
+};
+
+const createTestApp = async () => {
+  const app = express();
+  app.use(express.json());
+
+  const { default: lnurlRoutes } = await import('../routes/lnurl.js');
+  app.use('/api/lnurl', lnurlRoutes);
+
+  return app;
+};
+
+// Final status written to the payment row
+const recordedStatus = (paymentHash: string) =>
+  db.payment.updateMany.mock.calls
+    .map(([args]) => args)
+    .filter((args) => args.where.paymentHash === paymentHash && args.data.status)
+    .pop()?.data;
+
+describe('LNURL-withdraw', () => {
+  let backend: LightningBackend;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.LNURL_BASE_URL = 'https://pay.example.com';
+    db.withdrawLink.findUnique.mockImplementation(async ({ where }) =>
+      where.k1 === K1 || where.id === VOUCHER.id ? VOUCHER : null
+    );
+    db.withdrawLink.updateMany.mockResolvedValue({ count: 1 });
+    db.payment.findUnique.mockResolvedValue(null);
+    db.payment.create.mockImplementation(async ({ data }) => ({ ...data, createdAt: new Date() }));
+    db.payment.updateMany.mockResolvedValue({ count: 1 });
+    db.paymentAttempt.create.mockResolvedValue({});
+    db.paymentAttempt.updateMany.mockResolvedValue({ count: 1 });
+    db.invoice.updateMany.mockResolvedValue({ count: 0 });
+    db.webhook.findMany.mockResolvedValue([]);
+
+    backend = createMockBackend({
+      seed: 'lnurl-withdraw-test',
+      nodes: [
+        { id: 'node_a', alias: 'alice', channel_balance: 100_000 },
+        { id: 'node_b', alias: 'bob', channel_balance: 0 },
+      ],
+    });
+    setBackend(backend);
+  });
+
+  afterEach(() => {
+    delete process.env.PAYMENT_MAX_AMOUNT_SATS;
+    delete process.env.PAYMENT_APPROVAL_THRESHOLD_SATS;
+  });
+
+  it('serves the withdraw request behind a voucher', async () => {
+    const app = await createTestApp();
+    const res = await request(app).get(`/api/lnurl/withdraw/${K1}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['access-control-allow-origin']).toBe('*');
+    expect(res.body).toEqual({
+      tag: 'withdrawRequest',
+      callback: 'https://pay.example.com/api/lnurl/withdraw/callback',
+      k1: K1,
+      defaultDescription: 'Faucet',
+      minWithdrawable: 1000,
+      maxWithdrawable: 500_000_000,
+    });
+
+    const unknown = await request(app).get(`/api/lnurl/withdraw/${'cd'.repeat(32)}`);
+    expect(unknown.status).toBe(404);
+    expect(unknown.body).toEqual({ status: 'ERROR', reason: 'Unknown withdraw link' });
+  });
+
+  it("pays the wallet's invoice once, even when the wallet retries", async () => {
+    const app = await createTestApp();
+    const invoice = await backend.createInvoice('node_b', { tokens: 2000 });
+
+    const res = await request(app).get('/api/lnurl/withdraw/callback').query({ k1: K1, pr: invoice.request });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ status: 'OK' });
+    expect(db.withdrawLink.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ uses: { increment: 1 } }) })
+    );
+    expect(db.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        paymentHash: invoice.id,
+        nodeId: 'node_a',
+        amount: 2000,
+        withdrawLinkId: VOUCHER.id,
+      }),
+    });
+
+    await vi.waitFor(() => expect(recordedStatus(invoice.id)).toMatchObject({ status: 'succeeded' }));
+    expect((await backend.getInvoice('node_b', invoice.id)).is_confirmed).toBe(true);
+
+    db.payment.findUnique.mockResolvedValue({ paymentHash: invoice.id, withdrawLinkId: VOUCHER.id, status: 'succeeded' });
+    const retry = await request(app).get('/api/lnurl/withdraw/callback').query({ k1: K1, pr: invoice.request });
+
+    expect(retry.body).toEqual({ status: 'OK' });
+    expect(db.payment.create).toHaveBeenCalledTimes(1);
+    expect(db.withdrawLink.updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses invoices outside the bounds and links without uses left', async () => {
+    const app = await createTestApp();
+
+    const tooLarge = await backend.createInvoice('node_b', { tokens: 600_000 });
+    const outOfRange = await request(app).get('/api/lnurl/withdraw/callback').query({ k1: K1, pr: tooLarge.request });
+    expect(outOfRange.status).toBe(400);
+    expect(outOfRange.body).toEqual({
+      status: 'ERROR',
+      reason: 'Invoice amount must be between 1000 and 500000000 millisatoshis',
+    });
+
+    db.withdrawLink.updateMany.mockResolvedValue({ count: 0 });
+    const invoice = await backend.createInvoice('node_b', { tokens: 2000 });
+    const usedUp = await request(app).get('/api/lnurl/withdraw/callback').query({ k1: K1, pr: invoice.request });
+    expect(usedUp.status).toBe(400);
+    expect(usedUp.body).toEqual({ status: 'ERROR', reason: 'This voucher has been used up' });
+
+    expect(db.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('gives the use back when the payment fails', async () => {
+    const app = await createTestApp();
+    const invoice = await backend.createInvoice('node_b', { tokens: 200_000 });
+
+    const res = await request(app).get('/api/lnurl/withdraw/callback').query({ k1: K1, pr: invoice.request });
+    expect(res.body).toEqual({ status: 'OK' });
+
+    await vi.waitFor(() => expect(recordedStatus(invoice.id)).toMatchObject({ status: 'failed' }));
+    expect(db.withdrawLink.updateMany).toHaveBeenLastCalledWith({
+      where: { id: VOUCHER.id, uses: { gt: 0 } },
+      data: { uses: { decrement: 1 }, updatedAt: expect.any(Date) },
+    });
+
+    // The wallet sending the same invoice again isn't told it was paid
+    db.payment.findUnique.mockResolvedValue({ paymentHash: invoice.id, withdrawLinkId: VOUCHER.id, status: 'failed' });
+    const retry = await request(app).get('/api/lnurl/withdraw/callback').query({ k1: K1, pr: invoice.request });
+
+    expect(retry.status).toBe(400);
+    expect(retry.body).toEqual({ status: 'ERROR', reason: 'Payment of this invoice failed, send a new invoice' });
+    expect(db.payment.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds vouchers and their redemptions to the spending policy', async () => {
+    const app = await createTestApp();
+    process.env.PAYMENT_MAX_AMOUNT_SATS = '5000';
+
+    const tooLarge = await request(app)
+      .post('/api/lnurl/withdraw-links')
+      .send({ min_withdrawable: 1000, max_withdrawable: 10_000_000 });
+    expect(tooLarge.status).toBe(422);
+    expect(tooLarge.body).toMatchObject({ success: false, code: 'PAYMENT_AMOUNT_EXCEEDED' });
+    expect(db.withdrawLink.create).not.toHaveBeenCalled();
+
+    // A link created before the limit was lowered can't pay out more than it allows
+    const invoice = await backend.createInvoice('node_b', { tokens: 6000 });
+    const res = await request(app).get('/api/lnurl/withdraw/callback').query({ k1: K1, pr: invoice.request });
+
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({
+      status: 'ERROR',
+      reason: 'Payment of 6000 sats exceeds the limit of 5000 sats',
+    });
+    expect(db.payment.create).not.toHaveBeenCalled();
+    expect(db.withdrawLink.updateMany).toHaveBeenLastCalledWith({
+      where: { id: VOUCHER.id, uses: { gt: 0 } },
+      data: { uses: { decrement: 1 } },
+    });
+  });
+
+  it('refuses vouchers above the approval threshold', async () => {
+    const app = await createTestApp();
+    process.env.PAYMENT_APPROVAL_THRESHOLD_SATS = '5000';
+
+    const tooLarge = await request(app)
+      .post('/api/lnurl/withdraw-links')
+      .send({ min_withdrawable: 1000, max_withdrawable: 5_000_001 });
+    expect(tooLarge.status).toBe(422);
+    expect(tooLarge.body).toMatchObject({ success: false, code: 'APPROVAL_REQUIRED' });
+    expect(db.withdrawLink.create).not.toHaveBeenCalled();
+
+    // Nobody approves redemptions of links created before the threshold was set
+    const invoice = await backend.createInvoice('node_b', { tokens: 6000 });
+    const res = await request(app).get('/api/lnurl/withdraw/callback').query({ k1: K1, pr: invoice.request });
+
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({
+      status: 'ERROR',
+      reason: 'Voucher payouts above the approval threshold are not allowed',
+    });
+    expect(db.withdrawLink.updateMany).not.toHaveBeenCalled();
+    expect(db.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('creates vouchers with an LNURL and validates their bounds', async () => {
+    const app = await createTestApp();
+    db.withdrawLink.create.mockImplementation(async ({ data }) => ({
+      ...VOUCHER,
+      ...data,
+      minWithdrawable: BigInt(data.minWithdrawable),
+      maxWithdrawable: BigInt(data.maxWithdrawable),
+    }));
+
+    const res = await request(app)
+      .post('/api/lnurl/withdraw-links')
+      .send({ min_withdrawable: 1000, max_withdrawable: 10_000, max_uses: 5, expires_in: 3600 });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data).toMatchObject({
+      node_id: 'node_a',
+      min_withdrawable: 1000,
+      max_withdrawable: 10_000,
+      max_uses: 5,
+      uses: 0,
+      status: 'active',
+    });
+    expect(res.body.data.lnurl).toMatch(/^LNURL1/);
+    expect(db.withdrawLink.create.mock.calls[0][0].data.k1).toMatch(/^[0-9a-f]{64}$/);
+
+    const invalid = await request(app)
+      .post('/api/lnurl/withdraw-links')
+      .send({ min_withdrawable: 500, max_withdrawable: 'lots', max_uses: 0 });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors.map((e: { path: string }) => e.path)).toEqual([
+      'min_withdrawable',
+      'max_withdrawable',
+      'max_uses',
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+import { createHash } from 'crypto';
+import { describe, it, expect } from 'vitest';
+import { createMockBackend } from '../services/backends/mock.js';
+import { BackendInvoiceUpdate } from '../types/backend.js';
+
+/**
+ * Mock backend tests.
+ * The mock settles invoices between its own simulated nodes, so a full
+ * create → pay → settle flow runs without any LND.
+ */
+
+describe('Mock Lightning backend', () => {
+  it('settles an invoice from node A when node B pays it', async () => {
+    const backend = createMockBackend({ seed: 'test' });
+
+    const invoice = await backend.createInvoice('node_a', { tokens: 1000, description: 'Coffee' });
+    expect(invoice.request).toMatch(/^lnbcrt/);
+
+    const payment = await backend.pay('node_b', { request: invoice.request });
+    expect(payment.id).toBe(invoice.id);
+    expect(payment.secret).toBe(invoice.secret);
+
+    const settled = await backend.getInvoice('node_a', invoice.id);
+    expect(settled.is_confirmed).toBe(true);
+
+    const status = await backend.getPayment('node_b', invoice.id);
+    expect(status.is_confirmed).toBe(true);
+
+    expect((await backend.getBalance('node_a')).channel_balance).toBe(1000);
+    expect((await backend.getBalance('node_b')).channel_balance).toBe(999_000);
+  });
+
+  it('decodes its own invoices', async () => {
+    const backend = createMockBackend({ seed: 'test' });
+    const invoice = await backend.createInvoice('node_a', { tokens: 250, description: 'Tea' });
+    const info = await backend.getInfo('node_a');
+
+    const decoded = await backend.decodePaymentRequest('node_b', invoice.request);
+
+    expect(decoded.id).toBe(invoice.id);
+    expect(decoded.tokens).toBe(250);
+    expect(decoded.description).toBe('Tea');
+    expect(decoded.destination).toBe(info.public_key);
+  });
+
+  it('is deterministic for a given seed', async () => {
+    const first = await createMockBackend({ seed: 'same' }).createInvoice('node_a', { tokens: 1 });
+    const second = await createMockBackend({ seed: 'same' }).createInvoice('node_a', { tokens: 1 });
+
+    expect(first.id).toBe(second.id);
+    expect(first.secret).toBe(second.secret);
+  });
+
+  it('emits invoice updates to subscribers', async () => {
+    const backend = createMockBackend({ seed: 'test' });
+    const updates: BackendInvoiceUpdate[] = [];
+    backend.subscribeToInvoices('node_a').on('invoice_updated', (update) => updates.push(update));
+
+    const invoice = await backend.createInvoice('node_a', { tokens: 10 });
+    await backend.pay('node_b', { request: invoice.request });
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ id: invoice.id, is_confirmed: true, secret: invoice.secret });
+  });
+
+  it('rejects payments without enough balance', async () => {
+    const backend = createMockBackend({ seed: 'test' });
+    const invoice = await backend.createInvoice('node_a', { tokens: 2_000_000 });
+
+    await expect(backend.pay('node_b', { request: invoice.request })).rejects.toEqual([
+      503,
+      'InsufficientBalanceToAttemptPayment',
+    ]);
+  });
+
+  it('rejects paying the same invoice twice', async () => {
+    const backend = createMockBackend({ seed: 'test' });
+    const invoice = await backend.createInvoice('node_a', { tokens: 10 });
+
+    await backend.pay('node_b', { request: invoice.request });
+
+    await expect(backend.pay('node_b', { request: invoice.request })).rejects.toBeDefined();
+  });
+
+  it('holds payments to hold invoices until the payee settles them', async () => {
+    const backend = createMockBackend({ seed: 'test' });
+    const preimage = 'cd'.repeat(32);
+    const id = createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+    const updates: BackendInvoiceUpdate[] = [];
+    backend.subscribeToInvoices('node_a').on('invoice_updated', (update) => updates.push(update));
+
+    const invoice = await backend.createHoldInvoice('node_a', { id, tokens: 100 });
+    const paying = backend.pay('node_b', { request: invoice.request });
+
+    expect((await backend.getInvoice('node_a', id)).is_held).toBe(true);
+    expect((await backend.getPayment('node_b', id)).is_pending).toBe(true);
+    expect((await backend.getBalance('node_b')).channel_balance).toBe(999_900);
+    expect((await backend.getBalance('node_a')).channel_balance).toBe(0);
+
+    await backend.settleHoldInvoice('node_a', preimage);
+
+    expect((await paying).secret).toBe(preimage);
+    expect((await backend.getBalance('node_a')).channel_balance).toBe(100);
+    expect(updates.map((u) => [u.is_held, u.is_confirmed])).toEqual([
+      [true, false],
+      [false, true],
+    ]);
+  });
+
+  it('returns held payments to the payer when the invoice is canceled', async () => {
+    const backend = createMockBackend({ seed: 'test' });
+    const invoice = await backend.createHoldInvoice('node_a', { id: 'ef'.repeat(32), tokens: 100 });
+    const paying = backend.pay('node_b', { request: invoice.request });
+
+    await backend.cancelInvoice('node_a', invoice.id);
+
+    await expect(paying).rejects.toEqual([503, 'PaymentRejectedByDestination']);
+    expect((await backend.getInvoice('node_a', invoice.id)).is_canceled).toBe(true);
+    expect((await backend.getBalance('node_b')).channel_balance).toBe(1_000_000);
+  });
+
+  it('records keysend payments as settled push invoices on the payee', async () => {
+    const backend = createMockBackend({ seed: 'test' });
+    const alice = await backend.getInfo('node_a');
+    const secret = 'ab'.repeat(32);
+    const id = createHash('sha256').update(Buffer.from(secret, 'hex')).digest('hex');
+    const messages = [{ type: '65537', value: '0102' }];
+    const updates: BackendInvoiceUpdate[] = [];
+    backend.subscribeToInvoices('node_a').on('invoice_updated', (update) => updates.push(update));
+
+    const subscription = backend.subscribeToKeysend('node_b', {
+      destination: alice.public_key,
+      tokens: 42,
+      secret,
+      messages,
+    });
+    const confirmed = await new Promise((resolve) => subscription.on('confirmed', resolve));
+
+    expect(confirmed).toMatchObject({ id, secret, tokens: 42 });
+    expect(updates).toEqual([
+      expect.objectContaining({ id, is_push: true, is_confirmed: true, received: 42, payments: [{ messages }] }),
+    ]);
+    expect(await backend.getInvoice('node_a', id)).toMatchObject({ request: null, is_push: true, secret });
+    expect((await backend.getBalance('node_a')).channel_balance).toBe(42);
+  });
+});
@@ -0,0 +1,171 @@
+import { createHash } from 'crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { setBackend, createMockBackend } from '../services/backends/index.js';
+import { apiKeyAuth } from '../middleware/apiKeyAuth.js';
+import { LightningBackend } from '../types/backend.js';
+
+/**
+ * Payment approval tests.
+ * The database is replaced with spies over in-memory payment rows; requests
+ * come from the admin key or a stored payments:write key.
+ */
+
+const db = vi.hoisted(() => ({
+  apiKey: { findUnique: vi.fn(), updateMany: vi.fn() },
+  invoice: { updateMany: vi.fn() },
+  webhook: { findMany: vi.fn() },
+  payment: { findFirst: vi.fn(), findUnique: vi.fn(), create: vi.fn(), updateMany: vi.fn(), aggregate: vi.fn() },
+  paymentAttempt: { create: vi.fn(), updateMany: vi.fn(), findFirst: vi.fn() },
+}));
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+
+const ADMIN_KEY = 'test-admin-key';
+const PAYER_KEY = 'lnk_test-payer-key';
+
+const PAYER = {
+  id: 'b6f0c1de-8d4e-4a53-9a55-0d7e1f2a3b4c',
+  name: 'payer',
+  prefix: 'lnk_test-pay',
+  keyHash: createHash('sha256').update(PAYER_KEY).digest('hex'),
+  scopes: ['payments:write'],
+  revokedAt: null,
+  lastUsedAt: new Date(),
+};
+
+const bearer = (key: string) => ({ Authorization: `Bearer ${key}` });
+
+describe('Payment approvals', () => {
+  let app: express.Express;
+  let backend: LightningBackend;
+  let payments: any[] = [];
+
+  const createTestApp = async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api', apiKeyAuth);
+
+    const { default: paymentRoutes } = await import('../routes/payment.js');
+    app.use('/api/payment', paymentRoutes);
+
+    return app;
+  };
+
+  // Ask for a payment above the threshold with the payer's key
+  const requestPayment = async (tokens: number) => {
+    const { request: payment_request } = await backend.createInvoice('node_a', { tokens });
+    return request(app).post('/api/payment').set(bearer(PAYER_KEY)).send({ payment_request });
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    payments = [];
+    process.env.API_ADMIN_KEY = ADMIN_KEY;
+    process.env.PAYMENT_APPROVAL_THRESHOLD_SATS = '1000';
+
+    db.apiKey.findUnique.mockImplementation(async ({ where }) => (where.keyHash === PAYER.keyHash ? PAYER : null));
+    db.invoice.updateMany.mockResolvedValue({ count: 1 });
+    db.webhook.findMany.mockResolvedValue([]);
+    db.payment.findFirst.mockResolvedValue(null);
+    db.payment.findUnique.mockImplementation(
+      async ({ where }) => payments.find((payment) => payment.paymentHash === where.paymentHash) ?? null
+    );
+    db.payment.create.mockImplementation(async ({ data }) => {
+      const payment = { kind: 'invoice', createdAt: new Date(), reviewedBy: null, reviewedAt: null, ...data };
+      payments.push(payment);
+      return payment;
+    });
+    db.payment.updateMany.mockImplementation(async ({ where, data }) => {
+      const matching = payments.filter(
+        (payment) =>
+          payment.paymentHash === where.paymentHash && (!where.status || payment.status === where.status)
+      );
+      matching.forEach((payment) => Object.assign(payment, data));
+      return { count: matching.length };
+    });
+    db.paymentAttempt.create.mockResolvedValue({});
+    db.paymentAttempt.updateMany.mockResolvedValue({ count: 1 });
+    db.paymentAttempt.findFirst.mockResolvedValue(null);
+
+    backend = createMockBackend({ seed: 'payment-approvals' });
+    setBackend(backend);
+    app = await createTestApp();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.API_ADMIN_KEY;
+    delete process.env.PAYMENT_APPROVAL_THRESHOLD_SATS;
+  });
+
+  it('sends payments up to the threshold right away', async () => {
+    const res = await requestPayment(1000);
+
+    expect(res.status).toBe(202);
+    expect(res.body.data.status).toBe('pending');
+    expect(db.paymentAttempt.create).toHaveBeenCalled();
+  });
+
+  it('holds payments above the threshold until another key approves them', async () => {
+    const res = await requestPayment(5000);
+
+    expect(res.status).toBe(202);
+    expect(res.body.data.status).toBe('awaiting_approval');
+    expect(payments[0]).toMatchObject({ status: 'awaiting_approval', requestedBy: PAYER.id });
+    expect(db.paymentAttempt.create).not.toHaveBeenCalled();
+
+    const { payment_hash } = res.body.data;
+
+    const own = await request(app).post(`/api/payment/${payment_hash}/approve`).set(bearer(PAYER_KEY));
+    expect(own.status).toBe(403);
+    expect(own.body.code).toBe('SAME_API_KEY');
+    expect(payments[0].status).toBe('awaiting_approval');
+
+    const approved = await request(app).post(`/api/payment/${payment_hash}/approve`).set(bearer(ADMIN_KEY));
+    expect(approved.status).toBe(202);
+    expect(approved.body.data).toMatchObject({
+      status: 'pending',
+      requested_by: PAYER.id,
+      reviewed_by: 'API_ADMIN_KEY',
+    });
+    expect(db.paymentAttempt.create).toHaveBeenCalledWith({ data: { paymentHash: payment_hash, attemptNumber: 1 } });
+
+    const again = await request(app).post(`/api/payment/${payment_hash}/approve`).set(bearer(ADMIN_KEY));
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('NOT_AWAITING_APPROVAL');
+  });
+
+  it('rejects payments without sending them', async () => {
+    const { payment_hash } = (await requestPayment(5000)).body.data;
+
+    const res = await request(app)
+      .post(`/api/payment/${payment_hash}/reject`)
+      .set(bearer(ADMIN_KEY))
+      .send({ reason: 'unknown payee' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({
+      status: 'failed',
+      reviewed_by: 'API_ADMIN_KEY',
+      error_message: 'Payment rejected: unknown payee',
+    });
+    expect(payments[0].status).toBe('failed');
+    expect(db.paymentAttempt.create).not.toHaveBeenCalled();
+  });
+
+  it('fails the payment when its invoice expired while waiting', async () => {
+    const { payment_hash } = (await requestPayment(5000)).body.data;
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 2 * 60 * 60 * 1000);
+
+    const res = await request(app).post(`/api/payment/${payment_hash}/approve`).set(bearer(ADMIN_KEY));
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('INVOICE_EXPIRED');
+    expect(payments[0]).toMatchObject({ status: 'failed', reviewedBy: 'API_ADMIN_KEY' });
+    expect(db.paymentAttempt.create).not.toHaveBeenCalled();
+  });
+});
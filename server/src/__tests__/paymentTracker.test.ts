@@ -0,0 +1,267 @@
+import { createHash } from 'crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { setBackend, createMockBackend } from '../services/backends/index.js';
+import { getKeysendMessage } from '../services/lightning.js';
+import { BackendInvoiceUpdate } from '../types/backend.js';
+import {
+  sendPayment,
+  resumePendingPayments,
+  classifyPaymentFailure,
+} from '../services/paymentTracker.js';
+
+/**
+ * Payment tracker tests.
+ * The database is replaced with spies so we can see which outcome the
+ * tracker records for payments sent through the mock backend.
+ */
+
+const db = vi.hoisted(() => ({
+  payment: { updateMany: vi.fn(), findMany: vi.fn() },
+  paymentAttempt: { create: vi.fn(), updateMany: vi.fn() },
+  invoice: { updateMany: vi.fn() },
+  webhook: { findMany: vi.fn() },
+}));
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+
+// Final status written to the payment row
+const recordedStatus = (paymentHash: string) =>
+  db.payment.updateMany.mock.calls
+    .map(([args]) => args)
+    .filter((args) => args.where.paymentHash === paymentHash && args.data.status)
+    .pop()?.data;
+
+// Outcome written to each attempt row, in order
+const recordedAttempts = (paymentHash: string) =>
+  db.paymentAttempt.updateMany.mock.calls
+    .map(([args]) => args)
+    .filter((args) => args.where.paymentHash === paymentHash && args.data.status)
+    .map((args) => ({ attempt: args.where.attemptNumber, ...args.data }));
+
+const noFailure = {
+  is_canceled: false,
+  is_insufficient_balance: false,
+  is_invalid_payment: false,
+  is_pathfinding_timeout: false,
+  is_route_not_found: false,
+};
+
+describe('Payment tracker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.payment.updateMany.mockResolvedValue({ count: 1 });
+    db.paymentAttempt.create.mockResolvedValue({});
+    db.paymentAttempt.updateMany.mockResolvedValue({ count: 1 });
+    db.invoice.updateMany.mockResolvedValue({ count: 0 });
+    db.webhook.findMany.mockResolvedValue([]);
+    process.env.PAYMENT_RETRY_BASE_DELAY_MS = '1';
+  });
+
+  afterEach(() => {
+    delete process.env.PAYMENT_RETRY_BASE_DELAY_MS;
+    delete process.env.PAYMENT_MAX_ATTEMPTS;
+  });
+
+  it('records the preimage, fee and route when a payment succeeds', async () => {
+    const backend = createMockBackend({ seed: 'tracker' });
+    setBackend(backend);
+    const invoice = await backend.createInvoice('node_a', { tokens: 100 });
+    const alice = await backend.getInfo('node_a');
+
+    sendPayment({ paymentHash: invoice.id, paymentRequest: invoice.request, nodeId: 'node_b' });
+
+    await vi.waitFor(() => expect(recordedStatus(invoice.id)).toBeDefined());
+    expect(recordedStatus(invoice.id)).toMatchObject({
+      status: 'succeeded',
+      preimage: invoice.secret,
+      fee: 0,
+    });
+    expect(db.paymentAttempt.create).toHaveBeenCalledWith({
+      data: { paymentHash: invoice.id, attemptNumber: 1 },
+    });
+    expect(recordedAttempts(invoice.id)).toEqual([
+      expect.objectContaining({
+        attempt: 1,
+        status: 'succeeded',
+        route: [expect.objectContaining({ public_key: alice.public_key })],
+      }),
+    ]);
+  });
+
+  it('sends the chosen amount for zero-amount invoices and records it as received', async () => {
+    const backend = createMockBackend({ seed: 'tracker' });
+    setBackend(backend);
+    const invoice = await backend.createInvoice('node_a', { tokens: 0 });
+
+    sendPayment({ paymentHash: invoice.id, paymentRequest: invoice.request, nodeId: 'node_b', amount: 321 });
+
+    await vi.waitFor(() => expect(recordedStatus(invoice.id)).toBeDefined());
+    expect(recordedStatus(invoice.id)).toMatchObject({ status: 'succeeded' });
+    expect(db.invoice.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ receivedAmount: 321 }) })
+    );
+    expect((await backend.getInvoice('node_a', invoice.id)).received).toBe(321);
+  });
+
+  it('keeps payments to hold invoices pending until the payee settles or cancels', async () => {
+    const backend = createMockBackend({ seed: 'tracker' });
+    setBackend(backend);
+    const preimage = 'cd'.repeat(32);
+    const settled = await backend.createHoldInvoice('node_a', {
+      id: createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex'),
+      tokens: 100,
+    });
+    const canceled = await backend.createHoldInvoice('node_a', { id: 'ef'.repeat(32), tokens: 100 });
+
+    sendPayment({ paymentHash: settled.id, paymentRequest: settled.request, nodeId: 'node_b' });
+    sendPayment({ paymentHash: canceled.id, paymentRequest: canceled.request, nodeId: 'node_b' });
+
+    await vi.waitFor(async () => {
+      expect((await backend.getInvoice('node_a', settled.id)).is_held).toBe(true);
+      expect((await backend.getInvoice('node_a', canceled.id)).is_held).toBe(true);
+    });
+    expect(recordedStatus(settled.id)).toBeUndefined();
+
+    await backend.settleHoldInvoice('node_a', preimage);
+    await backend.cancelInvoice('node_a', canceled.id);
+
+    await vi.waitFor(() => {
+      expect(recordedStatus(settled.id)).toMatchObject({ status: 'succeeded', preimage });
+      expect(recordedStatus(canceled.id)).toMatchObject({
+        status: 'failed',
+        errorMessage: 'Payment rejected by destination',
+      });
+    });
+  });
+
+  it('sends keysend payments to the destination with their message', async () => {
+    const backend = createMockBackend({ seed: 'tracker' });
+    setBackend(backend);
+    const alice = await backend.getInfo('node_a');
+    const preimage = '12'.repeat(32);
+    const paymentHash = createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+    const updates: BackendInvoiceUpdate[] = [];
+    backend.subscribeToInvoices('node_a').on('invoice_updated', (update) => updates.push(update));
+
+    sendPayment({
+      paymentHash,
+      paymentRequest: null,
+      keysend: { destination: alice.public_key, preimage, message: 'gm' },
+      nodeId: 'node_b',
+      amount: 21,
+    });
+
+    await vi.waitFor(() => expect(recordedStatus(paymentHash)).toBeDefined());
+    expect(recordedStatus(paymentHash)).toMatchObject({ status: 'succeeded', preimage });
+    expect(updates).toHaveLength(1);
+    expect(getKeysendMessage(updates[0].payments)).toBe('gm');
+    expect(updates[0].received).toBe(21);
+  });
+
+  it('does not retry permanent failures', async () => {
+    const backend = createMockBackend({ seed: 'tracker' });
+    setBackend(backend);
+    const invoice = await backend.createInvoice('node_a', { tokens: 2_000_000 });
+
+    sendPayment({ paymentHash: invoice.id, paymentRequest: invoice.request, nodeId: 'node_b' });
+
+    await vi.waitFor(() => expect(recordedStatus(invoice.id)).toBeDefined());
+    expect(recordedStatus(invoice.id)).toMatchObject({
+      status: 'failed',
+      errorMessage: 'Insufficient balance to send payment',
+    });
+    expect(db.paymentAttempt.create).toHaveBeenCalledTimes(1);
+    expect(recordedAttempts(invoice.id)).toEqual([
+      expect.objectContaining({ attempt: 1, status: 'failed', failureCode: 'insufficient_balance' }),
+    ]);
+  });
+
+  it('retries retryable failures up to the attempt limit', async () => {
+    process.env.PAYMENT_MAX_ATTEMPTS = '3';
+    setBackend(createMockBackend({ seed: 'tracker' }));
+
+    // An invoice from a node the mock network has no channel to
+    const elsewhere = createMockBackend({ nodes: [{ id: 'node_x', alias: 'carol' }] });
+    const invoice = await elsewhere.createInvoice('node_x', { tokens: 100 });
+
+    sendPayment({ paymentHash: invoice.id, paymentRequest: invoice.request, nodeId: 'node_b' });
+
+    await vi.waitFor(() => expect(recordedStatus(invoice.id)).toBeDefined());
+    expect(recordedStatus(invoice.id)).toMatchObject({
+      status: 'failed',
+      errorMessage: 'No route found to destination',
+    });
+    expect(db.paymentAttempt.create).toHaveBeenCalledTimes(3);
+    expect(recordedAttempts(invoice.id).map((a) => a.failureCode)).toEqual([
+      'route_not_found',
+      'route_not_found',
+      'route_not_found',
+    ]);
+    expect(db.payment.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ retryCount: 2 }) })
+    );
+  });
+
+  it('fails without retrying when every route is over the fee cap', async () => {
+    const backend = createMockBackend({ seed: 'tracker', routing_fee: 10 });
+    setBackend(backend);
+    const invoice = await backend.createInvoice('node_a', { tokens: 100 });
+
+    sendPayment({
+      paymentHash: invoice.id,
+      paymentRequest: invoice.request,
+      nodeId: 'node_b',
+      maxFee: 5,
+    });
+
+    await vi.waitFor(() => expect(recordedStatus(invoice.id)).toBeDefined());
+    expect(recordedStatus(invoice.id)).toMatchObject({
+      status: 'failed',
+      errorMessage: 'No route found within the fee limit',
+    });
+    expect(recordedAttempts(invoice.id)).toEqual([
+      expect.objectContaining({ attempt: 1, failureCode: 'fee_limit_exceeded' }),
+    ]);
+  });
+
+  it('resumes pending payments on startup', async () => {
+    const backend = createMockBackend({ seed: 'tracker' });
+    setBackend(backend);
+    const paid = await backend.createInvoice('node_a', { tokens: 100 });
+    await backend.pay('node_b', { request: paid.request });
+    const unsent = await backend.createInvoice('node_a', { tokens: 0 });
+    const lost = 'ab'.repeat(32);
+
+    db.payment.findMany.mockResolvedValue([
+      { paymentHash: paid.id, paymentRequest: paid.request, nodeId: 'node_b', attempts: [{ attemptNumber: 1 }] },
+      { paymentHash: lost, paymentRequest: paid.request, nodeId: 'node_b', attempts: [{ attemptNumber: 1 }] },
+      { paymentHash: unsent.id, paymentRequest: unsent.request, nodeId: 'node_b', amount: 50n, attempts: [] },
+    ]);
+
+    expect(await resumePendingPayments()).toBe(3);
+
+    await vi.waitFor(() => {
+      expect(recordedStatus(paid.id)).toBeDefined();
+      expect(recordedStatus(lost)).toBeDefined();
+      expect(recordedStatus(unsent.id)).toBeDefined();
+    });
+    expect(recordedStatus(paid.id)).toMatchObject({ status: 'succeeded', preimage: paid.secret });
+    expect(recordedStatus(lost)).toMatchObject({
+      status: 'failed',
+      errorMessage: 'Payment was never sent by the node',
+    });
+    expect(recordedStatus(unsent.id)).toMatchObject({ status: 'succeeded', preimage: unsent.secret });
+  });
+
+  it('classifies temporary channel failures seen along the route', () => {
+    expect(
+      classifyPaymentFailure({ ...noFailure, is_route_not_found: true }, [
+        { reason: 'TemporaryChannelFailure', channel: '1x1x0' },
+      ])
+    ).toBe('temporary_channel_failure');
+    expect(classifyPaymentFailure({ ...noFailure, is_route_not_found: true })).toBe('route_not_found');
+    expect(classifyPaymentFailure({ ...noFailure, is_invalid_payment: true })).toBe(
+      'incorrect_payment_details'
+    );
+  });
+});
@@ -0,0 +1,282 @@
+import { createHash } from 'crypto';
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { Server } from 'socket.io';
+import { io as connect, Socket } from 'socket.io-client';
+import { setBackend, createMockBackend } from '../services/backends/index.js';
+import { sendPayment } from '../services/paymentTracker.js';
+import {
+  RealtimeServer,
+  attachRealtimeServer,
+  detachRealtimeServer,
+  publishInvoiceUpdate,
+} from '../services/realtime.js';
+import { InvoiceUpdateEvent, PaymentUpdateEvent } from '../types/realtime.js';
+
+/**
+ * Real-time update tests.
+ * Socket.IO clients connect to a local server, with the admin key unless a
+ * test says otherwise, and subscribe to rooms; the database is replaced with
+ * spies for the payment tracker and API keys.
+ */
+
+const db = vi.hoisted(() => ({
+  apiKey: { findUnique: vi.fn(), updateMany: vi.fn() },
+  payment: { updateMany: vi.fn() },
+  paymentAttempt: { create: vi.fn(), updateMany: vi.fn() },
+  invoice: { updateMany: vi.fn() },
+  webhook: { findMany: vi.fn() },
+}));
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+
+const ADMIN_KEY = 'test-admin-key';
+const WRITER_KEY = 'lnk_test-invoice-writer';
+
+const WRITER = {
+  id: '0d9b7c2e-5a41-4f0e-8d3c-6b2a1e9f7c55',
+  name: 'invoice writer',
+  keyHash: createHash('sha256').update(WRITER_KEY).digest('hex'),
+  scopes: ['invoices:write'],
+  revokedAt: null,
+  lastUsedAt: new Date(),
+};
+
+const HASH_A = 'aa'.repeat(32);
+const HASH_B = 'bb'.repeat(32);
+
+const toInvoiceUpdate = (paymentHash: string, nodeId: string): InvoiceUpdateEvent => ({
+  payment_hash: paymentHash,
+  node_id: nodeId,
+  kind: 'invoice',
+  status: 'succeeded',
+  amount: 100,
+  received_amount: 100,
+  preimage: 'cd'.repeat(32),
+  settled_at: new Date().toISOString(),
+});
+
+describe('Real-time updates', () => {
+  let httpServer: HttpServer;
+  let io: RealtimeServer;
+  let clients: Socket[] = [];
+
+  // Connected client recording every event it receives
+  const connectClient = async (token: string | null = ADMIN_KEY) => {
+    const { port } = httpServer.address() as AddressInfo;
+    const socket = connect(`http://127.0.0.1:${port}`, {
+      transports: ['websocket'],
+      forceNew: true,
+      ...(token && { auth: { token } }),
+    });
+    const events = {
+      invoices: [] as InvoiceUpdateEvent[],
+      payments: [] as PaymentUpdateEvent[],
+    };
+    socket.on('invoice:updated', (event: InvoiceUpdateEvent) => events.invoices.push(event));
+    socket.on('payment:updated', (event: PaymentUpdateEvent) => events.payments.push(event));
+
+    clients.push(socket);
+    await new Promise<void>((resolve) => socket.once('connect', resolve));
+    return { socket, events };
+  };
+
+  // Events are delivered in order, so once an ack arrives everything published before it has too
+  const flush = (socket: Socket) => socket.emitWithAck('unsubscribe', { payment_hash: '00'.repeat(32) });
+
+  beforeAll(async () => {
+    httpServer = createServer();
+    io = new Server(httpServer);
+    attachRealtimeServer(io);
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    detachRealtimeServer();
+    await new Promise((resolve) => io.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.API_ADMIN_KEY = ADMIN_KEY;
+    db.apiKey.findUnique.mockImplementation(async ({ where }) => (where.keyHash === WRITER.keyHash ? WRITER : null));
+    db.payment.updateMany.mockResolvedValue({ count: 1 });
+    db.paymentAttempt.create.mockResolvedValue({});
+    db.paymentAttempt.updateMany.mockResolvedValue({ count: 1 });
+    db.invoice.updateMany.mockResolvedValue({ count: 0 });
+    db.webhook.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    clients.forEach((socket) => socket.disconnect());
+    clients = [];
+    delete process.env.API_ADMIN_KEY;
+  });
+
+  it('sends invoice updates only to subscribers of the hash or node', async () => {
+    const hashSubscriber = await connectClient();
+    const nodeSubscriber = await connectClient();
+    const bystander = await connectClient();
+
+    expect(await hashSubscriber.socket.emitWithAck('subscribe', { payment_hash: HASH_A.toUpperCase() })).toEqual({
+      success: true,
+    });
+    expect(await nodeSubscriber.socket.emitWithAck('subscribe', { node_id: 'node_a' })).toEqual({ success: true });
+
+    publishInvoiceUpdate(toInvoiceUpdate(HASH_A, 'node_a'));
+    publishInvoiceUpdate(toInvoiceUpdate(HASH_B, 'node_a'));
+    publishInvoiceUpdate(toInvoiceUpdate(HASH_B, 'node_b'));
+
+    await Promise.all([hashSubscriber, nodeSubscriber, bystander].map(({ socket }) => flush(socket)));
+
+    expect(hashSubscriber.events.invoices.map((event) => event.payment_hash)).toEqual([HASH_A]);
+    expect(nodeSubscriber.events.invoices.map((event) => [event.payment_hash, event.node_id])).toEqual([
+      [HASH_A, 'node_a'],
+      [HASH_B, 'node_a'],
+    ]);
+    expect(bystander.events.invoices).toEqual([]);
+
+    // After unsubscribing nothing more arrives
+    await hashSubscriber.socket.emitWithAck('unsubscribe', { payment_hash: HASH_A });
+    publishInvoiceUpdate(toInvoiceUpdate(HASH_A, 'node_b'));
+    await flush(hashSubscriber.socket);
+    expect(hashSubscriber.events.invoices).toHaveLength(1);
+  });
+
+  it('refuses malformed hashes and unknown nodes', async () => {
+    const { socket } = await connectClient();
+
+    expect(await socket.emitWithAck('subscribe', { payment_hash: 'abc' })).toEqual({
+      success: false,
+      error: 'payment_hash must be 64 hex characters',
+    });
+    expect(await socket.emitWithAck('subscribe', { node_id: 'node_z' })).toEqual({
+      success: false,
+      error: 'Unknown node: node_z',
+    });
+    expect(await socket.emitWithAck('subscribe', { payment_hash: HASH_A, node_id: 'node_a' })).toEqual({
+      success: false,
+      error: 'Subscribe to either a payment_hash or a node_id',
+    });
+  });
+
+  it('lets only keys with the read scope follow a node', async () => {
+    const anonymous = await connectClient(null);
+    const writer = await connectClient(WRITER_KEY);
+
+    const refusal = {
+      success: false,
+      error: 'Subscribing to a node needs an API key with the read scope',
+    };
+    expect(await anonymous.socket.emitWithAck('subscribe', { node_id: 'node_a' })).toEqual(refusal);
+    expect(await writer.socket.emitWithAck('subscribe', { node_id: 'node_a' })).toEqual(refusal);
+
+    // A payment hash needs no key
+    expect(await anonymous.socket.emitWithAck('subscribe', { payment_hash: HASH_A })).toEqual({ success: true });
+
+    publishInvoiceUpdate(toInvoiceUpdate(HASH_A, 'node_a'));
+    publishInvoiceUpdate(toInvoiceUpdate(HASH_B, 'node_a'));
+    await Promise.all([anonymous, writer].map(({ socket }) => flush(socket)));
+
+    expect(anonymous.events.invoices.map((event) => event.payment_hash)).toEqual([HASH_A]);
+    expect(writer.events.invoices).toEqual([]);
+  });
+
+  it('leaves the preimage out for followers without the read scope', async () => {
+    const backend = createMockBackend({ seed: 'realtime-anonymous' });
+    setBackend(backend);
+    const invoice = await backend.createInvoice('node_a', { tokens: 100 });
+
+    const anonymous = await connectClient(null);
+    const writer = await connectClient(WRITER_KEY);
+    const reader = await connectClient();
+    for (const { socket } of [anonymous, writer, reader]) {
+      await socket.emitWithAck('subscribe', { payment_hash: invoice.id });
+    }
+
+    publishInvoiceUpdate(toInvoiceUpdate(invoice.id, 'node_a'));
+    sendPayment({ paymentHash: invoice.id, paymentRequest: invoice.request, nodeId: 'node_b' });
+
+    await vi.waitFor(() => expect(reader.events.payments.at(-1)?.status).toBe('succeeded'));
+    await Promise.all([anonymous, writer].map(({ socket }) => flush(socket)));
+
+    for (const { events } of [anonymous, writer]) {
+      expect(events.invoices).toEqual([expect.objectContaining({ status: 'succeeded', preimage: null })]);
+      expect(events.payments.at(-1)).toMatchObject({ status: 'succeeded', preimage: null });
+    }
+    expect(reader.events.invoices[0].preimage).toBe('cd'.repeat(32));
+    expect(reader.events.payments.at(-1)?.preimage).toBe(invoice.secret);
+  });
+
+  it('refuses connections with an unknown key', async () => {
+    const { port } = httpServer.address() as AddressInfo;
+    const socket = connect(`http://127.0.0.1:${port}`, {
+      transports: ['websocket'],
+      forceNew: true,
+      auth: { token: 'lnk_nope' },
+    });
+    clients.push(socket);
+
+    const error = await new Promise<Error>((resolve) => socket.once('connect_error', resolve));
+    expect(error.message).toBe('Invalid or revoked API key');
+  });
+
+  it('ignores acknowledgements that are not functions', async () => {
+    const { socket } = await connectClient();
+
+    // Without a callback as last argument the server gets the value as ack
+    (socket.emit as (...args: unknown[]) => Socket)('subscribe', { payment_hash: HASH_A }, 1);
+    (socket.emit as (...args: unknown[]) => Socket)('subscribe', { node_id: 'node_z' }, 'ack');
+
+    expect(await socket.emitWithAck('subscribe', { payment_hash: HASH_B })).toEqual({ success: true });
+    expect(socket.connected).toBe(true);
+  });
+
+  it('follows a payment from its first attempt to the outcome', async () => {
+    const backend = createMockBackend({ seed: 'realtime' });
+    setBackend(backend);
+    const invoice = await backend.createInvoice('node_a', { tokens: 100 });
+
+    const hashSubscriber = await connectClient();
+    const receiverSubscriber = await connectClient();
+    await hashSubscriber.socket.emitWithAck('subscribe', { payment_hash: invoice.id });
+    await receiverSubscriber.socket.emitWithAck('subscribe', { node_id: 'node_a' });
+
+    sendPayment({ paymentHash: invoice.id, paymentRequest: invoice.request, nodeId: 'node_b' });
+
+    await vi.waitFor(() => expect(hashSubscriber.events.payments).toHaveLength(2));
+    expect(hashSubscriber.events.payments).toEqual([
+      expect.objectContaining({ node_id: 'node_b', status: 'pending', attempt: 1 }),
+      expect.objectContaining({ node_id: 'node_b', status: 'succeeded', attempt: 1, preimage: invoice.secret, fee: 0 }),
+    ]);
+
+    // The receiving node's subscribers don't see node B's payments
+    await flush(receiverSubscriber.socket);
+    expect(receiverSubscriber.events.payments).toEqual([]);
+  });
+
+  it('reports failed payments with their failure code', async () => {
+    const backend = createMockBackend({
+      seed: 'realtime-failure',
+      nodes: [
+        { id: 'node_a', alias: 'alice', channel_balance: 0 },
+        { id: 'node_b', alias: 'bob', channel_balance: 10 },
+      ],
+    });
+    setBackend(backend);
+    const invoice = await backend.createInvoice('node_a', { tokens: 100 });
+
+    const { socket, events } = await connectClient();
+    await socket.emitWithAck('subscribe', { node_id: 'node_b' });
+
+    sendPayment({ paymentHash: invoice.id, paymentRequest: invoice.request, nodeId: 'node_b' });
+
+    await vi.waitFor(() => expect(events.payments.at(-1)?.status).toBe('failed'));
+    expect(events.payments.at(-1)).toMatchObject({
+      payment_hash: invoice.id,
+      failure_code: 'insufficient_balance',
+      error_message: 'Insufficient balance to send payment',
+    });
+  });
+});
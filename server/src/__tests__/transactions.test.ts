@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { Prisma } from '@prisma/client';
+import { decodeLedgerCursor, encodeLedgerCursor } from '../services/ledger.js';
+
+/**
+ * Transaction ledger tests.
+ * Raw queries are answered by a spy, so the tests check what the route asks
+ * of the transaction_ledger view and how it pages through the answer.
+ */
+
+const db = vi.hoisted(() => ({
+  $queryRaw: vi.fn(),
+}));
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+
+const hash = (digit: string) => digit.repeat(64);
+
+const ledgerRow = (type: 'invoice' | 'payment', paymentHash: string, createdAt: string) => ({
+  type,
+  payment_hash: paymentHash,
+  kind: 'invoice',
+  node_id: type === 'invoice' ? 'node_a' : 'node_b',
+  amount: 1000n,
+  fee: type === 'payment' ? 2n : null,
+  status: 'succeeded',
+  description: 'coffee',
+  created_at: new Date(createdAt),
+  settled_at: null,
+  cursor_created_at: createdAt.replace('T', ' ').replace('Z', '+00'),
+});
+
+describe('Transaction ledger', () => {
+  let app: express.Express;
+  let rows: ReturnType<typeof ledgerRow>[];
+
+  const queries = () => db.$queryRaw.mock.calls.map(([sql]) => sql as Prisma.Sql);
+  const pageQueries = () => queries().filter((sql) => !sql.sql.includes('COUNT(*)'));
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    rows = [];
+
+    db.$queryRaw.mockImplementation(async (sql: Prisma.Sql) =>
+      sql.sql.includes('COUNT(*)') ? [{ count: BigInt(rows.length) }] : rows
+    );
+
+    app = express();
+    const { default: transactionRoutes } = await import('../routes/transactions.js');
+    app.use('/api', transactionRoutes);
+  });
+
+  it('pages with the cursor of the last row returned', async () => {
+    rows = [
+      ledgerRow('payment', hash('c'), '2026-10-19T12:00:00.000003Z'),
+      ledgerRow('invoice', hash('c'), '2026-10-19T12:00:00.000002Z'),
+      ledgerRow('invoice', hash('b'), '2026-10-19T12:00:00.000001Z'),
+    ];
+
+    const first = await request(app).get('/api/transactions').query({ limit: 2 });
+
+    expect(first.status).toBe(200);
+    expect(first.body.data.transactions).toMatchObject([
+      { type: 'payment', paymentHash: hash('c'), amount: 1000, fee: 2 },
+      { type: 'invoice', paymentHash: hash('c'), amount: 1000 },
+    ]);
+    expect(first.body.data.transactions[1]).not.toHaveProperty('fee');
+    expect(first.body.data.pagination).toMatchObject({ page: 1, limit: 2, total: 3, totalPages: 2 });
+
+    // The cursor keeps the microseconds the dates in the response lose
+    const { next_cursor } = first.body.data.pagination;
+    expect(decodeLedgerCursor(next_cursor)).toEqual({
+      createdAt: '2026-10-19 12:00:00.000002+00',
+      paymentHash: hash('c'),
+      type: 'invoice',
+    });
+    expect(pageQueries()[0].values).toEqual([3, 0]);
+
+    rows = rows.slice(2);
+    const second = await request(app).get('/api/transactions').query({ limit: 2, cursor: next_cursor });
+
+    expect(second.status).toBe(200);
+    expect(second.body.data.transactions).toHaveLength(1);
+    expect(second.body.data.pagination.next_cursor).toBeNull();
+    expect(pageQueries()[1].sql).toContain('("created_at", "payment_hash", "type") <');
+    expect(pageQueries()[1].values).toEqual(['2026-10-19 12:00:00.000002+00', hash('c'), 'invoice', 3, 0]);
+  });
+
+  it('turns filters into conditions on the ledger', async () => {
+    const res = await request(app).get('/api/transactions').query({
+      type: 'payment',
+      status: 'failed',
+      from: '2026-10-01T00:00:00Z',
+      to: '2026-10-19T00:00:00Z',
+      min_amount: '100',
+      max_amount: '5000',
+      q: ' 50%_off ',
+      payment_hash: 'ABC',
+      page: '3',
+      limit: '10',
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.pagination).toMatchObject({ page: 3, next_cursor: null });
+
+    const [page, count] = queries();
+    const conditions = [
+      'payment',
+      'failed',
+      new Date('2026-10-01T00:00:00Z'),
+      new Date('2026-10-19T00:00:00Z'),
+      100,
+      5000,
+      '%50\\%\\_off%',
+      'abc%',
+    ];
+    expect(page.values).toEqual([...conditions, 11, 20]);
+    expect(count.values).toEqual(conditions);
+  });
+
+  it('refuses malformed filters and cursors', async () => {
+    const forged = encodeLedgerCursor({ createdAt: 'yesterday', paymentHash: hash('a'), type: 'invoice' });
+
+    for (const query of [
+      { status: 'paid' },
+      { from: 'last week' },
+      { min_amount: '-1' },
+      { payment_hash: 'xyz' },
+      { cursor: 'not-a-cursor' },
+      { cursor: forged },
+    ]) {
+      const res = await request(app).get('/api/transactions').query(query);
+      expect(res.status).toBe(400);
+    }
+
+    expect(db.$queryRaw).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,260 @@
+import { createServer, Server, IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { setBackend, createMockBackend } from '../services/backends/index.js';
+import { sendPayment } from '../services/paymentTracker.js';
+import { notifyInvoiceEvent, signWebhookPayload, stopWebhookDeliveries } from '../services/webhooks.js';
+
+/**
+ * Webhook tests.
+ * Deliveries go to a local HTTP receiver; the database is replaced with
+ * spies backed by an in-memory delivery log.
+ */
+
+const db = vi.hoisted(() => ({
+  webhook: { create: vi.fn(), findMany: vi.fn() },
+  webhookDelivery: { create: vi.fn(), findUnique: vi.fn(), findFirst: vi.fn(), update: vi.fn() },
+  payment: { updateMany: vi.fn(), findUnique: vi.fn() },
+  paymentAttempt: { create: vi.fn(), updateMany: vi.fn() },
+  invoice: { updateMany: vi.fn(), findUnique: vi.fn() },
+}));
+
+vi.mock('../db/database.js', () => ({ prisma: db }));
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+// Local endpoint that records requests and answers with the queued statuses (then 200)
+let receiver: Server;
+let received: ReceivedRequest[] = [];
+let statuses: number[] = [];
+
+const receiverUrl = () => `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+
+const deliveries = new Map<string, any>();
+
+const createTestApp = async () => {
+  const app = express();
+  app.use(express.json());
+
+  const { default: webhookRoutes } = await import('../routes/webhooks.js');
+  app.use('/api/webhooks', webhookRoutes);
+
+  return app;
+};
+
+describe('Webhooks', () => {
+  let webhook: any;
+
+  beforeAll(async () => {
+    receiver = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = statuses.shift() ?? 200;
+        res.end('thanks');
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => receiver.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    received = [];
+    statuses = [];
+    deliveries.clear();
+    process.env.WEBHOOK_RETRY_BASE_DELAY_MS = '1';
+
+    webhook = {
+      id: randomUUID(),
+      url: receiverUrl(),
+      events: ['invoice.settled', 'payment.succeeded', 'payment.failed'],
+      secret: 'whsec_test',
+      description: null,
+      enabled: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    db.webhook.findMany.mockImplementation(async ({ where }) =>
+      webhook.events.includes(where.events.has) ? [webhook] : []
+    );
+    db.webhook.create.mockImplementation(async ({ data }) => ({ ...webhook, ...data }));
+    db.webhookDelivery.create.mockImplementation(async ({ data }) => {
+      const row = {
+        id: randomUUID(),
+        status: 'pending',
+        attempts: 0,
+        responseStatus: null,
+        responseBody: null,
+        error: null,
+        nextAttemptAt: null,
+        deliveredAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...data,
+      };
+      deliveries.set(row.id, row);
+      return row;
+    });
+    db.webhookDelivery.findUnique.mockImplementation(async ({ where }) =>
+      deliveries.has(where.id) ? { ...deliveries.get(where.id), webhook } : null
+    );
+    db.webhookDelivery.findFirst.mockImplementation(async ({ where }) => {
+      const row = deliveries.get(where.id);
+      return row?.webhookId === where.webhookId ? row : null;
+    });
+    db.webhookDelivery.update.mockImplementation(async ({ where, data }) => Object.assign(deliveries.get(where.id), data));
+
+    db.payment.updateMany.mockResolvedValue({ count: 1 });
+    db.paymentAttempt.create.mockResolvedValue({});
+    db.paymentAttempt.updateMany.mockResolvedValue({ count: 1 });
+    db.invoice.updateMany.mockResolvedValue({ count: 0 });
+  });
+
+  afterEach(() => {
+    stopWebhookDeliveries();
+    delete process.env.WEBHOOK_RETRY_BASE_DELAY_MS;
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+  });
+
+  it('registers endpoints with a signing secret and validates the event filter', async () => {
+    const app = await createTestApp();
+
+    const res = await request(app)
+      .post('/api/webhooks')
+      .send({ url: 'http://localhost:4000/hooks', events: ['payment.failed', 'payment.failed'] });
+    expect(res.status).toBe(201);
+    expect(res.body.data).toMatchObject({ url: 'http://localhost:4000/hooks', events: ['payment.failed'] });
+    expect(res.body.data.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+
+    const invalid = await request(app)
+      .post('/api/webhooks')
+      .send({ url: 'ftp://example.com', events: ['invoice.created'] });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors.map((e: { path: string }) => e.path)).toEqual(['url', 'events[0]']);
+  });
+
+  it('posts a signed payment.succeeded event when a payment succeeds', async () => {
+    const backend = createMockBackend({ seed: 'webhooks' });
+    setBackend(backend);
+    const invoice = await backend.createInvoice('node_a', { tokens: 100 });
+    db.payment.findUnique.mockImplementation(async () => ({
+      paymentHash: invoice.id,
+      nodeId: 'node_b',
+      kind: 'invoice',
+      status: 'succeeded',
+      amount: 100n,
+      fee: 0n,
+      destination: null,
+      description: null,
+      preimage: invoice.secret,
+      errorMessage: null,
+      withdrawLinkId: null,
+      createdAt: new Date(),
+      settledAt: new Date(),
+    }));
+
+    sendPayment({ paymentHash: invoice.id, paymentRequest: invoice.request, nodeId: 'node_b' });
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    const [{ headers, body }] = received;
+    const payload = JSON.parse(body);
+
+    expect(payload).toMatchObject({
+      event: 'payment.succeeded',
+      data: { payment_hash: invoice.id, status: 'succeeded', amount: 100, preimage: invoice.secret },
+    });
+    expect(headers['x-webhook-event']).toBe('payment.succeeded');
+    expect(headers['x-webhook-signature']).toBe(
+      signWebhookPayload('whsec_test', Number(headers['x-webhook-timestamp']), body)
+    );
+
+    await vi.waitFor(() =>
+      expect([...deliveries.values()][0]).toMatchObject({ status: 'succeeded', attempts: 1, responseStatus: 200 })
+    );
+  });
+
+  it('retries failed deliveries with backoff until the endpoint accepts them', async () => {
+    db.invoice.findUnique.mockResolvedValue({
+      paymentHash: 'ab'.repeat(32),
+      nodeId: 'node_a',
+      kind: 'invoice',
+      status: 'succeeded',
+      amount: 100n,
+      receivedAmount: 100n,
+      description: 'Coffee',
+      preimage: 'cd'.repeat(32),
+      username: null,
+      expiresAt: new Date(),
+      settledAt: new Date(),
+    });
+    statuses = [500, 503];
+
+    notifyInvoiceEvent('invoice.settled', 'ab'.repeat(32));
+
+    await vi.waitFor(() =>
+      expect([...deliveries.values()][0]).toMatchObject({ status: 'succeeded', attempts: 3 })
+    );
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map(({ body }) => JSON.parse(body).id)).size).toBe(1);
+
+    // Endpoints only get the events they subscribed to
+    notifyInvoiceEvent('invoice.expired', 'ab'.repeat(32));
+    expect(db.invoice.findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps failed deliveries in the log and redelivers them on request', async () => {
+    process.env.WEBHOOK_MAX_ATTEMPTS = '2';
+    db.invoice.findUnique.mockResolvedValue({
+      paymentHash: 'ab'.repeat(32),
+      nodeId: 'node_a',
+      kind: 'invoice',
+      status: 'succeeded',
+      amount: null,
+      receivedAmount: 42n,
+      description: null,
+      preimage: null,
+      username: null,
+      expiresAt: new Date(),
+      settledAt: new Date(),
+    });
+    statuses = [500, 500];
+
+    notifyInvoiceEvent('invoice.settled', 'ab'.repeat(32));
+
+    await vi.waitFor(() =>
+      expect([...deliveries.values()][0]).toMatchObject({
+        status: 'failed',
+        attempts: 2,
+        responseStatus: 500,
+        error: 'Endpoint answered with HTTP 500',
+      })
+    );
+    const [failed] = deliveries.values();
+
+    const app = await createTestApp();
+    const res = await request(app).post(`/api/webhooks/${webhook.id}/deliveries/${failed.id}/redeliver`);
+
+    expect(res.status).toBe(202);
+    expect(res.body.data).toMatchObject({ event_id: failed.eventId, event: 'invoice.settled', status: 'pending' });
+    expect(res.body.data.id).not.toBe(failed.id);
+
+    await vi.waitFor(() => expect(deliveries.get(res.body.data.id)).toMatchObject({ status: 'succeeded' }));
+    expect(received).toHaveLength(3);
+    expect(JSON.parse(received[2].body).id).toBe(failed.eventId);
+
+    const missing = await request(app).post(`/api/webhooks/${randomUUID()}/deliveries/${failed.id}/redeliver`);
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Environment Readers
+ *
+ * Shared by the config modules. Their getters read the environment on every
+ * call rather than once at startup, so changes made by tests take effect
+ * immediately. Unset and empty variables fall back to the default; anything
+ * else must parse or the getter throws.
+ */
+
+/**
+ * Read a Non-Negative Integer
+ *
+ * @throws Error if the variable is not a non-negative integer
+ */
+export const readInteger = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isSafeInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  }
+  return value;
+};
+
+/**
+ * Read a Positive Integer
+ *
+ * @throws Error if the variable is not a positive integer
+ */
+export const readPositiveInteger = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isSafeInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer, got "${raw}"`);
+  }
+  return value;
+};
@@ -0,0 +1,41 @@
+/**
+ * Idempotency Configuration Module
+ *
+ * How long the response to a request with an X-Idempotency-Key is kept.
+ * Retries within that time get the same response back; afterwards the key
+ * can be used for a new request.
+ *
+ * A request that never answered (the process died, or its response could
+ * not be stored) holds its key until the lock timeout; after that a retry
+ * runs it again.
+ *
+ * Environment variables:
+ * - IDEMPOTENCY_TTL_HOURS: Hours a key and its response are kept (default 24)
+ * - IDEMPOTENCY_LOCK_TIMEOUT_SECONDS: Seconds a request may run before its key
+ *   is taken as abandoned (default 60)
+ */
+
+import dotenv from 'dotenv';
+import { readPositiveInteger } from './env.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Idempotency Policy
+ */
+export interface IdempotencyPolicy {
+  ttlMs: number; // How long a key and its response are kept
+  lockTimeoutMs: number; // How long a request without a response holds its key
+}
+
+/**
+ * Get Idempotency Policy
+ *
+ * @returns Idempotency policy
+ * @throws Error if a variable is malformed
+ */
+export const getIdempotencyPolicy = (): IdempotencyPolicy => ({
+  ttlMs: readPositiveInteger('IDEMPOTENCY_TTL_HOURS', 24) * 60 * 60 * 1000,
+  lockTimeoutMs: readPositiveInteger('IDEMPOTENCY_LOCK_TIMEOUT_SECONDS', 60) * 1000,
+});
@@ -0,0 +1,34 @@
+/**
+ * Invoice Configuration Module
+ *
+ * How often open invoices past their expiry are marked as expired.
+ *
+ * Environment variables:
+ * - INVOICE_SWEEP_INTERVAL_MS: Time between sweeps; 0 turns the sweeper off (default 60000)
+ * - INVOICE_SWEEP_BATCH_SIZE: Invoices loaded and expired per batch, with one query and one update (default 500)
+ */
+
+import dotenv from 'dotenv';
+import { readInteger } from './env.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Invoice Expiry Sweep Policy
+ */
+export interface InvoiceSweepPolicy {
+  intervalMs: number; // Time between sweeps (0: disabled)
+  batchSize: number; // Invoices loaded and expired per batch
+}
+
+/**
+ * Get Invoice Sweep Policy
+ *
+ * @returns Sweep policy
+ * @throws Error if a variable is malformed
+ */
+export const getInvoiceSweepPolicy = (): InvoiceSweepPolicy => ({
+  intervalMs: readInteger('INVOICE_SWEEP_INTERVAL_MS', 60_000),
+  batchSize: Math.max(1, readInteger('INVOICE_SWEEP_BATCH_SIZE', 500)),
+});
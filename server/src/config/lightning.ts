@@ -2,9 +2,14 @@
  * Lightning Network Configuration Module
  *
  * This module configures connections to LND (Lightning Network Daemon) nodes.
- * We'll be connecting to two separate nodes:
- * - Node A (Receiver): Generates invoices to receive payments
- * - Node B (Sender): Sends payments to invoices
+ * Nodes are kept in a registry, each with a role:
+ * - receiver: Generates invoices to receive payments (default: Node A / Alice)
+ * - sender: Sends payments to invoices (default: Node B / Bob)
+ * - both: Can be used for either
+ *
+ * The registry is loaded from the JSON file named by LIGHTNING_NODES_FILE.
+ * Without it, the classic two-node setup is built from the LND_A_* and
+ * LND_B_* environment variables as `node_a` (receiver) and `node_b` (sender).
  *
  * LND Communication:
  * LND exposes a gRPC API for programmatic interaction. To connect, we need:
@@ -19,7 +24,9 @@
  */
 
 import fs from 'fs';
+import path from 'path';
 import dotenv from 'dotenv';
+import { LightningNetwork, NodeId, NodeRole } from '../types/lightning.js';
 
 // Load environment variables
 dotenv.config();
@@ -66,19 +73,183 @@ const readFile = (filePath: string, fileType: string): Buffer => {
 };
 
 /**
- * Node A Configuration (Receiver Node)
+ * Registered Lightning Node
+ *
+ * One entry of the node registry. Credentials are given either as file
+ * paths (cert_path / macaroon_path) or inline (cert as base64, macaroon
+ * as hex).
+ */
+export interface LightningNodeDefinition {
+  id: NodeId; // Identifier used in routes and database rows (e.g. "node_a")
+  alias: string; // Human-readable name (e.g. "alice")
+  role: NodeRole; // What the node is used for by default
+  host: string; // Node's network address (e.g. "localhost:10001")
+  cert_path?: string; // Path to the TLS certificate
+  macaroon_path?: string; // Path to the macaroon
+  cert?: string; // Inline TLS certificate (base64)
+  macaroon?: string; // Inline macaroon (hex)
+}
+
+const NODE_ROLES: NodeRole[] = ['receiver', 'sender', 'both'];
+const NODE_ID_PATTERN = /^[a-z0-9_-]{1,64}$/i;
+
+let registry: LightningNodeDefinition[] | null = null;
+
+/**
+ * Legacy Two-Node Registry
+ *
+ * Builds node_a and node_b from the LND_A_* and LND_B_* environment variables.
+ */
+const loadLegacyRegistry = (): LightningNodeDefinition[] => [
+  {
+    id: 'node_a',
+    alias: 'alice',
+    role: 'receiver',
+    host: process.env.LND_A_HOST || 'localhost:10001',
+    cert_path: process.env.LND_A_CERT_PATH,
+    macaroon_path: process.env.LND_A_MACAROON_PATH,
+  },
+  {
+    id: 'node_b',
+    alias: 'bob',
+    role: 'sender',
+    host: process.env.LND_B_HOST || 'localhost:10002',
+    cert_path: process.env.LND_B_CERT_PATH,
+    macaroon_path: process.env.LND_B_MACAROON_PATH,
+  },
+];
+
+/**
+ * Load Registry from File
+ *
+ * Reads a JSON file of the form `{ "nodes": [ { id, alias, role, host, ... } ] }`.
+ * Relative credential paths are resolved against the file's directory.
+ *
+ * @param filePath - Path to the registry file
+ * @returns Validated node definitions
+ */
+const loadRegistryFile = (filePath: string): LightningNodeDefinition[] => {
+  let parsed: { nodes?: unknown };
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read Lightning node registry at ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(parsed.nodes) || parsed.nodes.length === 0) {
+    throw new Error(`Lightning node registry at ${filePath} must contain a non-empty "nodes" array`);
+  }
+
+  const baseDir = path.dirname(path.resolve(filePath));
+  const resolvePath = (value?: string) =>
+    value ? path.resolve(baseDir, value) : undefined;
+
+  const nodes = parsed.nodes.map((entry: any, index: number): LightningNodeDefinition => {
+    if (typeof entry?.id !== 'string' || !NODE_ID_PATTERN.test(entry.id)) {
+      throw new Error(`Node #${index + 1} in ${filePath} needs an "id" of letters, digits, "_" or "-"`);
+    }
+    if (!NODE_ROLES.includes(entry.role)) {
+      throw new Error(`Node "${entry.id}" has invalid role "${entry.role}" (expected ${NODE_ROLES.join(', ')})`);
+    }
+    if (typeof entry.host !== 'string' || !entry.host) {
+      throw new Error(`Node "${entry.id}" is missing "host"`);
+    }
+
+    return {
+      id: entry.id,
+      alias: typeof entry.alias === 'string' && entry.alias ? entry.alias : entry.id,
+      role: entry.role,
+      host: entry.host,
+      cert_path: resolvePath(entry.cert_path),
+      macaroon_path: resolvePath(entry.macaroon_path),
+      cert: entry.cert,
+      macaroon: entry.macaroon,
+    };
+  });
+
+  const ids = new Set<string>();
+  for (const node of nodes) {
+    if (ids.has(node.id)) {
+      throw new Error(`Duplicate node id "${node.id}" in ${filePath}`);
+    }
+    ids.add(node.id);
+  }
+
+  return nodes;
+};
+
+/**
+ * Get Node Registry
  *
- * This node will be used to generate invoices and receive payments.
+ * @returns Every registered node, loaded once and cached
  */
-export const getNodeAConfig = (): LightningNodeConfig => {
-  const host = process.env.LND_A_HOST || 'localhost:10001';
-  const certPath = process.env.LND_A_CERT_PATH;
-  const macaroonPath = process.env.LND_A_MACAROON_PATH;
+export const getNodeRegistry = (): LightningNodeDefinition[] => {
+  if (!registry) {
+    const filePath = process.env.LIGHTNING_NODES_FILE;
+    registry = filePath ? loadRegistryFile(filePath) : loadLegacyRegistry();
+  }
+  return registry;
+};
 
-  // Validate required environment variables
-  if (!certPath || !macaroonPath) {
+/**
+ * Find a Registered Node
+ *
+ * @param id - Node identifier
+ * @returns The node definition, or undefined if no such node is registered
+ */
+export const findNode = (id: NodeId): LightningNodeDefinition | undefined =>
+  getNodeRegistry().find((node) => node.id === id);
+
+/**
+ * Get Default Node for a Role
+ *
+ * Used by the routes that don't name a node (`/api/invoice`, `/api/payment`):
+ * the first node with the requested role, then the first node with role
+ * "both", then the first registered node.
+ *
+ * @param role - 'receiver' or 'sender'
+ * @returns Node identifier
+ */
+export const getDefaultNodeId = (role: Exclude<NodeRole, 'both'>): NodeId => {
+  const nodes = getNodeRegistry();
+  const node =
+    nodes.find((n) => n.role === role) ??
+    nodes.find((n) => n.role === 'both') ??
+    nodes[0];
+  return node.id;
+};
+
+/**
+ * Get Connection Configuration for a Node
+ *
+ * Loads the TLS certificate and macaroon for a registered node.
+ *
+ * @param id - Node identifier
+ * @returns Host, certificate and macaroon
+ */
+export const getNodeConfig = (id: NodeId): LightningNodeConfig => {
+  const node = findNode(id);
+  if (!node) {
+    throw new Error(`Unknown Lightning node "${id}"`);
+  }
+
+  const cert = node.cert
+    ? Buffer.from(node.cert, 'base64')
+    : node.cert_path
+      ? readFile(node.cert_path, `${node.alias} TLS certificate`)
+      : null;
+  const macaroon = node.macaroon
+    ? Buffer.from(node.macaroon, 'hex')
+    : node.macaroon_path
+      ? readFile(node.macaroon_path, `${node.alias} macaroon`)
+      : null;
+
+  // Validate that credentials are configured
+  if (!cert || !macaroon) {
     throw new Error(
-      'Missing Node A configuration. Please set LND_A_CERT_PATH and LND_A_MACAROON_PATH in your .env file.\n' +
+      `Missing credentials for node "${node.id}" (${node.alias}).\n` +
+        'Set cert_path and macaroon_path in your node registry, or for the default setup ' +
+        'LND_A_CERT_PATH / LND_A_MACAROON_PATH and LND_B_CERT_PATH / LND_B_MACAROON_PATH in your .env file.\n' +
         'You can find these files in Polar after creating your network.\n' +
         'Example paths:\n' +
         '  LND_A_CERT_PATH=/Users/YourName/.polar/networks/1/volumes/lnd/alice/tls.cert\n' +
@@ -86,40 +257,31 @@ export const getNodeAConfig = (): LightningNodeConfig => {
     );
   }
 
-  return {
-    host,
-    cert: readFile(certPath, 'Node A TLS certificate'),
-    macaroon: readFile(macaroonPath, 'Node A macaroon'),
-  };
+  return { host: node.host, cert, macaroon };
 };
 
+const NETWORKS: LightningNetwork[] = ['mainnet', 'testnet', 'signet', 'regtest'];
+
 /**
- * Node B Configuration (Sender Node)
+ * Get the Configured Lightning Network
  *
- * This node will be used to pay invoices generated by Node A.
+ * Read from LIGHTNING_NETWORK. When unset, the network is learned from the
+ * nodes instead (see getNodeNetwork). Payment requests for any other network
+ * are rejected.
  *
+ * @returns Network the nodes run on, or null if not configured
+ * @throws Error if LIGHTNING_NETWORK names an unknown network
  */
-export const getNodeBConfig = (): LightningNodeConfig => {
-  const host = process.env.LND_B_HOST || 'localhost:10002';
-  const certPath = process.env.LND_B_CERT_PATH;
-  const macaroonPath = process.env.LND_B_MACAROON_PATH;
+export const getLightningNetwork = (): LightningNetwork | null => {
+  const network = (process.env.LIGHTNING_NETWORK || '').trim().toLowerCase();
+  if (!network) return null;
 
-  // Validate required environment variables
-  if (!certPath || !macaroonPath) {
+  if (!NETWORKS.includes(network as LightningNetwork)) {
     throw new Error(
-      'Missing Node B configuration. Please set LND_B_CERT_PATH and LND_B_MACAROON_PATH in your .env file.\n' +
-        'You can find these files in Polar after creating your network.\n' +
-        'Example paths:\n' +
-        '  LND_B_CERT_PATH=/Users/YourName/.polar/networks/1/volumes/lnd/bob/tls.cert\n' +
-        '  LND_B_MACAROON_PATH=/Users/YourName/.polar/networks/1/volumes/lnd/bob/data/chain/bitcoin/regtest/admin.macaroon'
+      `LIGHTNING_NETWORK must be one of ${NETWORKS.join(', ')}, got "${process.env.LIGHTNING_NETWORK}"`
     );
   }
-
-  return {
-    host,
-    cert: readFile(certPath, 'Node B TLS certificate'),
-    macaroon: readFile(macaroonPath, 'Node B macaroon'),
-  };
+  return network as LightningNetwork;
 };
 
 /**
@@ -135,12 +297,11 @@ export const validateLightningConfig = (): boolean => {
   try {
     console.log('\n🔍 Validating Lightning Network configuration...\n');
 
-    // Try to load both node configurations
-    const nodeA = getNodeAConfig();
-    console.log(`✅ Node A configured at ${nodeA.host}`);
-
-    const nodeB = getNodeBConfig();
-    console.log(`✅ Node B configured at ${nodeB.host}`);
+    // Try to load every registered node configuration
+    for (const node of getNodeRegistry()) {
+      const config = getNodeConfig(node.id);
+      console.log(`✅ ${node.alias} (${node.id}, ${node.role}) configured at ${config.host}`);
+    }
 
     console.log('\n✅ Lightning Network configuration is valid!\n');
     return true;
@@ -154,7 +315,7 @@ export const validateLightningConfig = (): boolean => {
         '  1. Created a network in Polar\n' +
         '  2. Added at least 2 LND nodes\n' +
         '  3. Started the network\n' +
-        '  4. Copied the correct file paths to your .env file\n'
+        '  4. Copied the correct file paths to your .env file or node registry\n'
     );
     throw error;
   }
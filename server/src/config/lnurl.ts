@@ -0,0 +1,67 @@
+/**
+ * LNURL Configuration Module
+ *
+ * Where wallets reach the LNURL-pay endpoints. Lightning Addresses take
+ * their domain from the same URL, so `alice` becomes `alice@<host>`.
+ *
+ * Environment variables:
+ * - LNURL_BASE_URL: Public URL of this server (default: http://localhost:<PORT>)
+ * - LNURL_MIN_SENDABLE_MSAT: Default smallest payment to a username (default 1000)
+ * - LNURL_MAX_SENDABLE_MSAT: Default largest payment to a username (default 100000000)
+ * - LNURL_ALLOW_PRIVATE_HOSTS: Set to true to pay LNURLs on loopback and private
+ *   addresses, for local development (default: refused)
+ *
+ * Wallets refuse LNURLs that aren't served over HTTPS, except on .onion
+ * hosts and for local development.
+ */
+
+import dotenv from 'dotenv';
+import { readPositiveInteger } from './env.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * LNURL Configuration
+ */
+export interface LnurlConfig {
+  baseUrl: string; // Public URL without a trailing slash
+  domain: string; // Host (and port) used in Lightning Addresses
+  minSendable: number; // Default minimum payment in millisatoshis
+  maxSendable: number; // Default maximum payment in millisatoshis
+  allowPrivateHosts: boolean; // Outgoing LNURL requests may reach private addresses
+}
+
+/**
+ * Get the LNURL Configuration
+ *
+ * @returns Base URL, domain and default sendable range
+ * @throws Error if LNURL_BASE_URL is not an http(s) URL or the range is empty
+ */
+export const getLnurlConfig = (): LnurlConfig => {
+  const raw = process.env.LNURL_BASE_URL || `http://localhost:${process.env.PORT || 3001}`;
+
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error(`LNURL_BASE_URL must be an absolute URL, got "${raw}"`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`LNURL_BASE_URL must be an http(s) URL, got "${raw}"`);
+  }
+
+  const minSendable = readPositiveInteger('LNURL_MIN_SENDABLE_MSAT', 1000);
+  const maxSendable = readPositiveInteger('LNURL_MAX_SENDABLE_MSAT', 100_000_000);
+  if (maxSendable < minSendable) {
+    throw new Error('LNURL_MAX_SENDABLE_MSAT must not be below LNURL_MIN_SENDABLE_MSAT');
+  }
+
+  return {
+    baseUrl: `${url.origin}${url.pathname}`.replace(/\/+$/, ''),
+    domain: url.host,
+    minSendable,
+    maxSendable,
+    allowPrivateHosts: process.env.LNURL_ALLOW_PRIVATE_HOSTS === 'true',
+  };
+};
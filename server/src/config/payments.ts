@@ -0,0 +1,196 @@
+/**
+ * Payment Configuration Module
+ *
+ * Fee and timeout limits for outgoing payments, the spending policy and the
+ * retry policy. A failed attempt is retried with exponential backoff when its
+ * failure code is retryable and the payment has attempts left; otherwise the
+ * payment fails.
+ *
+ * Environment variables:
+ * - PAYMENT_MAX_FEE_SATS: Default routing fee cap in satoshis (default: none)
+ * - PAYMENT_MAX_FEE_PERCENT: Default routing fee cap as a percentage of the amount (default: none)
+ * - PAYMENT_TIMEOUT_SECONDS: Default time an attempt may spend finding a route (default: LND's)
+ * - PAYMENT_MAX_AMOUNT_SATS: Largest single payment in satoshis (default: none)
+ * - PAYMENT_HOURLY_BUDGET_SATS: Most a node may spend in any 60 minutes (default: none)
+ * - PAYMENT_DAILY_BUDGET_SATS: Most a node may spend in any 24 hours (default: none)
+ * - PAYMENT_ALLOWED_DESTINATIONS: Comma separated payee public keys; when set, only these are paid
+ * - PAYMENT_DENIED_DESTINATIONS: Comma separated payee public keys that are never paid
+ * - PAYMENT_APPROVAL_THRESHOLD_SATS: Payments above this wait for approval by a second API key (default: none)
+ * - PAYMENT_MAX_ATTEMPTS: Attempts per payment, including the first (default 3)
+ * - PAYMENT_RETRY_BASE_DELAY_MS: Delay before the first retry, doubled on each retry (default 2000)
+ * - PAYMENT_RETRY_MAX_DELAY_MS: Upper bound for the retry delay (default 30000)
+ * - PAYMENT_RETRYABLE_FAILURES: Comma separated failure codes worth retrying
+ *   (default: route_not_found,pathfinding_timeout,temporary_channel_failure)
+ *
+ * Failures caused by the payment itself (incorrect_payment_details,
+ * fee_limit_exceeded, canceled) won't succeed on a second try and should not
+ * be listed.
+ */
+
+import dotenv from 'dotenv';
+import { PaymentFailureCode } from '../types/lightning.js';
+import { readInteger } from './env.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Payment Retry Policy
+ */
+export interface PaymentRetryPolicy {
+  maxAttempts: number; // Attempts per payment, including the first
+  baseDelayMs: number; // Delay before the first retry
+  maxDelayMs: number; // Upper bound for the retry delay
+  retryableFailures: PaymentFailureCode[]; // Failure codes worth another attempt
+}
+
+export const PAYMENT_FAILURE_CODES: PaymentFailureCode[] = [
+  'insufficient_balance',
+  'incorrect_payment_details',
+  'route_not_found',
+  'pathfinding_timeout',
+  'temporary_channel_failure',
+  'fee_limit_exceeded',
+  'canceled',
+  'unknown',
+];
+
+const DEFAULT_RETRYABLE_FAILURES: PaymentFailureCode[] = [
+  'route_not_found',
+  'pathfinding_timeout',
+  'temporary_channel_failure',
+];
+
+/**
+ * Payment Limits
+ *
+ * `null` means no limit.
+ */
+export interface PaymentLimits {
+  maxFeeSats: number | null; // Routing fee cap in satoshis
+  maxFeePercent: number | null; // Routing fee cap as a percentage of the amount
+  timeoutSeconds: number | null; // Time an attempt may spend finding a route
+}
+
+const readOptionalNumber = (name: string): number | null => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return null;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${raw}"`);
+  }
+  return value;
+};
+
+/**
+ * Get Default Payment Limits
+ *
+ * @returns Server-wide limits, used when a payment request doesn't set its own
+ * @throws Error if a variable is malformed
+ */
+export const getDefaultPaymentLimits = (): PaymentLimits => ({
+  maxFeeSats: readOptionalNumber('PAYMENT_MAX_FEE_SATS'),
+  maxFeePercent: readOptionalNumber('PAYMENT_MAX_FEE_PERCENT'),
+  timeoutSeconds: readOptionalNumber('PAYMENT_TIMEOUT_SECONDS'),
+});
+
+/**
+ * Resolve the Routing Fee Cap for a Payment
+ *
+ * @param amount - Payment amount in satoshis
+ * @param limits - Fee limits; the lower one wins when both are set
+ * @returns Fee cap in whole satoshis, or null for no cap
+ */
+export const resolveMaxFee = (amount: number, limits: PaymentLimits): number | null => {
+  const caps = [
+    limits.maxFeeSats,
+    limits.maxFeePercent === null ? null : (amount * limits.maxFeePercent) / 100,
+  ].filter((cap): cap is number => cap !== null);
+
+  return caps.length ? Math.floor(Math.min(...caps)) : null;
+};
+
+/**
+ * Spending Policy
+ *
+ * Checked before a payment is recorded; `null` means no limit.
+ */
+export interface SpendingPolicy {
+  maxAmountSats: number | null; // Largest single payment
+  hourlyBudgetSats: number | null; // Most a node may spend in any 60 minutes
+  dailyBudgetSats: number | null; // Most a node may spend in any 24 hours
+  allowedDestinations: string[] | null; // Only these payees (null: any payee)
+  deniedDestinations: string[]; // Never these payees
+  approvalThresholdSats: number | null; // Larger payments wait for a second key's approval
+}
+
+const readPublicKeys = (name: string): string[] | null => {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return null;
+  }
+
+  const keys = raw.split(',').map((key) => key.trim().toLowerCase()).filter(Boolean);
+  for (const key of keys) {
+    if (!/^0[23][0-9a-f]{64}$/.test(key)) {
+      throw new Error(`${name} must list 66-character hex public keys, got "${key}"`);
+    }
+  }
+  return keys;
+};
+
+/**
+ * Get Spending Policy
+ *
+ * @returns Spending policy
+ * @throws Error if a variable is malformed
+ */
+export const getSpendingPolicy = (): SpendingPolicy => ({
+  maxAmountSats: readOptionalNumber('PAYMENT_MAX_AMOUNT_SATS'),
+  hourlyBudgetSats: readOptionalNumber('PAYMENT_HOURLY_BUDGET_SATS'),
+  dailyBudgetSats: readOptionalNumber('PAYMENT_DAILY_BUDGET_SATS'),
+  allowedDestinations: readPublicKeys('PAYMENT_ALLOWED_DESTINATIONS'),
+  deniedDestinations: readPublicKeys('PAYMENT_DENIED_DESTINATIONS') ?? [],
+  approvalThresholdSats: readOptionalNumber('PAYMENT_APPROVAL_THRESHOLD_SATS'),
+});
+
+/**
+ * Get Payment Retry Policy
+ *
+ * @returns Retry policy
+ * @throws Error if a variable is malformed or names an unknown failure code
+ */
+export const getPaymentRetryPolicy = (): PaymentRetryPolicy => {
+  const retryableFailures = process.env.PAYMENT_RETRYABLE_FAILURES
+    ? process.env.PAYMENT_RETRYABLE_FAILURES.split(',').map((code) => code.trim()).filter(Boolean)
+    : DEFAULT_RETRYABLE_FAILURES;
+
+  for (const code of retryableFailures) {
+    if (!PAYMENT_FAILURE_CODES.includes(code as PaymentFailureCode)) {
+      throw new Error(
+        `PAYMENT_RETRYABLE_FAILURES contains unknown failure code "${code}". ` +
+          `Expected one of: ${PAYMENT_FAILURE_CODES.join(', ')}`
+      );
+    }
+  }
+
+  return {
+    maxAttempts: Math.max(1, readInteger('PAYMENT_MAX_ATTEMPTS', 3)),
+    baseDelayMs: readInteger('PAYMENT_RETRY_BASE_DELAY_MS', 2_000),
+    maxDelayMs: readInteger('PAYMENT_RETRY_MAX_DELAY_MS', 30_000),
+    retryableFailures: retryableFailures as PaymentFailureCode[],
+  };
+};
+
+/**
+ * Delay Before a Retry
+ *
+ * @param policy - Retry policy
+ * @param attemptNumber - Number of the attempt that just failed (1 for the first)
+ * @returns Milliseconds to wait before the next attempt
+ */
+export const getRetryDelay = (policy: PaymentRetryPolicy, attemptNumber: number): number =>
+  Math.min(policy.baseDelayMs * 2 ** (attemptNumber - 1), policy.maxDelayMs);
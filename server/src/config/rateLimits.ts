@@ -0,0 +1,50 @@
+/**
+ * Rate Limit Configuration Module
+ *
+ * How many requests each client may make to /api per window. Clients are
+ * told apart by their API key, or by IP address on public routes. Routes that
+ * spend funds have a lower limit of their own. Every IP address also has a
+ * limit counted before API keys are checked, so keys can't be guessed
+ * without one; it covers the Lightning Address lookups too.
+ *
+ * Counts are kept in the memory of each server instance (see
+ * middleware/rateLimit.ts). Behind a load balancer every instance allows the
+ * full limit, so N instances let a client make N times as many requests;
+ * divide the limits by the number of instances, or run a single one.
+ *
+ * Environment variables:
+ * - RATE_LIMIT_WINDOW_MS: Length of a window (default 60000)
+ * - RATE_LIMIT_MAX_REQUESTS: Requests per window; 0 turns the limit off (default 120)
+ * - RATE_LIMIT_MAX_PAYMENTS: Requests to payments:write routes per window; 0 turns the limit off (default 10)
+ * - RATE_LIMIT_MAX_IP_REQUESTS: Requests per IP address and window, with or
+ *   without a valid key; 0 turns the limit off (default 300)
+ */
+
+import dotenv from 'dotenv';
+import { readInteger } from './env.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Rate Limit Policy
+ */
+export interface RateLimitPolicy {
+  windowMs: number; // Length of a window
+  maxRequests: number; // Requests per client and window (0: unlimited)
+  maxPayments: number; // Requests to payment routes per client and window (0: unlimited)
+  maxIpRequests: number; // Requests per IP address and window, before keys are checked (0: unlimited)
+}
+
+/**
+ * Get Rate Limit Policy
+ *
+ * @returns Rate limit policy
+ * @throws Error if a variable is malformed
+ */
+export const getRateLimitPolicy = (): RateLimitPolicy => ({
+  windowMs: Math.max(1, readInteger('RATE_LIMIT_WINDOW_MS', 60_000)),
+  maxRequests: readInteger('RATE_LIMIT_MAX_REQUESTS', 120),
+  maxPayments: readInteger('RATE_LIMIT_MAX_PAYMENTS', 10),
+  maxIpRequests: readInteger('RATE_LIMIT_MAX_IP_REQUESTS', 300),
+});
@@ -0,0 +1,52 @@
+/**
+ * Webhook Configuration Module
+ *
+ * How outgoing webhook deliveries are retried. A delivery succeeds when the
+ * endpoint answers with a 2xx status; anything else, including a timeout, is
+ * retried with exponential backoff until the attempts run out.
+ *
+ * Environment variables:
+ * - WEBHOOK_MAX_ATTEMPTS: Attempts per delivery, including the first (default 5)
+ * - WEBHOOK_RETRY_BASE_DELAY_MS: Delay before the first retry, doubled on each retry (default 5000)
+ * - WEBHOOK_RETRY_MAX_DELAY_MS: Upper bound for the retry delay (default 600000)
+ * - WEBHOOK_TIMEOUT_MS: How long an endpoint gets to answer (default 10000)
+ */
+
+import dotenv from 'dotenv';
+import { readInteger } from './env.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Webhook Delivery Policy
+ */
+export interface WebhookDeliveryPolicy {
+  maxAttempts: number; // Attempts per delivery, including the first
+  baseDelayMs: number; // Delay before the first retry
+  maxDelayMs: number; // Upper bound for the retry delay
+  timeoutMs: number; // How long an endpoint gets to answer
+}
+
+/**
+ * Get Webhook Delivery Policy
+ *
+ * @returns Delivery policy
+ * @throws Error if a variable is malformed
+ */
+export const getWebhookDeliveryPolicy = (): WebhookDeliveryPolicy => ({
+  maxAttempts: Math.max(1, readInteger('WEBHOOK_MAX_ATTEMPTS', 5)),
+  baseDelayMs: readInteger('WEBHOOK_RETRY_BASE_DELAY_MS', 5_000),
+  maxDelayMs: readInteger('WEBHOOK_RETRY_MAX_DELAY_MS', 600_000),
+  timeoutMs: Math.max(1, readInteger('WEBHOOK_TIMEOUT_MS', 10_000)),
+});
+
+/**
+ * Delay Before a Redelivery Attempt
+ *
+ * @param policy - Delivery policy
+ * @param attemptNumber - Number of the attempt that just failed (1 for the first)
+ * @returns Milliseconds to wait before the next attempt
+ */
+export const getWebhookRetryDelay = (policy: WebhookDeliveryPolicy, attemptNumber: number): number =>
+  Math.min(policy.baseDelayMs * 2 ** (attemptNumber - 1), policy.maxDelayMs);
@@ -3,7 +3,7 @@
  *
  * Express server that connects to LND nodes via ln-service
  * and provides REST API for creating invoices and making payments.
- * Uses Socket.IO for real-time invoice status updates.
+ * Uses Socket.IO for real-time invoice and payment updates.
  */
 
 import express from 'express';
@@ -12,12 +12,28 @@ import { Server } from 'socket.io';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { testConnection, closeConnection } from './db/database.js';
-import { testNodeConnection, subscribeToInvoiceUpdates } from './services/lightning.js';
+import { testNodeConnection, getNodeConnectionStatus, closeNodeConnections } from './services/lightning.js';
+import { startInvoiceSubscriptions, stopInvoiceSubscriptions } from './services/invoiceSubscriptions.js';
+import { getInvoiceSweeperStatus, startInvoiceSweeper, stopInvoiceSweeper } from './services/invoiceSweeper.js';
 import invoiceRoutes from './routes/invoice.js';
 import paymentRoutes from './routes/payment.js';
 import transactionRoutes from './routes/transactions.js';
+import nodeRoutes from './routes/nodes.js';
+import lnurlRoutes, { wellKnownRouter } from './routes/lnurl.js';
+import webhookRoutes from './routes/webhooks.js';
+import apiKeyRoutes from './routes/apiKeys.js';
+import { resumePendingPayments, stopPaymentTracker } from './services/paymentTracker.js';
+import { resumeWebhookDeliveries, stopWebhookDeliveries } from './services/webhooks.js';
+import { RealtimeServer, attachRealtimeServer } from './services/realtime.js';
+import { getNodeRegistry } from './config/lightning.js';
+import { getPaymentRetryPolicy, getSpendingPolicy } from './config/payments.js';
+import { getWebhookDeliveryPolicy } from './config/webhooks.js';
+import { getInvoiceSweepPolicy } from './config/invoices.js';
+import { getRateLimitPolicy } from './config/rateLimits.js';
 import { logger } from './lib/logger.js';
 import { requestLogger } from './middleware/requestLogger.js';
+import { apiKeyAuth } from './middleware/apiKeyAuth.js';
+import { ipRateLimit, rateLimit } from './middleware/rateLimit.js';
 
 // Load environment variables
 dotenv.config();
@@ -27,7 +43,7 @@ const httpServer = createServer(app);
 const PORT = process.env.PORT || 3001;
 
 // Socket.IO setup with CORS
-const io = new Server(httpServer, {
+const io: RealtimeServer = new Server(httpServer, {
   cors: {
     origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
     methods: ['GET', 'POST'],
@@ -42,19 +58,37 @@ app.use(cors({
 app.use(express.json());
 app.use(requestLogger);
 
+// Per-IP rate limits, API keys and their scopes (see middleware/apiKeyAuth.ts), then per-key rate limits
+app.use('/api', ipRateLimit);
+app.use('/api', apiKeyAuth);
+app.use('/api', rateLimit);
+
 // Health check endpoint
 app.get('/api/health', (_req, res) => {
+  const nodes = Object.fromEntries(
+    getNodeRegistry().map((node) => [node.id, getNodeConnectionStatus(node.id)])
+  );
+
   res.json({
     status: 'ok',
     timestamp: new Date().toISOString(),
+    nodes,
+    invoice_sweeper: getInvoiceSweeperStatus(),
   });
 });
 
 // API Routes
 app.use('/api/invoice', invoiceRoutes);
 app.use('/api/payment', paymentRoutes);
+app.use('/api/nodes', nodeRoutes);
+app.use('/api/lnurl', lnurlRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/keys', apiKeyRoutes);
 app.use('/api', transactionRoutes);
 
+// Lightning Address lookups (username@domain)
+app.use('/.well-known/lnurlp', ipRateLimit, rateLimit, wellKnownRouter);
+
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, _next: express.NextFunction) => {
   req.log?.error({ err }, 'Unhandled error');
@@ -73,46 +107,15 @@ app.use((_req, res) => {
 });
 
 /**
- * Setup Socket.IO connections and LND invoice subscription
+ * Setup Socket.IO subscriptions and LND invoice subscription
  */
-function setupWebSocket() {
-  // Track connected clients
-  io.on('connection', (socket) => {
-    logger.info({ socketId: socket.id }, 'Client connected');
-
-    socket.on('disconnect', () => {
-      logger.info({ socketId: socket.id }, 'Client disconnected');
-    });
-  });
+async function setupWebSocket() {
+  // Clients join rooms for the payment hashes and nodes they follow
+  attachRealtimeServer(io);
 
-  // Subscribe to LND invoice updates
-  try {
-    const invoiceSub = subscribeToInvoiceUpdates();
-
-    invoiceSub.on('invoice_updated', (invoice: any) => {
-      logger.info(
-        { paymentHash: invoice.id, status: invoice.is_confirmed ? 'PAID' : 'pending' },
-        'Invoice updated'
-      );
-
-      // Emit to all connected clients
-      io.emit('invoice:updated', {
-        payment_hash: invoice.id,
-        status: invoice.is_confirmed ? 'succeeded' : invoice.is_canceled ? 'expired' : 'pending',
-        amount: invoice.tokens,
-        preimage: invoice.secret || null,
-        settled_at: invoice.confirmed_at || null,
-      });
-    });
-
-    invoiceSub.on('error', (err: any) => {
-      logger.error({ err }, 'Invoice subscription error');
-    });
-
-    logger.info('Subscribed to LND invoice updates');
-  } catch (error) {
-    logger.warn({ error }, 'Could not subscribe to invoice updates');
-  }
+  // Follow invoice updates on every registered node, replaying what was
+  // missed while the server was down
+  await startInvoiceSubscriptions();
 }
 
 /**
@@ -133,10 +136,11 @@ async function startServer() {
   logger.info('Testing Lightning node connections...');
 
   try {
-    const nodeAConnected = await testNodeConnection('node_a');
-    const nodeBConnected = await testNodeConnection('node_b');
+    const results = await Promise.all(
+      getNodeRegistry().map((node) => testNodeConnection(node.id))
+    );
 
-    if (!nodeAConnected || !nodeBConnected) {
+    if (results.includes(false)) {
       logger.warn('Not all Lightning nodes connected - ensure Polar is running');
     }
   } catch (error) {
@@ -144,7 +148,38 @@ async function startServer() {
   }
 
   // Setup WebSocket and LND subscription
-  setupWebSocket();
+  await setupWebSocket();
+
+  // Fail fast on a malformed retry policy
+  const retryPolicy = getPaymentRetryPolicy();
+  logger.info(retryPolicy, 'Payment retry policy');
+  logger.info(getSpendingPolicy(), 'Spending policy');
+  logger.info(getRateLimitPolicy(), 'Rate limit policy');
+  logger.info(getWebhookDeliveryPolicy(), 'Webhook delivery policy');
+  logger.info(getInvoiceSweepPolicy(), 'Invoice expiry sweep policy');
+
+  if (!process.env.API_ADMIN_KEY) {
+    logger.warn('API_ADMIN_KEY is not set; only stored API keys are accepted');
+  }
+
+  // Resume tracking payments that were in flight when the server stopped
+  try {
+    const resumed = await resumePendingPayments();
+    logger.info({ count: resumed }, 'Tracking pending payments');
+  } catch (error) {
+    logger.error({ error }, 'Could not resume pending payments');
+  }
+
+  // Retry webhook deliveries that were still pending when the server stopped
+  try {
+    const resumed = await resumeWebhookDeliveries();
+    logger.info({ count: resumed }, 'Resuming pending webhook deliveries');
+  } catch (error) {
+    logger.error({ error }, 'Could not resume webhook deliveries');
+  }
+
+  // Mark open invoices past their expiry as expired, now and on an interval
+  startInvoiceSweeper();
 
   // Start HTTP server (Express + Socket.IO)
   httpServer.listen(PORT, () => {
@@ -156,6 +191,11 @@ async function startServer() {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   logger.info('Shutting down server (SIGINT)');
+  stopPaymentTracker();
+  stopWebhookDeliveries();
+  stopInvoiceSubscriptions();
+  stopInvoiceSweeper();
+  closeNodeConnections();
   await closeConnection();
   io.close();
   process.exit(0);
@@ -163,6 +203,11 @@ process.on('SIGINT', async () => {
 
 process.on('SIGTERM', async () => {
   logger.info('Shutting down server (SIGTERM)');
+  stopPaymentTracker();
+  stopWebhookDeliveries();
+  stopInvoiceSubscriptions();
+  stopInvoiceSweeper();
+  closeNodeConnections();
   await closeConnection();
   io.close();
   process.exit(0);
@@ -0,0 +1,112 @@
+/**
+ * Bech32 Encoding
+ *
+ * BIP-173 bech32 and BIP-350 bech32m, without the 90 character limit that
+ * BOLT11 payment requests routinely exceed.
+ */
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+export type Bech32Variant = 'bech32' | 'bech32m';
+
+const CHECKSUM_CONSTANT: Record<Bech32Variant, number> = {
+  bech32: 1,
+  bech32m: 0x2bc830a3,
+};
+
+/**
+ * Decoded Bech32 String
+ */
+export interface Bech32Decoded {
+  prefix: string; // Human-readable part
+  words: number[]; // 5-bit data words, without the checksum
+}
+
+const polymod = (values: number[]): number => {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    GENERATOR.forEach((generator, i) => {
+      if ((top >>> i) & 1) checksum ^= generator;
+    });
+  }
+  return checksum >>> 0;
+};
+
+const expandPrefix = (prefix: string): number[] => [
+  ...[...prefix].map((c) => c.charCodeAt(0) >> 5),
+  0,
+  ...[...prefix].map((c) => c.charCodeAt(0) & 31),
+];
+
+/**
+ * Decode a Bech32 String
+ *
+ * @param value - Bech32 string, all lowercase or all uppercase
+ * @param variant - Checksum variant to verify
+ * @returns Prefix and data words, or null if the string or checksum is invalid
+ */
+export const decodeBech32 = (value: string, variant: Bech32Variant = 'bech32'): Bech32Decoded | null => {
+  if (value !== value.toLowerCase() && value !== value.toUpperCase()) return null;
+
+  const lower = value.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) return null;
+
+  const prefix = lower.slice(0, separator);
+  if ([...prefix].some((c) => c.charCodeAt(0) < 33 || c.charCodeAt(0) > 126)) return null;
+
+  const words = [...lower.slice(separator + 1)].map((c) => CHARSET.indexOf(c));
+  if (words.includes(-1)) return null;
+
+  if (polymod([...expandPrefix(prefix), ...words]) !== CHECKSUM_CONSTANT[variant]) return null;
+
+  return { prefix, words: words.slice(0, -6) };
+};
+
+/**
+ * Encode Data Words as a Bech32 String
+ *
+ * @param prefix - Human-readable part
+ * @param words - 5-bit data words
+ * @param variant - Checksum variant
+ */
+export const encodeBech32 = (prefix: string, words: number[], variant: Bech32Variant = 'bech32'): string => {
+  const checksum = polymod([...expandPrefix(prefix), ...words, 0, 0, 0, 0, 0, 0]) ^ CHECKSUM_CONSTANT[variant];
+  const checksumWords = [0, 1, 2, 3, 4, 5].map((i) => (checksum >>> (5 * (5 - i))) & 31);
+
+  return `${prefix}1${[...words, ...checksumWords].map((word) => CHARSET[word]).join('')}`;
+};
+
+/**
+ * Regroup Bits, e.g. Bytes into 5-bit Words and Back
+ *
+ * @param data - Values of `from` bits each
+ * @param from - Bits per input value
+ * @param to - Bits per output value
+ * @param pad - Zero-pad a trailing partial group instead of dropping it
+ */
+export const convertBits = (data: ArrayLike<number>, from: number, to: number, pad: boolean): number[] => {
+  const result: number[] = [];
+  const mask = (1 << to) - 1;
+  let accumulator = 0;
+  let bits = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    accumulator = (accumulator << from) | data[i];
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((accumulator >> bits) & mask);
+    }
+    accumulator &= (1 << bits) - 1;
+  }
+
+  if (pad && bits > 0) {
+    result.push((accumulator << (to - bits)) & mask);
+  }
+
+  return result;
+};
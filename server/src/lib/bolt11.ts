@@ -0,0 +1,338 @@
+/**
+ * BOLT11 Helpers
+ *
+ * Reads what can be read from a payment request without asking a node:
+ * network, amount, tagged fields and the payee, recovered from the signature.
+ */
+
+import { createHash, createPublicKey, verify } from 'crypto';
+import { LightningNetwork, InvoiceFeature, RouteHintHop } from '../types/lightning.js';
+import { convertBits, decodeBech32, encodeBech32 } from './bech32.js';
+import { parseInvoicePrefix } from './invoiceValidation.js';
+import { recoverPublicKey } from './secp256k1.js';
+
+/**
+ * Decoded BOLT11 Payment Request
+ */
+export interface Bolt11Invoice {
+  network: LightningNetwork; // Network from the prefix (lnbc, lntb, lntbs, lnbcrt)
+  amount_msat: bigint | null; // Amount in millisatoshis (null: payer chooses)
+  timestamp: number; // Creation time in seconds since the epoch
+  payment_hash: string; // Hex
+  payment_secret: string | null; // Hex
+  description: string | null; // Short description (d field)
+  description_hash: string | null; // SHA-256 of a long description (h field)
+  metadata: string | null; // Hex payment metadata
+  payee: string; // Payee public key, from the n field or recovered from the signature
+  expiry: number; // Seconds after the timestamp
+  min_final_cltv_expiry: number; // CLTV delta for the last hop
+  fallback_addresses: string[]; // On-chain addresses
+  route_hints: RouteHintHop[][]; // Private routes to the payee
+  features: InvoiceFeature[]; // Feature bits that are set
+  signature: string; // Hex compact signature (r || s)
+  recovery_id: number; // Recovery id next to the signature
+  signature_valid: boolean; // The payee signed the request
+}
+
+// Fallback addresses use the network's on-chain formats
+const ADDRESS_FORMATS: Record<LightningNetwork, { bech32: string; p2pkh: number; p2sh: number }> = {
+  mainnet: { bech32: 'bc', p2pkh: 0x00, p2sh: 0x05 },
+  testnet: { bech32: 'tb', p2pkh: 0x6f, p2sh: 0xc4 },
+  signet: { bech32: 'tb', p2pkh: 0x6f, p2sh: 0xc4 },
+  regtest: { bech32: 'bcrt', p2pkh: 0x6f, p2sh: 0xc4 },
+};
+
+// Millisatoshis per unit of amount, by multiplier (bitcoin when there is none)
+const MSAT_PER_UNIT: Record<string, bigint> = {
+  '': 100_000_000_000n,
+  m: 100_000_000n,
+  u: 100_000n,
+  n: 100n,
+};
+
+// BOLT9 names of the features invoices use, by their even (required) bit
+const FEATURE_NAMES: Record<number, string> = {
+  8: 'var_onion_optin',
+  14: 'payment_secret',
+  16: 'basic_mpp',
+  24: 'option_route_blinding',
+  48: 'option_payment_metadata',
+};
+
+const TAGS = {
+  payment_hash: 1,
+  route_hint: 3,
+  features: 5,
+  expiry: 6,
+  fallback_address: 9,
+  description: 13,
+  payment_secret: 16,
+  payee: 19,
+  description_hash: 23,
+  min_final_cltv_expiry: 24,
+  metadata: 27,
+};
+
+const SIGNATURE_WORDS = 104; // 64-byte signature and a recovery id byte
+const TIMESTAMP_WORDS = 7;
+const DEFAULT_EXPIRY = 3600;
+const DEFAULT_MIN_FINAL_CLTV_EXPIRY = 18;
+
+const BASE58 = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// DER prefix of a compressed secp256k1 public key in SubjectPublicKeyInfo form
+const SECP256K1_SPKI_PREFIX = Buffer.from('3036301006072a8648ce3d020106052b8104000a032200', 'hex');
+
+const invalid = (reason: string) => [400, 'InvalidPaymentRequest', { reason }];
+
+const sha256 = (data: Buffer): Buffer => createHash('sha256').update(data).digest();
+
+const toBytes = (words: number[]): Buffer => Buffer.from(convertBits(words, 5, 8, false));
+
+const toInteger = (words: number[]): number => words.reduce((value, word) => value * 32 + word, 0);
+
+const toBase58Check = (version: number, payload: Buffer): string => {
+  const data = Buffer.concat([Buffer.from([version]), payload]);
+  const bytes = Buffer.concat([data, sha256(sha256(data)).subarray(0, 4)]);
+
+  let value = BigInt(`0x${bytes.toString('hex')}`);
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+
+  // Each leading zero byte is written as a leading 1
+  const zeros = bytes.findIndex((byte) => byte !== 0);
+  return '1'.repeat(zeros === -1 ? bytes.length : zeros) + encoded;
+};
+
+/**
+ * Read the network and amount from the human-readable prefix
+ */
+const parsePrefix = (prefix: string): { network: LightningNetwork; amount_msat: bigint | null } => {
+  const parsed = parseInvoicePrefix(prefix);
+  if ('valid' in parsed) {
+    throw invalid(parsed.error);
+  }
+
+  const { network, amount, multiplier } = parsed;
+  if (amount === null) {
+    return { network, amount_msat: null };
+  }
+
+  // A pico-bitcoin is a tenth of a millisatoshi
+  if (multiplier === 'p') {
+    return { network, amount_msat: BigInt(amount) / 10n };
+  }
+
+  return { network, amount_msat: BigInt(amount) * MSAT_PER_UNIT[multiplier] };
+};
+
+const toFallbackAddress = (words: number[], network: LightningNetwork): string | null => {
+  const [version, ...program] = words;
+  const format = ADDRESS_FORMATS[network];
+  const bytes = toBytes(program);
+
+  if (version === 17 && bytes.length === 20) return toBase58Check(format.p2pkh, bytes);
+  if (version === 18 && bytes.length === 20) return toBase58Check(format.p2sh, bytes);
+  if (version <= 16 && bytes.length >= 2 && bytes.length <= 40) {
+    return encodeBech32(format.bech32, [version, ...program], version === 0 ? 'bech32' : 'bech32m');
+  }
+
+  // Unknown versions are skipped, as BOLT11 asks
+  return null;
+};
+
+const toRouteHint = (words: number[]): RouteHintHop[] => {
+  const bytes = toBytes(words);
+  const hops: RouteHintHop[] = [];
+
+  for (let offset = 0; offset + 51 <= bytes.length; offset += 51) {
+    hops.push({
+      public_key: bytes.subarray(offset, offset + 33).toString('hex'),
+      short_channel_id: [
+        bytes.readUIntBE(offset + 33, 3),
+        bytes.readUIntBE(offset + 36, 3),
+        bytes.readUInt16BE(offset + 39),
+      ].join('x'),
+      fee_base_msat: bytes.readUInt32BE(offset + 41),
+      fee_proportional_millionths: bytes.readUInt32BE(offset + 45),
+      cltv_expiry_delta: bytes.readUInt16BE(offset + 49),
+    });
+  }
+
+  return hops;
+};
+
+const toFeatures = (words: number[]): InvoiceFeature[] => {
+  const features: InvoiceFeature[] = [];
+
+  for (let bit = 0; bit < words.length * 5; bit++) {
+    const word = words[words.length - 1 - Math.floor(bit / 5)];
+    if ((word >> bit % 5) & 1) {
+      features.push({
+        bit,
+        name: FEATURE_NAMES[bit - (bit % 2)] ?? null,
+        is_required: bit % 2 === 0,
+      });
+    }
+  }
+
+  return features;
+};
+
+const verifySignature = (message: Buffer, signature: Buffer, publicKey: string): boolean => {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([SECP256K1_SPKI_PREFIX, Buffer.from(publicKey, 'hex')]),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify('sha256', message, { key, dsaEncoding: 'ieee-p1363' }, signature);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Decode a BOLT11 Payment Request
+ *
+ * Unknown tagged fields, and known ones with the wrong length, are skipped
+ * as the spec asks. When the request names its payee (n field) the signature
+ * is checked against that key; otherwise the payee is recovered from it.
+ *
+ * @param request - BOLT11 payment request, optionally prefixed with "lightning:"
+ * @returns Every field of the request
+ * @throws [400, 'InvalidPaymentRequest', { reason }] if it can't be decoded
+ */
+export const decodeBolt11 = (request: string): Bolt11Invoice => {
+  const decoded = decodeBech32(request.trim().replace(/^lightning:/i, ''));
+  if (!decoded) {
+    throw invalid('Invalid bech32 encoding or checksum');
+  }
+
+  const { prefix, words } = decoded;
+  if (words.length < TIMESTAMP_WORDS + SIGNATURE_WORDS) {
+    throw invalid('Payment request is too short');
+  }
+
+  const { network, amount_msat } = parsePrefix(prefix);
+  const dataWords = words.slice(0, -SIGNATURE_WORDS);
+  const signatureBytes = toBytes(words.slice(-SIGNATURE_WORDS));
+
+  const invoice: Bolt11Invoice = {
+    network,
+    amount_msat,
+    timestamp: toInteger(dataWords.slice(0, TIMESTAMP_WORDS)),
+    payment_hash: '',
+    payment_secret: null,
+    description: null,
+    description_hash: null,
+    metadata: null,
+    payee: '',
+    expiry: DEFAULT_EXPIRY,
+    min_final_cltv_expiry: DEFAULT_MIN_FINAL_CLTV_EXPIRY,
+    fallback_addresses: [],
+    route_hints: [],
+    features: [],
+    signature: signatureBytes.subarray(0, 64).toString('hex'),
+    recovery_id: signatureBytes[64],
+    signature_valid: false,
+  };
+
+  // Only the first occurrence of a single-valued field counts
+  const seen = new Set<number>();
+  const first = (tag: number) => !seen.has(tag) && seen.add(tag);
+
+  for (let i = TIMESTAMP_WORDS; i < dataWords.length; ) {
+    if (i + 3 > dataWords.length) {
+      throw invalid('Truncated tagged field');
+    }
+
+    const tag = dataWords[i];
+    const length = dataWords[i + 1] * 32 + dataWords[i + 2];
+    const field = dataWords.slice(i + 3, i + 3 + length);
+    if (field.length !== length) {
+      throw invalid('Truncated tagged field');
+    }
+    i += 3 + length;
+
+    switch (tag) {
+      case TAGS.payment_hash:
+        if (length === 52 && first(tag)) invoice.payment_hash = toBytes(field).toString('hex');
+        break;
+      case TAGS.payment_secret:
+        if (length === 52 && first(tag)) invoice.payment_secret = toBytes(field).toString('hex');
+        break;
+      case TAGS.description_hash:
+        if (length === 52 && first(tag)) invoice.description_hash = toBytes(field).toString('hex');
+        break;
+      case TAGS.payee:
+        if (length === 53 && first(tag)) invoice.payee = toBytes(field).toString('hex');
+        break;
+      case TAGS.description:
+        if (first(tag)) invoice.description = toBytes(field).toString('utf8');
+        break;
+      case TAGS.metadata:
+        if (first(tag)) invoice.metadata = toBytes(field).toString('hex');
+        break;
+      case TAGS.expiry:
+        if (first(tag)) invoice.expiry = toInteger(field);
+        break;
+      case TAGS.min_final_cltv_expiry:
+        if (first(tag)) invoice.min_final_cltv_expiry = toInteger(field);
+        break;
+      case TAGS.features:
+        if (first(tag)) invoice.features = toFeatures(field);
+        break;
+      case TAGS.route_hint:
+        invoice.route_hints.push(toRouteHint(field));
+        break;
+      case TAGS.fallback_address: {
+        const address = length ? toFallbackAddress(field, network) : null;
+        if (address) invoice.fallback_addresses.push(address);
+        break;
+      }
+    }
+  }
+
+  if (!invoice.payment_hash) {
+    throw invalid('Payment request has no payment hash');
+  }
+
+  // The signature covers the prefix and the data words, padded to bytes
+  const message = Buffer.concat([
+    Buffer.from(prefix, 'utf8'),
+    Buffer.from(convertBits(dataWords, 5, 8, true)),
+  ]);
+  const signature = signatureBytes.subarray(0, 64);
+
+  if (invoice.payee) {
+    invoice.signature_valid = verifySignature(message, signature, invoice.payee);
+  } else {
+    const payee = recoverPublicKey(sha256(message), signature, invoice.recovery_id);
+    if (!payee) {
+      throw invalid('Could not recover the payee from the signature');
+    }
+    invoice.payee = payee;
+    invoice.signature_valid = true;
+  }
+
+  return invoice;
+};
+
+/**
+ * Check Whether a Payment Request Specifies an Amount
+ *
+ * The amount is part of the human-readable prefix before the last `1`
+ * (`lnbcrt2500n1...` asks for 2500 nanobitcoin), and network prefixes contain
+ * no digits, so an amountless request has none.
+ *
+ * @param request - BOLT11 payment request
+ * @returns True unless the payer chooses the amount
+ */
+export const requestHasAmount = (request: string): boolean => {
+  const prefix = request.slice(0, request.lastIndexOf('1'));
+  return /\d/.test(prefix);
+};
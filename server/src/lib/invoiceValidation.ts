@@ -0,0 +1,182 @@
+/**
+ * Invoice Validation
+ *
+ * Structural checks on a BOLT11 payment request: bech32 encoding and
+ * checksum, network prefix, amount multiplier and length. Cheap enough to
+ * run before anything is sent to a node.
+ *
+ * The server and the client validate with the same rules: this file is
+ * copied verbatim to client/src/lib/invoiceValidation.ts, so it imports
+ * nothing and sticks to syntax both builds accept. Edit both copies together.
+ */
+
+export type InvoiceNetwork = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+/**
+ * Invoice Validation Error Codes
+ * - PAYMENT_REQUEST_REQUIRED: Empty or not a string
+ * - INVALID_ENCODING: Not bech32 (mixed case, no separator, bad characters)
+ * - INVALID_CHECKSUM: Bech32 checksum does not match
+ * - INVALID_PREFIX: Prefix does not start with "ln"
+ * - UNKNOWN_NETWORK: Prefix names no known network
+ * - INVALID_AMOUNT: Malformed amount or multiplier
+ * - INVALID_LENGTH: Too short to hold a timestamp and signature
+ * - WRONG_NETWORK: Valid, but for another network than expected
+ */
+export type InvoiceValidationCode =
+  | 'PAYMENT_REQUEST_REQUIRED'
+  | 'INVALID_ENCODING'
+  | 'INVALID_CHECKSUM'
+  | 'INVALID_PREFIX'
+  | 'UNKNOWN_NETWORK'
+  | 'INVALID_AMOUNT'
+  | 'INVALID_LENGTH'
+  | 'WRONG_NETWORK';
+
+export interface InvoiceValidationFailure {
+  valid: false;
+  code: InvoiceValidationCode;
+  error: string;
+}
+
+export type InvoiceValidation =
+  | { valid: true; network: InvoiceNetwork; has_amount: boolean }
+  | InvoiceValidationFailure;
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+// Longest first: lnbcrt would also match lnbc
+const NETWORK_PREFIXES: [string, InvoiceNetwork][] = [
+  ['bcrt', 'regtest'],
+  ['tbs', 'signet'],
+  ['tb', 'testnet'],
+  ['bc', 'mainnet'],
+];
+
+// 6 checksum words, a 7-word timestamp and a 104-word signature
+const MIN_DATA_WORDS = 6 + 7 + 104;
+
+const fail = (
+  code: InvoiceValidationCode,
+  error: string
+): InvoiceValidationFailure => ({ valid: false, code, error });
+
+const polymod = (values: number[]): number => {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    GENERATOR.forEach((generator, i) => {
+      if ((top >>> i) & 1) checksum ^= generator;
+    });
+  }
+  return checksum >>> 0;
+};
+
+/**
+ * Split a Prefix into Network and Amount
+ *
+ * @param prefix - Human-readable part, e.g. "lnbcrt2500n"
+ * @returns Network, amount digits and multiplier, or a validation failure
+ */
+export const parseInvoicePrefix = (
+  prefix: string
+):
+  | { network: InvoiceNetwork; amount: string | null; multiplier: string }
+  | InvoiceValidationFailure => {
+  if (!prefix.startsWith('ln')) {
+    return fail('INVALID_PREFIX', 'Invoice must start with "ln"');
+  }
+
+  const rest = prefix.slice(2);
+  const match = NETWORK_PREFIXES.find(([currency]) => rest.startsWith(currency));
+  if (!match) {
+    return fail('UNKNOWN_NETWORK', `Unknown network prefix "${prefix}"`);
+  }
+
+  const [currency, network] = match;
+  const amount = rest.slice(currency.length);
+  if (!amount) {
+    return { network, amount: null, multiplier: '' };
+  }
+
+  const parts = /^([1-9]\d*)([munp]?)$/.exec(amount);
+  if (!parts) {
+    return fail('INVALID_AMOUNT', `Malformed amount "${amount}"`);
+  }
+
+  // A pico-bitcoin is a tenth of a millisatoshi
+  if (parts[2] === 'p' && !parts[1].endsWith('0')) {
+    return fail(
+      'INVALID_AMOUNT',
+      'Amount in pico-bitcoin must be a whole number of millisatoshis'
+    );
+  }
+
+  return { network, amount: parts[1], multiplier: parts[2] };
+};
+
+/**
+ * Validate a BOLT11 Payment Request
+ *
+ * Checks the encoding, not the signature or tagged fields; a request that
+ * passes can still fail to decode.
+ *
+ * @param request - BOLT11 payment request, optionally prefixed with "lightning:"
+ * @param network - Network the request must be for (any when omitted)
+ * @returns The request's network, or the first check it fails
+ */
+export const validateInvoice = (
+  request: unknown,
+  network?: InvoiceNetwork | null
+): InvoiceValidation => {
+  if (!request || typeof request !== 'string') {
+    return fail('PAYMENT_REQUEST_REQUIRED', 'Payment request is required');
+  }
+
+  const value = request.trim().replace(/^lightning:/i, '');
+  if (value !== value.toLowerCase() && value !== value.toUpperCase()) {
+    return fail('INVALID_ENCODING', 'Invoice mixes upper and lower case');
+  }
+
+  const lower = value.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1) {
+    return fail('INVALID_ENCODING', 'Invoice has no bech32 separator');
+  }
+
+  const prefix = lower.slice(0, separator);
+  const words = lower
+    .slice(separator + 1)
+    .split('')
+    .map((c) => CHARSET.indexOf(c));
+  if (words.includes(-1) || /[^\x21-\x7e]/.test(prefix)) {
+    return fail('INVALID_ENCODING', 'Invoice contains characters bech32 does not use');
+  }
+
+  const parsed = parseInvoicePrefix(prefix);
+  if ('valid' in parsed) return parsed;
+
+  if (words.length < MIN_DATA_WORDS) {
+    return fail('INVALID_LENGTH', 'Invoice is too short');
+  }
+
+  const expanded = [
+    ...prefix.split('').map((c) => c.charCodeAt(0) >> 5),
+    0,
+    ...prefix.split('').map((c) => c.charCodeAt(0) & 31),
+  ];
+  if (polymod([...expanded, ...words]) !== 1) {
+    return fail('INVALID_CHECKSUM', 'Invoice checksum does not match; it may be mistyped');
+  }
+
+  if (network && parsed.network !== network) {
+    return fail(
+      'WRONG_NETWORK',
+      `Invoice is for ${parsed.network}, but this server runs on ${network}`
+    );
+  }
+
+  return { valid: true, network: parsed.network, has_amount: parsed.amount !== null };
+};
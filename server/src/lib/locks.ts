@@ -0,0 +1,33 @@
+/**
+ * In-Process Locks
+ *
+ * Runs work for the same key one at a time, in the order it asked. Locks only
+ * hold within one server instance.
+ */
+
+// Settles once the last holder of each key has released it
+const tails = new Map<string, Promise<void>>();
+
+/**
+ * Wait for a Lock
+ *
+ * @param key - What to lock, e.g. `payment:<hash>`
+ * @returns Releases the lock; call it exactly once, also when the work fails
+ */
+export const acquireLock = async (key: string): Promise<() => void> => {
+  const previous = tails.get(key) ?? Promise.resolve();
+
+  let release!: () => void;
+  const held = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const tail = previous.then(() => held);
+  tails.set(key, tail);
+
+  await previous;
+
+  return () => {
+    release();
+    if (tails.get(key) === tail) tails.delete(key);
+  };
+};
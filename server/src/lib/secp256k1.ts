@@ -0,0 +1,151 @@
+/**
+ * secp256k1 Public Key Recovery
+ *
+ * Just enough curve arithmetic to recover the key that signed a message from
+ * a compact recoverable signature, which is how BOLT11 invoices identify
+ * their payee. Points are kept in Jacobian coordinates so only the final
+ * conversion needs a modular inverse.
+ */
+
+const P = 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn;
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const G = {
+  x: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  y: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+};
+
+// Jacobian point (X / Z², Y / Z³); Z = 0 is the point at infinity
+interface JacobianPoint {
+  x: bigint;
+  y: bigint;
+  z: bigint;
+}
+
+const INFINITY: JacobianPoint = { x: 0n, y: 1n, z: 0n };
+
+const mod = (a: bigint, m: bigint = P): bigint => {
+  const result = a % m;
+  return result >= 0n ? result : result + m;
+};
+
+const pow = (base: bigint, exponent: bigint, m: bigint = P): bigint => {
+  let result = 1n;
+  let b = mod(base, m);
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % m;
+    b = (b * b) % m;
+    e >>= 1n;
+  }
+  return result;
+};
+
+// Both moduli are prime, so a^(m-2) is the inverse of a
+const invert = (a: bigint, m: bigint = P): bigint => pow(a, m - 2n, m);
+
+const double = ({ x, y, z }: JacobianPoint): JacobianPoint => {
+  if (z === 0n || y === 0n) return INFINITY;
+
+  const yy = mod(y * y);
+  const s = mod(4n * x * yy);
+  const m = mod(3n * x * x);
+  const nx = mod(m * m - 2n * s);
+
+  return {
+    x: nx,
+    y: mod(m * (s - nx) - 8n * yy * yy),
+    z: mod(2n * y * z),
+  };
+};
+
+const add = (a: JacobianPoint, b: JacobianPoint): JacobianPoint => {
+  if (a.z === 0n) return b;
+  if (b.z === 0n) return a;
+
+  const az2 = mod(a.z * a.z);
+  const bz2 = mod(b.z * b.z);
+  const u1 = mod(a.x * bz2);
+  const u2 = mod(b.x * az2);
+  const s1 = mod(a.y * bz2 * b.z);
+  const s2 = mod(b.y * az2 * a.z);
+
+  if (u1 === u2) {
+    return s1 === s2 ? double(a) : INFINITY;
+  }
+
+  const h = mod(u2 - u1);
+  const r = mod(s2 - s1);
+  const hh = mod(h * h);
+  const hhh = mod(h * hh);
+  const v = mod(u1 * hh);
+  const nx = mod(r * r - hhh - 2n * v);
+
+  return {
+    x: nx,
+    y: mod(r * (v - nx) - s1 * hhh),
+    z: mod(a.z * b.z * h),
+  };
+};
+
+const multiply = (point: JacobianPoint, scalar: bigint): JacobianPoint => {
+  let result = INFINITY;
+  let addend = point;
+  let k = scalar;
+  while (k > 0n) {
+    if (k & 1n) result = add(result, addend);
+    addend = double(addend);
+    k >>= 1n;
+  }
+  return result;
+};
+
+const toAffine = ({ x, y, z }: JacobianPoint): { x: bigint; y: bigint } => {
+  const zInv = invert(z);
+  const zInv2 = mod(zInv * zInv);
+  return { x: mod(x * zInv2), y: mod(y * zInv2 * zInv) };
+};
+
+const toBigInt = (bytes: Buffer): bigint => BigInt(`0x${bytes.toString('hex') || '0'}`);
+
+/**
+ * Recover the Public Key that Made a Signature
+ *
+ * @param hash - 32-byte message hash that was signed
+ * @param signature - 64-byte compact signature (r || s)
+ * @param recoveryId - Recovery id (0-3) stored next to the signature
+ * @returns Compressed public key as hex, or null if no key matches
+ */
+export const recoverPublicKey = (
+  hash: Buffer,
+  signature: Buffer,
+  recoveryId: number
+): string | null => {
+  if (signature.length !== 64 || recoveryId < 0 || recoveryId > 3) return null;
+
+  const r = toBigInt(signature.subarray(0, 32));
+  const s = toBigInt(signature.subarray(32, 64));
+  if (r <= 0n || r >= N || s <= 0n || s >= N) return null;
+
+  // R's x coordinate is r, or r + n for the rare ids 2 and 3
+  const x = recoveryId & 2 ? r + N : r;
+  if (x >= P) return null;
+
+  // y² = x³ + 7, and p ≡ 3 (mod 4) so the square root is a power
+  const ySquared = mod(x * x * x + 7n);
+  let y = pow(ySquared, (P + 1n) / 4n);
+  if (mod(y * y) !== ySquared) return null;
+  if ((y & 1n) !== BigInt(recoveryId & 1)) y = P - y;
+
+  // Q = r⁻¹ (sR − eG)
+  const e = mod(toBigInt(hash), N);
+  const rInv = invert(r, N);
+  const sR = multiply({ x, y, z: 1n }, mod(s * rInv, N));
+  const eG = multiply({ ...G, z: 1n }, mod(-e * rInv, N));
+  const q = add(sR, eG);
+
+  if (q.z === 0n) return null;
+
+  const key = toAffine(q);
+  const prefix = key.y & 1n ? '03' : '02';
+  return prefix + key.x.toString(16).padStart(64, '0');
+};
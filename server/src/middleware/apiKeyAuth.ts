@@ -0,0 +1,118 @@
+/**
+ * API Key Authentication
+ *
+ * Checks the key sent with every request under /api against the scope its
+ * route needs (SCOPE_RULES below). Keys and their scopes are managed by
+ * services/apiKeys.ts; public routes for wallets need no key.
+ *
+ * Mounted on /api after ipRateLimit, so requests with a wrong key are
+ * counted too, and before rateLimit, which counts requests per key.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { authenticateApiKey, hasScope } from '../services/apiKeys.js';
+import { ApiKeyPrincipal, ApiKeyScope } from '../types/apiKeys.js';
+
+// Extend Express Request type
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKeyPrincipal;
+    }
+  }
+}
+
+interface ScopeRule {
+  methods: string[] | null; // null: any method
+  path: RegExp; // Matched against the path below /api
+  scope: ApiKeyScope | null; // null: no key needed
+}
+
+/**
+ * Scope Each Route Under /api Requires
+ *
+ * The first matching rule wins. Wallets call the LNURL endpoints without a
+ * key, so those are public. Withdraw links carry the secret that redeems
+ * them, so even listing them needs payments:write. Anything not listed needs
+ * the admin scope.
+ */
+const SCOPE_RULES: ScopeRule[] = [
+  { methods: ['GET'], path: /^\/health\/?$/i, scope: null },
+  { methods: ['GET'], path: /^\/lnurl\/pay\/[^/]+\/callback\/?$/i, scope: null },
+  { methods: ['GET'], path: /^\/lnurl\/withdraw\/[^/]+\/?$/i, scope: null },
+
+  { methods: null, path: /^\/(keys|webhooks)(\/|$)/i, scope: 'admin' },
+
+  { methods: ['POST'], path: /^(\/nodes\/[^/]+)?\/invoice\/decode\/?$/i, scope: 'read' },
+  { methods: ['POST'], path: /^\/lnurl\/resolve\/?$/i, scope: 'read' },
+
+  { methods: ['POST'], path: /^(\/nodes\/[^/]+)?\/payment(\/|$)/i, scope: 'payments:write' },
+  { methods: null, path: /^\/lnurl\/withdraw-links(\/|$)/i, scope: 'payments:write' },
+
+  { methods: ['POST', 'DELETE'], path: /^(\/nodes\/[^/]+)?\/invoice(\/|$)/i, scope: 'invoices:write' },
+  { methods: ['POST', 'DELETE'], path: /^\/lnurl\/usernames(\/|$)/i, scope: 'invoices:write' },
+
+  { methods: ['GET', 'HEAD'], path: /^\//, scope: 'read' },
+];
+
+/**
+ * Scope a request needs, null when it needs no key
+ */
+export const getRequiredScope = (method: string, path: string): ApiKeyScope | null => {
+  const rule = SCOPE_RULES.find(
+    (candidate) => (!candidate.methods || candidate.methods.includes(method)) && candidate.path.test(path)
+  );
+
+  return rule ? rule.scope : 'admin';
+};
+
+/**
+ * Middleware that checks the API key of requests under /api
+ *
+ * Keys are sent as `Authorization: Bearer <key>`. Responds 401 when the key
+ * is missing, unknown or revoked and 403 when it lacks the route's scope.
+ * The key is available to routes as `req.apiKey`.
+ */
+export const apiKeyAuth = async (req: Request, res: Response, next: NextFunction) => {
+  const scope = getRequiredScope(req.method, req.path);
+  if (!scope) {
+    next();
+    return;
+  }
+
+  const [scheme, key] = (req.headers.authorization || '').split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !key) {
+    res.status(401).json({
+      success: false,
+      error: 'API key required (Authorization: Bearer <key>)',
+      code: 'API_KEY_REQUIRED',
+    });
+    return;
+  }
+
+  try {
+    const apiKey = await authenticateApiKey(key);
+    if (!apiKey) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid or revoked API key',
+        code: 'INVALID_API_KEY',
+      });
+      return;
+    }
+
+    if (!hasScope(apiKey.scopes, scope)) {
+      res.status(403).json({
+        success: false,
+        error: `API key lacks the ${scope} scope`,
+        code: 'INSUFFICIENT_SCOPE',
+      });
+      return;
+    }
+
+    req.apiKey = apiKey;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
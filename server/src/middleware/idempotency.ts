@@ -0,0 +1,206 @@
+/**
+ * Idempotency Middleware
+ *
+ * Lets clients retry POST requests that create invoices and payments without
+ * creating a second one: a request sent with an X-Idempotency-Key gets the
+ * stored response of the first request with that key and body. Records live
+ * in the idempotency_records table and expire after the TTL in
+ * config/idempotency.ts.
+ *
+ * Runs inside the routes that accept a key, after their validators and so
+ * after apiKeyAuth and the rate limits, since keys belong to the API key
+ * that sent them.
+ */
+
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { header, validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/database.js';
+import { logger } from '../lib/logger.js';
+import { getApiKeyIdentity } from '../services/apiKeys.js';
+import { getIdempotencyPolicy } from '../config/idempotency.js';
+
+let nextPruneAt = 0;
+
+// Delete expired records in the background, at most once per hour
+const prune = (now: Date): void => {
+  if (now.getTime() < nextPruneAt) return;
+  nextPruneAt = now.getTime() + 60 * 60 * 1000;
+
+  prisma.idempotencyRecord
+    .deleteMany({ where: { expiresAt: { lte: now } } })
+    .catch((err) => logger.error({ err }, 'Could not delete expired idempotency records'));
+};
+
+/**
+ * Same value with object keys sorted, so equal bodies serialize the same
+ */
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+};
+
+const inProgress = (res: Response) =>
+  res.status(409).json({
+    success: false,
+    error: 'A request with this idempotency key is still in progress',
+    code: 'IDEMPOTENCY_IN_PROGRESS',
+  });
+
+/**
+ * SHA-256 of the method, path and body of a request
+ */
+const fingerprintRequest = (req: Request): string =>
+  createHash('sha256')
+    .update(JSON.stringify([req.method, req.baseUrl + req.path, canonicalize(req.body ?? {})]))
+    .digest('hex');
+
+/**
+ * Validator for the X-Idempotency-Key header
+ */
+export const idempotencyKeyHeader = () =>
+  header('x-idempotency-key')
+    .optional()
+    .isString()
+    .isLength({ min: 8, max: 64 })
+    .withMessage('Idempotency key must be 8-64 characters');
+
+/**
+ * Middleware that makes a request safe to retry with an X-Idempotency-Key
+ *
+ * Goes after the route's validators. The first request with a key is
+ * recorded with a fingerprint of its body and its response is stored;
+ * repeating it within the TTL returns that status and body verbatim (with
+ * an Idempotent-Replayed header) without running the route again.
+ * Responds 422 IDEMPOTENCY_KEY_REUSED when the key comes with a different
+ * request and 409 IDEMPOTENCY_IN_PROGRESS while the first is still running.
+ * A request still without a response after the lock timeout is taken as
+ * abandoned and the next retry runs it again. Keys belong to the API key
+ * that sent them. Responses with a 5xx status, or that could not be stored,
+ * aren't kept, so the request can be retried with the same key.
+ */
+export const idempotency = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.headers['x-idempotency-key'];
+
+  // Without a key, or with one the validators refused, the route answers as usual
+  if (typeof key !== 'string' || !validationResult(req).isEmpty()) {
+    next();
+    return;
+  }
+
+  const client = req.apiKey ? getApiKeyIdentity(req.apiKey) : 'anonymous';
+  const fingerprint = fingerprintRequest(req);
+  const now = new Date();
+  const policy = getIdempotencyPolicy();
+  prune(now);
+
+  try {
+    const record = await prisma.idempotencyRecord.findUnique({
+      where: { client_key: { client, key } },
+    });
+
+    if (record && record.expiresAt > now) {
+      if (record.fingerprint !== fingerprint) {
+        res.status(422).json({
+          success: false,
+          error: 'Idempotency key was already used for a different request',
+          code: 'IDEMPOTENCY_KEY_REUSED',
+        });
+        return;
+      }
+
+      if (record.statusCode !== null) {
+        req.log?.info({ idempotencyKey: key }, 'Returning stored response (idempotency)');
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(record.statusCode).json(record.responseBody);
+        return;
+      }
+
+      if (record.lockedAt.getTime() > now.getTime() - policy.lockTimeoutMs) {
+        inProgress(res);
+        return;
+      }
+
+      // The request holding the key never answered; take the key over unless another retry did
+      const { count } = await prisma.idempotencyRecord.updateMany({
+        where: { client, key, statusCode: null, lockedAt: record.lockedAt },
+        data: { lockedAt: now },
+      });
+      if (count === 0) {
+        inProgress(res);
+        return;
+      }
+      req.log?.warn({ idempotencyKey: key, lockedAt: record.lockedAt }, 'Running abandoned idempotent request again');
+    } else {
+      // An expired key starts over
+      if (record) {
+        await prisma.idempotencyRecord.deleteMany({
+          where: { client, key, expiresAt: { lte: now } },
+        });
+      }
+
+      await prisma.idempotencyRecord.create({
+        data: { client, key, fingerprint, lockedAt: now, expiresAt: new Date(now.getTime() + policy.ttlMs) },
+      });
+    }
+  } catch (error: any) {
+    // Another request with the key was recorded first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      inProgress(res);
+      return;
+    }
+
+    req.log?.error({ err: error }, 'Error checking idempotency key');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to check idempotency key',
+    });
+    return;
+  }
+
+  // Free the key for a retry when no response will be stored for it
+  const release = () =>
+    prisma.idempotencyRecord
+      .deleteMany({ where: { client, key, statusCode: null } })
+      .catch((err) => req.log?.error({ err, idempotencyKey: key }, 'Could not release idempotency key'));
+
+  // Store the response before sending it, so a retry right after it gets it back
+  let answered = false;
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    answered = true;
+    const stored =
+      res.statusCode >= 500
+        ? release()
+        : prisma.idempotencyRecord
+          .update({
+            where: { client_key: { client, key } },
+            data: {
+              statusCode: res.statusCode,
+              responseBody: JSON.parse(JSON.stringify(body)) as Prisma.InputJsonValue,
+            },
+          })
+          .catch((err) => {
+            req.log?.error({ err, idempotencyKey: key }, 'Could not store idempotent response');
+            return release();
+          });
+
+    stored.finally(() => json(body));
+    return res;
+  };
+
+  // Responses sent some other way (such as Express' error page) aren't kept either
+  res.on('close', () => {
+    if (!answered) void release();
+  });
+
+  next();
+};
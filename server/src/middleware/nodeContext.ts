@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import { findNode, getDefaultNodeId } from '../config/lightning.js';
+import { NodeId, NodeRole } from '../types/lightning.js';
+
+// Extend Express Request type
+declare global {
+  namespace Express {
+    interface Request {
+      nodeId?: NodeId;
+    }
+  }
+}
+
+/**
+ * Middleware that resolves the `:id` route parameter to a registered node
+ *
+ * Responds 404 for unknown node ids. Routes mounted below it read the node
+ * through `getRequestNode`.
+ */
+export const resolveNode = (req: Request, res: Response, next: NextFunction) => {
+  const node = findNode(req.params.id);
+
+  if (!node) {
+    res.status(404).json({
+      success: false,
+      error: `Node "${req.params.id}" not found`,
+    });
+    return;
+  }
+
+  req.nodeId = node.id;
+  next();
+};
+
+/**
+ * Node a request operates on: the one named in the URL, or the default node for the role
+ */
+export const getRequestNode = (req: Request, role: Exclude<NodeRole, 'both'>): NodeId =>
+  req.nodeId ?? getDefaultNodeId(role);
@@ -0,0 +1,145 @@
+/**
+ * Rate Limit Middleware
+ *
+ * Fixed-window request limits from config/rateLimits.ts. ipRateLimit counts
+ * every request per IP address and runs first on /api, before apiKeyAuth.
+ * rateLimit runs after it and counts per API key (per IP address on public
+ * routes), with a lower limit for routes that need payments:write. Both also
+ * guard the Lightning Address lookups under /.well-known/lnurlp.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getRequiredScope } from './apiKeyAuth.js';
+import { getApiKeyIdentity } from '../services/apiKeys.js';
+import { getRateLimitPolicy } from '../config/rateLimits.js';
+
+interface Window {
+  count: number;
+  resetAt: number; // When the window ends (ms since epoch)
+}
+
+// Requests counted in the current window, by bucket and client. Only this
+// instance's requests are counted; see config/rateLimits.ts.
+const windows = new Map<string, Window>();
+
+let nextPruneAt = 0;
+
+// Forget windows that have ended, at most once per window length
+const prune = (now: number, windowMs: number): void => {
+  if (now < nextPruneAt) return;
+  nextPruneAt = now + windowMs;
+
+  for (const [key, window] of windows) {
+    if (window.resetAt <= now) windows.delete(key);
+  }
+};
+
+/**
+ * Count a request and tell whether it is within the limit
+ */
+const take = (key: string, limit: number, windowMs: number, now: number): Window & { allowed: boolean } => {
+  let window = windows.get(key);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + windowMs };
+    windows.set(key, window);
+  }
+
+  window.count += 1;
+  return { ...window, allowed: window.count <= limit };
+};
+
+/**
+ * Client a request is counted against: its API key, or its IP address
+ */
+const getClient = (req: Request): string =>
+  req.apiKey ? `key:${getApiKeyIdentity(req.apiKey)}` : `ip:${req.ip}`;
+
+/**
+ * Count a request against each limit, answering 429 once one is used up
+ *
+ * The overall limit ('all') is reported in the RateLimit-* headers.
+ *
+ * @returns Whether the request may go on
+ */
+const enforce = (
+  req: Request,
+  res: Response,
+  client: string,
+  limits: Array<{ bucket: string; limit: number }>,
+  windowMs: number
+): boolean => {
+  const now = Date.now();
+  prune(now, windowMs);
+
+  for (const { bucket, limit } of limits) {
+    const window = take(`${bucket}:${client}`, limit, windowMs, now);
+    const resetSeconds = Math.ceil((window.resetAt - now) / 1000);
+
+    if (bucket === 'all') {
+      res.setHeader('RateLimit-Limit', limit);
+      res.setHeader('RateLimit-Remaining', Math.max(0, limit - window.count));
+      res.setHeader('RateLimit-Reset', resetSeconds);
+    }
+
+    if (!window.allowed) {
+      req.log?.warn({ client, bucket, limit, windowMs }, 'Rate limit exceeded');
+      res.setHeader('Retry-After', resetSeconds);
+      res.status(429).json({
+        success: false,
+        error: `Too many requests; try again in ${resetSeconds} seconds`,
+        code: 'RATE_LIMITED',
+        details: { limit, window_ms: windowMs, retry_after: resetSeconds },
+      });
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Middleware that limits how many requests each IP address makes per window
+ *
+ * Runs before `apiKeyAuth`, so requests refused for a missing or wrong key
+ * count too and keys can't be guessed at full speed. Also guards public
+ * routes outside /api, such as the Lightning Address lookups.
+ */
+export const ipRateLimit = (req: Request, res: Response, next: NextFunction) => {
+  const { windowMs, maxIpRequests } = getRateLimitPolicy();
+
+  if (maxIpRequests === 0 || enforce(req, res, `ip:${req.ip}`, [{ bucket: 'ip', limit: maxIpRequests }], windowMs)) {
+    next();
+  }
+};
+
+/**
+ * Middleware that limits how many requests each client makes per window
+ *
+ * Runs after `apiKeyAuth`, so requests are counted per API key. Routes that
+ * need the payments:write scope count against a second, lower limit as well.
+ * Responds 429 with code RATE_LIMITED and a Retry-After header once a limit
+ * is used up; the RateLimit-* headers report the overall limit.
+ */
+export const rateLimit = (req: Request, res: Response, next: NextFunction) => {
+  const { windowMs, maxRequests, maxPayments } = getRateLimitPolicy();
+
+  const limits: Array<{ bucket: string; limit: number }> = [];
+  if (maxRequests > 0) {
+    limits.push({ bucket: 'all', limit: maxRequests });
+  }
+  if (maxPayments > 0 && getRequiredScope(req.method, req.path) === 'payments:write') {
+    limits.push({ bucket: 'payments', limit: maxPayments });
+  }
+
+  if (enforce(req, res, getClient(req), limits, windowMs)) {
+    next();
+  }
+};
+
+/**
+ * Forget every counted request (for tests)
+ */
+export const resetRateLimits = (): void => {
+  windows.clear();
+  nextPruneAt = 0;
+};
@@ -0,0 +1,139 @@
+/**
+ * API Key Routes
+ *
+ * Create, list and revoke the keys that authenticate requests to /api. The
+ * key itself is only returned when it is created. All of these need the
+ * admin scope.
+ */
+
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { prisma } from '../db/database.js';
+import { API_KEY_SCOPES, createApiKey, toApiKeyResponse } from '../services/apiKeys.js';
+
+const router = Router();
+
+/**
+ * POST /api/keys
+ *
+ * Create a key
+ *
+ * Body: name and scopes (any of read, invoices:write, payments:write,
+ * admin). The response includes the key; store it, it can't be shown again.
+ */
+router.post(
+  '/',
+  [
+    body('name')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 64 })
+      .withMessage('name must be 1 to 64 characters'),
+    body('scopes')
+      .isArray({ min: 1 })
+      .withMessage('scopes must list at least one scope'),
+    body('scopes.*')
+      .isIn(API_KEY_SCOPES)
+      .withMessage(`scopes must be among ${API_KEY_SCOPES.join(', ')}`),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { apiKey, key } = await createApiKey(req.body.name, req.body.scopes);
+
+      req.log?.info({ apiKeyId: apiKey.id, scopes: apiKey.scopes }, 'API key created');
+
+      res.status(201).json({
+        success: true,
+        data: toApiKeyResponse(apiKey, key),
+      });
+    } catch (error: any) {
+      req.log?.error({ err: error }, 'Error creating API key');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to create API key',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/keys
+ *
+ * List keys, revoked ones included
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const apiKeys = await prisma.apiKey.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: apiKeys.map((apiKey) => toApiKeyResponse(apiKey)),
+    });
+  } catch (error: any) {
+    req.log?.error({ err: error }, 'Error listing API keys');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to list API keys',
+    });
+  }
+});
+
+/**
+ * DELETE /api/keys/:id
+ *
+ * Revoke a key; requests sent with it are refused from now on
+ */
+router.delete(
+  '/:id',
+  [param('id').isUUID().withMessage('Invalid API key id')],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const apiKey = await prisma.apiKey.findUnique({
+        where: { id: req.params.id },
+      });
+      if (!apiKey) {
+        res.status(404).json({
+          success: false,
+          error: 'API key not found',
+        });
+        return;
+      }
+
+      const revoked = apiKey.revokedAt
+        ? apiKey
+        : await prisma.apiKey.update({
+            where: { id: apiKey.id },
+            data: { revokedAt: new Date(), updatedAt: new Date() },
+          });
+
+      req.log?.info({ apiKeyId: apiKey.id }, 'API key revoked');
+
+      res.json({
+        success: true,
+        data: toApiKeyResponse(revoked),
+      });
+    } catch (error: any) {
+      req.log?.error({ err: error }, 'Error revoking API key');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to revoke API key',
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,41 +1,109 @@
 /**
  * Invoice Routes
  *
- * Handles invoice creation and status checking on Node A (Alice/Receiver)
+ * Handles invoice creation and status checking on Node A (Alice/Receiver),
+ * and settling or canceling hold invoices.
+ * Also mounted under /api/nodes/:id/invoice to work with a specific node.
  */
 
+import { createHash } from 'crypto';
 import { Router, Request, Response } from 'express';
 import { body, param, validationResult } from 'express-validator';
+import { Invoice } from '@prisma/client';
 import { prisma } from '../db/database.js';
 import {
   createInvoice,
+  createHoldInvoice,
+  settleHoldInvoice,
+  cancelInvoice,
   getInvoiceStatus,
   decodeInvoice,
+  crossCheckInvoice,
+  toDecodeFailure,
 } from '../services/lightning.js';
+import { notifyInvoiceEvent } from '../services/webhooks.js';
+import { getRequestNode } from '../middleware/nodeContext.js';
+import { idempotency, idempotencyKeyHeader } from '../middleware/idempotency.js';
 
-const router = Router();
+const router = Router({ mergeParams: true });
+
+const paymentHashParam = () =>
+  param('payment_hash')
+    .isHexadecimal()
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Payment hash must be a 64-character hex string');
+
+// Amount, description and expiry, shared by regular and hold invoices
+const invoiceFields = [
+  body('any_amount')
+    .optional()
+    .isBoolean()
+    .withMessage('any_amount must be a boolean')
+    .toBoolean(true),
+  body('amount')
+    .if((_value, { req }) => req.body.any_amount !== true)
+    .isInt({ min: 1 })
+    .withMessage('Amount must be a positive integer (satoshis)'),
+  body('amount')
+    .if((_value, { req }) => req.body.any_amount === true)
+    .not()
+    .exists()
+    .withMessage('Amount must be omitted for any amount invoices'),
+  body('description')
+    .optional()
+    .isString()
+    .isLength({ max: 256 })
+    .withMessage('Description must be less than 256 characters'),
+  body('expiry')
+    .optional()
+    .isInt({ min: 60, max: 86400 })
+    .withMessage('Expiry must be between 60 and 86400 seconds'),
+];
+
+/**
+ * Invoice Row as Returned by the API
+ */
+const toInvoiceDetails = (invoice: Invoice) => ({
+  payment_hash: invoice.paymentHash,
+  payment_request: invoice.paymentRequest,
+  node_id: invoice.nodeId,
+  amount: invoice.amount === null ? null : Number(invoice.amount),
+  received_amount: invoice.receivedAmount === null ? null : Number(invoice.receivedAmount),
+  description: invoice.description,
+  username: invoice.username,
+  comment: invoice.comment,
+  status: invoice.status,
+  settled: invoice.status === 'succeeded',
+  preimage: invoice.preimage,
+  settled_at: invoice.settledAt,
+  expires_at: invoice.expiresAt,
+  created_at: invoice.createdAt,
+});
+
+/**
+ * Find an Invoice Row, Scoped to the Node from the URL (if any)
+ */
+const findInvoice = async (req: Request): Promise<Invoice | null> => {
+  const invoice = await prisma.invoice.findUnique({
+    where: { paymentHash: req.params.payment_hash },
+  });
+
+  return invoice && (!req.nodeId || invoice.nodeId === req.nodeId) ? invoice : null;
+};
 
 /**
  * POST /api/invoice
  *
  * Create a new Lightning invoice on Node A
+ *
+ * Set any_amount (and omit amount) to let the payer choose how much to send.
+ * With an X-Idempotency-Key header, a retried request gets the invoice the
+ * first one created instead of a new one.
  */
 router.post(
   '/',
-  [
-    body('amount')
-      .isInt({ min: 1 })
-      .withMessage('Amount must be a positive integer (satoshis)'),
-    body('description')
-      .optional()
-      .isString()
-      .isLength({ max: 256 })
-      .withMessage('Description must be less than 256 characters'),
-    body('expiry')
-      .optional()
-      .isInt({ min: 60, max: 86400 })
-      .withMessage('Expiry must be between 60 and 86400 seconds'),
-  ],
+  [...invoiceFields, idempotencyKeyHeader()],
+  idempotency,
   async (req: Request, res: Response): Promise<void> => {
     try {
       const errors = validationResult(req);
@@ -44,16 +112,19 @@ router.post(
         return;
       }
 
-      const { amount, description, expiry } = req.body;
+      const { any_amount, description, expiry } = req.body;
+      const amount: number | null = any_amount ? null : req.body.amount;
+      const nodeId = getRequestNode(req, 'receiver');
 
       // Create invoice on LND
-      const invoice = await createInvoice({ amount, description, expiry });
+      const invoice = await createInvoice({ amount, description, expiry }, nodeId);
 
       // Save to invoices table
       await prisma.invoice.create({
         data: {
           paymentHash: invoice.payment_hash,
           paymentRequest: invoice.payment_request,
+          nodeId,
           amount: amount,
           status: 'pending',
           description: description || null,
@@ -76,17 +147,21 @@ router.post(
 );
 
 /**
- * GET /api/invoice/:payment_hash
+ * POST /api/invoice/hold
  *
- * Get invoice status by payment hash
+ * Create a hold invoice on Node A for a payment hash chosen by the caller
+ *
+ * Payments to it are held until POST /:payment_hash/settle reveals the
+ * preimage, or POST /:payment_hash/cancel returns them to the payer.
  */
-router.get(
-  '/:payment_hash',
+router.post(
+  '/hold',
   [
-    param('payment_hash')
+    body('payment_hash')
       .isHexadecimal()
       .isLength({ min: 64, max: 64 })
       .withMessage('Payment hash must be a 64-character hex string'),
+    ...invoiceFields,
   ],
   async (req: Request, res: Response): Promise<void> => {
     try {
@@ -96,12 +171,66 @@ router.get(
         return;
       }
 
-      const { payment_hash } = req.params;
+      const { payment_hash, any_amount, description, expiry } = req.body;
+      const amount: number | null = any_amount ? null : req.body.amount;
+      const nodeId = getRequestNode(req, 'receiver');
 
-      // Get from database
-      const dbInvoice = await prisma.invoice.findUnique({
-        where: { paymentHash: payment_hash },
+      const existing = await prisma.invoice.findUnique({ where: { paymentHash: payment_hash } });
+      if (existing) {
+        res.status(409).json({
+          success: false,
+          error: 'An invoice with this payment hash already exists',
+          code: 'INVOICE_EXISTS',
+        });
+        return;
+      }
+
+      const invoice = await createHoldInvoice(payment_hash, { amount, description, expiry }, nodeId);
+
+      await prisma.invoice.create({
+        data: {
+          paymentHash: invoice.payment_hash,
+          paymentRequest: invoice.payment_request,
+          nodeId,
+          amount,
+          status: 'pending',
+          description: description || null,
+          expiresAt: invoice.expires_at,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: invoice,
+      });
+    } catch (error: any) {
+      req.log?.error({ err: error }, 'Error creating hold invoice');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to create hold invoice',
       });
+    }
+  }
+);
+
+/**
+ * GET /api/invoice/:payment_hash
+ *
+ * Get invoice status by payment hash
+ */
+router.get(
+  '/:payment_hash',
+  [paymentHashParam()],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      // Get from database
+      let dbInvoice = await findInvoice(req);
 
       if (!dbInvoice) {
         res.status(404).json({
@@ -112,35 +241,35 @@ router.get(
       }
 
       // Get current status from LND
-      const lndStatus = await getInvoiceStatus(payment_hash);
+      const lndStatus = await getInvoiceStatus(dbInvoice.paymentHash, dbInvoice.nodeId);
 
-      // Update database if status changed
-      if (dbInvoice.status !== lndStatus.status) {
+      // Update database if status changed; an invoice this server canceled stays canceled
+      if (dbInvoice.status !== lndStatus.status && dbInvoice.status !== 'canceled') {
         const now = new Date();
-        await prisma.invoice.update({
-          where: { paymentHash: payment_hash },
+        const isSettled = lndStatus.status === 'succeeded';
+        dbInvoice = await prisma.invoice.update({
+          where: { paymentHash: dbInvoice.paymentHash },
           data: {
             status: lndStatus.status,
             preimage: lndStatus.preimage,
-            settledAt: lndStatus.status === 'succeeded' ? now : null,
+            receivedAmount: isSettled ? lndStatus.received : null,
+            settledAt: isSettled ? now : null,
             updatedAt: now,
           },
         });
+
+        if (isSettled) {
+          notifyInvoiceEvent('invoice.settled', dbInvoice.paymentHash);
+        } else if (lndStatus.status === 'expired') {
+          notifyInvoiceEvent('invoice.expired', dbInvoice.paymentHash);
+        }
       }
 
       res.json({
         success: true,
         data: {
-          payment_hash: dbInvoice.paymentHash,
-          payment_request: dbInvoice.paymentRequest,
-          amount: Number(dbInvoice.amount),
-          description: dbInvoice.description,
-          status: lndStatus.status,
-          settled: lndStatus.settled,
+          ...toInvoiceDetails(dbInvoice),
           preimage: lndStatus.preimage,
-          settled_at: dbInvoice.settledAt,
-          expires_at: dbInvoice.expiresAt,
-          created_at: dbInvoice.createdAt,
         },
       });
     } catch (error: any) {
@@ -153,18 +282,184 @@ router.get(
   }
 );
 
+/**
+ * POST /api/invoice/:payment_hash/settle
+ *
+ * Claim the payment held by a hold invoice by revealing its preimage
+ */
+router.post(
+  '/:payment_hash/settle',
+  [
+    paymentHashParam(),
+    body('preimage')
+      .isHexadecimal()
+      .isLength({ min: 64, max: 64 })
+      .withMessage('Preimage must be a 64-character hex string'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { preimage } = req.body;
+      const dbInvoice = await findInvoice(req);
+
+      if (!dbInvoice) {
+        res.status(404).json({
+          success: false,
+          error: 'Invoice not found',
+        });
+        return;
+      }
+
+      const hash = createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+      if (hash !== dbInvoice.paymentHash) {
+        res.status(400).json({
+          success: false,
+          error: 'Preimage does not match the payment hash',
+          code: 'PREIMAGE_MISMATCH',
+        });
+        return;
+      }
+
+      const { status } = await getInvoiceStatus(dbInvoice.paymentHash, dbInvoice.nodeId);
+      if (status !== 'held') {
+        res.status(409).json({
+          success: false,
+          error: `Invoice is ${status}; only held invoices can be settled`,
+          code: 'INVOICE_NOT_HELD',
+        });
+        return;
+      }
+
+      await settleHoldInvoice(preimage, dbInvoice.nodeId);
+      const settled = await getInvoiceStatus(dbInvoice.paymentHash, dbInvoice.nodeId);
+
+      const now = new Date();
+      const updated = await prisma.invoice.update({
+        where: { paymentHash: dbInvoice.paymentHash },
+        data: {
+          status: 'succeeded',
+          preimage,
+          receivedAmount: settled.received,
+          settledAt: now,
+          updatedAt: now,
+        },
+      });
+
+      notifyInvoiceEvent('invoice.settled', updated.paymentHash);
+
+      res.json({
+        success: true,
+        data: toInvoiceDetails(updated),
+      });
+    } catch (error: any) {
+      req.log?.error({ err: error }, 'Error settling invoice');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to settle invoice',
+      });
+    }
+  }
+);
+
+/**
+ * Cancel an Open or Held Invoice
+ *
+ * A held payment goes back to the payer. The node's invoice subscription
+ * broadcasts the change as `invoice:updated`.
+ */
+const cancelInvoiceHandler = [
+  paymentHashParam(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const dbInvoice = await findInvoice(req);
+
+      if (!dbInvoice) {
+        res.status(404).json({
+          success: false,
+          error: 'Invoice not found',
+        });
+        return;
+      }
+
+      const { status } = await getInvoiceStatus(dbInvoice.paymentHash, dbInvoice.nodeId);
+      if (status !== 'pending' && status !== 'held') {
+        res.status(409).json({
+          success: false,
+          error: `Invoice is ${status} and can no longer be canceled`,
+          code: 'INVOICE_NOT_OPEN',
+        });
+        return;
+      }
+
+      await cancelInvoice(dbInvoice.paymentHash, dbInvoice.nodeId);
+
+      const updated = await prisma.invoice.update({
+        where: { paymentHash: dbInvoice.paymentHash },
+        data: { status: 'canceled', updatedAt: new Date() },
+      });
+
+      res.json({
+        success: true,
+        data: toInvoiceDetails(updated),
+      });
+    } catch (error: any) {
+      req.log?.error({ err: error }, 'Error canceling invoice');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to cancel invoice',
+      });
+    }
+  }
+];
+
+/**
+ * DELETE /api/invoice/:payment_hash
+ *
+ * Cancel an invoice so it can no longer be paid
+ */
+router.delete('/:payment_hash', cancelInvoiceHandler);
+
+/**
+ * POST /api/invoice/:payment_hash/cancel
+ *
+ * Same as DELETE, alongside /settle for hold invoices
+ */
+router.post('/:payment_hash/cancel', cancelInvoiceHandler);
+
 /**
  * POST /api/invoice/decode
  *
  * Decode a BOLT11 invoice string without paying it
+ *
+ * The server decodes the invoice itself. With `cross_check: true` the node
+ * decodes it too, and `cross_check` in the response lists any field the two
+ * disagree on. Invoices that fail validation are rejected with the
+ * InvoiceValidationCode of the failed check (INVALID_CHECKSUM,
+ * WRONG_NETWORK, ...), and ones that still can't be decoded with
+ * INVALID_INVOICE.
  */
 router.post(
   '/decode',
   [
     body('payment_request')
       .isString()
-      .matches(/^ln(bc|tb|bcrt)/)
       .withMessage('Invalid Lightning invoice format'),
+    body('cross_check')
+      .optional()
+      .isBoolean()
+      .withMessage('cross_check must be a boolean')
+      .toBoolean(true),
   ],
   async (req: Request, res: Response): Promise<void> => {
     try {
@@ -174,15 +469,25 @@ router.post(
         return;
       }
 
-      const { payment_request } = req.body;
+      const { payment_request, cross_check } = req.body;
+      const nodeId = getRequestNode(req, 'sender');
 
-      const decoded = await decodeInvoice(payment_request);
+      const decoded = await decodeInvoice(payment_request, nodeId);
 
       res.json({
         success: true,
-        data: decoded,
+        data: {
+          ...decoded,
+          ...(cross_check && { cross_check: await crossCheckInvoice(decoded, payment_request, nodeId) }),
+        },
       });
     } catch (error: any) {
+      const failure = toDecodeFailure(error);
+      if (failure) {
+        res.status(400).json({ success: false, ...failure });
+        return;
+      }
+
       req.log?.error({ err: error }, 'Error decoding invoice');
       res.status(500).json({
         success: false,
@@ -0,0 +1,633 @@
+/**
+ * LNURL Routes
+ *
+ * LNURL-pay for registered usernames: /.well-known/lnurlp/:username serves
+ * the pay request behind a Lightning Address, and the callback under
+ * /api/lnurl creates the invoice. Usernames are managed under
+ * /api/lnurl/usernames.
+ *
+ * POST /api/lnurl/resolve looks up someone else's Lightning Address or LNURL
+ * before paying it with POST /api/payment.
+ *
+ * LNURL-withdraw vouchers are served under /api/lnurl/withdraw, where the
+ * wallet's invoice is paid, and managed under /api/lnurl/withdraw-links.
+ *
+ * The wallet-facing endpoints answer errors in the LNURL format
+ * ({ status: 'ERROR', reason }) and allow any origin, since web wallets
+ * call them from their own pages.
+ */
+
+import cors from 'cors';
+import { Router, Request, Response } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/database.js';
+import { createPayInvoice, toPayRequest, toPayUsernameResponse } from '../services/lnurl.js';
+import {
+  isLnurlPayTarget,
+  resolvePayRequest,
+  toLnurlFailure,
+  toResolvedPayRequestResponse,
+} from '../services/lnurlClient.js';
+import { getLnurlConfig } from '../config/lnurl.js';
+import { findNode, getDefaultNodeId } from '../config/lightning.js';
+import {
+  createWithdrawK1,
+  getWithdrawLinkStatus,
+  redeemWithdrawLink,
+  toWithdrawFailure,
+  toWithdrawLinkResponse,
+  toWithdrawRequest,
+} from '../services/lnurlWithdraw.js';
+import { toDecodeFailure } from '../services/lightning.js';
+import { checkSpendingPolicy, needsApproval, toSpendingFailure } from '../services/spendingPolicy.js';
+import { LnurlError, LnurlOk } from '../types/lnurl.js';
+
+const router = Router();
+
+// Mounted at /.well-known/lnurlp
+export const wellKnownRouter = Router();
+
+// Longest comment a username may accept; comments travel in the callback URL
+const MAX_COMMENT_ALLOWED = 255;
+
+// Lightning Address local parts (LUD-16)
+const USERNAME_PATTERN = /^[a-z0-9._-]{1,64}$/;
+const USERNAME_MESSAGE = 'Username must be 1-64 lowercase letters, digits, dots, dashes or underscores';
+
+const usernameParam = () => param('username').matches(USERNAME_PATTERN).withMessage(USERNAME_MESSAGE);
+
+// Most redemptions a single withdraw link may allow
+const MAX_WITHDRAW_USES = 10_000;
+
+const K1_PATTERN = /^[0-9a-f]{64}$/;
+
+const lnurlError = (res: Response, status: number, reason: string): void => {
+  const error: LnurlError = { status: 'ERROR', reason };
+  res.status(status).json(error);
+};
+
+/**
+ * GET /.well-known/lnurlp/:username
+ *
+ * Pay request behind the Lightning Address username@domain (LUD-06, LUD-16)
+ */
+wellKnownRouter.get(
+  '/:username',
+  cors(),
+  [usernameParam()],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!validationResult(req).isEmpty()) {
+        lnurlError(res, 404, 'Unknown username');
+        return;
+      }
+
+      const payUsername = await prisma.payUsername.findUnique({
+        where: { username: req.params.username },
+      });
+      if (!payUsername) {
+        lnurlError(res, 404, 'Unknown username');
+        return;
+      }
+
+      res.json(toPayRequest(payUsername));
+    } catch (error: any) {
+      req.log?.error({ err: error }, 'Error serving LNURL pay request');
+      lnurlError(res, 500, 'Could not load the pay request');
+    }
+  }
+);
+
+/**
+ * GET /api/lnurl/pay/:username/callback?amount=<msat>&comment=<text>
+ *
+ * Create an invoice for a pay request (LUD-06), with an optional payer
+ * comment (LUD-12)
+ */
+router.get(
+  '/pay/:username/callback',
+  cors(),
+  [
+    usernameParam(),
+    query('amount').isInt({ min: 1 }).withMessage('amount must be a positive number of millisatoshis'),
+    query('comment').optional().isString().withMessage('comment must be text'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        lnurlError(res, 400, errors.array()[0].msg);
+        return;
+      }
+
+      const payUsername = await prisma.payUsername.findUnique({
+        where: { username: req.params.username },
+      });
+      if (!payUsername) {
+        lnurlError(res, 404, 'Unknown username');
+        return;
+      }
+
+      const amount = Number(req.query.amount);
+      const comment = req.query.comment as string | undefined;
+
+      if (amount < payUsername.minSendable || amount > payUsername.maxSendable) {
+        lnurlError(
+          res,
+          400,
+          `Amount must be between ${payUsername.minSendable} and ${payUsername.maxSendable} millisatoshis`
+        );
+        return;
+      }
+
+      if (comment && comment.length > payUsername.commentAllowed) {
+        lnurlError(
+          res,
+          400,
+          payUsername.commentAllowed
+            ? `Comment must be at most ${payUsername.commentAllowed} characters`
+            : 'Comments are not accepted'
+        );
+        return;
+      }
+
+      res.json(await createPayInvoice(payUsername, amount, comment));
+    } catch (error: any) {
+      req.log?.error({ err: error }, 'Error creating LNURL invoice');
+      lnurlError(res, 500, 'Could not create an invoice');
+    }
+  }
+);
+
+/**
+ * POST /api/lnurl/resolve
+ *
+ * Resolve a Lightning Address or LNURL to its pay request, so the payer can
+ * see the description and the amounts it accepts before paying
+ */
+router.post(
+  '/resolve',
+  [
+    body('target')
+      .isString()
+      .custom((value) => isLnurlPayTarget(value))
+      .withMessage('target must be a Lightning Address or LNURL'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const payRequest = await resolvePayRequest(req.body.target);
+
+      res.json({
+        success: true,
+        data: toResolvedPayRequestResponse(req.body.target, payRequest),
+      });
+    } catch (error: any) {
+      const failure = toLnurlFailure(error);
+      if (failure) {
+        const { status, ...rest } = failure;
+        res.status(status).json({ success: false, ...rest });
+        return;
+      }
+
+      req.log?.error({ err: error }, 'Error resolving LNURL');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to resolve LNURL',
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/lnurl/usernames
+ *
+ * Register a username that can be paid by Lightning Address
+ *
+ * Amounts are in millisatoshis; omitted limits fall back to
+ * LNURL_MIN_SENDABLE_MSAT and LNURL_MAX_SENDABLE_MSAT. Invoices are created on
+ * node_id (default: the receiving node).
+ */
+router.post(
+  '/usernames',
+  [
+    body('username').isString().matches(USERNAME_PATTERN).withMessage(USERNAME_MESSAGE),
+    body('node_id')
+      .optional()
+      .custom((value) => Boolean(findNode(value)))
+      .withMessage('node_id must be a registered node'),
+    body('description')
+      .optional()
+      .isString()
+      .isLength({ max: 256 })
+      .withMessage('Description must be less than 256 characters'),
+    body('min_sendable')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('min_sendable must be a positive number of millisatoshis')
+      .toInt(),
+    body('max_sendable')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('max_sendable must be a positive number of millisatoshis')
+      .toInt(),
+    body('comment_allowed')
+      .optional()
+      .isInt({ min: 0, max: MAX_COMMENT_ALLOWED })
+      .withMessage(`comment_allowed must be between 0 and ${MAX_COMMENT_ALLOWED}`)
+      .toInt(),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const defaults = getLnurlConfig();
+      const { username, node_id, description, comment_allowed } = req.body;
+      const minSendable: number = req.body.min_sendable ?? defaults.minSendable;
+      const maxSendable: number = req.body.max_sendable ?? defaults.maxSendable;
+
+      if (maxSendable < minSendable) {
+        res.status(400).json({
+          success: false,
+          error: 'max_sendable must not be below min_sendable',
+        });
+        return;
+      }
+
+      const payUsername = await prisma.payUsername.create({
+        data: {
+          username,
+          nodeId: node_id ?? getDefaultNodeId('receiver'),
+          description: description || null,
+          minSendable,
+          maxSendable,
+          commentAllowed: comment_allowed ?? 0,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: toPayUsernameResponse(payUsername),
+      });
+    } catch (error: any) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        res.status(409).json({
+          success: false,
+          error: 'Username is already taken',
+        });
+        return;
+      }
+
+      req.log?.error({ err: error }, 'Error registering username');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to register username',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/lnurl/usernames
+ *
+ * List registered usernames with their Lightning Addresses
+ */
+router.get('/usernames', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const usernames = await prisma.payUsername.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: usernames.map(toPayUsernameResponse),
+    });
+  } catch (error: any) {
+    req.log?.error({ err: error }, 'Error listing usernames');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to list usernames',
+    });
+  }
+});
+
+/**
+ * DELETE /api/lnurl/usernames/:username
+ *
+ * Remove a username. Its invoices are kept, without the link to it.
+ */
+router.delete(
+  '/usernames/:username',
+  [usernameParam()],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { count } = await prisma.payUsername.deleteMany({
+        where: { username: req.params.username },
+      });
+      if (count === 0) {
+        res.status(404).json({
+          success: false,
+          error: 'Username not found',
+        });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      req.log?.error({ err: error }, 'Error removing username');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to remove username',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/lnurl/withdraw/callback?k1=<k1>&pr=<invoice>
+ *
+ * Redeem a withdraw link: the node pays the wallet's invoice (LUD-03).
+ * Answers OK once the payment is under way; a repeated invoice answers OK
+ * without paying it again.
+ */
+router.get(
+  '/withdraw/callback',
+  cors(),
+  [
+    query('k1').matches(K1_PATTERN).withMessage('Unknown withdraw link'),
+    query('pr').isString().notEmpty().withMessage('pr must be an invoice'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        lnurlError(res, 400, errors.array()[0].msg);
+        return;
+      }
+
+      const link = await prisma.withdrawLink.findUnique({
+        where: { k1: req.query.k1 as string },
+      });
+      if (!link) {
+        lnurlError(res, 404, 'Unknown withdraw link');
+        return;
+      }
+
+      const payment = await redeemWithdrawLink(link, req.query.pr as string);
+      req.log?.info({ withdrawLinkId: link.id, paymentHash: payment.paymentHash }, 'Withdraw link redeemed');
+
+      const ok: LnurlOk = { status: 'OK' };
+      res.json(ok);
+    } catch (error: any) {
+      const failure = toWithdrawFailure(error);
+      if (failure) {
+        lnurlError(res, failure.status, failure.reason);
+        return;
+      }
+
+      const decodeFailure = toDecodeFailure(error);
+      if (decodeFailure) {
+        lnurlError(res, 400, decodeFailure.error);
+        return;
+      }
+
+      req.log?.error({ err: error }, 'Error redeeming withdraw link');
+      lnurlError(res, 500, 'Could not pay the invoice');
+    }
+  }
+);
+
+/**
+ * GET /api/lnurl/withdraw/:k1
+ *
+ * Withdraw request behind a voucher's LNURL (LUD-03)
+ */
+router.get(
+  '/withdraw/:k1',
+  cors(),
+  [param('k1').matches(K1_PATTERN)],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!validationResult(req).isEmpty()) {
+        lnurlError(res, 404, 'Unknown withdraw link');
+        return;
+      }
+
+      const link = await prisma.withdrawLink.findUnique({
+        where: { k1: req.params.k1 },
+      });
+      if (!link) {
+        lnurlError(res, 404, 'Unknown withdraw link');
+        return;
+      }
+
+      const status = getWithdrawLinkStatus(link);
+      if (status !== 'active') {
+        lnurlError(res, 410, `This voucher is ${status}`);
+        return;
+      }
+
+      res.json(toWithdrawRequest(link));
+    } catch (error: any) {
+      req.log?.error({ err: error }, 'Error serving LNURL withdraw request');
+      lnurlError(res, 500, 'Could not load the withdraw request');
+    }
+  }
+);
+
+/**
+ * POST /api/lnurl/withdraw-links
+ *
+ * Create a withdraw link (voucher) paid out by node_id (default: the
+ * receiving node)
+ *
+ * Amounts are in millisatoshis. max_uses defaults to 1; expires_in is in
+ * seconds (default: never). A link whose largest redemption the spending
+ * policy would refuse is not created, nor one whose largest redemption is
+ * above the approval threshold: redemptions can't wait for approval.
+ */
+router.post(
+  '/withdraw-links',
+  [
+    body('node_id')
+      .optional()
+      .custom((value) => Boolean(findNode(value)))
+      .withMessage('node_id must be a registered node'),
+    body('description')
+      .optional()
+      .isString()
+      .isLength({ max: 256 })
+      .withMessage('Description must be less than 256 characters'),
+    body('min_withdrawable')
+      .isInt({ min: 1000 })
+      .withMessage('min_withdrawable must be at least 1000 millisatoshis')
+      .toInt(),
+    body('max_withdrawable')
+      .isInt({ min: 1000 })
+      .withMessage('max_withdrawable must be at least 1000 millisatoshis')
+      .toInt(),
+    body('max_uses')
+      .optional()
+      .isInt({ min: 1, max: MAX_WITHDRAW_USES })
+      .withMessage(`max_uses must be between 1 and ${MAX_WITHDRAW_USES}`)
+      .toInt(),
+    body('expires_in')
+      .optional()
+      .isInt({ min: 60 })
+      .withMessage('expires_in must be at least 60 seconds')
+      .toInt(),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { node_id, description, min_withdrawable, max_withdrawable, max_uses, expires_in } = req.body;
+
+      if (max_withdrawable < min_withdrawable) {
+        res.status(400).json({
+          success: false,
+          error: 'max_withdrawable must not be below min_withdrawable',
+        });
+        return;
+      }
+
+      const nodeId = node_id ?? getDefaultNodeId('receiver');
+      const maxAmount = Math.ceil(max_withdrawable / 1000);
+
+      if (needsApproval(maxAmount)) {
+        res.status(422).json({
+          success: false,
+          error: 'max_withdrawable is above the payment approval threshold',
+          code: 'APPROVAL_REQUIRED',
+        });
+        return;
+      }
+      await checkSpendingPolicy({ nodeId, amount: maxAmount });
+
+      const link = await prisma.withdrawLink.create({
+        data: {
+          k1: createWithdrawK1(),
+          nodeId,
+          description: description || null,
+          minWithdrawable: min_withdrawable,
+          maxWithdrawable: max_withdrawable,
+          maxUses: max_uses ?? 1,
+          expiresAt: expires_in ? new Date(Date.now() + expires_in * 1000) : null,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: toWithdrawLinkResponse(link),
+      });
+    } catch (error: any) {
+      const spendingFailure = toSpendingFailure(error);
+      if (spendingFailure) {
+        const { status, ...rest } = spendingFailure;
+        res.status(status).json({ success: false, ...rest });
+        return;
+      }
+
+      req.log?.error({ err: error }, 'Error creating withdraw link');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to create withdraw link',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/lnurl/withdraw-links
+ *
+ * List withdraw links, newest first. Each carries its lnurl, which redeems
+ * it, so listing needs payments:write (see middleware/apiKeyAuth.ts).
+ */
+router.get('/withdraw-links', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const links = await prisma.withdrawLink.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({
+      success: true,
+      data: links.map(toWithdrawLinkResponse),
+    });
+  } catch (error: any) {
+    req.log?.error({ err: error }, 'Error listing withdraw links');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to list withdraw links',
+    });
+  }
+});
+
+/**
+ * POST /api/lnurl/withdraw-links/:id/disable
+ *
+ * Stop a withdraw link from being redeemed. Payments already under way
+ * still complete.
+ */
+router.post(
+  '/withdraw-links/:id/disable',
+  [param('id').isUUID().withMessage('Invalid withdraw link id')],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const now = new Date();
+      await prisma.withdrawLink.updateMany({
+        where: { id: req.params.id, disabledAt: null },
+        data: { disabledAt: now, updatedAt: now },
+      });
+
+      const link = await prisma.withdrawLink.findUnique({
+        where: { id: req.params.id },
+      });
+      if (!link) {
+        res.status(404).json({
+          success: false,
+          error: 'Withdraw link not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: toWithdrawLinkResponse(link),
+      });
+    } catch (error: any) {
+      req.log?.error({ err: error }, 'Error disabling withdraw link');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to disable withdraw link',
+      });
+    }
+  }
+);
+
+export default router;
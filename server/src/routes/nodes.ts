@@ -0,0 +1,88 @@
+/**
+ * Node Routes
+ *
+ * Lists the registered Lightning nodes and exposes the invoice and payment
+ * routes for a specific node.
+ */
+
+import { Router, Request, Response } from 'express';
+import { getNodeRegistry, LightningNodeDefinition } from '../config/lightning.js';
+import { getNodeInfo, getNodeConnectionStatus } from '../services/lightning.js';
+import { resolveNode } from '../middleware/nodeContext.js';
+import { NodeSummary } from '../types/lightning.js';
+import invoiceRoutes from './invoice.js';
+import paymentRoutes from './payment.js';
+import { logger } from '../lib/logger.js';
+
+const router = Router();
+
+/**
+ * Summarize a Registered Node with its Live Info and Connection State
+ */
+const summarizeNode = async (node: LightningNodeDefinition): Promise<NodeSummary> => {
+  let info: NodeSummary['info'] = null;
+  let error: string | undefined;
+
+  try {
+    info = await getNodeInfo(node.id);
+  } catch (err: any) {
+    logger.warn({ node: node.id, err }, 'Could not fetch node info');
+    error = err?.message || 'Node unreachable';
+  }
+
+  return {
+    id: node.id,
+    alias: node.alias,
+    role: node.role,
+    host: node.host,
+    connection: getNodeConnectionStatus(node.id),
+    info,
+    ...(error && { error }),
+  };
+};
+
+/**
+ * GET /api/nodes
+ *
+ * List every registered Lightning node
+ */
+router.get('/', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const nodes = await Promise.all(getNodeRegistry().map(summarizeNode));
+
+    res.json({
+      success: true,
+      data: nodes,
+    });
+  } catch (error: any) {
+    logger.error({ err: error }, 'Error getting node info');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get node info',
+    });
+  }
+});
+
+/**
+ * GET /api/nodes/:id
+ *
+ * Get a single registered node
+ */
+router.get('/:id', resolveNode, async (req: Request, res: Response): Promise<void> => {
+  const node = getNodeRegistry().find((n) => n.id === req.nodeId)!;
+
+  res.json({
+    success: true,
+    data: await summarizeNode(node),
+  });
+});
+
+/**
+ * /api/nodes/:id/invoice and /api/nodes/:id/payment
+ *
+ * The invoice and payment routes, run against the node from the URL
+ */
+router.use('/:id/invoice', resolveNode, invoiceRoutes);
+router.use('/:id/payment', resolveNode, paymentRoutes);
+
+export default router;
@@ -1,39 +1,155 @@
 /**
  * Payment Routes
  *
- * Handles payment execution and status checking on Node B (Bob/Sender)
+ * Handles payment execution and status checking on Node B (Bob/Sender).
+ * Also mounted under /api/nodes/:id/payment to pay from a specific node.
+ *
+ * Payments are sent in the background by the payment tracker; POST returns
+ * a `pending` payment and GET reports its progress. Payments above the
+ * approval threshold are returned as `awaiting_approval` instead and only
+ * sent once another API key approves them.
  */
 
+import { createHash, randomBytes } from 'crypto';
 import { Router, Request, Response } from 'express';
-import { body, param, header, validationResult } from 'express-validator';
+import { body, param, validationResult } from 'express-validator';
+import { Payment, PaymentStatus, Prisma } from '@prisma/client';
 import { prisma } from '../db/database.js';
+import { decodeInvoice, estimatePaymentFee, toDecodeFailure } from '../services/lightning.js';
+import { getNextAttemptNumber, sendPayment } from '../services/paymentTracker.js';
+import { authorizePayment, getSpendingUsage, needsApproval, toSpendingFailure } from '../services/spendingPolicy.js';
+import { approvePayment, rejectPayment, toApprovalFailure } from '../services/paymentApprovals.js';
+import { getApiKeyIdentity } from '../services/apiKeys.js';
 import {
-  payInvoice,
-  getPaymentStatus,
-  decodeInvoice,
-} from '../services/lightning.js';
+  fetchPayInvoice,
+  isLnurlPayTarget,
+  resolvePayRequest,
+  toLnurlFailure,
+  toMetadataDescription,
+} from '../services/lnurlClient.js';
+import { getRequestNode } from '../middleware/nodeContext.js';
+import { idempotency, idempotencyKeyHeader } from '../middleware/idempotency.js';
+import { acquireLock } from '../lib/locks.js';
+import { getDefaultPaymentLimits, resolveMaxFee } from '../config/payments.js';
+import { CustomRecord, PaymentAttemptResponse, PaymentFailureCode } from '../types/lightning.js';
+
+const router = Router({ mergeParams: true });
+
+// Custom record types below this are reserved by the protocol
+const MIN_CUSTOM_RECORD_TYPE = 65536n;
+
+// Record types the server fills in itself: the keysend preimage and the message
+const RESERVED_RECORD_TYPES = ['5482373484', '34349334'];
 
-const router = Router();
+const paymentHashParam = () =>
+  param('payment_hash')
+    .isHexadecimal()
+    .isLength({ min: 64, max: 64 })
+    .withMessage('Payment hash must be a 64-character hex string');
+
+/**
+ * Answer a request for an invoice another request is paying right now
+ */
+const sendDuplicatePayment = (res: Response): void => {
+  res.status(409).json({
+    success: false,
+    error: 'A payment for this invoice is already in flight',
+    code: 'DUPLICATE_PAYMENT',
+  });
+};
+
+/**
+ * Describe the payment an invoice already has
+ */
+const toStoredPayment = (payment: Payment) => ({
+  payment_hash: payment.paymentHash,
+  node_id: payment.nodeId,
+  kind: payment.kind,
+  status: payment.status,
+  preimage: payment.preimage,
+  amount: Number(payment.amount),
+  fee: Number(payment.fee),
+  max_fee: payment.maxFee === null ? null : Number(payment.maxFee),
+  timeout_seconds: payment.timeoutSeconds,
+  payment_request: payment.paymentRequest,
+  error_message: payment.errorMessage,
+  created_at: payment.createdAt,
+});
 
 /**
  * POST /api/payment
  *
- * Pay a Lightning invoice from Node B
+ * Pay a Lightning invoice, Lightning Address or LNURL from Node B
+ *
+ * The invoice must pass validation for the node's network; otherwise the
+ * response is 400 with the failed check's code (INVALID_CHECKSUM,
+ * WRONG_NETWORK, ...).
+ *
+ * amount is required for zero-amount invoices and rejected otherwise
+ * (AMOUNT_REQUIRED / AMOUNT_NOT_ALLOWED).
+ *
+ * For a Lightning Address or LNURL, payment_request holds the address and
+ * amount is required. The server resolves the pay request, fetches an
+ * invoice for the amount (with the optional comment) and pays that, after
+ * checking it is for the amount and commits to the pay request's metadata.
+ * LNURL problems answer with codes such as LNURL_ERROR, AMOUNT_OUT_OF_RANGE
+ * and INVOICE_MISMATCH.
+ *
+ * Optional limits: max_fee_sats, max_fee_percent (the lower cap wins) and
+ * timeout_seconds. Unset limits fall back to the PAYMENT_* server defaults.
+ * Responds 422 with code FEE_LIMIT_EXCEEDED if every route costs more than
+ * the fee cap.
+ *
+ * The spending policy is checked before the payment is recorded: 422 with
+ * PAYMENT_AMOUNT_EXCEEDED, HOURLY_BUDGET_EXCEEDED or DAILY_BUDGET_EXCEEDED,
+ * 403 with DESTINATION_NOT_ALLOWED. Payments above the approval threshold
+ * are recorded as `awaiting_approval` and not sent until approved.
+ *
+ * An invoice is only ever paid once, whatever the idempotency key: if it
+ * already has a payment, that payment is returned with `duplicate` set to
+ * `already_paid` (200) or `in_flight` (202). A failed payment is tried again
+ * under the same row, its attempts counting on.
+ *
+ * With an X-Idempotency-Key header, repeating the request returns the first
+ * response as it was (see middleware/idempotency.ts).
  */
 router.post(
   '/',
   [
     body('payment_request')
       .isString()
-      .matches(/^ln(bc|tb|bcrt)/)
       .withMessage('Invalid Lightning invoice format'),
-    header('x-idempotency-key')
+    body('amount')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Amount must be a positive integer (satoshis)')
+      .toInt(),
+    body('comment')
       .optional()
       .isString()
-      .isLength({ min: 8, max: 64 })
-      .withMessage('Idempotency key must be 8-64 characters'),
+      .isLength({ max: 2000 })
+      .withMessage('Comment must be less than 2000 characters'),
+    body('max_fee_sats')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('max_fee_sats must be a non-negative integer')
+      .toInt(),
+    body('max_fee_percent')
+      .optional()
+      .isFloat({ min: 0, max: 100 })
+      .withMessage('max_fee_percent must be between 0 and 100')
+      .toFloat(),
+    body('timeout_seconds')
+      .optional()
+      .isInt({ min: 1, max: 3600 })
+      .withMessage('timeout_seconds must be between 1 and 3600')
+      .toInt(),
+    idempotencyKeyHeader(),
   ],
+  idempotency,
   async (req: Request, res: Response): Promise<void> => {
+    let release: (() => void) | undefined;
+
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
@@ -41,36 +157,44 @@ router.post(
         return;
       }
 
-      const { payment_request } = req.body;
+      const { max_fee_sats, max_fee_percent, timeout_seconds, comment } = req.body;
+      const nodeId = getRequestNode(req, 'sender');
       const idempotencyKey = req.headers['x-idempotency-key'] as string | undefined;
+      const isLnurl = isLnurlPayTarget(req.body.payment_request);
 
-      // Check for existing payment with same idempotency key
-      if (idempotencyKey) {
-        const existingPayment = await prisma.payment.findFirst({
-          where: { idempotencyKey },
-        });
+      // Decode invoices first, so malformed or wrong-network invoices never get further
+      const invoice = isLnurl ? null : await decodeInvoice(req.body.payment_request, nodeId);
 
-        if (existingPayment) {
-          req.log?.info({ idempotencyKey }, 'Returning cached payment (idempotency)');
-          res.status(200).json({
-            success: true,
-            data: {
-              payment_hash: existingPayment.paymentHash,
-              status: existingPayment.status,
-              preimage: existingPayment.preimage,
-              amount: Number(existingPayment.amount),
-              fee: Number(existingPayment.fee),
-              payment_request: existingPayment.paymentRequest,
-              created_at: existingPayment.createdAt,
-              cached: true,
-            },
+      // Lightning Addresses and LNURLs are paid through an invoice for the amount
+      let payment_request: string = req.body.payment_request;
+      let amount: number | undefined = req.body.amount;
+      let lnurlDescription: string | null = null;
+      if (isLnurl) {
+        if (amount === undefined) {
+          res.status(400).json({
+            success: false,
+            error: 'Specify the amount to pay to a Lightning Address or LNURL',
+            code: 'AMOUNT_REQUIRED',
           });
           return;
         }
+
+        const payRequest = await resolvePayRequest(payment_request);
+        payment_request = await fetchPayInvoice(payRequest, amount * 1000, comment);
+        lnurlDescription = toMetadataDescription(payRequest.metadata) || null;
+        amount = undefined;
       }
 
-      // Decode invoice first to get details
-      const decoded = await decodeInvoice(payment_request);
+      const decoded = invoice ?? (await decodeInvoice(payment_request, nodeId));
+
+      if (!decoded.signature_valid) {
+        res.status(400).json({
+          success: false,
+          error: 'Invoice signature does not match its payee',
+          code: 'INVALID_SIGNATURE',
+        });
+        return;
+      }
 
       // Check if invoice is expired
       if (new Date(decoded.expires_at) < new Date()) {
@@ -81,79 +205,401 @@ router.post(
         return;
       }
 
-      // Execute payment
-      const payment = await payInvoice({ payment_request });
-      const now = new Date();
+      // The payer picks the amount only when the invoice leaves it open
+      if (decoded.amount === 0 && amount === undefined) {
+        res.status(400).json({
+          success: false,
+          error: 'Invoice has no amount; specify the amount to pay',
+          code: 'AMOUNT_REQUIRED',
+        });
+        return;
+      }
 
-      // Map status to payment status enum (payments don't have 'expired')
-      const paymentStatus = payment.status === 'expired' ? 'failed' : payment.status;
+      if (decoded.amount > 0 && amount !== undefined) {
+        res.status(400).json({
+          success: false,
+          error: 'Invoice already specifies an amount',
+          code: 'AMOUNT_NOT_ALLOWED',
+        });
+        return;
+      }
 
-      // Save to payments table
-      await prisma.payment.create({
-        data: {
-          paymentHash: decoded.payment_hash,
-          paymentRequest: payment_request,
-          amount: decoded.amount,
-          fee: payment.fee || 0,
-          status: paymentStatus as 'pending' | 'succeeded' | 'failed',
-          description: decoded.description || null,
-          preimage: payment.preimage,
-          destination: decoded.destination,
-          errorMessage: payment.error || null,
-          retryCount: 0,
-          idempotencyKey: idempotencyKey || null,
-          settledAt: payment.status === 'succeeded' ? now : null,
-        },
+      const paymentAmount: number = amount ?? decoded.amount;
+
+      // Fee limits from the request replace both server defaults
+      const defaults = getDefaultPaymentLimits();
+      const hasFeeLimit = max_fee_sats !== undefined || max_fee_percent !== undefined;
+      const maxFee = resolveMaxFee(paymentAmount, {
+        maxFeeSats: hasFeeLimit ? (max_fee_sats ?? null) : defaults.maxFeeSats,
+        maxFeePercent: hasFeeLimit ? (max_fee_percent ?? null) : defaults.maxFeePercent,
+        timeoutSeconds: null,
+      });
+      const timeoutSeconds = timeout_seconds ?? defaults.timeoutSeconds;
+
+      // Refuse up front when the cheapest route costs more than the cap
+      if (maxFee !== null) {
+        const estimatedFee = await estimatePaymentFee({ payment_request, amount }, nodeId).catch((err) => {
+          req.log?.warn({ err }, 'Could not estimate routing fee');
+          return null;
+        });
+
+        if (estimatedFee !== null && estimatedFee > maxFee) {
+          res.status(422).json({
+            success: false,
+            error: `Estimated routing fee of ${estimatedFee} sats exceeds the limit of ${maxFee} sats`,
+            code: 'FEE_LIMIT_EXCEEDED',
+            details: { estimated_fee: estimatedFee, max_fee: maxFee },
+          });
+          return;
+        }
+      }
+
+      // Handle one request per invoice at a time, so it can't be sent twice at once
+      release = await acquireLock(`payment:${decoded.payment_hash}`);
+
+      const existing = await prisma.payment.findUnique({
+        where: { paymentHash: decoded.payment_hash },
       });
 
-      // If payment succeeded, update the corresponding invoice (if it exists in our db)
-      if (payment.status === 'succeeded') {
-        await prisma.invoice.updateMany({
-          where: { paymentHash: decoded.payment_hash },
+      if (existing && existing.status !== 'failed') {
+        const duplicate = existing.status === 'succeeded' ? 'already_paid' : 'in_flight';
+        req.log?.info({ paymentHash: existing.paymentHash, duplicate }, 'Invoice already has a payment');
+        res.status(duplicate === 'already_paid' ? 200 : 202).json({
+          success: true,
+          data: { ...toStoredPayment(existing), duplicate },
+        });
+        return;
+      }
+
+      // Record the payment if the spending policy allows it, then send it in the background unless it needs approval
+      const awaitingApproval = needsApproval(paymentAmount);
+      const status: PaymentStatus = awaitingApproval ? 'awaiting_approval' : 'pending';
+      const payment = {
+        paymentRequest: payment_request,
+        nodeId,
+        amount: paymentAmount,
+        fee: 0,
+        maxFee,
+        timeoutSeconds,
+        status,
+        // Invoices from LNURL services commit to the metadata instead of a description
+        description: decoded.description || lnurlDescription,
+        destination: decoded.destination,
+        requestedBy: req.apiKey ? getApiKeyIdentity(req.apiKey) : null,
+      };
+
+      // A failed payment is tried again under its row, counting towards budgets from now.
+      // A voucher it redeemed already got its use back. The row is only taken while it
+      // is still failed, since the lock above doesn't reach other server instances.
+      const record = async (): Promise<Payment | null> => {
+        if (!existing) {
+          return prisma.payment.create({
+            data: {
+              ...payment,
+              paymentHash: decoded.payment_hash,
+              retryCount: 0,
+              idempotencyKey: idempotencyKey || null,
+            },
+          });
+        }
+
+        const { count } = await prisma.payment.updateMany({
+          where: { paymentHash: existing.paymentHash, status: 'failed' },
           data: {
-            status: 'succeeded',
-            preimage: payment.preimage,
-            settledAt: now,
-            updatedAt: now,
+            ...payment,
+            errorMessage: null,
+            idempotencyKey: idempotencyKey || existing.idempotencyKey,
+            withdrawLinkId: null,
+            reviewedBy: null,
+            reviewedAt: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
           },
         });
+        return count === 0 ? null : prisma.payment.findUnique({ where: { paymentHash: existing.paymentHash } });
+      };
+
+      const dbPayment = await authorizePayment(
+        { nodeId, amount: paymentAmount, destination: decoded.destination },
+        record
+      );
+
+      // Another server instance tried the failed payment again first
+      if (!dbPayment) {
+        sendDuplicatePayment(res);
+        return;
       }
 
-      res.status(201).json({
+      if (existing) {
+        req.log?.info({ paymentHash: existing.paymentHash }, 'Trying failed payment again');
+      }
+
+      if (!awaitingApproval) {
+        sendPayment(
+          {
+            paymentHash: dbPayment.paymentHash,
+            paymentRequest: payment_request,
+            nodeId,
+            amount: amount ?? null,
+            maxFee,
+            timeoutSeconds,
+          },
+          existing ? await getNextAttemptNumber(existing.paymentHash) : 1
+        );
+      }
+
+      res.status(202).json({
         success: true,
         data: {
-          payment_hash: decoded.payment_hash,
-          status: payment.status,
-          preimage: payment.preimage,
-          amount: decoded.amount,
-          fee: payment.fee || 0,
+          payment_hash: dbPayment.paymentHash,
+          node_id: nodeId,
+          kind: dbPayment.kind,
+          status: dbPayment.status,
+          preimage: null,
+          amount: paymentAmount,
+          fee: 0,
+          max_fee: maxFee,
+          timeout_seconds: timeoutSeconds,
           payment_request: payment_request,
-          created_at: now,
+          created_at: dbPayment.createdAt,
         },
       });
     } catch (error: any) {
+      const failure = toDecodeFailure(error);
+      if (failure) {
+        res.status(400).json({ success: false, ...failure });
+        return;
+      }
+
+      const lnurlFailure = toLnurlFailure(error);
+      if (lnurlFailure) {
+        const { status, ...rest } = lnurlFailure;
+        res.status(status).json({ success: false, ...rest });
+        return;
+      }
+
+      const spendingFailure = toSpendingFailure(error);
+      if (spendingFailure) {
+        const { status, ...rest } = spendingFailure;
+        res.status(status).json({ success: false, ...rest });
+        return;
+      }
+
+      // Another server instance recorded the same invoice at the same moment
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        sendDuplicatePayment(res);
+        return;
+      }
+
       req.log?.error({ err: error }, 'Error processing payment');
       res.status(500).json({
         success: false,
         error: error.message || 'Failed to process payment',
       });
+    } finally {
+      release?.();
     }
   }
 );
 
+/**
+ * POST /api/payment/keysend
+ *
+ * Push a payment to a node's public key without an invoice (keysend)
+ *
+ * The server picks the preimage and sends it to the payee inside the
+ * payment. An optional message and custom TLV records (types 65536 and up,
+ * hex values) travel with it. Fee and timeout limits, the spending policy
+ * and approvals work as for POST /.
+ */
+router.post(
+  '/keysend',
+  [
+    body('destination')
+      .isString()
+      .matches(/^0[23][0-9a-fA-F]{64}$/)
+      .withMessage('Destination must be a 66-character hex public key'),
+    body('amount')
+      .isInt({ min: 1 })
+      .withMessage('Amount must be a positive integer (satoshis)')
+      .toInt(),
+    body('message')
+      .optional()
+      .isString()
+      .isLength({ max: 1000 })
+      .withMessage('Message must be at most 1000 characters'),
+    body('custom_records')
+      .optional()
+      .isArray({ max: 20 })
+      .withMessage('custom_records must be an array of at most 20 records'),
+    body('custom_records.*.type')
+      .isString()
+      .matches(/^\d+$/)
+      .custom((type: string) =>
+        BigInt(type) >= MIN_CUSTOM_RECORD_TYPE && !RESERVED_RECORD_TYPES.includes(type)
+      )
+      .withMessage('Custom record type must be a decimal string of at least 65536 and not a reserved type'),
+    body('custom_records.*.value')
+      .isString()
+      .matches(/^([0-9a-fA-F]{2})+$/)
+      .withMessage('Custom record value must be hex encoded bytes'),
+    body('max_fee_sats')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('max_fee_sats must be a non-negative integer')
+      .toInt(),
+    body('max_fee_percent')
+      .optional()
+      .isFloat({ min: 0, max: 100 })
+      .withMessage('max_fee_percent must be between 0 and 100')
+      .toFloat(),
+    body('timeout_seconds')
+      .optional()
+      .isInt({ min: 1, max: 3600 })
+      .withMessage('timeout_seconds must be between 1 and 3600')
+      .toInt(),
+    idempotencyKeyHeader(),
+  ],
+  idempotency,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { destination, amount, message, max_fee_sats, max_fee_percent, timeout_seconds } = req.body;
+      const customRecords: CustomRecord[] | undefined = req.body.custom_records?.map(
+        ({ type, value }: CustomRecord) => ({ type, value: value.toLowerCase() })
+      );
+      const nodeId = getRequestNode(req, 'sender');
+      const idempotencyKey = req.headers['x-idempotency-key'] as string | undefined;
+
+      const defaults = getDefaultPaymentLimits();
+      const hasFeeLimit = max_fee_sats !== undefined || max_fee_percent !== undefined;
+      const maxFee = resolveMaxFee(amount, {
+        maxFeeSats: hasFeeLimit ? (max_fee_sats ?? null) : defaults.maxFeeSats,
+        maxFeePercent: hasFeeLimit ? (max_fee_percent ?? null) : defaults.maxFeePercent,
+        timeoutSeconds: null,
+      });
+      const timeoutSeconds = timeout_seconds ?? defaults.timeoutSeconds;
+
+      // The payer owns the preimage of a keysend payment
+      const preimage = randomBytes(32).toString('hex');
+      const paymentHash = createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+
+      // Record the payment if the spending policy allows it, then send it in the background unless it needs approval
+      const awaitingApproval = needsApproval(amount);
+      const dbPayment = await authorizePayment({ nodeId, amount, destination }, () =>
+        prisma.payment.create({
+          data: {
+            paymentHash,
+            paymentRequest: null,
+            kind: 'keysend',
+            nodeId,
+            amount,
+            fee: 0,
+            maxFee,
+            timeoutSeconds,
+            status: awaitingApproval ? 'awaiting_approval' : 'pending',
+            description: message || null,
+            preimage,
+            destination: destination.toLowerCase(),
+            ...(customRecords?.length && {
+              customRecords: customRecords as unknown as Prisma.InputJsonValue,
+            }),
+            retryCount: 0,
+            idempotencyKey: idempotencyKey || null,
+            requestedBy: req.apiKey ? getApiKeyIdentity(req.apiKey) : null,
+          },
+        })
+      );
+
+      if (!awaitingApproval) {
+        sendPayment({
+          paymentHash,
+          paymentRequest: null,
+          keysend: {
+            destination: destination.toLowerCase(),
+            preimage,
+            ...(message && { message }),
+            ...(customRecords?.length && { custom_records: customRecords }),
+          },
+          nodeId,
+          amount,
+          maxFee,
+          timeoutSeconds,
+        });
+      }
+
+      res.status(202).json({
+        success: true,
+        data: {
+          payment_hash: paymentHash,
+          node_id: nodeId,
+          kind: dbPayment.kind,
+          status: dbPayment.status,
+          preimage: null,
+          amount,
+          fee: 0,
+          max_fee: maxFee,
+          timeout_seconds: timeoutSeconds,
+          destination: dbPayment.destination,
+          message: dbPayment.description,
+          custom_records: customRecords ?? [],
+          created_at: dbPayment.createdAt,
+        },
+      });
+    } catch (error: any) {
+      const spendingFailure = toSpendingFailure(error);
+      if (spendingFailure) {
+        const { status, ...rest } = spendingFailure;
+        res.status(status).json({ success: false, ...rest });
+        return;
+      }
+
+      req.log?.error({ err: error }, 'Error processing keysend payment');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to process keysend payment',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/payment/spending
+ *
+ * The sending node's spending policy and how much of its hourly and daily
+ * budgets is used
+ */
+router.get('/spending', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const usage = await getSpendingUsage(getRequestNode(req, 'sender'));
+
+    res.json({
+      success: true,
+      data: usage,
+    });
+  } catch (error: any) {
+    req.log?.error({ err: error }, 'Error getting spending usage');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get spending usage',
+    });
+  }
+});
+
 /**
  * GET /api/payment/:payment_hash
  *
- * Get payment status by payment hash
+ * Get payment status by payment hash, as last recorded by the payment tracker,
+ * with every attempt made to send it
  */
 router.get(
   '/:payment_hash',
-  [
-    param('payment_hash')
-      .isHexadecimal()
-      .isLength({ min: 64, max: 64 })
-      .withMessage('Payment hash must be a 64-character hex string'),
-  ],
+  [paymentHashParam()],
   async (req: Request, res: Response): Promise<void> => {
     try {
       const errors = validationResult(req);
@@ -167,9 +613,10 @@ router.get(
       // Get from database
       const dbPayment = await prisma.payment.findUnique({
         where: { paymentHash: payment_hash },
+        include: { attempts: { orderBy: { attemptNumber: 'asc' } } },
       });
 
-      if (!dbPayment) {
+      if (!dbPayment || (req.nodeId && dbPayment.nodeId !== req.nodeId)) {
         res.status(404).json({
           success: false,
           error: 'Payment not found',
@@ -177,38 +624,43 @@ router.get(
         return;
       }
 
-      // Get current status from LND
-      const lndStatus = await getPaymentStatus(payment_hash);
-
-      // Update database if status changed
-      if (dbPayment.status !== lndStatus.status) {
-        const now = new Date();
-        await prisma.payment.update({
-          where: { paymentHash: payment_hash },
-          data: {
-            status: lndStatus.status,
-            preimage: lndStatus.preimage,
-            settledAt: lndStatus.status === 'succeeded' ? now : null,
-            updatedAt: now,
-          },
-        });
-      }
-
       res.json({
         success: true,
         data: {
           payment_hash: dbPayment.paymentHash,
           payment_request: dbPayment.paymentRequest,
+          kind: dbPayment.kind,
+          node_id: dbPayment.nodeId,
           amount: Number(dbPayment.amount),
           fee: Number(dbPayment.fee),
+          max_fee: dbPayment.maxFee === null ? null : Number(dbPayment.maxFee),
+          timeout_seconds: dbPayment.timeoutSeconds,
           description: dbPayment.description,
-          status: lndStatus.status,
-          preimage: lndStatus.preimage,
+          status: dbPayment.status,
+          preimage: dbPayment.preimage,
           destination: dbPayment.destination,
+          custom_records: (dbPayment.customRecords as unknown as CustomRecord[] | null) ?? [],
+          withdraw_link_id: dbPayment.withdrawLinkId,
+          requested_by: dbPayment.requestedBy,
+          reviewed_by: dbPayment.reviewedBy,
+          reviewed_at: dbPayment.reviewedAt,
           error_message: dbPayment.errorMessage,
+          failure_code: dbPayment.attempts.at(-1)?.failureCode ?? null,
           retry_count: Number(dbPayment.retryCount),
           settled_at: dbPayment.settledAt,
           created_at: dbPayment.createdAt,
+          attempts: dbPayment.attempts.map(
+            (attempt): PaymentAttemptResponse => ({
+              attempt_number: attempt.attemptNumber,
+              status: attempt.status as PaymentAttemptResponse['status'],
+              route: attempt.route as PaymentAttemptResponse['route'],
+              fee: attempt.fee === null ? null : Number(attempt.fee),
+              failure_code: attempt.failureCode as PaymentFailureCode | null,
+              failure_reason: attempt.failureReason,
+              started_at: attempt.startedAt,
+              finished_at: attempt.finishedAt,
+            })
+          ),
         },
       });
     } catch (error: any) {
@@ -221,4 +673,147 @@ router.get(
   }
 );
 
+/**
+ * Describe a payment after it was approved or rejected
+ */
+const toReviewedPayment = (payment: Payment) => ({
+  payment_hash: payment.paymentHash,
+  node_id: payment.nodeId,
+  kind: payment.kind,
+  status: payment.status,
+  amount: Number(payment.amount),
+  requested_by: payment.requestedBy,
+  reviewed_by: payment.reviewedBy,
+  reviewed_at: payment.reviewedAt,
+  error_message: payment.errorMessage,
+});
+
+/**
+ * Answer a refused approval or rejection
+ *
+ * @returns Whether the error was answered
+ */
+const sendReviewFailure = (error: unknown, res: Response): boolean => {
+  const approvalFailure = toApprovalFailure(error);
+  if (approvalFailure) {
+    const { status, ...rest } = approvalFailure;
+    res.status(status).json({ success: false, ...rest });
+    return true;
+  }
+
+  // Invoices are decoded again before an approved payment is sent
+  const decodeFailure = toDecodeFailure(error);
+  if (decodeFailure) {
+    res.status(400).json({ success: false, ...decodeFailure });
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Identity of the key reviewing a payment, or null after answering 401
+ */
+const getReviewer = (req: Request, res: Response): string | null => {
+  if (!req.apiKey) {
+    res.status(401).json({
+      success: false,
+      error: 'API key required (Authorization: Bearer <key>)',
+      code: 'API_KEY_REQUIRED',
+    });
+    return null;
+  }
+
+  return getApiKeyIdentity(req.apiKey);
+};
+
+/**
+ * POST /api/payment/:payment_hash/approve
+ *
+ * Approve a payment awaiting approval and send it
+ *
+ * Needs a different API key than the one that requested the payment (403
+ * SAME_API_KEY). An invoice that expired while waiting fails the payment and
+ * answers 409 INVOICE_EXPIRED; a payment that isn't awaiting approval answers
+ * 409 NOT_AWAITING_APPROVAL.
+ */
+router.post(
+  '/:payment_hash/approve',
+  [paymentHashParam()],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const reviewer = getReviewer(req, res);
+      if (!reviewer) return;
+
+      const payment = await approvePayment(req.params.payment_hash, reviewer, req.nodeId);
+
+      res.status(202).json({
+        success: true,
+        data: toReviewedPayment(payment),
+      });
+    } catch (error: any) {
+      if (sendReviewFailure(error, res)) return;
+
+      req.log?.error({ err: error }, 'Error approving payment');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to approve payment',
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/payment/:payment_hash/reject
+ *
+ * Reject a payment awaiting approval, failing it without sending anything
+ *
+ * The optional reason is kept as the payment's error message. Refused for
+ * the same reasons as approvals, apart from INVOICE_EXPIRED.
+ */
+router.post(
+  '/:payment_hash/reject',
+  [
+    paymentHashParam(),
+    body('reason')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Reason must be at most 500 characters'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const reviewer = getReviewer(req, res);
+      if (!reviewer) return;
+
+      const payment = await rejectPayment(req.params.payment_hash, reviewer, req.body.reason, req.nodeId);
+
+      res.json({
+        success: true,
+        data: toReviewedPayment(payment),
+      });
+    } catch (error: any) {
+      if (sendReviewFailure(error, res)) return;
+
+      req.log?.error({ err: error }, 'Error rejecting payment');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to reject payment',
+      });
+    }
+  }
+);
+
 export default router;
@@ -5,17 +5,28 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { query, validationResult } from 'express-validator';
+import { matchedData, query, validationResult } from 'express-validator';
+import { InvoiceStatus, PaymentStatus } from '@prisma/client';
 import { prisma } from '../db/database.js';
-import { getNodeBalance, getNodeInfo } from '../services/lightning.js';
+import { getNodeBalance } from '../services/lightning.js';
+import { decodeLedgerCursor, LedgerEntryType, listLedger } from '../services/ledger.js';
+import { getDefaultNodeId } from '../config/lightning.js';
 import { logger } from '../lib/logger.js';
 
 const router = Router();
 
+// Statuses of invoices and payments
+const TRANSACTION_STATUSES = [...new Set<string>([...Object.values(InvoiceStatus), ...Object.values(PaymentStatus)])];
+
 /**
  * GET /api/transactions
  *
- * List all transactions (invoices and payments combined)
+ * List invoices and payments together, newest first
+ *
+ * Filters: type, status, from / to (ISO 8601, on creation time), min_amount /
+ * max_amount (satoshis), q (text in the description) and payment_hash (hex
+ * prefix). Pass pagination.next_cursor back as cursor for the next page;
+ * page still works without a cursor, but reads every row before it.
  */
 router.get(
   '/transactions',
@@ -24,6 +35,41 @@ router.get(
       .optional()
       .isIn(['invoice', 'payment'])
       .withMessage('Type must be "invoice" or "payment"'),
+    query('status')
+      .optional()
+      .isIn(TRANSACTION_STATUSES)
+      .withMessage(`Status must be one of ${TRANSACTION_STATUSES.join(', ')}`),
+    query('from')
+      .optional()
+      .isISO8601()
+      .withMessage('From must be an ISO 8601 date')
+      .toDate(),
+    query('to')
+      .optional()
+      .isISO8601()
+      .withMessage('To must be an ISO 8601 date')
+      .toDate(),
+    query(['min_amount', 'max_amount'])
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Amounts must be non-negative integers (satoshis)')
+      .toInt(),
+    query('q')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Search text must be 1-200 characters'),
+    query('payment_hash')
+      .optional()
+      .matches(/^[0-9a-fA-F]{1,64}$/)
+      .withMessage('Payment hash must be 1-64 hex characters')
+      .toLowerCase(),
+    query('cursor')
+      .optional()
+      .isString()
+      .custom((cursor: string) => decodeLedgerCursor(cursor) !== null)
+      .withMessage('Invalid cursor'),
     query('page')
       .optional()
       .isInt({ min: 1 })
@@ -43,103 +89,46 @@ router.get(
         return;
       }
 
-      const { type, page = 1, limit = 20 } = req.query as {
-        type?: 'invoice' | 'payment';
+      const { page = 1, limit = 20, cursor, ...params } = matchedData(req, { locations: ['query'] }) as {
+        type?: LedgerEntryType;
+        status?: string;
+        from?: Date;
+        to?: Date;
+        min_amount?: number;
+        max_amount?: number;
+        q?: string;
+        payment_hash?: string;
+        cursor?: string;
         page?: number;
         limit?: number;
       };
 
-      const pageNum = Number(page);
-      const limitNum = Number(limit);
-      const offset = (pageNum - 1) * limitNum;
-
-      // Query based on type filter
-      let results: any[] = [];
-      let total = 0;
-
-      if (!type || type === 'invoice') {
-        const invoiceResults = await prisma.invoice.findMany({
-          orderBy: { createdAt: 'desc' },
-          take: type === 'invoice' ? limitNum : 1000,
-          skip: type === 'invoice' ? offset : 0,
-          select: {
-            paymentHash: true,
-            amount: true,
-            status: true,
-            description: true,
-            createdAt: true,
-            settledAt: true,
-          },
-        });
-
-        results.push(...invoiceResults.map(r => ({
-          paymentHash: r.paymentHash,
-          type: 'invoice' as const,
-          amount: Number(r.amount),
-          status: r.status,
-          description: r.description,
-          createdAt: r.createdAt,
-          settledAt: r.settledAt,
-        })));
-      }
-
-      if (!type || type === 'payment') {
-        const paymentResults = await prisma.payment.findMany({
-          orderBy: { createdAt: 'desc' },
-          take: type === 'payment' ? limitNum : 1000,
-          skip: type === 'payment' ? offset : 0,
-          select: {
-            paymentHash: true,
-            amount: true,
-            status: true,
-            description: true,
-            fee: true,
-            createdAt: true,
-            settledAt: true,
-          },
-        });
-
-        results.push(...paymentResults.map(r => ({
-          paymentHash: r.paymentHash,
-          type: 'payment' as const,
-          amount: Number(r.amount),
-          status: r.status,
-          description: r.description,
-          fee: Number(r.fee),
-          createdAt: r.createdAt,
-          settledAt: r.settledAt,
-        })));
-      }
-
-      // Sort combined results by date
-      results.sort((a, b) =>
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
-
-      // Get totals
-      if (!type) {
-        const [invoiceCount, paymentCount] = await Promise.all([
-          prisma.invoice.count(),
-          prisma.payment.count(),
-        ]);
-        total = invoiceCount + paymentCount;
-        // Apply pagination to combined results
-        results = results.slice(offset, offset + limitNum);
-      } else if (type === 'invoice') {
-        total = await prisma.invoice.count();
-      } else {
-        total = await prisma.payment.count();
-      }
+      const { transactions, total, nextCursor } = await listLedger({
+        filters: {
+          type: params.type,
+          status: params.status,
+          from: params.from,
+          to: params.to,
+          minAmount: params.min_amount,
+          maxAmount: params.max_amount,
+          search: params.q,
+          paymentHashPrefix: params.payment_hash,
+        },
+        limit,
+        cursor: cursor ? decodeLedgerCursor(cursor) ?? undefined : undefined,
+        offset: (page - 1) * limit,
+      });
 
       res.json({
         success: true,
         data: {
-          transactions: results,
+          transactions,
           pagination: {
-            page: pageNum,
-            limit: limitNum,
+            page,
+            limit,
             total,
-            totalPages: Math.ceil(total / limitNum),
+            totalPages: Math.ceil(total / limit),
+            next_cursor: nextCursor,
           },
         },
       });
@@ -162,7 +151,7 @@ router.get('/balance', async (_req: Request, res: Response): Promise<void> => {
   try {
     // Get total received (succeeded invoices)
     const receivedResult = await prisma.invoice.aggregate({
-      _sum: { amount: true },
+      _sum: { receivedAmount: true },
       where: { status: 'succeeded' },
     });
 
@@ -178,15 +167,15 @@ router.get('/balance', async (_req: Request, res: Response): Promise<void> => {
       where: { status: 'succeeded' },
     });
 
-    const totalReceived = Number(receivedResult._sum.amount ?? 0);
+    const totalReceived = Number(receivedResult._sum.receivedAmount ?? 0);
     const totalSent = Number(sentResult._sum.amount ?? 0);
     const totalFees = Number(feesResult._sum.fee ?? 0);
 
     // Also get live balances from nodes
     let nodeABalance, nodeBBalance;
     try {
-      nodeABalance = await getNodeBalance('node_a');
-      nodeBBalance = await getNodeBalance('node_b');
+      nodeABalance = await getNodeBalance(getDefaultNodeId('receiver'));
+      nodeBBalance = await getNodeBalance(getDefaultNodeId('sender'));
     } catch (error) {
       logger.warn({ error }, 'Could not fetch live node balances');
     }
@@ -213,32 +202,4 @@ router.get('/balance', async (_req: Request, res: Response): Promise<void> => {
   }
 });
 
-/**
- * GET /api/nodes
- *
- * Get information about both Lightning nodes
- */
-router.get('/nodes', async (_req: Request, res: Response): Promise<void> => {
-  try {
-    const [nodeA, nodeB] = await Promise.all([
-      getNodeInfo('node_a'),
-      getNodeInfo('node_b'),
-    ]);
-
-    res.json({
-      success: true,
-      data: {
-        node_a: nodeA,
-        node_b: nodeB,
-      },
-    });
-  } catch (error: any) {
-    logger.error({ err: error }, 'Error getting node info');
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to get node info',
-    });
-  }
-});
-
 export default router;
@@ -0,0 +1,229 @@
+/**
+ * Webhook Routes
+ *
+ * Register endpoints that receive invoice and payment events, inspect their
+ * delivery log and replay deliveries. The signing secret is only returned
+ * when an endpoint is registered.
+ */
+
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { prisma } from '../db/database.js';
+import {
+  WEBHOOK_EVENTS,
+  createWebhookSecret,
+  redeliverWebhook,
+  toWebhookDeliveryResponse,
+  toWebhookResponse,
+} from '../services/webhooks.js';
+
+const router = Router();
+
+// Most deliveries returned by the delivery log
+const MAX_DELIVERIES = 100;
+
+const webhookIdParam = () => param('id').isUUID().withMessage('Invalid webhook id');
+
+/**
+ * POST /api/webhooks
+ *
+ * Register an endpoint for events
+ *
+ * Body: url (http or https), events (any of invoice.settled,
+ * invoice.expired, payment.succeeded, payment.failed) and an optional
+ * description. The response includes the secret the requests are signed
+ * with.
+ */
+router.post(
+  '/',
+  [
+    body('url')
+      .isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+      .withMessage('url must be an http(s) URL'),
+    body('events')
+      .isArray({ min: 1 })
+      .withMessage('events must list at least one event'),
+    body('events.*')
+      .isIn(WEBHOOK_EVENTS)
+      .withMessage(`events must be among ${WEBHOOK_EVENTS.join(', ')}`),
+    body('description')
+      .optional()
+      .isString()
+      .isLength({ max: 256 })
+      .withMessage('Description must be less than 256 characters'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { url, events, description } = req.body;
+
+      const webhook = await prisma.webhook.create({
+        data: {
+          url,
+          events: [...new Set<string>(events)],
+          secret: createWebhookSecret(),
+          description: description || null,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: toWebhookResponse(webhook, true),
+      });
+    } catch (error: any) {
+      req.log?.error({ err: error }, 'Error registering webhook');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to register webhook',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/webhooks
+ *
+ * List registered endpoints
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: webhooks.map((webhook) => toWebhookResponse(webhook)),
+    });
+  } catch (error: any) {
+    req.log?.error({ err: error }, 'Error listing webhooks');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to list webhooks',
+    });
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ *
+ * Remove an endpoint and its delivery log
+ */
+router.delete('/:id', [webhookIdParam()], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { count } = await prisma.webhook.deleteMany({
+      where: { id: req.params.id },
+    });
+    if (count === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    req.log?.error({ err: error }, 'Error removing webhook');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to remove webhook',
+    });
+  }
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ *
+ * Delivery log of an endpoint, newest first
+ */
+router.get('/:id/deliveries', [webhookIdParam()], async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const webhook = await prisma.webhook.findUnique({
+      where: { id: req.params.id },
+      include: {
+        deliveries: { orderBy: { createdAt: 'desc' }, take: MAX_DELIVERIES },
+      },
+    });
+    if (!webhook) {
+      res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: webhook.deliveries.map(toWebhookDeliveryResponse),
+    });
+  } catch (error: any) {
+    req.log?.error({ err: error }, 'Error listing webhook deliveries');
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to list webhook deliveries',
+    });
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/deliveries/:delivery_id/redeliver
+ *
+ * Send a delivery's event again as a new delivery with the same event id
+ */
+router.post(
+  '/:id/deliveries/:delivery_id/redeliver',
+  [webhookIdParam(), param('delivery_id').isUUID().withMessage('Invalid delivery id')],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const delivery = await prisma.webhookDelivery.findFirst({
+        where: { id: req.params.delivery_id, webhookId: req.params.id },
+      });
+      if (!delivery) {
+        res.status(404).json({
+          success: false,
+          error: 'Delivery not found',
+        });
+        return;
+      }
+
+      const replay = await redeliverWebhook(delivery);
+
+      res.status(202).json({
+        success: true,
+        data: toWebhookDeliveryResponse(replay),
+      });
+    } catch (error: any) {
+      req.log?.error({ err: error }, 'Error redelivering webhook');
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to redeliver webhook',
+      });
+    }
+  }
+);
+
+export default router;
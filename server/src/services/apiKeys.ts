@@ -0,0 +1,126 @@
+/**
+ * API Key Service
+ *
+ * Keys look like `lnk_<48 hex characters>` and are only shown when they are
+ * created; the database keeps their SHA-256 hash and the first characters
+ * to tell them apart. Revoked keys stay listed but no longer authenticate.
+ *
+ * API_ADMIN_KEY, when set, is accepted as a key with the admin scope. It
+ * creates the first stored keys and can't be revoked through the API.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKey } from '@prisma/client';
+import { prisma } from '../db/database.js';
+import { logger } from '../lib/logger.js';
+import { ApiKeyPrincipal, ApiKeyResponse, ApiKeyScope } from '../types/apiKeys.js';
+
+/**
+ * Scopes a Key Can Be Given
+ */
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'invoices:write', 'payments:write', 'admin'];
+
+// Characters of the key kept as its prefix
+const PREFIX_LENGTH = 12;
+
+// How often a key's last use is written back
+const LAST_USED_INTERVAL_MS = 60_000;
+
+const hashApiKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+/**
+ * Whether a Key's Scopes Allow a Route's Scope
+ *
+ * The admin scope allows everything.
+ */
+export const hasScope = (scopes: ApiKeyScope[], required: ApiKeyScope): boolean =>
+  scopes.includes('admin') || scopes.includes(required);
+
+/**
+ * Identify the Key Behind a Request
+ *
+ * The stored key's id, or `API_ADMIN_KEY` for the admin key. Recorded on
+ * payments so a different key can be required to approve them.
+ */
+export const getApiKeyIdentity = (apiKey: ApiKeyPrincipal): string => apiKey.id ?? apiKey.name;
+
+/**
+ * Describe a Key for the API
+ *
+ * @param key - The key itself, only when it was just created
+ */
+export const toApiKeyResponse = (apiKey: ApiKey, key?: string): ApiKeyResponse => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes as ApiKeyScope[],
+  ...(key && { key }),
+  last_used_at: apiKey.lastUsedAt,
+  revoked_at: apiKey.revokedAt,
+  created_at: apiKey.createdAt,
+});
+
+/**
+ * Create and Store a Key
+ *
+ * @returns The stored key and the key itself, which isn't kept
+ */
+export const createApiKey = async (
+  name: string,
+  scopes: ApiKeyScope[]
+): Promise<{ apiKey: ApiKey; key: string }> => {
+  const key = `lnk_${randomBytes(24).toString('hex')}`;
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      name,
+      prefix: key.slice(0, PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+      scopes: [...new Set(scopes)],
+    },
+  });
+
+  return { apiKey, key };
+};
+
+const isAdminKey = (key: string): boolean => {
+  const adminKey = process.env.API_ADMIN_KEY;
+  if (!adminKey) return false;
+
+  // Compare fixed-length digests so the comparison takes constant time
+  return timingSafeEqual(Buffer.from(hashApiKey(key), 'hex'), Buffer.from(hashApiKey(adminKey), 'hex'));
+};
+
+/**
+ * Record When a Key Was Last Used, at Most Once per Interval
+ */
+const touchApiKey = (apiKey: ApiKey): void => {
+  const now = new Date();
+  if (apiKey.lastUsedAt && now.getTime() - apiKey.lastUsedAt.getTime() < LAST_USED_INTERVAL_MS) return;
+
+  prisma.apiKey
+    .updateMany({ where: { id: apiKey.id }, data: { lastUsedAt: now } })
+    .catch((err) => logger.warn({ err, apiKeyId: apiKey.id }, 'Could not record API key use'));
+};
+
+/**
+ * Look Up the Key a Request Sent
+ *
+ * @returns The key's principal, or null for unknown and revoked keys
+ */
+export const authenticateApiKey = async (key: string): Promise<ApiKeyPrincipal | null> => {
+  if (isAdminKey(key)) {
+    return { id: null, name: 'API_ADMIN_KEY', scopes: ['admin'] };
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+  });
+  if (!apiKey || apiKey.revokedAt) {
+    return null;
+  }
+
+  touchApiKey(apiKey);
+
+  return { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes as ApiKeyScope[] };
+};
@@ -0,0 +1,67 @@
+/**
+ * Lightning Backend Selection
+ *
+ * The backend is chosen with the LIGHTNING_BACKEND environment variable:
+ * - lnd (default): live LND nodes from the node registry
+ * - mock: in-memory simulated nodes, no Polar required
+ *
+ * The mock backend simulates every registered node. Nodes that can send
+ * start with MOCK_CHANNEL_BALANCE sats (default 1,000,000) of channel balance,
+ * and every payment pays a flat MOCK_ROUTING_FEE sats (default 0) in fees.
+ */
+
+import { LightningBackend } from '../../types/backend.js';
+import { getNodeRegistry } from '../../config/lightning.js';
+import { createLndBackend } from './lnd.js';
+import { createMockBackend } from './mock.js';
+import { logger } from '../../lib/logger.js';
+
+let backend: LightningBackend | null = null;
+
+/**
+ * Create Backend from Environment
+ */
+const createBackendFromEnv = (): LightningBackend => {
+  const kind = process.env.LIGHTNING_BACKEND || 'lnd';
+
+  switch (kind) {
+    case 'lnd':
+      return createLndBackend();
+    case 'mock': {
+      const channelBalance = Number(process.env.MOCK_CHANNEL_BALANCE || 1_000_000);
+      return createMockBackend({
+        seed: process.env.MOCK_BACKEND_SEED,
+        routing_fee: Number(process.env.MOCK_ROUTING_FEE || 0),
+        nodes: getNodeRegistry().map((node) => ({
+          id: node.id,
+          alias: node.alias,
+          channel_balance: node.role === 'receiver' ? 0 : channelBalance,
+        })),
+      });
+    }
+    default:
+      throw new Error(`Unknown LIGHTNING_BACKEND "${kind}". Expected "lnd" or "mock".`);
+  }
+};
+
+/**
+ * Get the Active Lightning Backend
+ */
+export const getBackend = (): LightningBackend => {
+  if (!backend) {
+    backend = createBackendFromEnv();
+    logger.info({ backend: backend.name }, 'Lightning backend initialized');
+  }
+  return backend;
+};
+
+/**
+ * Replace the Active Lightning Backend
+ *
+ * Used by tests to run routes against a mock backend.
+ */
+export const setBackend = (next: LightningBackend): void => {
+  backend = next;
+};
+
+export { createLndBackend, createMockBackend };
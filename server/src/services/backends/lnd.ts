@@ -0,0 +1,278 @@
+/**
+ * LND Lightning Backend
+ *
+ * Talks to live LND nodes (e.g. a Polar network) over gRPC via ln-service.
+ */
+
+import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
+import lnService from 'ln-service';
+import { NodeId } from '../../types/lightning.js';
+import {
+  LightningBackend,
+  BackendInvoiceSubscription,
+  BackendPaymentSubscription,
+  BackendRouteHop,
+} from '../../types/backend.js';
+import { createLndConnectionManager, isConnectionError, LndConnectionOptions } from './lndConnections.js';
+
+// TLV record type LND reads a keysend preimage from
+const KEYSEND_RECORD_TYPE = '5482373484';
+
+const toHops = (hops: lnService.RouteHop[] = []): BackendRouteHop[] =>
+  hops.map((hop) => ({ channel: hop.channel, public_key: hop.public_key, fee: hop.fee }));
+
+/**
+ * Create LND Backend
+ *
+ * @param options - Connection health check and reconnect timing
+ */
+export const createLndBackend = (options: Partial<LndConnectionOptions> = {}): LightningBackend => {
+  const connections = createLndConnectionManager(options);
+
+  /**
+   * Run an ln-service call with the node's cached client
+   *
+   * Only connection failures trigger a health check; errors such as an
+   * unknown invoice or no route are passed on as they are.
+   */
+  const withLnd = async <T>(node: NodeId, call: (lnd: any) => Promise<T>): Promise<T> => {
+    try {
+      return await call(connections.getLnd(node));
+    } catch (error) {
+      if (isConnectionError(error)) {
+        connections.reportFailure(node);
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Normalize an ln-service payment subscription to the backend event shapes
+   */
+  const toPaymentSubscription = (
+    node: NodeId,
+    source: lnService.PaymentSubscription
+  ): BackendPaymentSubscription => {
+    const subscription = new EventEmitter();
+
+    source.on('paying', (payment) =>
+      subscription.emit('paying', { hops: toHops(payment.paths?.[0]?.hops) })
+    );
+
+    source.on('routing_failure', (failure) =>
+      subscription.emit('routing_failure', {
+        reason: failure.reason,
+        channel: failure.channel,
+        public_key: failure.public_key,
+      })
+    );
+
+    source.on('confirmed', (payment) =>
+      subscription.emit('confirmed', {
+        id: payment.id,
+        secret: payment.secret,
+        fee: payment.fee || 0,
+        tokens: payment.tokens,
+        hops: toHops(payment.hops ?? payment.paths?.[0]?.hops),
+      })
+    );
+
+    source.on('failed', (failure) =>
+      subscription.emit('failed', {
+        is_canceled: !!failure.is_canceled,
+        is_insufficient_balance: !!failure.is_insufficient_balance,
+        is_invalid_payment: !!failure.is_invalid_payment,
+        is_pathfinding_timeout: !!failure.is_pathfinding_timeout,
+        is_route_not_found: !!failure.is_route_not_found,
+      })
+    );
+
+    source.on('error', (error) => {
+      if (isConnectionError(error)) {
+        connections.reportFailure(node);
+      }
+      if (subscription.listenerCount('error')) {
+        subscription.emit('error', error);
+      }
+    });
+
+    const removeAllListeners = subscription.removeAllListeners.bind(subscription);
+    subscription.removeAllListeners = (...args) => {
+      source.removeAllListeners();
+      return removeAllListeners(...args);
+    };
+
+    return subscription as BackendPaymentSubscription;
+  };
+
+  /**
+   * Normalize an ln-service invoice subscription to the backend event shapes
+   */
+  const toInvoiceSubscription = (source: lnService.InvoiceSubscription): BackendInvoiceSubscription => {
+    const subscription = new EventEmitter();
+
+    source.on('invoice_updated', (invoice) =>
+      subscription.emit('invoice_updated', {
+        ...invoice,
+        is_push: !!invoice.is_push,
+        payments: invoice.payments || [],
+        confirmed_index: invoice.confirmed_index ?? null,
+      })
+    );
+
+    source.on('error', (error) => subscription.emit('error', error));
+
+    const removeAllListeners = subscription.removeAllListeners.bind(subscription);
+    subscription.removeAllListeners = (...args) => {
+      source.removeAllListeners();
+      return removeAllListeners(...args);
+    };
+
+    return subscription as BackendInvoiceSubscription;
+  };
+
+  return {
+    name: 'lnd',
+
+    createInvoice: (node, { tokens, mtokens, ...args }) =>
+      withLnd(node, async (lnd) => {
+        // ln-service refuses tokens and mtokens that disagree
+        const invoice = await lnService.createInvoice({ lnd, ...args, ...(mtokens ? { mtokens } : { tokens }) });
+
+        return { id: invoice.id, request: invoice.request, secret: invoice.secret };
+      }),
+
+    createHoldInvoice: (node, args) =>
+      withLnd(node, async (lnd) => {
+        const invoice = await lnService.createHodlInvoice({ lnd, ...args });
+
+        return { id: invoice.id, request: invoice.request };
+      }),
+
+    settleHoldInvoice: (node, secret) =>
+      withLnd(node, (lnd) => lnService.settleHodlInvoice({ lnd, secret })),
+
+    // LND cancels any open invoice this way, not just hold invoices
+    cancelInvoice: (node, id) =>
+      withLnd(node, (lnd) => lnService.cancelHodlInvoice({ lnd, id })),
+
+    decodePaymentRequest: (node, request) =>
+      withLnd(node, async (lnd) => {
+        const decoded = await lnService.decodePaymentRequest({ lnd, request });
+
+        return {
+          id: decoded.id,
+          tokens: decoded.tokens,
+          description: decoded.description || '',
+          destination: decoded.destination,
+          created_at: decoded.created_at,
+          expires_at: decoded.expires_at,
+        };
+      }),
+
+    estimateRouteFee: (node, args) =>
+      withLnd(node, async (lnd) => {
+        const decoded = await lnService.decodePaymentRequest({ lnd, request: args.request });
+        const tokens = decoded.tokens || args.tokens || 0;
+        const mtokens = decoded.tokens ? decoded.mtokens : String(tokens * 1000);
+
+        const { route } = await lnService.getRouteToDestination({
+          lnd,
+          destination: decoded.destination,
+          tokens,
+          cltv_delta: decoded.cltv_delta,
+          payment: decoded.payment,
+          routes: decoded.routes,
+          total_mtokens: decoded.payment ? mtokens : undefined,
+        });
+
+        return route ? route.fee : null;
+      }),
+
+    pay: (node, args) =>
+      withLnd(node, async (lnd) => {
+        const payment = await lnService.pay({ lnd, ...args });
+
+        return {
+          id: payment.id,
+          secret: payment.secret,
+          fee: payment.fee || 0,
+          tokens: payment.tokens,
+        };
+      }),
+
+    subscribeToPayment: (node, args) =>
+      toPaymentSubscription(
+        node,
+        lnService.subscribeToPayViaRequest({ lnd: connections.getLnd(node), ...args })
+      ),
+
+    subscribeToKeysend: (node, { secret, messages = [], ...args }) =>
+      toPaymentSubscription(
+        node,
+        lnService.subscribeToPayViaDetails({
+          lnd: connections.getLnd(node),
+          ...args,
+          id: createHash('sha256').update(Buffer.from(secret, 'hex')).digest('hex'),
+          messages: [{ type: KEYSEND_RECORD_TYPE, value: secret }, ...messages],
+        })
+      ),
+
+    subscribeToPastPayment: (node, id) =>
+      toPaymentSubscription(
+        node,
+        lnService.subscribeToPastPayment({ lnd: connections.getLnd(node), id })
+      ),
+
+    getInvoice: (node, id) =>
+      withLnd(node, async (lnd) => {
+        const invoice = await lnService.getInvoice({ lnd, id });
+
+        return {
+          id: invoice.id,
+          request: invoice.request || null,
+          tokens: invoice.tokens,
+          received: invoice.received,
+          description: invoice.description || '',
+          secret: invoice.secret || null,
+          is_confirmed: invoice.is_confirmed,
+          is_held: invoice.is_held,
+          is_canceled: invoice.is_canceled,
+          is_push: !!invoice.is_push,
+          created_at: invoice.created_at,
+          expires_at: invoice.expires_at,
+          confirmed_at: invoice.confirmed_at || null,
+        };
+      }),
+
+    getPayment: (node, id) => withLnd(node, (lnd) => lnService.getPayment({ lnd, id })),
+
+    getBalance: (node) =>
+      withLnd(node, async (lnd) => {
+        const chainBalance = await lnService.getChainBalance({ lnd });
+        const channelBalance = await lnService.getChannelBalance({ lnd });
+
+        return {
+          chain_balance: chainBalance.chain_balance,
+          channel_balance: channelBalance.channel_balance,
+          pending_balance: channelBalance.pending_balance || 0,
+        };
+      }),
+
+    getInfo: (node) => withLnd(node, (lnd) => lnService.getWalletInfo({ lnd })),
+
+    subscribeToInvoices: (node, start = {}) =>
+      toInvoiceSubscription(
+        lnService.subscribeToInvoices({
+          lnd: connections.getLnd(node),
+          added_after: start.added_after,
+          confirmed_after: start.confirmed_after,
+        })
+      ),
+
+    getConnectionStatus: (node) => connections.getStatus(node),
+
+    close: () => connections.close(),
+  };
+};
@@ -0,0 +1,281 @@
+/**
+ * LND Connection Manager
+ *
+ * Keeps one authenticated gRPC client per registered node instead of
+ * re-reading credentials and building a new client on every call.
+ *
+ * - Credentials are read once per (re)connect
+ * - A periodic health check (getWalletInfo) tracks whether each node is reachable
+ * - Failed checks drop the client and reconnect with exponential backoff
+ * - TLS cert and macaroon files are watched; a change rebuilds the client
+ */
+
+import fs from 'fs';
+import lnService from 'ln-service';
+import { findNode, getNodeConfig } from '../../config/lightning.js';
+import { NodeId } from '../../types/lightning.js';
+import { BackendConnectionStatus } from '../../types/backend.js';
+import { logger } from '../../lib/logger.js';
+
+/**
+ * Connection Manager Options
+ */
+export interface LndConnectionOptions {
+  healthCheckIntervalMs: number; // Time between health checks of a connected node
+  healthCheckTimeoutMs: number; // How long a health check may take
+  reconnectBaseDelayMs: number; // First reconnect delay, doubled on each failure
+  reconnectMaxDelayMs: number; // Upper bound for the reconnect delay
+  credentialPollIntervalMs: number; // How often credential files are checked for changes
+}
+
+interface NodeConnection {
+  lnd: unknown | null;
+  status: BackendConnectionStatus;
+  timer: NodeJS.Timeout | null;
+  checking: boolean;
+  watchedFiles: string[];
+}
+
+const DEFAULT_OPTIONS: LndConnectionOptions = {
+  healthCheckIntervalMs: Number(process.env.LND_HEALTH_CHECK_INTERVAL_MS || 30_000),
+  healthCheckTimeoutMs: Number(process.env.LND_HEALTH_CHECK_TIMEOUT_MS || 10_000),
+  reconnectBaseDelayMs: Number(process.env.LND_RECONNECT_BASE_DELAY_MS || 1_000),
+  reconnectMaxDelayMs: Number(process.env.LND_RECONNECT_MAX_DELAY_MS || 60_000),
+  credentialPollIntervalMs: Number(process.env.LND_CREDENTIAL_POLL_INTERVAL_MS || 2_000),
+};
+
+// ln-service errors that mean the node itself could not be reached
+const CONNECTION_FAILURES = new Set([
+  'FailedToConnectToDaemon',
+  'FailedToConnectToDaemonToGetWalletStatus',
+  'LndLocked',
+]);
+
+// gRPC status codes of a transport that is down (UNAVAILABLE) or not answering (DEADLINE_EXCEEDED)
+const GRPC_CONNECTION_CODES = [4, 14];
+
+const SOCKET_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'ETIMEDOUT'];
+
+const describeError = (error: unknown): string => {
+  if (Array.isArray(error)) {
+    return error.slice(0, 2).join(' ');
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * Whether an Error Means the Node Could Not Be Reached
+ *
+ * ln-service rejects with `[status, message, { err }]`. Connection failures
+ * either have a message of their own or wrap a gRPC error with a transport
+ * status code; unknown invoices, missing routes or a low balance don't.
+ *
+ * @param error - What an ln-service call rejected with
+ */
+export const isConnectionError = (error: unknown): boolean => {
+  if (Array.isArray(error)) {
+    const [, message, details] = error;
+    if (CONNECTION_FAILURES.has(message)) {
+      return true;
+    }
+    return GRPC_CONNECTION_CODES.includes(details?.err?.code);
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  return GRPC_CONNECTION_CODES.includes(code as number) || SOCKET_ERROR_CODES.includes(code as string);
+};
+
+/**
+ * Create LND Connection Manager
+ *
+ * @param overrides - Timing options (defaults come from LND_* environment variables)
+ */
+export const createLndConnectionManager = (overrides: Partial<LndConnectionOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const connections = new Map<NodeId, NodeConnection>();
+
+  const getConnection = (node: NodeId): NodeConnection => {
+    let connection = connections.get(node);
+
+    if (!connection) {
+      connection = {
+        lnd: null,
+        status: {
+          state: 'idle',
+          connected_at: null,
+          checked_at: null,
+          credentials_loaded_at: null,
+          error: null,
+          reconnect_attempts: 0,
+          next_retry_at: null,
+        },
+        timer: null,
+        checking: false,
+        watchedFiles: [],
+      };
+      connections.set(node, connection);
+      watchCredentials(node, connection);
+    }
+
+    return connection;
+  };
+
+  const schedule = (node: NodeId, connection: NodeConnection, delayMs: number) => {
+    if (connection.timer) {
+      clearTimeout(connection.timer);
+    }
+    connection.timer = setTimeout(() => {
+      connection.timer = null;
+      void check(node);
+    }, delayMs);
+    connection.timer.unref();
+  };
+
+  /**
+   * Build a fresh authenticated client from the node's current credentials
+   */
+  const authenticate = (node: NodeId, connection: NodeConnection): unknown => {
+    const config = getNodeConfig(node);
+    const { lnd } = lnService.authenticatedLndGrpc({
+      socket: config.host,
+      cert: config.cert.toString('base64'),
+      macaroon: config.macaroon.toString('hex'),
+    });
+
+    connection.lnd = lnd;
+    connection.status.credentials_loaded_at = new Date().toISOString();
+    if (connection.status.state === 'idle') {
+      connection.status.state = 'connecting';
+    }
+
+    return lnd;
+  };
+
+  /**
+   * Run a health check and schedule the next one (or a reconnect)
+   */
+  const check = async (node: NodeId): Promise<void> => {
+    const connection = getConnection(node);
+    if (connection.checking) {
+      return;
+    }
+    connection.checking = true;
+
+    try {
+      const lnd = connection.lnd ?? authenticate(node, connection);
+
+      let timeout: NodeJS.Timeout | undefined;
+      await Promise.race([
+        lnService.getWalletInfo({ lnd }),
+        new Promise((_, reject) => {
+          timeout = setTimeout(() => reject(new Error('Health check timed out')), options.healthCheckTimeoutMs);
+        }),
+      ]).finally(() => clearTimeout(timeout));
+
+      if (connection.status.state !== 'connected') {
+        logger.info({ node }, 'LND connection established');
+        connection.status.connected_at = new Date().toISOString();
+      }
+
+      connection.status.state = 'connected';
+      connection.status.error = null;
+      connection.status.reconnect_attempts = 0;
+      connection.status.next_retry_at = null;
+      schedule(node, connection, options.healthCheckIntervalMs);
+    } catch (error) {
+      const attempts = connection.status.reconnect_attempts;
+      const delay = Math.min(
+        options.reconnectBaseDelayMs * 2 ** attempts,
+        options.reconnectMaxDelayMs
+      );
+
+      logger.warn(
+        { node, err: describeError(error), attempt: attempts + 1, retryInMs: delay },
+        'LND health check failed, reconnecting'
+      );
+
+      // Drop the client so the next attempt re-authenticates from scratch
+      connection.lnd = null;
+      connection.status.state = 'reconnecting';
+      connection.status.error = describeError(error);
+      connection.status.reconnect_attempts = attempts + 1;
+      connection.status.next_retry_at = new Date(Date.now() + delay).toISOString();
+      schedule(node, connection, delay);
+    } finally {
+      connection.status.checked_at = new Date().toISOString();
+      connection.checking = false;
+    }
+  };
+
+  /**
+   * Rebuild the client when the TLS cert or macaroon changes on disk
+   */
+  function watchCredentials(node: NodeId, connection: NodeConnection) {
+    const definition = findNode(node);
+    const files = [definition?.cert_path, definition?.macaroon_path].filter(
+      (file): file is string => !!file
+    );
+
+    for (const file of files) {
+      fs.watchFile(file, { interval: options.credentialPollIntervalMs, persistent: false }, (curr, prev) => {
+        if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) {
+          return;
+        }
+
+        logger.info({ node, file }, 'LND credentials changed, reconnecting');
+        connection.lnd = null;
+        connection.status.reconnect_attempts = 0;
+        void check(node);
+      });
+    }
+
+    connection.watchedFiles = files;
+  }
+
+  return {
+    /**
+     * Get the cached client for a node, authenticating on first use
+     */
+    getLnd: (node: NodeId): unknown => {
+      const connection = getConnection(node);
+
+      if (connection.lnd) {
+        return connection.lnd;
+      }
+
+      const lnd = authenticate(node, connection);
+      if (!connection.timer) {
+        schedule(node, connection, 0);
+      }
+      return lnd;
+    },
+
+    /**
+     * Note a failed call; runs a health check unless one is already pending
+     */
+    reportFailure: (node: NodeId): void => {
+      const connection = connections.get(node);
+      if (connection && connection.status.state === 'connected') {
+        schedule(node, connection, 0);
+      }
+    },
+
+    /**
+     * Current connection state of a node
+     */
+    getStatus: (node: NodeId): BackendConnectionStatus => ({ ...getConnection(node).status }),
+
+    /**
+     * Stop health checks and credential watchers
+     */
+    close: (): void => {
+      for (const connection of connections.values()) {
+        if (connection.timer) {
+          clearTimeout(connection.timer);
+        }
+        connection.watchedFiles.forEach((file) => fs.unwatchFile(file));
+      }
+      connections.clear();
+    },
+  };
+};
@@ -0,0 +1,729 @@
+/**
+ * Mock Lightning Backend
+ *
+ * Simulates Lightning nodes in memory so the server, the Socket.IO flow and
+ * the tests can run without Polar. Invoices are real signed BOLT11 strings,
+ * and paying one settles it on whichever simulated node issued it, moving
+ * channel balance from the payer to the payee. Payments to hold invoices stay
+ * in flight until the payee settles or cancels them. A keysend payment creates
+ * a settled push invoice on the payee, like LND does.
+ *
+ * Node keys are derived from the node id, and preimages from the configured
+ * seed and an invoice counter, so a backend created with a fixed seed always
+ * produces the same invoices in the same order.
+ */
+
+import { createECDH, createHash, randomBytes } from 'crypto';
+import { EventEmitter } from 'events';
+import bolt11 from 'bolt11';
+import { NodeId } from '../../types/lightning.js';
+import {
+  LightningBackend,
+  BackendCreateInvoiceArgs,
+  BackendInvoice,
+  BackendInvoiceSubscription,
+  BackendInvoiceUpdate,
+  BackendKeysendArgs,
+  BackendPayArgs,
+  BackendPaymentFailure,
+  BackendPaymentSubscription,
+  BackendRouteHop,
+  BackendTlvRecord,
+} from '../../types/backend.js';
+
+/**
+ * Simulated Node Options
+ */
+export interface MockNodeOptions {
+  id: NodeId;
+  alias: string;
+  channel_balance?: number; // Local channel balance in satoshis
+  chain_balance?: number; // On-chain balance in satoshis
+}
+
+/**
+ * Mock Backend Options
+ */
+export interface MockBackendOptions {
+  nodes?: MockNodeOptions[]; // Simulated nodes (default: Alice and Bob)
+  seed?: string; // Seed for preimage generation (default: random)
+  routing_fee?: number; // Flat routing fee in satoshis charged on every payment (default: 0)
+}
+
+interface MockPayment {
+  id: string;
+  secret: string;
+  fee: number;
+  tokens: number;
+  hops: BackendRouteHop[];
+}
+
+// Payment waiting on a hold invoice, with the node that sent it
+interface MockHeldPayment {
+  payer: MockNode;
+  payment: MockPayment;
+}
+
+// Invoice with the add and settle indexes the node numbered it with
+interface MockInvoice extends BackendInvoice {
+  index: number;
+  confirmed_index: number | null;
+}
+
+interface MockNode {
+  id: NodeId;
+  alias: string;
+  privateKey: string;
+  publicKey: string;
+  channelBalance: number;
+  chainBalance: number;
+  invoiceCount: number;
+  addIndex: number; // Last add index given out
+  settleIndex: number; // Last settle index given out
+  invoices: Map<string, MockInvoice>;
+  payments: Map<string, MockPayment>;
+  inflight: Map<string, MockPayment>; // Sent payments held by the payee
+  failures: Map<string, BackendPaymentFailure>;
+  holds: Map<string, MockHeldPayment | null>; // Hold invoices, with the payment once accepted
+  events: EventEmitter;
+}
+
+// Mirrors the Polar setup from the README: a 1,000,000 sat channel from Bob to Alice
+const DEFAULT_NODES: MockNodeOptions[] = [
+  { id: 'node_a', alias: 'alice', channel_balance: 0, chain_balance: 0 },
+  { id: 'node_b', alias: 'bob', channel_balance: 1_000_000, chain_balance: 0 },
+];
+
+const REGTEST = {
+  bech32: 'bcrt',
+  pubKeyHash: 0x6f,
+  scriptHash: 0xc4,
+  validWitnessVersions: [0, 1],
+};
+
+// Chain id LND reports for regtest
+const REGTEST_CHAIN = '06226e46111a0b59caaf126043eb5bbf28c34f3a5e332a1fc7b2b73cf188910f';
+
+const sha256 = (data: string | Buffer): string =>
+  createHash('sha256').update(data).digest('hex');
+
+const toInvoiceUpdate = (
+  invoice: MockInvoice,
+  messages: BackendTlvRecord[] = []
+): BackendInvoiceUpdate => ({
+  id: invoice.id,
+  is_confirmed: invoice.is_confirmed,
+  is_held: invoice.is_held,
+  is_canceled: invoice.is_canceled,
+  is_push: invoice.is_push,
+  tokens: invoice.tokens,
+  received: invoice.received,
+  description: invoice.description,
+  secret: invoice.secret,
+  created_at: invoice.created_at,
+  expires_at: invoice.expires_at,
+  confirmed_at: invoice.confirmed_at,
+  payments: invoice.is_confirmed || invoice.is_held ? [{ messages }] : [],
+  index: invoice.index,
+  confirmed_index: invoice.confirmed_index,
+});
+
+const NO_FAILURE: BackendPaymentFailure = {
+  is_canceled: false,
+  is_insufficient_balance: false,
+  is_invalid_payment: false,
+  is_pathfinding_timeout: false,
+  is_route_not_found: false,
+};
+
+/**
+ * Map a payment error to the failure flags LND reports for it
+ *
+ * Returns null for errors LND raises before attempting the payment.
+ */
+const toPaymentFailure = (error: unknown): BackendPaymentFailure | null => {
+  const message = Array.isArray(error) ? error[1] : null;
+  const failure: BackendPaymentFailure = {
+    ...NO_FAILURE,
+    is_insufficient_balance: message === 'InsufficientBalanceToAttemptPayment',
+    is_invalid_payment: message === 'PaymentRejectedByDestination',
+    is_route_not_found: message === 'PaymentPathfindingFailedToFindPossibleRoute',
+  };
+
+  return Object.values(failure).some(Boolean) ? failure : null;
+};
+
+/**
+ * Run a payment step on the next tick and report it on a new subscription
+ *
+ * A thrown error is emitted as 'error', like ln-service does.
+ */
+const settleLater = (
+  run: (subscription: EventEmitter) => void
+): BackendPaymentSubscription => {
+  const subscription = new EventEmitter();
+
+  setImmediate(() => {
+    try {
+      run(subscription);
+    } catch (error) {
+      if (subscription.listenerCount('error')) {
+        subscription.emit('error', error);
+      }
+    }
+  });
+
+  return subscription as BackendPaymentSubscription;
+};
+
+/**
+ * Create Mock Backend
+ *
+ * @param options - Simulated nodes and preimage seed
+ * @returns Backend backed by in-memory nodes
+ */
+export const createMockBackend = (options: MockBackendOptions = {}): LightningBackend => {
+  const seed = options.seed ?? randomBytes(16).toString('hex');
+  const routingFee = options.routing_fee ?? 0;
+  const createdAt = new Date().toISOString();
+
+  const nodes = new Map<NodeId, MockNode>(
+    (options.nodes ?? DEFAULT_NODES).map((node) => {
+      const privateKey = sha256(`mock-node:${node.id}`);
+      const ecdh = createECDH('secp256k1');
+      ecdh.setPrivateKey(privateKey, 'hex');
+
+      return [
+        node.id,
+        {
+          id: node.id,
+          alias: node.alias,
+          privateKey,
+          publicKey: ecdh.getPublicKey('hex', 'compressed'),
+          channelBalance: node.channel_balance ?? 0,
+          chainBalance: node.chain_balance ?? 0,
+          invoiceCount: 0,
+          addIndex: 0,
+          settleIndex: 0,
+          invoices: new Map(),
+          payments: new Map(),
+          inflight: new Map(),
+          failures: new Map(),
+          holds: new Map(),
+          events: new EventEmitter(),
+        },
+      ];
+    })
+  );
+
+  const getNode = (id: NodeId): MockNode => {
+    const node = nodes.get(id);
+    if (!node) {
+      throw [404, 'MockNodeNotFound', { node: id }];
+    }
+    return node;
+  };
+
+  const decode = (request: string) => {
+    try {
+      return bolt11.decode(request, REGTEST);
+    } catch {
+      throw [400, 'ExpectedValidPaymentRequestToDecode'];
+    }
+  };
+
+  const findPayee = (payer: MockNode, publicKey?: string): MockNode | null => {
+    const payee = [...nodes.values()].find((node) => node.publicKey === publicKey);
+    return payee && payee !== payer ? payee : null;
+  };
+
+  // Every simulated node has a direct channel to every other node
+  const routeTo = (payee: MockNode): BackendRouteHop[] => [
+    {
+      channel: `1x${[...nodes.keys()].indexOf(payee.id) + 1}x0`,
+      public_key: payee.publicKey,
+      fee: routingFee,
+    },
+  ];
+
+  /**
+   * Pay a request from a simulated node, settling it on the payee
+   */
+  const send = (payer: MockNode, args: BackendPayArgs): MockPayment => {
+    const decoded = decode(args.request);
+    const id = decoded.tagsObject.payment_hash as string;
+    const tokens = decoded.satoshis || args.tokens || 0;
+
+    if (!tokens) {
+      throw [400, 'ExpectedTokensToPayZeroAmountPaymentRequest'];
+    }
+
+    if (payer.payments.has(id) || payer.inflight.has(id)) {
+      throw [503, 'UnexpectedPaymentError', { err: new Error('invoice is already paid') }];
+    }
+
+    const payee = findPayee(payer, decoded.payeeNodeKey);
+
+    // Like LND, a route over the fee limit is no route at all
+    if (!payee || (args.max_fee !== undefined && routingFee > args.max_fee)) {
+      throw [503, 'PaymentPathfindingFailedToFindPossibleRoute'];
+    }
+
+    if (payer.channelBalance < tokens + routingFee) {
+      throw [503, 'InsufficientBalanceToAttemptPayment'];
+    }
+
+    const invoice = payee.invoices.get(id);
+    const isExpired = !!invoice && new Date(invoice.expires_at) < new Date();
+
+    if (!invoice || invoice.is_confirmed || invoice.is_held || invoice.is_canceled || isExpired) {
+      throw [503, 'PaymentRejectedByDestination'];
+    }
+
+    payer.channelBalance -= tokens + routingFee;
+    payer.failures.delete(id);
+
+    const payment = {
+      id,
+      secret: invoice.secret ?? '',
+      fee: routingFee,
+      tokens,
+      hops: routeTo(payee),
+    };
+
+    if (payee.holds.has(id)) {
+      invoice.is_held = true;
+      payee.holds.set(id, { payer, payment });
+      payer.inflight.set(id, payment);
+      payee.events.emit('invoice_updated', toInvoiceUpdate(invoice));
+      return payment;
+    }
+
+    payee.channelBalance += tokens;
+
+    invoice.is_confirmed = true;
+    invoice.received = tokens;
+    invoice.confirmed_at = new Date().toISOString();
+    invoice.confirmed_index = ++payee.settleIndex;
+    payee.events.emit('invoice_updated', toInvoiceUpdate(invoice));
+
+    payer.payments.set(id, payment);
+
+    return payment;
+  };
+
+  /**
+   * Send a keysend payment from a simulated node
+   *
+   * The payee records it as a settled push invoice carrying the payer's
+   * preimage and custom records.
+   */
+  const sendKeysend = (payer: MockNode, args: BackendKeysendArgs): MockPayment => {
+    const id = sha256(Buffer.from(args.secret, 'hex'));
+
+    if (payer.payments.has(id) || payer.inflight.has(id)) {
+      throw [503, 'UnexpectedPaymentError', { err: new Error('invoice is already paid') }];
+    }
+
+    const payee = findPayee(payer, args.destination);
+
+    if (!payee || (args.max_fee !== undefined && routingFee > args.max_fee)) {
+      throw [503, 'PaymentPathfindingFailedToFindPossibleRoute'];
+    }
+
+    if (payer.channelBalance < args.tokens + routingFee) {
+      throw [503, 'InsufficientBalanceToAttemptPayment'];
+    }
+
+    if (payee.invoices.has(id)) {
+      throw [503, 'PaymentRejectedByDestination'];
+    }
+
+    payer.channelBalance -= args.tokens + routingFee;
+    payer.failures.delete(id);
+    payee.channelBalance += args.tokens;
+
+    const now = new Date().toISOString();
+    const invoice: MockInvoice = {
+      id,
+      request: null,
+      tokens: args.tokens,
+      received: args.tokens,
+      description: '',
+      secret: args.secret,
+      is_confirmed: true,
+      is_held: false,
+      is_canceled: false,
+      is_push: true,
+      created_at: now,
+      expires_at: now,
+      confirmed_at: now,
+      index: ++payee.addIndex,
+      confirmed_index: ++payee.settleIndex,
+    };
+    payee.invoices.set(id, invoice);
+    payee.events.emit('invoice_updated', toInvoiceUpdate(invoice, args.messages));
+
+    const payment = { id, secret: args.secret, fee: routingFee, tokens: args.tokens, hops: routeTo(payee) };
+    payer.payments.set(id, payment);
+
+    return payment;
+  };
+
+  /**
+   * Sign an invoice for a node and store it as open
+   *
+   * @param secret - Preimage, or null for hold invoices
+   * @returns BOLT11 payment request
+   */
+  const addInvoice = (
+    node: MockNode,
+    id: string,
+    secret: string | null,
+    args: BackendCreateInvoiceArgs
+  ): string => {
+    const now = new Date();
+    const expiresAt = args.expires_at ? new Date(args.expires_at) : new Date(now.getTime() + 3600 * 1000);
+
+    const tokens = args.mtokens ? Math.floor(Number(args.mtokens) / 1000) : args.tokens;
+
+    const encoded = bolt11.encode({
+      network: REGTEST,
+      ...(args.mtokens ? { millisatoshis: args.mtokens } : { satoshis: args.tokens || null }),
+      timestamp: Math.floor(now.getTime() / 1000),
+      tags: [
+        { tagName: 'payment_hash', data: id },
+        { tagName: 'payment_secret', data: sha256(`${secret ?? id}:payment_secret`) },
+        args.description_hash
+          ? { tagName: 'purpose_commit_hash', data: args.description_hash }
+          : { tagName: 'description', data: args.description || '' },
+        {
+          tagName: 'expire_time',
+          data: Math.max(1, Math.round((expiresAt.getTime() - now.getTime()) / 1000)),
+        },
+      ],
+    });
+    const { paymentRequest } = bolt11.sign(encoded, node.privateKey);
+
+    node.invoices.set(id, {
+      id,
+      request: paymentRequest as string,
+      tokens,
+      received: 0,
+      description: args.description || '',
+      secret,
+      is_confirmed: false,
+      is_held: false,
+      is_canceled: false,
+      is_push: false,
+      created_at: now.toISOString(),
+      expires_at: expiresAt.toISOString(),
+      confirmed_at: null,
+      index: ++node.addIndex,
+      confirmed_index: null,
+    });
+
+    return paymentRequest as string;
+  };
+
+  /**
+   * Report a sent payment's outcome, waiting for the payee while it is held
+   */
+  const reportOutcome = (payer: MockNode, id: string, subscription: EventEmitter): void => {
+    const payment = payer.payments.get(id);
+    const failure = payer.failures.get(id);
+
+    if (payment) {
+      subscription.emit('confirmed', payment);
+    } else if (failure) {
+      subscription.emit('failed', failure);
+    } else if (payer.inflight.has(id)) {
+      const onRelease = (released: string) => {
+        if (released !== id) return;
+        payer.events.off('payment_released', onRelease);
+        reportOutcome(payer, id, subscription);
+      };
+      payer.events.on('payment_released', onRelease);
+    } else {
+      throw [404, 'SentPaymentNotFound'];
+    }
+  };
+
+  /**
+   * Finish a held payment on the payer's side
+   */
+  const release = (held: MockHeldPayment, outcome: MockPayment | BackendPaymentFailure): void => {
+    const { payer, payment } = held;
+
+    payer.inflight.delete(payment.id);
+    if ('secret' in outcome) {
+      payer.payments.set(payment.id, outcome);
+    } else {
+      payer.channelBalance += payment.tokens + payment.fee;
+      payer.failures.set(payment.id, outcome);
+    }
+    payer.events.emit('payment_released', payment.id);
+  };
+
+  return {
+    name: 'mock',
+
+    createInvoice: async (nodeId, args) => {
+      const node = getNode(nodeId);
+
+      node.invoiceCount += 1;
+      const secret = sha256(`${seed}:${node.id}:${node.invoiceCount}`);
+      const id = sha256(Buffer.from(secret, 'hex'));
+      const request = addInvoice(node, id, secret, args);
+
+      return { id, request, secret };
+    },
+
+    createHoldInvoice: async (nodeId, { id, ...args }) => {
+      const node = getNode(nodeId);
+
+      if (node.invoices.has(id)) {
+        throw [409, 'InvoiceWithPaymentHashAlreadyExists'];
+      }
+
+      const request = addInvoice(node, id, null, args);
+      node.holds.set(id, null);
+
+      return { id, request };
+    },
+
+    settleHoldInvoice: async (nodeId, secret) => {
+      const node = getNode(nodeId);
+      const id = sha256(Buffer.from(secret, 'hex'));
+      const invoice = node.invoices.get(id);
+      const held = node.holds.get(id);
+
+      if (!invoice || !held) {
+        throw [404, 'ExpectedHeldInvoiceToSettle'];
+      }
+
+      node.channelBalance += held.payment.tokens;
+      node.holds.delete(id);
+
+      invoice.is_held = false;
+      invoice.is_confirmed = true;
+      invoice.secret = secret;
+      invoice.received = held.payment.tokens;
+      invoice.confirmed_at = new Date().toISOString();
+      invoice.confirmed_index = ++node.settleIndex;
+      node.events.emit('invoice_updated', toInvoiceUpdate(invoice));
+
+      release(held, { ...held.payment, secret });
+    },
+
+    cancelInvoice: async (nodeId, id) => {
+      const node = getNode(nodeId);
+      const invoice = node.invoices.get(id);
+
+      if (!invoice) {
+        throw [404, 'InvoiceToCancelNotFound'];
+      }
+      if (invoice.is_confirmed) {
+        throw [400, 'CannotCancelSettledInvoice'];
+      }
+
+      const held = node.holds.get(id);
+      node.holds.delete(id);
+
+      invoice.is_held = false;
+      invoice.is_canceled = true;
+      node.events.emit('invoice_updated', toInvoiceUpdate(invoice));
+
+      if (held) {
+        release(held, { ...NO_FAILURE, is_invalid_payment: true });
+      }
+    },
+
+    decodePaymentRequest: async (nodeId, request) => {
+      getNode(nodeId);
+      const decoded = decode(request);
+      const timestamp = (decoded.timestamp ?? 0) * 1000;
+
+      return {
+        id: decoded.tagsObject.payment_hash as string,
+        tokens: decoded.satoshis ?? 0,
+        description: decoded.tagsObject.description || '',
+        destination: decoded.payeeNodeKey as string,
+        created_at: new Date(timestamp).toISOString(),
+        expires_at: new Date((decoded.timeExpireDate ?? 0) * 1000).toISOString(),
+      };
+    },
+
+    estimateRouteFee: async (nodeId, args) => {
+      const payee = findPayee(getNode(nodeId), decode(args.request).payeeNodeKey);
+      return payee ? routingFee : null;
+    },
+
+    pay: async (nodeId, args) => {
+      const payer = getNode(nodeId);
+      const { id } = send(payer, args);
+
+      // Like LND, don't return while the payee holds the payment
+      return new Promise((resolve, reject) => {
+        const outcome = new EventEmitter();
+        outcome.once('confirmed', resolve);
+        outcome.once('failed', () => reject([503, 'PaymentRejectedByDestination']));
+        reportOutcome(payer, id, outcome);
+      });
+    },
+
+    subscribeToPayment: (nodeId, args) => {
+      const payer = getNode(nodeId);
+
+      return settleLater((subscription) => {
+        try {
+          const payment = send(payer, args);
+          subscription.emit('paying', { hops: payment.hops });
+          reportOutcome(payer, payment.id, subscription);
+        } catch (error) {
+          const failure = toPaymentFailure(error);
+          if (!failure) {
+            throw error;
+          }
+          payer.failures.set(decode(args.request).tagsObject.payment_hash as string, failure);
+          subscription.emit('failed', failure);
+        }
+      });
+    },
+
+    subscribeToKeysend: (nodeId, args) => {
+      const payer = getNode(nodeId);
+
+      return settleLater((subscription) => {
+        try {
+          const payment = sendKeysend(payer, args);
+          subscription.emit('paying', { hops: payment.hops });
+          reportOutcome(payer, payment.id, subscription);
+        } catch (error) {
+          const failure = toPaymentFailure(error);
+          if (!failure) {
+            throw error;
+          }
+          payer.failures.set(sha256(Buffer.from(args.secret, 'hex')), failure);
+          subscription.emit('failed', failure);
+        }
+      });
+    },
+
+    subscribeToPastPayment: (nodeId, id) => {
+      const payer = getNode(nodeId);
+
+      return settleLater((subscription) => reportOutcome(payer, id, subscription));
+    },
+
+    getInvoice: async (nodeId, id) => {
+      const invoice = getNode(nodeId).invoices.get(id);
+      if (!invoice) {
+        throw [503, 'UnexpectedLookupInvoiceErr', { err: new Error('unable to locate invoice') }];
+      }
+      return { ...invoice };
+    },
+
+    getPayment: async (nodeId, id) => {
+      const node = getNode(nodeId);
+      const payment = node.payments.get(id);
+      if (node.inflight.has(id)) {
+        return { is_confirmed: false, is_failed: false, is_pending: true };
+      }
+      if (!payment && node.failures.has(id)) {
+        return { is_confirmed: false, is_failed: true, is_pending: false };
+      }
+      if (!payment) {
+        throw [404, 'SentPaymentNotFound'];
+      }
+      return {
+        is_confirmed: true,
+        is_failed: false,
+        is_pending: false,
+        payment: { secret: payment.secret, fee: payment.fee },
+      };
+    },
+
+    getBalance: async (nodeId) => {
+      const node = getNode(nodeId);
+      return {
+        chain_balance: node.chainBalance,
+        channel_balance: node.channelBalance,
+        pending_balance: 0,
+      };
+    },
+
+    getInfo: async (nodeId) => {
+      const node = getNode(nodeId);
+      return {
+        public_key: node.publicKey,
+        alias: node.alias,
+        active_channels_count: nodes.size - 1,
+        pending_channels_count: 0,
+        is_synced_to_chain: true,
+        current_block_height: 0,
+        version: 'mock',
+        chains: [REGTEST_CHAIN],
+      };
+    },
+
+    subscribeToInvoices: (nodeId, start = {}) => {
+      const node = getNode(nodeId);
+      const subscription = new EventEmitter();
+
+      // Like LND: invoices added after added_after, then those settled after
+      // confirmed_after, in index order
+      const invoices = [...node.invoices.values()];
+      const backlog = [
+        ...(start.added_after
+          ? invoices.filter((invoice) => invoice.index > start.added_after!).sort((a, b) => a.index - b.index)
+          : []),
+        ...(start.confirmed_after
+          ? invoices
+              .filter((invoice) => (invoice.confirmed_index ?? 0) > start.confirmed_after!)
+              .sort((a, b) => a.confirmed_index! - b.confirmed_index!)
+          : []),
+      ].map((invoice) => toInvoiceUpdate(invoice));
+
+      // The backlog goes out once listeners are attached; live updates wait behind it
+      let queued: BackendInvoiceUpdate[] | null = backlog.length ? backlog : null;
+      const forward = (invoice: BackendInvoiceUpdate) =>
+        queued ? queued.push(invoice) : subscription.emit('invoice_updated', invoice);
+
+      node.events.on('invoice_updated', forward);
+
+      if (queued) {
+        setImmediate(() => {
+          const updates = queued ?? [];
+          queued = null;
+          updates.forEach(forward);
+        });
+      }
+
+      const removeAllListeners = subscription.removeAllListeners.bind(subscription);
+      subscription.removeAllListeners = (...args) => {
+        node.events.off('invoice_updated', forward);
+        return removeAllListeners(...args);
+      };
+
+      return subscription as BackendInvoiceSubscription;
+    },
+
+    getConnectionStatus: (nodeId) => {
+      getNode(nodeId);
+      return {
+        state: 'connected',
+        connected_at: createdAt,
+        checked_at: new Date().toISOString(),
+        credentials_loaded_at: null,
+        error: null,
+        reconnect_attempts: 0,
+        next_retry_at: null,
+      };
+    },
+
+    close: () => {
+      nodes.forEach((node) => node.events.removeAllListeners());
+    },
+  };
+};
@@ -0,0 +1,212 @@
+/**
+ * Invoice Subscriptions
+ *
+ * Follows every registered node's invoice stream, records each update (see
+ * invoiceUpdates.ts) and pushes it to real-time subscribers.
+ *
+ * The add and settle index of the last recorded update are stored per node.
+ * Subscriptions start from them, so on startup the node replays whatever
+ * was added or settled while the server was down and settled invoices get
+ * their status, preimage and settlement time without anyone polling. A
+ * subscription that errors (or an update that can't be recorded) is started
+ * again from the stored indexes, with exponential backoff.
+ *
+ * Nodes only replay after a non-zero index, so a node followed for the
+ * first time gets live updates until its first update is recorded.
+ */
+
+import { prisma } from '../db/database.js';
+import { subscribeToInvoiceUpdates, toInvoiceStatus } from './lightning.js';
+import { recordInvoiceUpdate } from './invoiceUpdates.js';
+import { publishInvoiceUpdate } from './realtime.js';
+import { getNodeRegistry } from '../config/lightning.js';
+import { NodeId } from '../types/lightning.js';
+import { BackendInvoiceSubscription, BackendInvoiceUpdate } from '../types/backend.js';
+import { logger } from '../lib/logger.js';
+
+interface InvoiceCursor {
+  addIndex: number; // Add index of the newest invoice recorded
+  settleIndex: number; // Settle index of the newest settlement recorded
+}
+
+interface NodeSubscription {
+  cursor: InvoiceCursor;
+  subscription: BackendInvoiceSubscription | null;
+  generation: number; // Bumped on every (re)subscribe; updates from older ones are dropped
+  queue: Promise<void>; // Updates are recorded one at a time, in order
+  failures: number; // Restarts since the last recorded update
+  timer: NodeJS.Timeout | null;
+}
+
+// Delay before the first resubscribe, doubled on each further failure
+const RETRY_BASE_DELAY_MS = Number(process.env.INVOICE_SUBSCRIPTION_RETRY_BASE_DELAY_MS || 1_000);
+const RETRY_MAX_DELAY_MS = Number(process.env.INVOICE_SUBSCRIPTION_RETRY_MAX_DELAY_MS || 60_000);
+
+const nodes = new Map<NodeId, NodeSubscription>();
+
+const describeError = (error: unknown): string => {
+  if (Array.isArray(error)) {
+    return error.slice(0, 2).join(' ');
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * Read a Node's Stored Cursor
+ *
+ * @returns The cursor, at zero when the node was never followed
+ */
+const loadCursor = async (nodeId: NodeId): Promise<InvoiceCursor> => {
+  const row = await prisma.invoiceSubscriptionCursor.findUnique({ where: { nodeId } });
+
+  return {
+    addIndex: Number(row?.addIndex ?? 0),
+    settleIndex: Number(row?.settleIndex ?? 0),
+  };
+};
+
+/**
+ * Move the Cursor Past a Recorded Update
+ */
+const advanceCursor = async (nodeId: NodeId, state: NodeSubscription, invoice: BackendInvoiceUpdate) => {
+  const addIndex = Math.max(state.cursor.addIndex, invoice.index || 0);
+  const settleIndex = Math.max(state.cursor.settleIndex, invoice.confirmed_index || 0);
+  if (addIndex === state.cursor.addIndex && settleIndex === state.cursor.settleIndex) return;
+
+  await prisma.invoiceSubscriptionCursor.upsert({
+    where: { nodeId },
+    create: { nodeId, addIndex, settleIndex },
+    update: { addIndex, settleIndex, updatedAt: new Date() },
+  });
+  state.cursor = { addIndex, settleIndex };
+};
+
+/**
+ * Record an Update, Publish It, then Advance the Cursor
+ */
+const processUpdate = async (nodeId: NodeId, state: NodeSubscription, invoice: BackendInvoiceUpdate) => {
+  const status = toInvoiceStatus(invoice);
+
+  logger.info({ node: nodeId, paymentHash: invoice.id, status }, 'Invoice updated');
+
+  // Record held, canceled and settled invoices, and incoming keysends
+  await recordInvoiceUpdate(nodeId, invoice);
+
+  publishInvoiceUpdate({
+    payment_hash: invoice.id,
+    node_id: nodeId,
+    kind: invoice.is_push ? 'keysend' : 'invoice',
+    status,
+    amount: invoice.tokens || null,
+    received_amount: invoice.is_confirmed ? invoice.received : null,
+    preimage: invoice.secret || null,
+    settled_at: invoice.confirmed_at || null,
+  });
+
+  await advanceCursor(nodeId, state, invoice);
+};
+
+/**
+ * Drop the Current Subscription and Subscribe Again After a Backoff
+ */
+const restart = (nodeId: NodeId, state: NodeSubscription, generation: number, error: unknown): void => {
+  // Already restarted (or stopped) since this subscription began
+  if (state.generation !== generation) return;
+
+  state.generation += 1;
+  state.subscription?.removeAllListeners();
+  state.subscription = null;
+
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** state.failures, RETRY_MAX_DELAY_MS);
+  state.failures += 1;
+
+  logger.warn(
+    { node: nodeId, err: describeError(error), retryInMs: delay, cursor: state.cursor },
+    'Invoice subscription failed, resubscribing'
+  );
+
+  clearTimeout(state.timer ?? undefined);
+  state.timer = setTimeout(() => {
+    state.timer = null;
+    subscribe(nodeId, state);
+  }, delay);
+  state.timer.unref();
+};
+
+/**
+ * Subscribe from the Node's Cursor
+ */
+const subscribe = (nodeId: NodeId, state: NodeSubscription): void => {
+  const generation = ++state.generation;
+  const { addIndex, settleIndex } = state.cursor;
+
+  let subscription: BackendInvoiceSubscription;
+  try {
+    subscription = subscribeToInvoiceUpdates(nodeId, {
+      ...(addIndex > 0 && { added_after: addIndex }),
+      ...(settleIndex > 0 && { confirmed_after: settleIndex }),
+    });
+  } catch (error) {
+    restart(nodeId, state, generation, error);
+    return;
+  }
+
+  state.subscription = subscription;
+
+  subscription.on('invoice_updated', (invoice) => {
+    state.queue = state.queue
+      .then(async () => {
+        if (state.generation !== generation) return;
+        await processUpdate(nodeId, state, invoice);
+        state.failures = 0;
+      })
+      .catch((error) => restart(nodeId, state, generation, error));
+  });
+
+  subscription.on('error', (error) => restart(nodeId, state, generation, error));
+
+  logger.info({ node: nodeId, addIndex, settleIndex }, 'Subscribed to invoice updates');
+};
+
+/**
+ * Follow Invoice Updates on Every Registered Node
+ *
+ * Called on startup. A node whose cursor can't be read gets live updates
+ * only.
+ */
+export const startInvoiceSubscriptions = async (): Promise<void> => {
+  for (const node of getNodeRegistry()) {
+    if (nodes.has(node.id)) continue;
+
+    let cursor: InvoiceCursor = { addIndex: 0, settleIndex: 0 };
+    try {
+      cursor = await loadCursor(node.id);
+    } catch (err) {
+      logger.error({ node: node.id, err }, 'Could not read invoice subscription cursor');
+    }
+
+    const state: NodeSubscription = {
+      cursor,
+      subscription: null,
+      generation: 0,
+      queue: Promise.resolve(),
+      failures: 0,
+      timer: null,
+    };
+    nodes.set(node.id, state);
+
+    subscribe(node.id, state);
+  }
+};
+
+/**
+ * Stop Following Invoice Updates (on shutdown)
+ */
+export const stopInvoiceSubscriptions = (): void => {
+  for (const state of nodes.values()) {
+    state.generation += 1;
+    state.subscription?.removeAllListeners();
+    clearTimeout(state.timer ?? undefined);
+  }
+  nodes.clear();
+};
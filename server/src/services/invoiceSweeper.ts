@@ -0,0 +1,180 @@
+/**
+ * Invoice Expiry Sweeper
+ *
+ * Open invoices past their expiry are marked `expired` on a schedule, so
+ * transaction lists and balances don't wait for someone to fetch each one.
+ * Every invoice it expires is pushed as `invoice:updated` and sent to
+ * webhooks as invoice.expired.
+ *
+ * Several server instances can sweep the same database: an invoice is only
+ * expired while it is still `pending`, so exactly one instance wins each row
+ * and only that one announces it. Each batch is expired in one statement that
+ * returns the rows it changed. Held invoices are left alone; the node
+ * decides what happens to their payment.
+ */
+
+import { Invoice } from '@prisma/client';
+import { prisma } from '../db/database.js';
+import { publishInvoiceUpdate } from './realtime.js';
+import { notifyInvoiceEvent } from './webhooks.js';
+import { getInvoiceSweepPolicy } from '../config/invoices.js';
+import { logger } from '../lib/logger.js';
+
+/**
+ * Sweeper Status, as Reported on /api/health
+ */
+export interface InvoiceSweeperStatus {
+  running: boolean; // A sweep is in progress
+  interval_ms: number;
+  batch_size: number;
+  last_run_at: string | null; // When the last sweep finished
+  last_expired: number; // Invoices expired by the last sweep
+  total_expired: number; // Invoices expired since the server started
+  last_error: string | null; // Why the last sweep failed
+}
+
+const status = {
+  running: false,
+  lastRunAt: null as Date | null,
+  lastExpired: 0,
+  totalExpired: 0,
+  lastError: null as string | null,
+};
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Expire the Invoices of a Batch That Are Still Open
+ *
+ * @returns The invoices this call expired, in batch order
+ */
+const expireBatch = async (batch: Invoice[]): Promise<Invoice[]> => {
+  const changed = await prisma.invoice.updateManyAndReturn({
+    where: { paymentHash: { in: batch.map((invoice) => invoice.paymentHash) }, status: 'pending' },
+    data: { status: 'expired', updatedAt: new Date() },
+    select: { paymentHash: true },
+  });
+  const expired = new Set(changed.map((invoice) => invoice.paymentHash));
+
+  return batch.filter((invoice) => expired.has(invoice.paymentHash));
+};
+
+const announceExpiry = (invoice: Invoice): void => {
+  publishInvoiceUpdate({
+    payment_hash: invoice.paymentHash,
+    node_id: invoice.nodeId,
+    kind: invoice.kind,
+    status: 'expired',
+    amount: invoice.amount === null ? null : Number(invoice.amount),
+    received_amount: null,
+    preimage: invoice.preimage,
+    settled_at: null,
+  });
+  notifyInvoiceEvent('invoice.expired', invoice.paymentHash);
+};
+
+/**
+ * Mark Open Invoices Past Their Expiry as Expired
+ *
+ * Works through the invoices in batches, oldest expiry first, until none
+ * are left.
+ *
+ * @param now - Invoices expiring before this are expired
+ * @returns Number of invoices this call expired
+ */
+export const sweepExpiredInvoices = async (now: Date = new Date()): Promise<number> => {
+  const { batchSize } = getInvoiceSweepPolicy();
+  let expired = 0;
+
+  for (;;) {
+    const batch = await prisma.invoice.findMany({
+      where: { status: 'pending', expiresAt: { lt: now } },
+      orderBy: { expiresAt: 'asc' },
+      take: batchSize,
+    });
+
+    if (batch.length > 0) {
+      const changed = await expireBatch(batch);
+      changed.forEach(announceExpiry);
+      expired += changed.length;
+    }
+
+    if (batch.length < batchSize) {
+      return expired;
+    }
+  }
+};
+
+/**
+ * Run a Sweep and Record Its Outcome
+ */
+const runSweep = async (): Promise<void> => {
+  if (status.running) return;
+  status.running = true;
+
+  try {
+    const expired = await sweepExpiredInvoices();
+
+    status.lastExpired = expired;
+    status.totalExpired += expired;
+    status.lastError = null;
+
+    if (expired > 0) {
+      logger.info({ count: expired }, 'Expired open invoices');
+    }
+  } catch (err: any) {
+    status.lastError = err?.message || String(err);
+    logger.error({ err }, 'Invoice expiry sweep failed');
+  } finally {
+    status.running = false;
+    status.lastRunAt = new Date();
+  }
+};
+
+const scheduleSweep = (delayMs: number, intervalMs: number): void => {
+  timer = setTimeout(async () => {
+    await runSweep();
+    // Stopped while sweeping
+    if (timer) scheduleSweep(intervalMs, intervalMs);
+  }, delayMs);
+  timer.unref();
+};
+
+/**
+ * Start Sweeping on the Configured Interval
+ *
+ * The first sweep runs right away. Does nothing when the interval is 0.
+ *
+ * @throws Error if the sweep policy is malformed
+ */
+export const startInvoiceSweeper = (): void => {
+  const { intervalMs } = getInvoiceSweepPolicy();
+  if (timer || intervalMs === 0) return;
+
+  scheduleSweep(0, intervalMs);
+};
+
+/**
+ * Stop Sweeping (on shutdown)
+ */
+export const stopInvoiceSweeper = (): void => {
+  clearTimeout(timer ?? undefined);
+  timer = null;
+};
+
+/**
+ * Current Sweeper Status
+ */
+export const getInvoiceSweeperStatus = (): InvoiceSweeperStatus => {
+  const { intervalMs, batchSize } = getInvoiceSweepPolicy();
+
+  return {
+    running: status.running,
+    interval_ms: intervalMs,
+    batch_size: batchSize,
+    last_run_at: status.lastRunAt?.toISOString() ?? null,
+    last_expired: status.lastExpired,
+    total_expired: status.totalExpired,
+    last_error: status.lastError,
+  };
+};
@@ -0,0 +1,101 @@
+/**
+ * Invoice Updates
+ *
+ * Records what a node reports about its invoices: held, canceled and settled
+ * invoices are written to their rows, and incoming keysend payments, which
+ * arrive without an invoice of ours, are recorded as new received
+ * transactions.
+ *
+ * Settled and expired invoices are sent to webhooks once, when the row
+ * changes.
+ */
+
+import { prisma } from '../db/database.js';
+import { getKeysendMessage, toInvoiceStatus } from './lightning.js';
+import { notifyInvoiceEvent } from './webhooks.js';
+import { InvoiceStatus, NodeId } from '../types/lightning.js';
+import { BackendInvoiceUpdate } from '../types/backend.js';
+
+/**
+ * Record an Invoice Update from a Node
+ *
+ * @param node - Node that reported the update
+ * @param invoice - Invoice update from the node's invoice subscription
+ * @returns Status of the invoice
+ */
+export const recordInvoiceUpdate = async (
+  node: NodeId,
+  invoice: BackendInvoiceUpdate
+): Promise<InvoiceStatus> => {
+  const status = toInvoiceStatus(invoice);
+
+  if (status === 'pending') {
+    return status;
+  }
+
+  const settledAt = invoice.confirmed_at ? new Date(invoice.confirmed_at) : new Date();
+
+  // A keysend payment creates its invoice on the node as it arrives
+  if (invoice.is_push && status === 'succeeded') {
+    const keysend = {
+      status,
+      amount: invoice.received,
+      receivedAmount: invoice.received,
+      preimage: invoice.secret || null,
+      settledAt,
+      updatedAt: new Date(),
+    };
+
+    const existing = await prisma.invoice.findUnique({
+      where: { paymentHash: invoice.id },
+      select: { status: true },
+    });
+
+    await prisma.invoice.upsert({
+      where: { paymentHash: invoice.id },
+      create: {
+        ...keysend,
+        paymentHash: invoice.id,
+        paymentRequest: null,
+        kind: 'keysend',
+        nodeId: node,
+        description: getKeysendMessage(invoice.payments),
+        expiresAt: new Date(invoice.expires_at),
+      },
+      update: keysend,
+    });
+
+    if (existing?.status !== 'succeeded') {
+      notifyInvoiceEvent('invoice.settled', invoice.id);
+    }
+
+    return status;
+  }
+
+  // The amount received is only known now for any-amount invoices. An invoice
+  // this server canceled stays canceled when the node reports it expired.
+  const { count } = await prisma.invoice.updateMany({
+    where: {
+      paymentHash: invoice.id,
+      status: status === 'expired' ? { notIn: ['expired', 'canceled'] } : { not: status },
+    },
+    data: {
+      status,
+      ...(status === 'succeeded' && {
+        preimage: invoice.secret || null,
+        receivedAmount: invoice.received,
+        settledAt,
+      }),
+      updatedAt: new Date(),
+    },
+  });
+
+  if (count > 0 && status === 'succeeded') {
+    notifyInvoiceEvent('invoice.settled', invoice.id);
+  }
+  if (count > 0 && status === 'expired') {
+    notifyInvoiceEvent('invoice.expired', invoice.id);
+  }
+
+  return status;
+};
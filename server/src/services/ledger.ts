@@ -0,0 +1,194 @@
+/**
+ * Transaction Ledger
+ *
+ * Lists invoices and payments together from the transaction_ledger view,
+ * newest first. Pages are read with a cursor pointing just past the last row
+ * returned, so deep pages cost the same as the first and rows recorded in
+ * between don't shift them.
+ *
+ * An invoice and the payment of it share a payment hash, so rows are ordered
+ * by (created_at, payment_hash, type) to keep the order total.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/database.js';
+
+export type LedgerEntryType = 'invoice' | 'payment';
+
+/**
+ * Ledger Filters
+ */
+export interface LedgerFilters {
+  type?: LedgerEntryType;
+  status?: string; // Invoice or payment status
+  from?: Date; // Created at or after
+  to?: Date; // Created at or before
+  minAmount?: number; // Satoshis, inclusive
+  maxAmount?: number; // Satoshis, inclusive
+  search?: string; // Text in the description, any case
+  paymentHashPrefix?: string; // Lowercase hex
+}
+
+/**
+ * Position of a Ledger Row
+ */
+export interface LedgerCursor {
+  createdAt: string; // created_at as Postgres prints it, microseconds included
+  paymentHash: string;
+  type: LedgerEntryType;
+}
+
+export interface LedgerQuery {
+  filters: LedgerFilters;
+  limit: number;
+  cursor?: LedgerCursor; // Start after this row
+  offset?: number; // Rows to skip when there is no cursor
+}
+
+export interface LedgerEntry {
+  paymentHash: string;
+  type: LedgerEntryType;
+  kind: string;
+  nodeId: string;
+  amount: number | null; // Null for open any-amount invoices
+  status: string;
+  description: string | null;
+  fee?: number; // Payments only
+  createdAt: Date;
+  settledAt: Date | null;
+}
+
+export interface LedgerPage {
+  transactions: LedgerEntry[];
+  total: number; // Rows matching the filters
+  nextCursor: string | null; // Null on the last page
+}
+
+interface LedgerRow {
+  type: LedgerEntryType;
+  payment_hash: string;
+  kind: string;
+  node_id: string;
+  amount: bigint | null;
+  fee: bigint | null;
+  status: string;
+  description: string | null;
+  created_at: Date;
+  settled_at: Date | null;
+  cursor_created_at: string;
+}
+
+const LEDGER_TYPES: LedgerEntryType[] = ['invoice', 'payment'];
+
+/**
+ * Encode a Cursor for the API
+ */
+export const encodeLedgerCursor = (cursor: LedgerCursor): string =>
+  Buffer.from(JSON.stringify([cursor.createdAt, cursor.paymentHash, cursor.type])).toString('base64url');
+
+/**
+ * Decode a Cursor From the API
+ *
+ * @returns The cursor, or null when the value isn't one
+ */
+export const decodeLedgerCursor = (value: string): LedgerCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || parsed.length !== 3) return null;
+
+    const [createdAt, paymentHash, type] = parsed;
+    if (
+      typeof createdAt !== 'string' ||
+      Number.isNaN(Date.parse(createdAt)) ||
+      typeof paymentHash !== 'string' ||
+      !/^[0-9a-f]{64}$/.test(paymentHash) ||
+      !LEDGER_TYPES.includes(type)
+    ) {
+      return null;
+    }
+
+    return { createdAt, paymentHash, type };
+  } catch {
+    return null;
+  }
+};
+
+// LIKE treats % and _ as wildcards
+const escapeLike = (text: string): string => text.replace(/[\\%_]/g, '\\$&');
+
+const toConditions = (filters: LedgerFilters): Prisma.Sql[] => {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filters.type) conditions.push(Prisma.sql`"type" = ${filters.type}`);
+  if (filters.status) conditions.push(Prisma.sql`"status" = ${filters.status}`);
+  if (filters.from) conditions.push(Prisma.sql`"created_at" >= ${filters.from}`);
+  if (filters.to) conditions.push(Prisma.sql`"created_at" <= ${filters.to}`);
+  if (filters.minAmount !== undefined) conditions.push(Prisma.sql`"amount" >= ${filters.minAmount}`);
+  if (filters.maxAmount !== undefined) conditions.push(Prisma.sql`"amount" <= ${filters.maxAmount}`);
+  if (filters.search) {
+    conditions.push(Prisma.sql`"description" ILIKE ${`%${escapeLike(filters.search)}%`}`);
+  }
+  if (filters.paymentHashPrefix) {
+    conditions.push(Prisma.sql`"payment_hash" LIKE ${`${filters.paymentHashPrefix}%`}`);
+  }
+
+  return conditions;
+};
+
+const toWhere = (conditions: Prisma.Sql[]): Prisma.Sql =>
+  conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+
+const toLedgerEntry = (row: LedgerRow): LedgerEntry => ({
+  paymentHash: row.payment_hash,
+  type: row.type,
+  kind: row.kind,
+  nodeId: row.node_id,
+  amount: row.amount === null ? null : Number(row.amount),
+  status: row.status,
+  description: row.description,
+  ...(row.type === 'payment' && { fee: Number(row.fee ?? 0) }),
+  createdAt: row.created_at,
+  settledAt: row.settled_at,
+});
+
+/**
+ * List Ledger Rows
+ *
+ * @param query - Filters, page size and where to start
+ * @returns The page, the number of matching rows and the cursor of the next page
+ */
+export const listLedger = async ({ filters, limit, cursor, offset = 0 }: LedgerQuery): Promise<LedgerPage> => {
+  const conditions = toConditions(filters);
+  const pageConditions = cursor
+    ? [
+      ...conditions,
+      Prisma.sql`("created_at", "payment_hash", "type") < (${cursor.createdAt}::timestamptz, ${cursor.paymentHash}, ${cursor.type})`,
+    ]
+    : conditions;
+
+  // One row more than asked tells whether there is a next page
+  const [rows, [{ count }]] = await Promise.all([
+    prisma.$queryRaw<LedgerRow[]>(Prisma.sql`
+      SELECT *, "created_at"::text AS "cursor_created_at"
+      FROM "transaction_ledger"
+      ${toWhere(pageConditions)}
+      ORDER BY "created_at" DESC, "payment_hash" DESC, "type" DESC
+      LIMIT ${limit + 1} OFFSET ${cursor ? 0 : offset}
+    `),
+    prisma.$queryRaw<{ count: bigint }[]>(Prisma.sql`
+      SELECT COUNT(*) AS "count" FROM "transaction_ledger" ${toWhere(conditions)}
+    `),
+  ]);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    transactions: page.map(toLedgerEntry),
+    total: Number(count),
+    nextCursor:
+      rows.length > limit && last
+        ? encodeLedgerCursor({ createdAt: last.cursor_created_at, paymentHash: last.payment_hash, type: last.type })
+        : null,
+  };
+};
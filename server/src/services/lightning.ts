@@ -1,294 +1,491 @@
 /**
  * Lightning Network Service
  *
- * This service provides methods to interact with LND nodes using ln-service.
+ * This service provides methods to interact with Lightning nodes through the
+ * active LightningBackend (live LND via ln-service, or the in-memory mock).
  */
 
-import lnService from 'ln-service';
-import {
-  getNodeAConfig,
-  getNodeBConfig,
-  LightningNodeConfig,
-} from '../config/lightning.js';
 import {
   CreateInvoiceRequest,
   InvoiceResponse,
+  InvoiceStatus,
   DecodedInvoice,
+  InvoiceCrossCheck,
   PayInvoiceRequest,
-  PaymentResponse,
+  KeysendRequest,
   BalanceResponse,
+  LightningNetwork,
   NodeInfo,
+  NodeId,
 } from '../types/lightning.js';
+import {
+  LightningBackend,
+  BackendConnectionStatus,
+  BackendInvoice,
+  BackendInvoiceUpdate,
+  BackendInvoiceSubscriptionStart,
+  BackendPaymentSubscription,
+} from '../types/backend.js';
+import { getBackend } from './backends/index.js';
+import { getDefaultNodeId, getLightningNetwork } from '../config/lightning.js';
+import { decodeBolt11 } from '../lib/bolt11.js';
+import { validateInvoice } from '../lib/invoiceValidation.js';
 import QRCode from 'qrcode';
 import { logger } from '../lib/logger.js';
 
-/**
- * Authenticated LND Object
- */
-interface AuthenticatedLnd {
-  lnd: unknown;
-}
+// TLV record type for keysend text messages, as used by Sphinx and most wallets
+const KEYSEND_MESSAGE_RECORD = '34349334';
+
+// Chain ids nodes report (genesis block hash, byte-reversed), by network
+const CHAIN_NETWORKS: Record<string, LightningNetwork> = {
+  '6fe28c0ab6f1b372c1a6a246ae63f74f931e8365e15a089c68d6190000000000': 'mainnet',
+  '43497fd7f826957108f4a30fd9cec3aeba79972084e90ead01ea330900000000': 'testnet',
+  '43f08bdab050e35b567c864b91f47f50ae725ae2de53bcfbbaf284da00000000': 'testnet', // testnet4
+  'f61eee3b63a380a477a063af32b2bbc97c9ff9f01f2c4225e973988108000000': 'signet',
+  '06226e46111a0b59caaf126043eb5bbf28c34f3a5e332a1fc7b2b73cf188910f': 'regtest',
+};
+
+// Networks learned from nodes, per backend so a replaced backend starts over
+const nodeNetworks = new WeakMap<LightningBackend, Map<NodeId, LightningNetwork>>();
+
+const toNetwork = (chains: string[]): LightningNetwork | null =>
+  chains.map((chain) => CHAIN_NETWORKS[chain]).find(Boolean) ?? null;
 
 /**
- * Create Authenticated LND Instance
- *
- * @param config - Node configuration (host, cert, macaroon)
- * @returns Authenticated LND instance
+ * Describe an Invoice Created on a Node, with a QR Code for its Request
  */
-const createLndInstance = (config: LightningNodeConfig): AuthenticatedLnd => {
-  const { lnd } = lnService.authenticatedLndGrpc({
-    socket: config.host,
-    cert: config.cert.toString('base64'),
-    macaroon: config.macaroon.toString('hex'),
+const toInvoiceResponse = async (
+  invoice: { id: string; request: string },
+  request: CreateInvoiceRequest,
+  node: NodeId,
+  expiresAt: Date
+): Promise<InvoiceResponse> => {
+  // Generate QR code
+  const qrCode = await QRCode.toDataURL(invoice.request, {
+    width: 300,
+    margin: 2,
   });
 
-  return { lnd };
+  return {
+    payment_hash: invoice.id,
+    payment_request: invoice.request,
+    node_id: node,
+    amount: request.amount,
+    description: request.description || null,
+    expires_at: expiresAt,
+    created_at: new Date(),
+    qr_code: qrCode,
+  };
 };
 
 /**
- * Get Node A (Receiver/Alice) LND Instance
+ * Create Invoice on a Receiving Node (default: Node A / Alice)
+ *
+ * @param request - Invoice parameters (amount or null for any amount, description
+ *                  or description hash, expiry)
+ * @param node - Node to create the invoice on
+ * @returns Invoice details including payment_request string and QR code
  */
-export const getNodeALnd = (): AuthenticatedLnd => {
-  const config = getNodeAConfig();
-  return createLndInstance(config);
-};
+export const createInvoice = async (
+  request: CreateInvoiceRequest,
+  node: NodeId = getDefaultNodeId('receiver')
+): Promise<InvoiceResponse> => {
+  const expirySeconds = request.expiry || 3600; // Default 1 hour
+  const expiresAt = new Date(Date.now() + expirySeconds * 1000);
+
+  const invoice = await getBackend().createInvoice(node, {
+    tokens: request.amount ?? 0,
+    ...(request.amount_msat !== undefined && { mtokens: String(request.amount_msat) }),
+    // A description hash commits to a description the payer got elsewhere
+    ...(request.description_hash
+      ? { description_hash: request.description_hash }
+      : { description: request.description || 'Lightning Payment' }),
+    expires_at: expiresAt.toISOString(),
+  });
 
-/**
- * Get Node B (Sender/Bob) LND Instance
- */
-export const getNodeBLnd = (): AuthenticatedLnd => {
-  const config = getNodeBConfig();
-  return createLndInstance(config);
+  return toInvoiceResponse(invoice, request, node, expiresAt);
 };
 
 /**
- * Create Invoice on Node A (Alice)
+ * Create Hold Invoice on a Receiving Node (default: Node A / Alice)
+ *
+ * The caller keeps the preimage. A payment to the invoice is held by the
+ * node until settleHoldInvoice reveals the preimage or cancelInvoice
+ * returns the funds to the payer.
  *
- * @param request - Invoice parameters (amount, description, expiry)
+ * @param paymentHash - SHA-256 hash of the caller's preimage
+ * @param request - Invoice parameters (amount or null for any amount, description, expiry)
+ * @param node - Node to create the invoice on
  * @returns Invoice details including payment_request string and QR code
  */
-export const createInvoice = async (
-  request: CreateInvoiceRequest
+export const createHoldInvoice = async (
+  paymentHash: string,
+  request: CreateInvoiceRequest,
+  node: NodeId = getDefaultNodeId('receiver')
 ): Promise<InvoiceResponse> => {
-  const { lnd } = getNodeALnd();
-
   const expirySeconds = request.expiry || 3600; // Default 1 hour
+  const expiresAt = new Date(Date.now() + expirySeconds * 1000);
 
-  const invoice = await lnService.createInvoice({
-    lnd,
-    tokens: request.amount,
+  const invoice = await getBackend().createHoldInvoice(node, {
+    id: paymentHash,
+    tokens: request.amount ?? 0,
     description: request.description || 'Lightning Payment',
-    expires_at: new Date(Date.now() + expirySeconds * 1000).toISOString(),
+    expires_at: expiresAt.toISOString(),
   });
 
-  // Generate QR code
-  const qrCode = await QRCode.toDataURL(invoice.request, {
-    width: 300,
-    margin: 2,
-  });
+  return toInvoiceResponse(invoice, request, node, expiresAt);
+};
 
-  return {
-    payment_hash: invoice.id,
-    payment_request: invoice.request,
-    amount: request.amount,
-    description: request.description || null,
-    expires_at: new Date(Date.now() + expirySeconds * 1000),
-    created_at: new Date(),
-    qr_code: qrCode,
-  };
+/**
+ * Settle a Held Invoice, Claiming the Payment
+ *
+ * @param preimage - Preimage of the invoice's payment hash
+ * @param node - Node that created the invoice
+ */
+export const settleHoldInvoice = async (
+  preimage: string,
+  node: NodeId = getDefaultNodeId('receiver')
+): Promise<void> => {
+  await getBackend().settleHoldInvoice(node, preimage);
+};
+
+/**
+ * Cancel an Open or Held Invoice
+ *
+ * A held payment is returned to the payer.
+ *
+ * @param paymentHash - The payment hash identifying the invoice
+ * @param node - Node that created the invoice
+ */
+export const cancelInvoice = async (
+  paymentHash: string,
+  node: NodeId = getDefaultNodeId('receiver')
+): Promise<void> => {
+  await getBackend().cancelInvoice(node, paymentHash);
+};
+
+/**
+ * Get the Network a Node Runs On
+ *
+ * LIGHTNING_NETWORK wins when set; otherwise the node is asked once for the
+ * chain it runs on and the answer is remembered.
+ *
+ * @param node - Which node to ask
+ * @returns The node's network
+ * @throws Error if the node reports a chain this server doesn't know
+ */
+export const getNodeNetwork = async (
+  node: NodeId = getDefaultNodeId('sender')
+): Promise<LightningNetwork> => {
+  const configured = getLightningNetwork();
+  if (configured) return configured;
+
+  const backend = getBackend();
+  const known = nodeNetworks.get(backend) ?? new Map<NodeId, LightningNetwork>();
+  nodeNetworks.set(backend, known);
+
+  const cached = known.get(node);
+  if (cached) return cached;
+
+  const { chains } = await backend.getInfo(node);
+  const network = toNetwork(chains);
+  if (!network) {
+    throw new Error(`Node ${node} runs on an unknown chain (${chains.join(', ')}); set LIGHTNING_NETWORK`);
+  }
+
+  known.set(node, network);
+  return network;
 };
 
 /**
  * Decode Invoice
  *
- * Parses a BOLT11 invoice string to extract payment details.
+ * Parses a BOLT11 invoice string to extract payment details, without asking
+ * a node. The request is validated structurally first, and must be for the
+ * network the node runs on.
  *
  * @param paymentRequest - BOLT11 invoice string
+ * @param node - Node whose network the invoice must be for
  * @returns Decoded invoice details
+ * @throws [400, 'InvalidPaymentRequest', { reason, code? }] if the invoice is
+ *         malformed or for another network; code is an InvoiceValidationCode
  */
 export const decodeInvoice = async (
-  paymentRequest: string
+  paymentRequest: string,
+  node: NodeId = getDefaultNodeId('sender')
 ): Promise<DecodedInvoice> => {
-  const { lnd } = getNodeBLnd();
+  const validation = validateInvoice(paymentRequest);
+  if (!validation.valid) {
+    throw [400, 'InvalidPaymentRequest', { reason: validation.error, code: validation.code }];
+  }
 
-  const decoded = await lnService.decodePaymentRequest({
-    lnd,
-    request: paymentRequest,
-  });
+  const network = await getNodeNetwork(node);
+  if (validation.network !== network) {
+    throw [
+      400,
+      'InvalidPaymentRequest',
+      {
+        reason: `Invoice is for ${validation.network}, but this server runs on ${network}`,
+        code: 'WRONG_NETWORK',
+      },
+    ];
+  }
+
+  const invoice = decodeBolt11(paymentRequest);
+  const amountMsat = Number(invoice.amount_msat ?? 0n);
 
   return {
-    payment_hash: decoded.id,
-    amount: decoded.tokens,
-    description: decoded.description || '',
-    expires_at: new Date(decoded.expires_at),
-    destination: decoded.destination,
-    timestamp: new Date(decoded.created_at).getTime(),
+    payment_hash: invoice.payment_hash,
+    network: invoice.network,
+    amount: Math.floor(amountMsat / 1000),
+    amount_msat: amountMsat,
+    description: invoice.description ?? '',
+    description_hash: invoice.description_hash,
+    expires_at: new Date((invoice.timestamp + invoice.expiry) * 1000),
+    destination: invoice.payee,
+    timestamp: invoice.timestamp * 1000,
+    payment_secret: invoice.payment_secret,
+    metadata: invoice.metadata,
+    min_final_cltv_expiry: invoice.min_final_cltv_expiry,
+    fallback_addresses: invoice.fallback_addresses,
+    route_hints: invoice.route_hints,
+    features: invoice.features,
+    signature: invoice.signature,
+    signature_valid: invoice.signature_valid,
   };
 };
 
 /**
- * Pay Invoice from Node B (Bob)
+ * Describe Why an Invoice Could Not Be Decoded
  *
- * @param request - Payment parameters (invoice string)
- * @returns Payment result including preimage
+ * @param error - Error thrown by decodeInvoice
+ * @returns API error message and code, or null for unrelated errors
  */
-export const payInvoice = async (
-  request: PayInvoiceRequest
-): Promise<PaymentResponse> => {
-  const { lnd } = getNodeBLnd();
-
-  try {
-    const decoded = await decodeInvoice(request.payment_request);
-
-    const payment = await lnService.pay({
-      lnd,
-      request: request.payment_request,
-    });
+export const toDecodeFailure = (error: unknown): { error: string; code: string } | null => {
+  if (!Array.isArray(error) || error[1] !== 'InvalidPaymentRequest') return null;
 
-    return {
-      payment_hash: payment.id,
-      status: 'succeeded',
-      preimage: payment.secret,
-      amount: decoded.amount,
-      fee: payment.fee || 0,
-      payment_request: request.payment_request,
-      created_at: new Date(),
-    };
-  } catch (error: any) {
-    const errorMessage = error.message || 'Payment failed';
-
-    // Try to get payment hash from decoded invoice
-    let paymentHash = '';
-    try {
-      const decoded = await decodeInvoice(request.payment_request);
-      paymentHash = decoded.payment_hash;
-    } catch {
-      // Ignore decode errors
-    }
+  const [, , details] = error;
+  return {
+    error: `Invalid Lightning invoice: ${details.reason}`,
+    code: details.code ?? 'INVALID_INVOICE',
+  };
+};
 
+/**
+ * Compare an Invoice Decoding with a Node's
+ *
+ * @param decoded - Invoice as decoded by decodeInvoice
+ * @param paymentRequest - BOLT11 invoice string
+ * @param node - Node to decode with
+ * @returns Fields the node decoded differently
+ */
+export const crossCheckInvoice = async (
+  decoded: DecodedInvoice,
+  paymentRequest: string,
+  node: NodeId = getDefaultNodeId('sender')
+): Promise<InvoiceCrossCheck> => {
+  try {
+    const remote = await getBackend().decodePaymentRequest(node, paymentRequest);
+
+    const fields: [string, unknown, unknown][] = [
+      ['payment_hash', decoded.payment_hash, remote.id],
+      ['amount', decoded.amount, remote.tokens],
+      ['description', decoded.description, remote.description || ''],
+      ['destination', decoded.destination, remote.destination],
+      ['expires_at', decoded.expires_at.getTime(), new Date(remote.expires_at).getTime()],
+    ];
+    const mismatches = fields.filter(([, ours, theirs]) => ours !== theirs).map(([field]) => field);
+
+    return { node_id: node, matches: mismatches.length === 0, mismatches };
+  } catch (error) {
+    logger.warn({ node, error }, 'Could not cross-check invoice with node');
     return {
-      payment_hash: paymentHash,
-      status: 'failed',
-      preimage: null,
-      amount: 0,
-      fee: 0,
-      payment_request: request.payment_request,
-      created_at: new Date(),
-      error: errorMessage,
+      node_id: node,
+      matches: null,
+      mismatches: [],
+      error: Array.isArray(error) ? error[1] : error instanceof Error ? error.message : String(error),
     };
   }
 };
 
 /**
- * Get Invoice Status from Node A
+ * Start Paying an Invoice from a Sending Node (default: Node B / Bob)
  *
- * @param paymentHash - The payment hash identifying the invoice
- * @returns Invoice status
+ * Returns as soon as the payment is dispatched. The subscription emits
+ * 'confirmed' with the preimage and fee, or 'failed' with the reason.
+ *
+ * @param request - Payment parameters (invoice string, amount for zero-amount
+ *                  invoices, fee cap in sats and timeout)
+ * @param node - Node to pay from
+ * @returns Payment subscription
  */
-export const getInvoiceStatus = async (
-  paymentHash: string
-): Promise<{
-  status: 'pending' | 'succeeded' | 'expired';
-  settled: boolean;
-  preimage: string | null;
-}> => {
-  const { lnd } = getNodeALnd();
+export const startPayment = (
+  request: PayInvoiceRequest,
+  node: NodeId = getDefaultNodeId('sender')
+): BackendPaymentSubscription => {
+  return getBackend().subscribeToPayment(node, {
+    request: request.payment_request,
+    ...(request.amount && { tokens: request.amount }),
+    ...(request.max_fee_sats !== undefined && { max_fee: request.max_fee_sats }),
+    ...(request.timeout_seconds && { pathfinding_timeout: request.timeout_seconds * 1000 }),
+  });
+};
 
-  const invoice = await lnService.getInvoice({
-    lnd,
-    id: paymentHash,
+/**
+ * Start a Keysend Payment from a Sending Node (default: Node B / Bob)
+ *
+ * Emits the same events as startPayment. A message is sent in the TLV
+ * record most wallets display as a chat message.
+ *
+ * @param request - Destination, amount, preimage, message, custom records and limits
+ * @param node - Node to pay from
+ * @returns Payment subscription
+ */
+export const startKeysend = (
+  request: KeysendRequest,
+  node: NodeId = getDefaultNodeId('sender')
+): BackendPaymentSubscription => {
+  const messages = [...(request.custom_records ?? [])];
+  if (request.message) {
+    messages.unshift({ type: KEYSEND_MESSAGE_RECORD, value: Buffer.from(request.message).toString('hex') });
+  }
+
+  return getBackend().subscribeToKeysend(node, {
+    destination: request.destination,
+    tokens: request.amount,
+    secret: request.preimage,
+    ...(messages.length && { messages }),
+    ...(request.max_fee_sats !== undefined && { max_fee: request.max_fee_sats }),
+    ...(request.timeout_seconds && { pathfinding_timeout: request.timeout_seconds * 1000 }),
   });
+};
 
-  let status: 'pending' | 'succeeded' | 'expired' = 'pending';
+/**
+ * Read the Text Message of an Incoming Keysend Payment
+ *
+ * @param payments - Received HTLCs with their custom records
+ * @returns The message, or null if the payer sent none
+ */
+export const getKeysendMessage = (payments: BackendInvoiceUpdate['payments']): string | null => {
+  const record = payments
+    .flatMap((payment) => payment.messages)
+    .find((message) => message.type === KEYSEND_MESSAGE_RECORD);
 
-  if (invoice.is_confirmed) {
-    status = 'succeeded';
-  } else if (new Date(invoice.expires_at) < new Date()) {
-    status = 'expired';
-  }
+  return record ? Buffer.from(record.value, 'hex').toString('utf8') : null;
+};
 
-  return {
-    status,
-    settled: invoice.is_confirmed,
-    preimage: invoice.secret || null,
-  };
+/**
+ * Estimate the Routing Fee to Pay an Invoice
+ *
+ * @param request - Payment parameters (invoice string, amount for zero-amount invoices)
+ * @param node - Node that would pay
+ * @returns Fee in satoshis of the best route found, or null if there is no route
+ */
+export const estimatePaymentFee = async (
+  request: PayInvoiceRequest,
+  node: NodeId = getDefaultNodeId('sender')
+): Promise<number | null> => {
+  return getBackend().estimateRouteFee(node, {
+    request: request.payment_request,
+    ...(request.amount && { tokens: request.amount }),
+  });
 };
 
 /**
- * Get Payment Status from Node B
+ * Follow a Payment Already Sent from a Node
+ *
+ * Emits the same events as startPayment. Errors with SentPaymentNotFound
+ * if the node never saw the payment.
  *
  * @param paymentHash - The payment hash identifying the payment
- * @returns Payment status
+ * @param node - Node that sent the payment
+ * @returns Payment subscription
  */
-export const getPaymentStatus = async (
-  paymentHash: string
+export const trackPayment = (
+  paymentHash: string,
+  node: NodeId = getDefaultNodeId('sender')
+): BackendPaymentSubscription => {
+  return getBackend().subscribeToPastPayment(node, paymentHash);
+};
+
+/**
+ * Map an Invoice's Flags on the Node to its Status
+ *
+ * LND cancels open invoices once they expire, so a canceled invoice past its
+ * expiry is reported as expired. Invoices this server canceled keep
+ * `canceled` in their row; callers don't overwrite it.
+ *
+ * @param invoice - Invoice or invoice update from the node; without an
+ *                  expiry date an open invoice is reported as pending
+ */
+export const toInvoiceStatus = (
+  invoice: Pick<BackendInvoice, 'is_confirmed' | 'is_held' | 'is_canceled'> & { expires_at?: string }
+): InvoiceStatus => {
+  const isExpired = invoice.expires_at !== undefined && new Date(invoice.expires_at) < new Date();
+
+  if (invoice.is_confirmed) return 'succeeded';
+  if (invoice.is_held) return 'held';
+  if (invoice.is_canceled) return isExpired ? 'expired' : 'canceled';
+  if (isExpired) return 'expired';
+  return 'pending';
+};
+
+/**
+ * Get Invoice Status from the Node that Issued It
+ *
+ * @param paymentHash - The payment hash identifying the invoice
+ * @param node - Node that created the invoice
+ * @returns Invoice status
+ */
+export const getInvoiceStatus = async (
+  paymentHash: string,
+  node: NodeId = getDefaultNodeId('receiver')
 ): Promise<{
-  status: 'pending' | 'succeeded' | 'failed';
+  status: InvoiceStatus;
+  settled: boolean;
   preimage: string | null;
+  received: number;
 }> => {
-  const { lnd } = getNodeBLnd();
-
-  try {
-    const payment = await lnService.getPayment({
-      lnd,
-      id: paymentHash,
-    });
-
-    let status: 'pending' | 'succeeded' | 'failed' = 'pending';
-
-    if (payment.is_confirmed) {
-      status = 'succeeded';
-    } else if (payment.is_failed) {
-      status = 'failed';
-    }
+  const invoice = await getBackend().getInvoice(node, paymentHash);
 
-    return {
-      status,
-      preimage: payment.payment?.secret || null,
-    };
-  } catch {
-    return {
-      status: 'pending',
-      preimage: null,
-    };
-  }
+  return {
+    status: toInvoiceStatus(invoice),
+    settled: invoice.is_confirmed,
+    preimage: invoice.secret || null,
+    received: invoice.received,
+  };
 };
 
 /**
  * Get Node Balance
  *
- * @param node - Which node ('node_a' or 'node_b')
+ * @param node - Registered node identifier
  * @returns Balance details
  */
 export const getNodeBalance = async (
-  node: 'node_a' | 'node_b'
+  node: NodeId
 ): Promise<BalanceResponse> => {
-  const { lnd } = node === 'node_a' ? getNodeALnd() : getNodeBLnd();
-
-  const chainBalance = await lnService.getChainBalance({ lnd });
-  const channelBalance = await lnService.getChannelBalance({ lnd });
+  const balance = await getBackend().getBalance(node);
 
   return {
-    total_balance: chainBalance.chain_balance + channelBalance.channel_balance,
-    confirmed_balance: chainBalance.chain_balance,
+    total_balance: balance.chain_balance + balance.channel_balance,
+    confirmed_balance: balance.chain_balance,
     unconfirmed_balance: 0,
-    channel_balance: channelBalance.channel_balance,
-    pending_channel_balance: channelBalance.pending_balance || 0,
+    channel_balance: balance.channel_balance,
+    pending_channel_balance: balance.pending_balance || 0,
   };
 };
 
 /**
  * Get Node Info
  *
- * @param node - Which node ('node_a' or 'node_b')
+ * @param node - Registered node identifier
  * @returns Node information
  */
 export const getNodeInfo = async (
-  node: 'node_a' | 'node_b'
+  node: NodeId
 ): Promise<NodeInfo> => {
-  const { lnd } = node === 'node_a' ? getNodeALnd() : getNodeBLnd();
-
-  const info = await lnService.getWalletInfo({ lnd });
+  const info = await getBackend().getInfo(node);
 
   return {
     identity_pubkey: info.public_key,
@@ -298,6 +495,7 @@ export const getNodeInfo = async (
     synced_to_chain: info.is_synced_to_chain,
     block_height: info.current_block_height,
     version: info.version || 'Unknown',
+    network: toNetwork(info.chains),
   };
 };
 
@@ -308,7 +506,7 @@ export const getNodeInfo = async (
  * @returns true if connection successful
  */
 export const testNodeConnection = async (
-  node: 'node_a' | 'node_b'
+  node: NodeId
 ): Promise<boolean> => {
   try {
     const info = await getNodeInfo(node);
@@ -324,14 +522,34 @@ export const testNodeConnection = async (
 };
 
 /**
- * Subscribe to Invoice Updates on Node A (Alice)
+ * Get Node Connection Status
+ *
+ * @param node - Registered node identifier
+ * @returns Connection state, last health check and reconnect progress
+ */
+export const getNodeConnectionStatus = (node: NodeId): BackendConnectionStatus => {
+  return getBackend().getConnectionStatus(node);
+};
+
+/**
+ * Close Node Connections
+ *
+ * Stops health checks and credential watchers on shutdown.
+ */
+export const closeNodeConnections = (): void => {
+  getBackend().close();
+};
+
+/**
+ * Subscribe to Invoice Updates on a Node
  *
  * Returns an EventEmitter that emits 'invoice_updated' events
  * when invoices are created, updated, or paid.
  *
+ * @param node - Node to subscribe to
+ * @param start - Add / settle indexes to replay updates after (default: live updates only)
  * @returns EventEmitter subscription
  */
-export const subscribeToInvoiceUpdates = () => {
-  const { lnd } = getNodeALnd();
-  return lnService.subscribeToInvoices({ lnd });
+export const subscribeToInvoiceUpdates = (node: NodeId, start?: BackendInvoiceSubscriptionStart) => {
+  return getBackend().subscribeToInvoices(node, start);
 };
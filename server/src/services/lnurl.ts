@@ -0,0 +1,124 @@
+/**
+ * LNURL-pay Service
+ *
+ * Lets payers reach a registered username with a Lightning Address
+ * (username@domain) or an LNURL instead of an invoice. The wallet reads the
+ * pay request, picks an amount, and gets an invoice whose description hash
+ * commits to the pay request's metadata.
+ */
+
+import { createHash } from 'crypto';
+import { PayUsername } from '@prisma/client';
+import { prisma } from '../db/database.js';
+import { createInvoice } from './lightning.js';
+import { getLnurlConfig } from '../config/lnurl.js';
+import { convertBits, encodeBech32 } from '../lib/bech32.js';
+import { LnurlPayInvoice, LnurlPayRequest, PayUsernameResponse } from '../types/lnurl.js';
+
+/**
+ * Lightning Address of a Username
+ */
+export const toLightningAddress = (username: string): string => `${username}@${getLnurlConfig().domain}`;
+
+/**
+ * Encode a URL as an LNURL (LUD-01)
+ *
+ * @param url - URL the wallet should call
+ * @returns Uppercase bech32 string, which makes for denser QR codes
+ */
+export const encodeLnurl = (url: string): string =>
+  encodeBech32('lnurl', convertBits(Buffer.from(url, 'utf8'), 8, 5, true)).toUpperCase();
+
+/**
+ * URL of a Username's Pay Request
+ */
+export const toPayRequestUrl = (username: string): string =>
+  `${getLnurlConfig().baseUrl}/.well-known/lnurlp/${username}`;
+
+const toPayDescription = (payUsername: PayUsername): string =>
+  payUsername.description || `Payment to ${toLightningAddress(payUsername.username)}`;
+
+/**
+ * Metadata of a Username's Pay Request
+ *
+ * Returned as the exact string the invoice's description hash covers, so it
+ * must not be re-serialized on the way out.
+ */
+export const toPayMetadata = (payUsername: PayUsername): string =>
+  JSON.stringify([
+    ['text/plain', toPayDescription(payUsername)],
+    ['text/identifier', toLightningAddress(payUsername.username)],
+  ]);
+
+/**
+ * Pay Request for a Username (LUD-06)
+ */
+export const toPayRequest = (payUsername: PayUsername): LnurlPayRequest => ({
+  tag: 'payRequest',
+  callback: `${getLnurlConfig().baseUrl}/api/lnurl/pay/${payUsername.username}/callback`,
+  minSendable: Number(payUsername.minSendable),
+  maxSendable: Number(payUsername.maxSendable),
+  metadata: toPayMetadata(payUsername),
+  commentAllowed: payUsername.commentAllowed,
+});
+
+/**
+ * Describe a Username for the API
+ */
+export const toPayUsernameResponse = (payUsername: PayUsername): PayUsernameResponse => ({
+  username: payUsername.username,
+  node_id: payUsername.nodeId,
+  lightning_address: toLightningAddress(payUsername.username),
+  lnurl: encodeLnurl(toPayRequestUrl(payUsername.username)),
+  description: payUsername.description,
+  min_sendable: Number(payUsername.minSendable),
+  max_sendable: Number(payUsername.maxSendable),
+  comment_allowed: payUsername.commentAllowed,
+  created_at: payUsername.createdAt,
+});
+
+/**
+ * Create the Invoice for a Pay Request Callback
+ *
+ * The invoice is created on the username's node for the exact amount asked
+ * for, and recorded with the username and the payer's comment.
+ *
+ * @param payUsername - Username being paid
+ * @param amountMsat - Amount in millisatoshis, within the username's range
+ * @param comment - Optional payer comment (LUD-12)
+ * @returns Callback response with the invoice
+ */
+export const createPayInvoice = async (
+  payUsername: PayUsername,
+  amountMsat: number,
+  comment?: string
+): Promise<LnurlPayInvoice> => {
+  const metadata = toPayMetadata(payUsername);
+  const description = toPayDescription(payUsername);
+
+  const invoice = await createInvoice(
+    {
+      amount: Math.floor(amountMsat / 1000),
+      amount_msat: amountMsat,
+      description,
+      description_hash: createHash('sha256').update(metadata, 'utf8').digest('hex'),
+    },
+    payUsername.nodeId
+  );
+
+  await prisma.invoice.create({
+    data: {
+      paymentHash: invoice.payment_hash,
+      paymentRequest: invoice.payment_request,
+      nodeId: payUsername.nodeId,
+      amount: invoice.amount,
+      status: 'pending',
+      description,
+      username: payUsername.username,
+      comment: comment || null,
+      expiresAt: invoice.expires_at,
+    },
+  });
+
+  return { pr: invoice.payment_request, routes: [] };
+};
@@ -0,0 +1,431 @@
+/**
+ * LNURL-pay Client
+ *
+ * Pays Lightning Addresses (user@domain) and LNURLs: resolves the pay
+ * request behind them, checks it, and fetches an invoice for the amount.
+ * The invoice is checked against the request before anything is paid - it
+ * must be for exactly that amount and commit to the pay request's metadata.
+ *
+ * Requests go through a replaceable fetcher, so tests and local setups can
+ * answer them without leaving the machine. The default one only connects to
+ * public addresses, checked after DNS resolution, so a Lightning Address or
+ * LNURL can't make the server call services on its own network. It doesn't
+ * follow redirects and reads at most MAX_RESPONSE_BYTES of an answer.
+ */
+
+import { createHash } from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { convertBits, decodeBech32 } from '../lib/bech32.js';
+import { decodeBolt11 } from '../lib/bolt11.js';
+import { getLnurlConfig } from '../config/lnurl.js';
+import { LnurlFetcher, LnurlPayRequest, ResolvedPayRequestResponse } from '../types/lnurl.js';
+
+// How long an LNURL service gets to answer
+const FETCH_TIMEOUT_MS = 10_000;
+
+// Largest answer read from an LNURL service; pay requests and invoices are a few KB
+const MAX_RESPONSE_BYTES = 64 * 1024;
+
+// Loopback, private, link-local and other addresses that aren't on the internet.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], // Unspecified and loopback
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Lightning Addresses (LUD-16): lowercase local part at a host with optional port
+const LIGHTNING_ADDRESS_PATTERN = /^([a-z0-9._+-]+)@([a-z0-9.-]+(?::\d{1,5})?)$/i;
+
+/**
+ * Failure Codes of LNURL Payments
+ */
+export type LnurlFailureCode =
+  | 'INVALID_LNURL' // Not a Lightning Address or LNURL
+  | 'LNURL_HOST_NOT_ALLOWED' // The service is on a private or local address
+  | 'LNURL_UNREACHABLE' // The service did not answer with JSON
+  | 'LNURL_ERROR' // The service answered with an LNURL error
+  | 'INVALID_PAY_REQUEST' // The answer is not a usable pay request
+  | 'AMOUNT_OUT_OF_RANGE' // Amount outside the pay request's range
+  | 'COMMENT_TOO_LONG' // Comment longer than the service accepts
+  | 'INVOICE_MISMATCH'; // Invoice amount or description hash differs from the request
+
+const fail = (status: number, code: LnurlFailureCode, reason: string) => [
+  status,
+  'LnurlPayFailed',
+  { reason, code },
+];
+
+/**
+ * Whether an IP Address Is Loopback, Private or Otherwise Not Public
+ */
+export const isNonPublicAddress = (address: string): boolean =>
+  NON_PUBLIC_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+const hostNotAllowed = (host: string) =>
+  fail(400, 'LNURL_HOST_NOT_ALLOWED', `LNURL service ${host} is on a private or local address`);
+
+/**
+ * DNS Lookup That Refuses Hosts Resolving to Non-Public Addresses
+ *
+ * Runs when the connection is made, so the address checked is the one
+ * connected to.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isNonPublicAddress(address))) {
+      callback(Object.assign(new Error(`${hostname} is not public`), { code: 'LNURL_HOST_NOT_ALLOWED' }), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const defaultFetcher: LnurlFetcher = (url) =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    const allowPrivate = getLnurlConfig().allowPrivateHosts;
+
+    // Literal addresses are connected to without a lookup
+    if (!allowPrivate && isIP(host) && isNonPublicAddress(host)) {
+      reject(hostNotAllowed(target.host));
+      return;
+    }
+
+    const request = (target.protocol === 'https:' ? https : http).get(
+      target,
+      {
+        headers: { accept: 'application/json' },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        ...(!allowPrivate && { lookup: publicLookup }),
+      },
+      (response) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        response.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_RESPONSE_BYTES) {
+            request.destroy();
+            reject(fail(502, 'LNURL_UNREACHABLE', `LNURL service answered with more than ${MAX_RESPONSE_BYTES} bytes`));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        response.on('end', () => {
+          let body: unknown = null;
+          try {
+            body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+          } catch {
+            // Not JSON
+          }
+          resolve({ status: response.statusCode ?? 0, body });
+        });
+        response.on('error', reject);
+      }
+    );
+
+    request.on('error', (error: NodeJS.ErrnoException) => {
+      reject(error.code === 'LNURL_HOST_NOT_ALLOWED' ? hostNotAllowed(target.host) : error);
+    });
+  });
+
+let fetcher: LnurlFetcher = defaultFetcher;
+
+/**
+ * Replace the LNURL Fetcher
+ *
+ * Used by tests to answer LNURL requests from a local stand-in server.
+ * Call without an argument to go back to HTTP.
+ */
+export const setLnurlFetcher = (next: LnurlFetcher = defaultFetcher): void => {
+  fetcher = next;
+};
+
+// LNURL services must use HTTPS, except on .onion hosts and for local development
+const isClearnetExempt = (host: string): boolean =>
+  /\.onion$/i.test(host) || /^(localhost|127\.0\.0\.1)$/i.test(host);
+
+const isAllowedUrl = (url: URL): boolean =>
+  url.protocol === 'https:' || (url.protocol === 'http:' && isClearnetExempt(url.hostname));
+
+/**
+ * Is a Payment Target a Lightning Address or LNURL?
+ *
+ * Only checks the shape; toPayRequestUrl does the decoding.
+ */
+export const isLnurlPayTarget = (target: string): boolean => {
+  const value = target.trim().replace(/^lightning:/i, '');
+  return /^lnurl1/i.test(value) || /^lnurlp:\/\//i.test(value) || LIGHTNING_ADDRESS_PATTERN.test(value);
+};
+
+/**
+ * URL of the Pay Request Behind a Lightning Address or LNURL
+ *
+ * Accepts bech32 LNURLs (LUD-01), lnurlp:// URLs (LUD-17) and Lightning
+ * Addresses (LUD-16), optionally prefixed with "lightning:".
+ *
+ * @param target - Lightning Address or LNURL
+ * @returns URL to fetch the pay request from
+ * @throws [400, 'LnurlPayFailed', { reason, code: 'INVALID_LNURL' }]
+ */
+export const toPayRequestUrl = (target: string): string => {
+  const value = target.trim().replace(/^lightning:/i, '');
+
+  const address = LIGHTNING_ADDRESS_PATTERN.exec(value);
+  if (address) {
+    const [, username, domain] = address;
+    const host = domain.toLowerCase();
+    const scheme = isClearnetExempt(host.replace(/:\d+$/, '')) ? 'http' : 'https';
+    return `${scheme}://${host}/.well-known/lnurlp/${username.toLowerCase()}`;
+  }
+
+  let raw: string;
+  if (/^lnurlp:\/\//i.test(value)) {
+    raw = value.replace(/^lnurlp:\/\//i, 'https://');
+  } else {
+    const decoded = decodeBech32(value);
+    if (!decoded || decoded.prefix !== 'lnurl') {
+      throw fail(400, 'INVALID_LNURL', 'Not a valid Lightning Address or LNURL');
+    }
+    raw = Buffer.from(convertBits(decoded.words, 5, 8, false)).toString('utf8');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw fail(400, 'INVALID_LNURL', 'LNURL does not contain a URL');
+  }
+  if (/^lnurlp:/i.test(value) && isClearnetExempt(url.hostname)) {
+    url.protocol = 'http:';
+  }
+  if (!isAllowedUrl(url)) {
+    throw fail(400, 'INVALID_LNURL', 'LNURL must use HTTPS');
+  }
+
+  return url.toString();
+};
+
+// Fetch an LNURL endpoint, turning LNURL error answers into failures
+const fetchJson = async (url: string): Promise<Record<string, unknown>> => {
+  let response;
+  try {
+    response = await fetcher(url);
+  } catch (error: any) {
+    if (toLnurlFailure(error)) throw error;
+    throw fail(502, 'LNURL_UNREACHABLE', `LNURL service did not answer: ${error?.message || 'unknown error'}`);
+  }
+
+  const { status, body } = response;
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw fail(502, 'LNURL_UNREACHABLE', `LNURL service answered with HTTP ${status} and no JSON`);
+  }
+
+  const json = body as Record<string, unknown>;
+  if (typeof json.status === 'string' && json.status.toUpperCase() === 'ERROR') {
+    const reason = typeof json.reason === 'string' && json.reason ? json.reason : 'no reason given';
+    throw fail(502, 'LNURL_ERROR', `LNURL service refused: ${reason}`);
+  }
+  if (status < 200 || status >= 300) {
+    throw fail(502, 'LNURL_UNREACHABLE', `LNURL service answered with HTTP ${status}`);
+  }
+
+  return json;
+};
+
+const parseMetadata = (metadata: string): [string, string][] | null => {
+  try {
+    const entries = JSON.parse(metadata);
+    return Array.isArray(entries) && entries.every((entry) => Array.isArray(entry) && typeof entry[0] === 'string')
+      ? entries
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Description of a Pay Request
+ *
+ * @returns The metadata's text/plain entry
+ */
+export const toMetadataDescription = (metadata: string): string => {
+  const entry = parseMetadata(metadata)?.find(([type]) => type === 'text/plain');
+  return typeof entry?.[1] === 'string' ? entry[1] : '';
+};
+
+/**
+ * Resolve the Pay Request Behind a Lightning Address or LNURL
+ *
+ * The answer must be a LUD-06 pay request: tag payRequest, an allowed
+ * callback URL, a non-empty millisatoshi range and metadata with a
+ * text/plain entry.
+ *
+ * @param target - Lightning Address or LNURL
+ * @returns Pay request, with commentAllowed filled in
+ * @throws [status, 'LnurlPayFailed', { reason, code }]
+ */
+export const resolvePayRequest = async (target: string): Promise<LnurlPayRequest> => {
+  const json = await fetchJson(toPayRequestUrl(target));
+
+  if (json.tag !== 'payRequest') {
+    throw fail(502, 'INVALID_PAY_REQUEST', 'LNURL is not a pay request');
+  }
+
+  const { callback, minSendable, maxSendable, metadata, commentAllowed } = json;
+
+  let callbackUrl: URL | null = null;
+  try {
+    callbackUrl = typeof callback === 'string' ? new URL(callback) : null;
+  } catch {
+    // Reported below
+  }
+  if (!callbackUrl || !isAllowedUrl(callbackUrl)) {
+    throw fail(502, 'INVALID_PAY_REQUEST', 'Pay request has no usable callback URL');
+  }
+
+  if (
+    !Number.isSafeInteger(minSendable) ||
+    !Number.isSafeInteger(maxSendable) ||
+    (minSendable as number) < 1 ||
+    (maxSendable as number) < (minSendable as number)
+  ) {
+    throw fail(502, 'INVALID_PAY_REQUEST', 'Pay request has no valid amount range');
+  }
+
+  if (typeof metadata !== 'string' || !parseMetadata(metadata)?.some(([type]) => type === 'text/plain')) {
+    throw fail(502, 'INVALID_PAY_REQUEST', 'Pay request metadata has no text/plain entry');
+  }
+
+  return {
+    tag: 'payRequest',
+    callback: callbackUrl.toString(),
+    minSendable: minSendable as number,
+    maxSendable: maxSendable as number,
+    metadata,
+    commentAllowed: Number.isSafeInteger(commentAllowed) && (commentAllowed as number) > 0 ? (commentAllowed as number) : 0,
+  };
+};
+
+/**
+ * Describe a Resolved Pay Request for the API
+ */
+export const toResolvedPayRequestResponse = (target: string, payRequest: LnurlPayRequest): ResolvedPayRequestResponse => {
+  const url = toPayRequestUrl(target);
+  return {
+    target: target.trim(),
+    url,
+    domain: new URL(url).host,
+    description: toMetadataDescription(payRequest.metadata),
+    min_sendable: payRequest.minSendable,
+    max_sendable: payRequest.maxSendable,
+    comment_allowed: payRequest.commentAllowed,
+  };
+};
+
+/**
+ * Fetch an Invoice from a Pay Request
+ *
+ * @param payRequest - Pay request from resolvePayRequest
+ * @param amountMsat - Amount in millisatoshis, within the request's range
+ * @param comment - Optional payer comment (LUD-12)
+ * @returns BOLT11 invoice for exactly amountMsat that commits to the metadata
+ * @throws [status, 'LnurlPayFailed', { reason, code }]
+ */
+export const fetchPayInvoice = async (
+  payRequest: LnurlPayRequest,
+  amountMsat: number,
+  comment?: string
+): Promise<string> => {
+  if (amountMsat < payRequest.minSendable || amountMsat > payRequest.maxSendable) {
+    throw fail(
+      400,
+      'AMOUNT_OUT_OF_RANGE',
+      `Amount must be between ${Math.ceil(payRequest.minSendable / 1000)} and ${Math.floor(payRequest.maxSendable / 1000)} sats`
+    );
+  }
+
+  if (comment && comment.length > payRequest.commentAllowed) {
+    throw fail(
+      400,
+      'COMMENT_TOO_LONG',
+      payRequest.commentAllowed
+        ? `Comment must be at most ${payRequest.commentAllowed} characters`
+        : 'This recipient does not accept comments'
+    );
+  }
+
+  const callback = new URL(payRequest.callback);
+  callback.searchParams.set('amount', String(amountMsat));
+  if (comment) {
+    callback.searchParams.set('comment', comment);
+  }
+
+  const { pr } = await fetchJson(callback.toString());
+  if (typeof pr !== 'string') {
+    throw fail(502, 'INVALID_PAY_REQUEST', 'LNURL service answered without an invoice');
+  }
+
+  let invoice;
+  try {
+    invoice = decodeBolt11(pr);
+  } catch (error: any) {
+    throw fail(502, 'INVOICE_MISMATCH', `LNURL service returned an invalid invoice: ${error?.[2]?.reason ?? 'undecodable'}`);
+  }
+
+  if (invoice.amount_msat !== BigInt(amountMsat)) {
+    throw fail(502, 'INVOICE_MISMATCH', 'Invoice amount differs from the amount requested');
+  }
+
+  const metadataHash = createHash('sha256').update(payRequest.metadata, 'utf8').digest('hex');
+  if (invoice.description_hash !== metadataHash) {
+    throw fail(502, 'INVOICE_MISMATCH', 'Invoice description hash does not match the pay request metadata');
+  }
+
+  return pr;
+};
+
+/**
+ * Map an LNURL Payment Failure to an API Error
+ *
+ * @returns Status, message and code, or null if the error is something else
+ */
+export const toLnurlFailure = (
+  error: unknown
+): { status: number; error: string; code: LnurlFailureCode } | null => {
+  if (!Array.isArray(error) || error[1] !== 'LnurlPayFailed') return null;
+
+  const [status, , details] = error;
+  return { status, error: details.reason, code: details.code };
+};
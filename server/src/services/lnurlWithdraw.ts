@@ -0,0 +1,235 @@
+/**
+ * LNURL-withdraw Service
+ *
+ * Vouchers funded by a node (LUD-03): a withdraw link is an LNURL a wallet
+ * scans to pull an amount within the link's bounds. The wallet sends an
+ * invoice to the callback and the node pays it. Links have a number of uses
+ * and an optional expiry, and can be disabled.
+ *
+ * Redemptions are outgoing payments of the node, so each one must pass the
+ * spending policy (services/spendingPolicy.ts) like any other payment. No one
+ * is there to approve a redemption, so payouts above the approval threshold
+ * are refused.
+ *
+ * Each redemption is a payment row linked to the voucher. A wallet sending
+ * the same invoice again gets the recorded payment back instead of a second
+ * payment, and a payment that fails gives its use back; sending its invoice
+ * again is refused.
+ */
+
+import { randomBytes } from 'crypto';
+import { Payment, Prisma, WithdrawLink } from '@prisma/client';
+import { prisma } from '../db/database.js';
+import { decodeInvoice } from './lightning.js';
+import { sendPayment } from './paymentTracker.js';
+import { encodeLnurl } from './lnurl.js';
+import { authorizePayment, needsApproval, toSpendingFailure } from './spendingPolicy.js';
+import { getLnurlConfig } from '../config/lnurl.js';
+import { getDefaultPaymentLimits, resolveMaxFee } from '../config/payments.js';
+import { LnurlWithdrawRequest, WithdrawLinkResponse, WithdrawLinkStatus } from '../types/lnurl.js';
+
+const refuse = (reason: string) => [400, 'WithdrawRefused', { reason }];
+
+/**
+ * Payment a Wallet Gets Back for an Invoice It Sent Before
+ *
+ * A failed payment gave its use back and won't be paid, so the wallet is
+ * told to send a new invoice instead of being told it was paid.
+ */
+const toRepeatedRedemption = (payment: Payment, link: WithdrawLink): Payment => {
+  if (payment.withdrawLinkId !== link.id) {
+    throw refuse('Invoice has already been paid');
+  }
+  if (payment.status === 'failed') {
+    throw refuse('Payment of this invoice failed, send a new invoice');
+  }
+  return payment;
+};
+
+const REFUSALS: Record<Exclude<WithdrawLinkStatus, 'active'>, string> = {
+  exhausted: 'This voucher has been used up',
+  expired: 'This voucher has expired',
+  disabled: 'This voucher has been disabled',
+};
+
+/**
+ * New Secret for a Withdraw Link
+ *
+ * The secret is the voucher: anyone holding the link can redeem it.
+ */
+export const createWithdrawK1 = (): string => randomBytes(32).toString('hex');
+
+/**
+ * URL of a Withdraw Link
+ */
+export const toWithdrawUrl = (k1: string): string => `${getLnurlConfig().baseUrl}/api/lnurl/withdraw/${k1}`;
+
+/**
+ * Whether a Withdraw Link Can Be Redeemed
+ */
+export const getWithdrawLinkStatus = (link: WithdrawLink, now: Date = new Date()): WithdrawLinkStatus => {
+  if (link.disabledAt) return 'disabled';
+  if (link.expiresAt && link.expiresAt <= now) return 'expired';
+  if (link.uses >= link.maxUses) return 'exhausted';
+  return 'active';
+};
+
+/**
+ * Withdraw Request for a Link (LUD-03)
+ */
+export const toWithdrawRequest = (link: WithdrawLink): LnurlWithdrawRequest => ({
+  tag: 'withdrawRequest',
+  callback: `${getLnurlConfig().baseUrl}/api/lnurl/withdraw/callback`,
+  k1: link.k1,
+  defaultDescription: link.description || 'Voucher withdrawal',
+  minWithdrawable: Number(link.minWithdrawable),
+  maxWithdrawable: Number(link.maxWithdrawable),
+});
+
+/**
+ * Describe a Withdraw Link for the API
+ */
+export const toWithdrawLinkResponse = (link: WithdrawLink): WithdrawLinkResponse => ({
+  id: link.id,
+  node_id: link.nodeId,
+  lnurl: encodeLnurl(toWithdrawUrl(link.k1)),
+  description: link.description,
+  min_withdrawable: Number(link.minWithdrawable),
+  max_withdrawable: Number(link.maxWithdrawable),
+  max_uses: link.maxUses,
+  uses: link.uses,
+  status: getWithdrawLinkStatus(link),
+  expires_at: link.expiresAt,
+  disabled_at: link.disabledAt,
+  created_at: link.createdAt,
+});
+
+/**
+ * Redeem a Withdraw Link by Paying the Wallet's Invoice
+ *
+ * The invoice must be valid for the paying node's network, unexpired, and
+ * for an amount within the link's bounds. One use is taken before the
+ * payment is checked against the spending policy, recorded and sent in the
+ * background; the use is given back if the policy refuses the payment or the
+ * payment fails.
+ *
+ * @param link - Withdraw link being redeemed
+ * @param paymentRequest - Invoice from the wallet
+ * @returns Payment row for the redemption (the existing one for a repeated invoice that didn't fail)
+ * @throws [400, 'WithdrawRefused', { reason }] if the link or invoice can't be used, or the spending policy refuses it
+ * @throws [400, 'InvalidPaymentRequest', { reason, code }] if the invoice is malformed
+ */
+export const redeemWithdrawLink = async (link: WithdrawLink, paymentRequest: string): Promise<Payment> => {
+  const decoded = await decodeInvoice(paymentRequest, link.nodeId);
+
+  // A wallet retrying the callback gets the payment it already started
+  const existing = await prisma.payment.findUnique({
+    where: { paymentHash: decoded.payment_hash },
+  });
+  if (existing) {
+    return toRepeatedRedemption(existing, link);
+  }
+
+  const status = getWithdrawLinkStatus(link);
+  if (status !== 'active') {
+    throw refuse(REFUSALS[status]);
+  }
+
+  if (!decoded.signature_valid) {
+    throw refuse('Invoice signature does not match its payee');
+  }
+  if (new Date(decoded.expires_at) < new Date()) {
+    throw refuse('Invoice has expired');
+  }
+  if (decoded.amount_msat < link.minWithdrawable || decoded.amount_msat > link.maxWithdrawable) {
+    throw refuse(
+      `Invoice amount must be between ${link.minWithdrawable} and ${link.maxWithdrawable} millisatoshis`
+    );
+  }
+  if (needsApproval(decoded.amount)) {
+    throw refuse('Voucher payouts above the approval threshold are not allowed');
+  }
+
+  // Take a use only while one is left, so concurrent redemptions can't overdraw the link
+  const now = new Date();
+  const { count } = await prisma.withdrawLink.updateMany({
+    where: {
+      id: link.id,
+      disabledAt: null,
+      uses: { lt: prisma.withdrawLink.fields.maxUses },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    },
+    data: { uses: { increment: 1 }, updatedAt: now },
+  });
+  if (count === 0) {
+    throw refuse(REFUSALS.exhausted);
+  }
+
+  const limits = getDefaultPaymentLimits();
+  const maxFee = resolveMaxFee(decoded.amount, limits);
+
+  let payment: Payment;
+  try {
+    payment = await authorizePayment(
+      { nodeId: link.nodeId, amount: decoded.amount, destination: decoded.destination },
+      () =>
+        prisma.payment.create({
+          data: {
+            paymentHash: decoded.payment_hash,
+            paymentRequest,
+            nodeId: link.nodeId,
+            amount: decoded.amount,
+            fee: 0,
+            maxFee,
+            timeoutSeconds: limits.timeoutSeconds,
+            status: 'pending',
+            description: decoded.description || null,
+            destination: decoded.destination,
+            retryCount: 0,
+            withdrawLinkId: link.id,
+          },
+        })
+    );
+  } catch (error) {
+    await prisma.withdrawLink.updateMany({
+      where: { id: link.id, uses: { gt: 0 } },
+      data: { uses: { decrement: 1 } },
+    });
+
+    const spendingFailure = toSpendingFailure(error);
+    if (spendingFailure) {
+      throw refuse(spendingFailure.error);
+    }
+
+    // The same invoice arrived twice at once; the other request pays it
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const raced = await prisma.payment.findUnique({ where: { paymentHash: decoded.payment_hash } });
+      if (raced) return toRepeatedRedemption(raced, link);
+      throw refuse('Invoice has already been paid');
+    }
+    throw error;
+  }
+
+  sendPayment({
+    paymentHash: payment.paymentHash,
+    paymentRequest,
+    nodeId: link.nodeId,
+    maxFee,
+    timeoutSeconds: limits.timeoutSeconds,
+    withdrawLinkId: link.id,
+  });
+
+  return payment;
+};
+
+/**
+ * Map a Refused Redemption to an LNURL Error Reason
+ *
+ * @returns Status and reason, or null if the error is something else
+ */
+export const toWithdrawFailure = (error: unknown): { status: number; reason: string } | null => {
+  if (!Array.isArray(error) || error[1] !== 'WithdrawRefused') return null;
+
+  const [status, , details] = error;
+  return { status, reason: details.reason };
+};
@@ -0,0 +1,159 @@
+/**
+ * Payment Approvals
+ *
+ * Payments above the approval threshold (see config/payments.ts) are stored
+ * as `awaiting_approval` instead of being sent. A second API key approves
+ * them, which sends them through the payment tracker like any other payment,
+ * or rejects them, which fails them without sending anything.
+ *
+ * The key that requested a payment can't review it. The admin key counts as
+ * one key of its own.
+ */
+
+import { Payment } from '@prisma/client';
+import { prisma } from '../db/database.js';
+import { logger } from '../lib/logger.js';
+import { decodeInvoice } from './lightning.js';
+import { getNextAttemptNumber, sendPayment, toTrackedPayment } from './paymentTracker.js';
+import { notifyPaymentEvent } from './webhooks.js';
+import { publishPaymentUpdate } from './realtime.js';
+import { ApprovalRefusalCode, NodeId } from '../types/lightning.js';
+
+const refuse = (status: number, code: ApprovalRefusalCode, reason: string) => [
+  status,
+  'ApprovalRefused',
+  { reason, code },
+];
+
+/**
+ * Load a Payment the Reviewer May Decide On
+ *
+ * @throws Tuple [status, 'ApprovalRefused', { reason, code }]
+ */
+const getReviewablePayment = async (paymentHash: string, reviewer: string, nodeId?: NodeId): Promise<Payment> => {
+  const payment = await prisma.payment.findUnique({ where: { paymentHash } });
+
+  if (!payment || (nodeId && payment.nodeId !== nodeId)) {
+    throw refuse(404, 'PAYMENT_NOT_FOUND', 'Payment not found');
+  }
+  if (payment.status !== 'awaiting_approval') {
+    throw refuse(409, 'NOT_AWAITING_APPROVAL', `Payment is ${payment.status}, not awaiting approval`);
+  }
+  if (payment.requestedBy && payment.requestedBy === reviewer) {
+    throw refuse(403, 'SAME_API_KEY', 'Review the payment with a different API key than the one that requested it');
+  }
+
+  return payment;
+};
+
+/**
+ * Fail a Payment That Was Never Sent
+ *
+ * @returns Whether the payment was still awaiting approval
+ */
+const failUnsent = async (payment: Payment, reviewer: string, reason: string, now: Date): Promise<boolean> => {
+  const { count } = await prisma.payment.updateMany({
+    where: { paymentHash: payment.paymentHash, status: 'awaiting_approval' },
+    data: { status: 'failed', errorMessage: reason, reviewedBy: reviewer, reviewedAt: now, updatedAt: now },
+  });
+
+  if (count > 0) {
+    publishPaymentUpdate({
+      payment_hash: payment.paymentHash,
+      node_id: payment.nodeId,
+      status: 'failed',
+      attempt: 0,
+      fee: null,
+      preimage: null,
+      error_message: reason,
+      failure_code: null,
+    });
+    notifyPaymentEvent('payment.failed', payment.paymentHash);
+  }
+
+  return count > 0;
+};
+
+/**
+ * Approve a Payment and Send It
+ *
+ * Invoices are decoded again first: one that expired while waiting can't be
+ * paid any more, so the payment is failed instead.
+ *
+ * @param paymentHash - Payment awaiting approval
+ * @param reviewer - Identity of the approving API key
+ * @param nodeId - Only approve payments from this node
+ * @returns The payment, now `pending`
+ * @throws Tuple [status, 'ApprovalRefused', { reason, code }] when refused
+ */
+export const approvePayment = async (paymentHash: string, reviewer: string, nodeId?: NodeId): Promise<Payment> => {
+  const payment = await getReviewablePayment(paymentHash, reviewer, nodeId);
+
+  if (payment.paymentRequest) {
+    const decoded = await decodeInvoice(payment.paymentRequest, payment.nodeId);
+
+    if (new Date(decoded.expires_at) < new Date()) {
+      await failUnsent(payment, reviewer, 'Invoice expired before the payment was approved', new Date());
+      logger.warn({ paymentHash, reviewer }, 'Approved payment has an expired invoice');
+      throw refuse(409, 'INVOICE_EXPIRED', 'Invoice has expired; the payment was failed');
+    }
+  }
+
+  // Only one reviewer gets to move the payment on
+  const now = new Date();
+  const { count } = await prisma.payment.updateMany({
+    where: { paymentHash, status: 'awaiting_approval' },
+    data: { status: 'pending', reviewedBy: reviewer, reviewedAt: now, updatedAt: now },
+  });
+  if (count === 0) {
+    throw refuse(409, 'NOT_AWAITING_APPROVAL', 'Payment was reviewed in the meantime');
+  }
+
+  logger.info({ paymentHash, reviewer, requestedBy: payment.requestedBy }, 'Payment approved');
+  // A payment retried after failing keeps counting its attempts
+  sendPayment(toTrackedPayment(payment), await getNextAttemptNumber(paymentHash));
+
+  return { ...payment, status: 'pending', reviewedBy: reviewer, reviewedAt: now, updatedAt: now };
+};
+
+/**
+ * Reject a Payment
+ *
+ * @param paymentHash - Payment awaiting approval
+ * @param reviewer - Identity of the rejecting API key
+ * @param reason - Why it was rejected, kept as the payment's error message
+ * @param nodeId - Only reject payments from this node
+ * @returns The payment, now `failed`
+ * @throws Tuple [status, 'ApprovalRefused', { reason, code }] when refused
+ */
+export const rejectPayment = async (
+  paymentHash: string,
+  reviewer: string,
+  reason?: string,
+  nodeId?: NodeId
+): Promise<Payment> => {
+  const payment = await getReviewablePayment(paymentHash, reviewer, nodeId);
+  const errorMessage = reason ? `Payment rejected: ${reason}` : 'Payment rejected';
+  const now = new Date();
+
+  if (!(await failUnsent(payment, reviewer, errorMessage, now))) {
+    throw refuse(409, 'NOT_AWAITING_APPROVAL', 'Payment was reviewed in the meantime');
+  }
+
+  logger.info({ paymentHash, reviewer, requestedBy: payment.requestedBy }, 'Payment rejected');
+  return { ...payment, status: 'failed', errorMessage, reviewedBy: reviewer, reviewedAt: now, updatedAt: now };
+};
+
+/**
+ * Map a Refused Review to an API Error
+ *
+ * @returns Status, message and code, or null if the error is something else
+ */
+export const toApprovalFailure = (
+  error: unknown
+): { status: number; error: string; code: ApprovalRefusalCode } | null => {
+  if (!Array.isArray(error) || error[1] !== 'ApprovalRefused') return null;
+
+  const [status, , details] = error;
+  return { status, error: details.reason, code: details.code };
+};
@@ -0,0 +1,570 @@
+/**
+ * Payment Tracker
+ *
+ * Payments are sent in the background. The payment route stores a `pending`
+ * row and hands it to the tracker, which follows the payment through the
+ * node's payment subscription and records the outcome: preimage and fee when
+ * it succeeds, the failure reason when it fails.
+ *
+ * Keysend payments go through the same steps, sent to the destination's
+ * public key with the preimage chosen when the row was created.
+ *
+ * Every try is recorded as a PaymentAttempt with its route, fee and failure
+ * code. Failed attempts are retried according to the payment retry policy
+ * (see config/payments.ts). Every attempt, retry and outcome is pushed to
+ * Socket.IO subscribers as `payment:updated`; final outcomes are also sent
+ * to webhooks as payment.succeeded / payment.failed.
+ *
+ * On startup every `pending` row is picked up again with a past-payment
+ * subscription, so payments that outlive a restart are still resolved.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/database.js';
+import { startPayment, startKeysend, trackPayment, estimatePaymentFee } from './lightning.js';
+import { notifyInvoiceEvent, notifyPaymentEvent } from './webhooks.js';
+import { publishPaymentUpdate } from './realtime.js';
+import { getPaymentRetryPolicy, getRetryDelay } from '../config/payments.js';
+import {
+  CustomRecord,
+  KeysendRequest,
+  NodeId,
+  PayInvoiceRequest,
+  PaymentFailureCode,
+} from '../types/lightning.js';
+import {
+  BackendPayment,
+  BackendPaymentFailure,
+  BackendPaymentSubscription,
+  BackendRoutingFailure,
+} from '../types/backend.js';
+import { logger } from '../lib/logger.js';
+import { requestHasAmount } from '../lib/bolt11.js';
+
+/**
+ * Payment being tracked
+ */
+interface TrackedPayment {
+  paymentHash: string;
+  paymentRequest: string | null; // Invoice to pay (null for keysend)
+  keysend?: Pick<KeysendRequest, 'destination' | 'preimage' | 'message' | 'custom_records'> | null;
+  nodeId: NodeId;
+  amount?: number | null; // Amount to send, only for zero-amount invoices and keysend
+  maxFee?: number | null; // Routing fee cap in satoshis
+  timeoutSeconds?: number | null; // Time an attempt may spend finding a route
+  withdrawLinkId?: string | null; // Voucher the payment redeems; a failed payment gives its use back
+}
+
+// How long to wait before following a payment again after the node was unreachable
+const RETRY_DELAY_MS = Number(process.env.PAYMENT_TRACKER_RETRY_MS || 30_000);
+
+const FAILURE_MESSAGES: Record<PaymentFailureCode, string> = {
+  insufficient_balance: 'Insufficient balance to send payment',
+  incorrect_payment_details: 'Payment rejected by destination',
+  route_not_found: 'No route found to destination',
+  pathfinding_timeout: 'Timed out looking for a route',
+  temporary_channel_failure: 'A channel along the route could not forward the payment',
+  fee_limit_exceeded: 'No route found within the fee limit',
+  canceled: 'Payment was canceled',
+  unknown: 'Payment failed',
+};
+
+const subscriptions = new Map<string, BackendPaymentSubscription>();
+const timers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Classify why a payment attempt failed
+ *
+ * @param failure - Failure flags reported by the node
+ * @param routingFailures - HTLC failures seen along the way
+ */
+export const classifyPaymentFailure = (
+  failure: BackendPaymentFailure,
+  routingFailures: BackendRoutingFailure[] = []
+): PaymentFailureCode => {
+  if (failure.is_insufficient_balance) return 'insufficient_balance';
+  if (failure.is_invalid_payment) return 'incorrect_payment_details';
+  if (failure.is_canceled) return 'canceled';
+  if (failure.is_pathfinding_timeout) return 'pathfinding_timeout';
+  if (routingFailures.some((f) => f.reason === 'TemporaryChannelFailure')) {
+    return 'temporary_channel_failure';
+  }
+  if (failure.is_route_not_found) return 'route_not_found';
+  return 'unknown';
+};
+
+/**
+ * Invoice and amount to hand to the node
+ */
+const toPayRequest = (paymentRequest: string, payment: TrackedPayment): PayInvoiceRequest => ({
+  payment_request: paymentRequest,
+  ...(payment.amount && { amount: payment.amount }),
+});
+
+/**
+ * Ask the node to send a payment, by invoice or keysend
+ */
+const dispatch = (payment: TrackedPayment): BackendPaymentSubscription => {
+  const limits = {
+    ...(payment.maxFee != null && { max_fee_sats: payment.maxFee }),
+    ...(payment.timeoutSeconds && { timeout_seconds: payment.timeoutSeconds }),
+  };
+
+  if (payment.keysend) {
+    return startKeysend(
+      { ...payment.keysend, amount: payment.amount ?? 0, ...limits },
+      payment.nodeId
+    );
+  }
+
+  return startPayment(
+    { ...toPayRequest(payment.paymentRequest ?? '', payment), ...limits },
+    payment.nodeId
+  );
+};
+
+/**
+ * Describe an ln-service `[code, message, details]` error
+ */
+const describeError = (error: unknown): string => {
+  if (Array.isArray(error)) {
+    const details = error[2]?.err?.details || error[2]?.err?.message;
+    return details || error[1] || 'Payment failed';
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * Tell a fee cap that rules out every route apart from having no route at all
+ *
+ * LND reports both as "no route", so ask for a route without the cap.
+ */
+const refineFailure = async (
+  payment: TrackedPayment,
+  code: PaymentFailureCode
+): Promise<PaymentFailureCode> => {
+  if (code !== 'route_not_found' || payment.maxFee == null || !payment.paymentRequest) {
+    return code;
+  }
+
+  const fee = await estimatePaymentFee(toPayRequest(payment.paymentRequest, payment), payment.nodeId)
+    .catch(() => null);
+
+  return fee !== null && fee > payment.maxFee ? 'fee_limit_exceeded' : code;
+};
+
+const isNotFound = (error: unknown): boolean =>
+  Array.isArray(error) && error[1] === 'SentPaymentNotFound';
+
+const persist = (paymentHash: string, write: Promise<unknown>): void => {
+  write.catch((err) => logger.error({ paymentHash, err }, 'Could not record payment result'));
+};
+
+/**
+ * Record the end of an attempt
+ */
+const finishAttempt = (
+  paymentHash: string,
+  attemptNumber: number,
+  data: Prisma.PaymentAttemptUpdateManyMutationInput
+) =>
+  prisma.paymentAttempt.updateMany({
+    where: { paymentHash, attemptNumber, status: 'pending' },
+    data: { ...data, finishedAt: new Date() },
+  });
+
+/**
+ * Record a successful payment (and settle our own invoice, if it was one)
+ */
+const recordSuccess = async (
+  tracked: TrackedPayment,
+  attemptNumber: number,
+  payment: BackendPayment
+): Promise<void> => {
+  const { paymentHash } = tracked;
+  const now = new Date();
+
+  await finishAttempt(paymentHash, attemptNumber, {
+    status: 'succeeded',
+    fee: payment.fee,
+    ...(payment.hops?.length && { route: payment.hops as unknown as Prisma.InputJsonValue }),
+  });
+
+  const { count } = await prisma.payment.updateMany({
+    where: { paymentHash, status: 'pending' },
+    data: {
+      status: 'succeeded',
+      preimage: payment.secret,
+      fee: payment.fee,
+      errorMessage: null,
+      settledAt: now,
+      updatedAt: now,
+    },
+  });
+
+  if (count > 0) {
+    publishPaymentUpdate({
+      payment_hash: paymentHash,
+      node_id: tracked.nodeId,
+      status: 'succeeded',
+      attempt: attemptNumber,
+      fee: payment.fee,
+      preimage: payment.secret,
+      error_message: null,
+      failure_code: null,
+    });
+    notifyPaymentEvent('payment.succeeded', paymentHash);
+  }
+
+  const settled = await prisma.invoice.updateMany({
+    where: { paymentHash, status: { not: 'succeeded' } },
+    data: {
+      status: 'succeeded',
+      preimage: payment.secret,
+      receivedAmount: payment.tokens,
+      settledAt: now,
+      updatedAt: now,
+    },
+  });
+
+  if (settled.count > 0) {
+    notifyInvoiceEvent('invoice.settled', paymentHash);
+  }
+
+  logger.info({ paymentHash, attempt: attemptNumber, fee: payment.fee }, 'Payment succeeded');
+};
+
+/**
+ * Record a failed attempt, then retry or fail the payment
+ */
+const recordFailure = async (
+  payment: TrackedPayment,
+  attemptNumber: number,
+  code: PaymentFailureCode,
+  reason: string = FAILURE_MESSAGES[code]
+): Promise<void> => {
+  const { paymentHash } = payment;
+  const policy = getPaymentRetryPolicy();
+  const update = {
+    payment_hash: paymentHash,
+    node_id: payment.nodeId,
+    attempt: attemptNumber,
+    fee: null,
+    preimage: null,
+    error_message: reason,
+    failure_code: code,
+  };
+
+  await finishAttempt(paymentHash, attemptNumber, {
+    status: 'failed',
+    failureCode: code,
+    failureReason: reason,
+  });
+
+  if (policy.retryableFailures.includes(code) && attemptNumber < policy.maxAttempts) {
+    const delay = getRetryDelay(policy, attemptNumber);
+
+    logger.info(
+      { paymentHash, attempt: attemptNumber, code, retryInMs: delay },
+      'Payment attempt failed, retrying'
+    );
+
+    await prisma.payment.updateMany({
+      where: { paymentHash, status: 'pending' },
+      data: { errorMessage: reason, updatedAt: new Date() },
+    });
+
+    publishPaymentUpdate({ ...update, status: 'pending' });
+    schedule(paymentHash, delay, () => startAttempt(payment, attemptNumber + 1));
+    return;
+  }
+
+  const { count } = await prisma.payment.updateMany({
+    where: { paymentHash, status: 'pending' },
+    data: {
+      status: 'failed',
+      errorMessage: reason,
+      updatedAt: new Date(),
+    },
+  });
+
+  if (count > 0) {
+    publishPaymentUpdate({ ...update, status: 'failed' });
+    notifyPaymentEvent('payment.failed', paymentHash);
+  }
+
+  if (count > 0 && payment.withdrawLinkId) {
+    await prisma.withdrawLink.updateMany({
+      where: { id: payment.withdrawLinkId, uses: { gt: 0 } },
+      data: { uses: { decrement: 1 }, updatedAt: new Date() },
+    });
+  }
+
+  logger.warn({ paymentHash, attempt: attemptNumber, code, reason }, 'Payment failed');
+};
+
+const stopFollowing = (paymentHash: string): void => {
+  subscriptions.get(paymentHash)?.removeAllListeners();
+  subscriptions.delete(paymentHash);
+
+  clearTimeout(timers.get(paymentHash));
+  timers.delete(paymentHash);
+};
+
+const schedule = (paymentHash: string, delayMs: number, run: () => void): void => {
+  stopFollowing(paymentHash);
+
+  const timer = setTimeout(() => {
+    timers.delete(paymentHash);
+    run();
+  }, delayMs);
+  timer.unref();
+
+  timers.set(paymentHash, timer);
+};
+
+/**
+ * Follow an attempt's subscription until it confirms, fails or errors
+ */
+const follow = (
+  payment: TrackedPayment,
+  attemptNumber: number,
+  subscription: BackendPaymentSubscription,
+  onError: (error: unknown) => void
+): void => {
+  const { paymentHash } = payment;
+  const routingFailures: BackendRoutingFailure[] = [];
+
+  stopFollowing(paymentHash);
+  subscriptions.set(paymentHash, subscription);
+
+  subscription.on('paying', ({ hops }) => {
+    if (!hops.length) return;
+    persist(
+      paymentHash,
+      prisma.paymentAttempt.updateMany({
+        where: { paymentHash, attemptNumber },
+        data: { route: hops as unknown as Prisma.InputJsonValue },
+      })
+    );
+  });
+
+  subscription.on('routing_failure', (failure) => routingFailures.push(failure));
+
+  subscription.on('confirmed', (result) => {
+    stopFollowing(paymentHash);
+    persist(paymentHash, recordSuccess(payment, attemptNumber, result));
+  });
+
+  subscription.on('failed', (failure) => {
+    stopFollowing(paymentHash);
+    const code = classifyPaymentFailure(failure, routingFailures);
+    persist(
+      paymentHash,
+      refineFailure(payment, code).then((refined) => recordFailure(payment, attemptNumber, refined))
+    );
+  });
+
+  subscription.on('error', (error) => {
+    stopFollowing(paymentHash);
+    onError(error);
+  });
+};
+
+/**
+ * Follow an attempt the node has already been asked to send
+ *
+ * @param sendError - Error from sending, used as the failure reason if the
+ *                    node has no record of the payment
+ */
+const resume = (payment: TrackedPayment, attemptNumber: number, sendError?: unknown): void => {
+  const { paymentHash, nodeId } = payment;
+  let subscription: BackendPaymentSubscription;
+
+  const retryLater = (error: unknown) => {
+    logger.warn(
+      { paymentHash, node: nodeId, err: describeError(error), retryInMs: RETRY_DELAY_MS },
+      'Could not track payment, retrying'
+    );
+    schedule(paymentHash, RETRY_DELAY_MS, () => resume(payment, attemptNumber));
+  };
+
+  try {
+    subscription = trackPayment(paymentHash, nodeId);
+  } catch (error) {
+    retryLater(error);
+    return;
+  }
+
+  follow(payment, attemptNumber, subscription, (error) => {
+    if (isNotFound(error)) {
+      const reason = sendError ? describeError(sendError) : 'Payment was never sent by the node';
+      persist(paymentHash, recordFailure(payment, attemptNumber, 'unknown', reason));
+      return;
+    }
+
+    retryLater(error);
+  });
+};
+
+/**
+ * Record a new attempt and send it
+ */
+const startAttempt = async (payment: TrackedPayment, attemptNumber: number): Promise<void> => {
+  const { paymentHash } = payment;
+
+  try {
+    await prisma.paymentAttempt.create({
+      data: { paymentHash, attemptNumber },
+    });
+
+    if (attemptNumber > 1) {
+      await prisma.payment.updateMany({
+        where: { paymentHash },
+        data: { retryCount: attemptNumber - 1, updatedAt: new Date() },
+      });
+    }
+  } catch (err) {
+    // The payment stays pending and is picked up again on the next start
+    logger.error({ paymentHash, attempt: attemptNumber, err }, 'Could not record payment attempt');
+    return;
+  }
+
+  publishPaymentUpdate({
+    payment_hash: paymentHash,
+    node_id: payment.nodeId,
+    status: 'pending',
+    attempt: attemptNumber,
+    fee: null,
+    preimage: null,
+    error_message: null,
+    failure_code: null,
+  });
+
+  let subscription: BackendPaymentSubscription;
+
+  try {
+    subscription = dispatch(payment);
+  } catch (error) {
+    resume(payment, attemptNumber, error);
+    return;
+  }
+
+  follow(payment, attemptNumber, subscription, (error) => resume(payment, attemptNumber, error));
+};
+
+/**
+ * Send a Payment in the Background
+ *
+ * The payment row must already exist with status `pending`. If sending
+ * errors, the node is asked whether the payment went out anyway before the
+ * attempt is marked as failed.
+ *
+ * @param payment - Row identity and the invoice or keysend details to pay
+ * @param attemptNumber - First attempt to make; payments sent again after failing continue their count
+ */
+export const sendPayment = (payment: TrackedPayment, attemptNumber: number = 1): void => {
+  void startAttempt(payment, attemptNumber);
+};
+
+/**
+ * Number of the Next Attempt for a Payment
+ *
+ * @returns 1 for a payment that was never sent
+ */
+export const getNextAttemptNumber = async (paymentHash: string): Promise<number> => {
+  const last = await prisma.paymentAttempt.findFirst({
+    where: { paymentHash },
+    orderBy: { attemptNumber: 'desc' },
+    select: { attemptNumber: true },
+  });
+
+  return (last?.attemptNumber ?? 0) + 1;
+};
+
+// Payment columns needed to send or resume a payment
+const TRACKED_PAYMENT_SELECT = {
+  paymentHash: true,
+  paymentRequest: true,
+  kind: true,
+  nodeId: true,
+  amount: true,
+  destination: true,
+  preimage: true,
+  description: true,
+  customRecords: true,
+  maxFee: true,
+  timeoutSeconds: true,
+  withdrawLinkId: true,
+} satisfies Prisma.PaymentSelect;
+
+/**
+ * Rebuild the Payment to Send from Its Row
+ *
+ * @param row - Payment row with the tracked columns
+ * @returns Payment as `sendPayment` takes it
+ */
+export const toTrackedPayment = (
+  row: Prisma.PaymentGetPayload<{ select: typeof TRACKED_PAYMENT_SELECT }>
+): TrackedPayment => ({
+  paymentHash: row.paymentHash,
+  paymentRequest: row.paymentRequest,
+  nodeId: row.nodeId,
+  timeoutSeconds: row.timeoutSeconds,
+  withdrawLinkId: row.withdrawLinkId,
+  // Keysend rows keep the message as their description
+  keysend: row.kind === 'keysend'
+    ? {
+      destination: row.destination ?? '',
+      preimage: row.preimage ?? '',
+      message: row.description ?? undefined,
+      custom_records: (row.customRecords as unknown as CustomRecord[] | null) ?? undefined,
+    }
+    : null,
+  amount: row.paymentRequest && requestHasAmount(row.paymentRequest) ? null : Number(row.amount),
+  maxFee: row.maxFee == null ? null : Number(row.maxFee),
+});
+
+/**
+ * Resume Tracking Pending Payments
+ *
+ * Called on startup to follow every payment still marked `pending`.
+ * Payments without any attempt were never sent and are sent now.
+ *
+ * @returns Number of payments being tracked
+ */
+export const resumePendingPayments = async (): Promise<number> => {
+  const pending = await prisma.payment.findMany({
+    where: { status: 'pending' },
+    select: {
+      ...TRACKED_PAYMENT_SELECT,
+      attempts: {
+        select: { attemptNumber: true },
+        orderBy: { attemptNumber: 'desc' },
+        take: 1,
+      },
+    },
+  });
+
+  for (const { attempts, ...row } of pending) {
+    const payment = toTrackedPayment(row);
+
+    if (attempts.length) {
+      resume(payment, attempts[0].attemptNumber);
+    } else {
+      void startAttempt(payment, 1);
+    }
+  }
+
+  return pending.length;
+};
+
+/**
+ * Stop Tracking Payments
+ *
+ * Drops every subscription and scheduled retry on shutdown. Payments stay
+ * `pending` and are picked up again on the next start.
+ */
+export const stopPaymentTracker = (): void => {
+  [...subscriptions.keys(), ...timers.keys()].forEach(stopFollowing);
+};
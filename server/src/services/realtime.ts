@@ -0,0 +1,181 @@
+/**
+ * Real-time Updates
+ *
+ * Pushes invoice and payment changes to Socket.IO clients. Events go to
+ * rooms rather than to everyone, since they carry preimages: a client joins
+ * `payment:<hash>` for a single payment hash or `node:<id>` for everything a
+ * node does, by sending `subscribe` with `{ payment_hash }` or `{ node_id }`.
+ *
+ * Clients send their API key in the handshake (`auth: { token }` or an
+ * `Authorization: Bearer` header). Node rooms need a key with the read scope.
+ * Anyone may follow a payment hash, but a hash is no secret (it is in the
+ * invoice), so clients without such a key get its events without the
+ * preimage. An unknown or revoked key is refused at connection.
+ *
+ * Rooms are per connection; clients subscribe again after reconnecting.
+ */
+
+import { Server, Socket } from 'socket.io';
+import { findNode } from '../config/lightning.js';
+import { logger } from '../lib/logger.js';
+import { authenticateApiKey, hasScope } from './apiKeys.js';
+import { ApiKeyPrincipal } from '../types/apiKeys.js';
+import {
+  ClientToServerEvents,
+  InvoiceUpdateEvent,
+  PaymentUpdateEvent,
+  ServerToClientEvents,
+  SocketData,
+  SubscriptionAck,
+  SubscriptionRequest,
+} from '../types/realtime.js';
+
+// No events between servers
+type InterServerEvents = Record<string, never>;
+
+export type RealtimeServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+type RealtimeSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+const PAYMENT_HASH = /^[0-9a-f]{64}$/i;
+
+// Server events are published to; null until attached
+let server: RealtimeServer | null = null;
+
+export const paymentRoom = (paymentHash: string): string => `payment:${paymentHash.toLowerCase()}`;
+export const nodeRoom = (nodeId: string): string => `node:${nodeId}`;
+
+// Followers of a payment hash without the read scope
+const anonymousPaymentRoom = (paymentHash: string): string => `${paymentRoom(paymentHash)}:anonymous`;
+
+/**
+ * Room for a Subscription Request
+ *
+ * @returns The room, or an error for a malformed hash or unknown node
+ */
+const toRoom = (
+  request: SubscriptionRequest | undefined,
+  apiKey: ApiKeyPrincipal | null
+): { room: string } | { error: string } => {
+  const { payment_hash, node_id } = request ?? {};
+  const canRead = apiKey !== null && hasScope(apiKey.scopes, 'read');
+
+  if (typeof payment_hash === 'string' && node_id === undefined) {
+    if (!PAYMENT_HASH.test(payment_hash)) {
+      return { error: 'payment_hash must be 64 hex characters' };
+    }
+    return { room: canRead ? paymentRoom(payment_hash) : anonymousPaymentRoom(payment_hash) };
+  }
+  if (typeof node_id === 'string' && payment_hash === undefined) {
+    if (!canRead) {
+      return { error: 'Subscribing to a node needs an API key with the read scope' };
+    }
+    return findNode(node_id) ? { room: nodeRoom(node_id) } : { error: `Unknown node: ${node_id}` };
+  }
+
+  return { error: 'Subscribe to either a payment_hash or a node_id' };
+};
+
+/**
+ * Answer a Client, if It Asked for an Answer
+ *
+ * The acknowledgement is whatever the client sent last, not necessarily a function.
+ */
+const reply = (ack: unknown, result: SubscriptionAck): void => {
+  if (typeof ack === 'function') ack(result);
+};
+
+/**
+ * Socket.IO Middleware That Authenticates the Handshake's API Key
+ *
+ * Connections without a key are let in without one.
+ */
+const authenticateSocket = async (socket: RealtimeSocket, next: (err?: Error) => void): Promise<void> => {
+  const { auth, headers } = socket.handshake;
+  const [scheme, bearer] = (headers.authorization || '').split(' ');
+  const key = typeof auth?.token === 'string' ? auth.token : scheme?.toLowerCase() === 'bearer' ? bearer : undefined;
+
+  if (!key) {
+    socket.data.apiKey = null;
+    next();
+    return;
+  }
+
+  try {
+    const apiKey = await authenticateApiKey(key);
+    if (!apiKey) {
+      next(new Error('Invalid or revoked API key'));
+      return;
+    }
+
+    socket.data.apiKey = apiKey;
+    next();
+  } catch (error) {
+    logger.error({ err: error, socketId: socket.id }, 'Error authenticating WebSocket client');
+    next(new Error('Could not check the API key'));
+  }
+};
+
+const handleConnection = (socket: RealtimeSocket): void => {
+  logger.info({ socketId: socket.id, apiKey: socket.data.apiKey?.name }, 'Client connected');
+
+  socket.on('subscribe', (request, ack) => {
+    const target = toRoom(request, socket.data.apiKey);
+    if ('error' in target) {
+      reply(ack, { success: false, error: target.error });
+      return;
+    }
+
+    socket.join(target.room);
+    logger.debug({ socketId: socket.id, room: target.room }, 'Client subscribed');
+    reply(ack, { success: true });
+  });
+
+  socket.on('unsubscribe', (request, ack) => {
+    const target = toRoom(request, socket.data.apiKey);
+    if ('error' in target) {
+      reply(ack, { success: false, error: target.error });
+      return;
+    }
+
+    socket.leave(target.room);
+    reply(ack, { success: true });
+  });
+
+  socket.on('disconnect', () => {
+    logger.info({ socketId: socket.id }, 'Client disconnected');
+  });
+};
+
+/**
+ * Accept Subscriptions on a Socket.IO Server and Publish to It
+ *
+ * @param io - Server clients connect to
+ */
+export const attachRealtimeServer = (io: RealtimeServer): void => {
+  io.use((socket, next) => void authenticateSocket(socket, next));
+  io.on('connection', handleConnection);
+  server = io;
+};
+
+/**
+ * Stop Publishing (on shutdown, or between tests)
+ */
+export const detachRealtimeServer = (): void => {
+  server = null;
+};
+
+/**
+ * Send invoice:updated to the Invoice's Hash and Node Subscribers
+ */
+export const publishInvoiceUpdate = (event: InvoiceUpdateEvent): void => {
+  server?.to([paymentRoom(event.payment_hash), nodeRoom(event.node_id)]).emit('invoice:updated', event);
+  server?.to(anonymousPaymentRoom(event.payment_hash)).emit('invoice:updated', { ...event, preimage: null });
+};
+
+/**
+ * Send payment:updated to the Payment's Hash and Node Subscribers
+ */
+export const publishPaymentUpdate = (event: PaymentUpdateEvent): void => {
+  server?.to([paymentRoom(event.payment_hash), nodeRoom(event.node_id)]).emit('payment:updated', event);
+  server?.to(anonymousPaymentRoom(event.payment_hash)).emit('payment:updated', { ...event, preimage: null });
+};
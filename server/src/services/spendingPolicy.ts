@@ -0,0 +1,189 @@
+/**
+ * Spending Policy
+ *
+ * Checks outgoing payments against the limits in config/payments.ts before
+ * they are recorded: the largest single payment, rolling hourly and daily
+ * budgets per sending node, and allow/deny lists of payee public keys.
+ *
+ * Budgets count every pending and succeeded payment of the node, fees
+ * included, voucher payouts too. Withdraw links are checked against their
+ * largest redemption when created, and each redemption again when paid.
+ * Payments awaiting approval count from when they were requested, so
+ * approving one never takes a node over budget.
+ *
+ * Checks and the recording of the payment run one at a time per node, so two
+ * payments can't both fit into what is left of a budget. That holds within
+ * one server instance; instances sharing a database can overshoot a budget by
+ * the payments they record at the same moment.
+ */
+
+import { prisma } from '../db/database.js';
+import { logger } from '../lib/logger.js';
+import { acquireLock } from '../lib/locks.js';
+import { getSpendingPolicy } from '../config/payments.js';
+import { NodeId, SpendingBudgetUsage, SpendingRefusalCode, SpendingUsageResponse } from '../types/lightning.js';
+
+/**
+ * Payment About to Be Recorded
+ */
+export interface SpendingRequest {
+  nodeId: NodeId; // Node paying
+  amount: number; // Amount in satoshis
+  destination?: string; // Payee public key; unknown for a withdraw link being created
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const refuse = (status: number, code: SpendingRefusalCode, reason: string, details: object = {}) => [
+  status,
+  'SpendingRefused',
+  { reason, code, details },
+];
+
+/**
+ * Satoshis a Node Spent Since a Moment, Fees Included
+ */
+const sumSpent = async (nodeId: NodeId, since: Date): Promise<number> => {
+  const { _sum } = await prisma.payment.aggregate({
+    where: {
+      nodeId,
+      status: { in: ['pending', 'succeeded', 'awaiting_approval'] },
+      createdAt: { gte: since },
+    },
+    _sum: { amount: true, fee: true },
+  });
+
+  return Number(_sum.amount ?? 0) + Number(_sum.fee ?? 0);
+};
+
+const toBudgetUsage = (budget: number | null, spent: number): SpendingBudgetUsage => ({
+  budget,
+  spent,
+  remaining: budget === null ? null : Math.max(0, budget - spent),
+});
+
+/**
+ * A Node's Spending Policy and Budget Usage
+ *
+ * @throws Error if the policy is malformed
+ */
+export const getSpendingUsage = async (nodeId: NodeId, now: Date = new Date()): Promise<SpendingUsageResponse> => {
+  const policy = getSpendingPolicy();
+  const [hourly, daily] = await Promise.all([
+    sumSpent(nodeId, new Date(now.getTime() - HOUR_MS)),
+    sumSpent(nodeId, new Date(now.getTime() - DAY_MS)),
+  ]);
+
+  return {
+    node_id: nodeId,
+    max_amount: policy.maxAmountSats,
+    hourly: toBudgetUsage(policy.hourlyBudgetSats, hourly),
+    daily: toBudgetUsage(policy.dailyBudgetSats, daily),
+    allowed_destinations: policy.allowedDestinations,
+    denied_destinations: policy.deniedDestinations,
+    approval_threshold: policy.approvalThresholdSats,
+  };
+};
+
+/**
+ * Whether a Payment of This Amount Waits for Approval Before It Is Sent
+ */
+export const needsApproval = (amount: number): boolean => {
+  const threshold = getSpendingPolicy().approvalThresholdSats;
+  return threshold !== null && amount > threshold;
+};
+
+/**
+ * Refuse a Payment the Policy Doesn't Allow
+ *
+ * Without a destination only the amount and the budgets are checked.
+ *
+ * @throws Tuple [status, 'SpendingRefused', { reason, code, details }]
+ */
+export const checkSpendingPolicy = async ({ nodeId, amount, destination }: SpendingRequest): Promise<void> => {
+  const policy = getSpendingPolicy();
+  const payee = destination?.toLowerCase();
+
+  if (
+    payee !== undefined &&
+    (policy.deniedDestinations.includes(payee) ||
+      (policy.allowedDestinations && !policy.allowedDestinations.includes(payee)))
+  ) {
+    throw refuse(403, 'DESTINATION_NOT_ALLOWED', `Payments to ${payee} are not allowed`, { destination: payee });
+  }
+
+  if (policy.maxAmountSats !== null && amount > policy.maxAmountSats) {
+    throw refuse(
+      422,
+      'PAYMENT_AMOUNT_EXCEEDED',
+      `Payment of ${amount} sats exceeds the limit of ${policy.maxAmountSats} sats`,
+      { amount, max_amount: policy.maxAmountSats }
+    );
+  }
+
+  const budgets = [
+    { code: 'HOURLY_BUDGET_EXCEEDED', window: 'hourly', budget: policy.hourlyBudgetSats, windowMs: HOUR_MS },
+    { code: 'DAILY_BUDGET_EXCEEDED', window: 'daily', budget: policy.dailyBudgetSats, windowMs: DAY_MS },
+  ] as const;
+
+  for (const { code, window, budget, windowMs } of budgets) {
+    if (budget === null) continue;
+
+    const spent = await sumSpent(nodeId, new Date(Date.now() - windowMs));
+    if (spent + amount > budget) {
+      throw refuse(
+        422,
+        code,
+        `Payment of ${amount} sats exceeds the ${window} budget (${Math.max(0, budget - spent)} of ${budget} sats left)`,
+        { amount, budget, spent }
+      );
+    }
+  }
+};
+
+/**
+ * Check a Payment Against the Spending Policy, then Record It
+ *
+ * Runs after the previous check for the same node has finished, so the
+ * budget seen by the check includes every payment recorded before.
+ *
+ * @param payment - Payment about to be recorded
+ * @param record - Stores the payment; only called when the policy allows it
+ * @returns What `record` returned
+ * @throws Tuple [status, 'SpendingRefused', { reason, code, details }] when refused
+ */
+export const authorizePayment = async <T>(payment: SpendingRequest, record: () => Promise<T>): Promise<T> => {
+  const release = await acquireLock(`spending:${payment.nodeId}`);
+
+  try {
+    try {
+      await checkSpendingPolicy(payment);
+    } catch (error) {
+      if (Array.isArray(error)) {
+        logger.warn(
+          { node: payment.nodeId, amount: payment.amount, destination: payment.destination, code: error[2].code },
+          'Payment refused by spending policy'
+        );
+      }
+      throw error;
+    }
+    return await record();
+  } finally {
+    release();
+  }
+};
+
+/**
+ * Map a Refused Payment to an API Error
+ *
+ * @returns Status, message, code and details, or null if the error is something else
+ */
+export const toSpendingFailure = (
+  error: unknown
+): { status: number; error: string; code: SpendingRefusalCode; details: object } | null => {
+  if (!Array.isArray(error) || error[1] !== 'SpendingRefused') return null;
+
+  const [status, , details] = error;
+  return { status, error: details.reason, code: details.code, details: details.details };
+};
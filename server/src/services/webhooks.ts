@@ -0,0 +1,331 @@
+/**
+ * Webhook Service
+ *
+ * POSTs invoice and payment state changes to registered endpoints. Every
+ * event becomes one delivery per subscribed endpoint, stored before it is
+ * sent, so the log shows each attempt and failed deliveries can be replayed.
+ *
+ * Requests are signed with the endpoint's secret: X-Webhook-Signature is
+ * `sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">`, with the timestamp in
+ * X-Webhook-Timestamp. Deliveries that don't get a 2xx answer are retried
+ * with exponential backoff (see config/webhooks.ts); pending deliveries are
+ * picked up again on the next start.
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { Invoice, Payment, Prisma, Webhook, WebhookDelivery } from '@prisma/client';
+import { prisma } from '../db/database.js';
+import { logger } from '../lib/logger.js';
+import { getWebhookDeliveryPolicy, getWebhookRetryDelay } from '../config/webhooks.js';
+import {
+  InvoiceEventData,
+  PaymentEventData,
+  WebhookDeliveryResponse,
+  WebhookEvent,
+  WebhookPayload,
+  WebhookResponse,
+} from '../types/webhooks.js';
+
+/**
+ * Events Endpoints Can Subscribe To
+ */
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'invoice.settled',
+  'invoice.expired',
+  'payment.succeeded',
+  'payment.failed',
+];
+
+// Longest response body kept in the delivery log
+const MAX_RESPONSE_BODY = 1000;
+
+// Scheduled attempts, by delivery id
+const timers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * New Signing Secret for a Webhook
+ */
+export const createWebhookSecret = (): string => `whsec_${randomBytes(24).toString('hex')}`;
+
+/**
+ * Sign a Webhook Body
+ *
+ * Receivers recompute this over the raw body and compare in constant time.
+ *
+ * @param secret - Webhook's signing secret
+ * @param timestamp - Unix time in seconds, sent as X-Webhook-Timestamp
+ * @param body - Raw request body
+ * @returns Value of the X-Webhook-Signature header
+ */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+/**
+ * Describe a Webhook for the API
+ *
+ * @param includeSecret - Only when the webhook was just registered
+ */
+export const toWebhookResponse = (webhook: Webhook, includeSecret = false): WebhookResponse => ({
+  id: webhook.id,
+  url: webhook.url,
+  events: webhook.events as WebhookEvent[],
+  description: webhook.description,
+  enabled: webhook.enabled,
+  ...(includeSecret && { secret: webhook.secret }),
+  created_at: webhook.createdAt,
+});
+
+/**
+ * Describe a Delivery for the API
+ */
+export const toWebhookDeliveryResponse = (delivery: WebhookDelivery): WebhookDeliveryResponse => ({
+  id: delivery.id,
+  webhook_id: delivery.webhookId,
+  event_id: delivery.eventId,
+  event: delivery.event as WebhookEvent,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  response_status: delivery.responseStatus,
+  response_body: delivery.responseBody,
+  error: delivery.error,
+  next_attempt_at: delivery.nextAttemptAt,
+  delivered_at: delivery.deliveredAt,
+  created_at: delivery.createdAt,
+  payload: delivery.payload as unknown as WebhookPayload,
+});
+
+const toInvoiceEventData = (invoice: Invoice): InvoiceEventData => ({
+  payment_hash: invoice.paymentHash,
+  node_id: invoice.nodeId,
+  kind: invoice.kind,
+  status: invoice.status,
+  amount: invoice.amount === null ? null : Number(invoice.amount),
+  received_amount: invoice.receivedAmount === null ? null : Number(invoice.receivedAmount),
+  description: invoice.description,
+  preimage: invoice.preimage,
+  username: invoice.username,
+  expires_at: invoice.expiresAt,
+  settled_at: invoice.settledAt,
+});
+
+const toPaymentEventData = (payment: Payment): PaymentEventData => ({
+  payment_hash: payment.paymentHash,
+  node_id: payment.nodeId,
+  kind: payment.kind,
+  status: payment.status === 'succeeded' ? 'succeeded' : 'failed',
+  amount: Number(payment.amount),
+  fee: Number(payment.fee),
+  destination: payment.destination,
+  description: payment.description,
+  preimage: payment.preimage,
+  error_message: payment.errorMessage,
+  withdraw_link_id: payment.withdrawLinkId,
+  created_at: payment.createdAt,
+  settled_at: payment.settledAt,
+});
+
+const schedule = (deliveryId: string, delayMs: number): void => {
+  clearTimeout(timers.get(deliveryId));
+
+  const timer = setTimeout(() => {
+    timers.delete(deliveryId);
+    attemptDelivery(deliveryId).catch((err) =>
+      logger.error({ deliveryId, err }, 'Could not attempt webhook delivery')
+    );
+  }, delayMs);
+  timer.unref();
+
+  timers.set(deliveryId, timer);
+};
+
+/**
+ * Send a Delivery Once, then Record the Outcome and Schedule a Retry
+ */
+const attemptDelivery = async (deliveryId: string): Promise<void> => {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { webhook: true },
+  });
+  if (!delivery || delivery.status !== 'pending') return;
+
+  const policy = getWebhookDeliveryPolicy();
+  const attempt = delivery.attempts + 1;
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(delivery.webhook.url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-webhook-id': delivery.webhookId,
+        'x-webhook-delivery': delivery.id,
+        'x-webhook-event': delivery.event,
+        'x-webhook-timestamp': String(timestamp),
+        'x-webhook-signature': signWebhookPayload(delivery.webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(policy.timeoutMs),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY);
+  } catch (err: any) {
+    error = err?.name === 'TimeoutError' ? `No answer within ${policy.timeoutMs} ms` : err?.message || String(err);
+  }
+
+  const now = new Date();
+  const succeeded = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const retry = !succeeded && attempt < policy.maxAttempts;
+  const delay = retry ? getWebhookRetryDelay(policy, attempt) : 0;
+
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: succeeded ? 'succeeded' : retry ? 'pending' : 'failed',
+      attempts: attempt,
+      responseStatus,
+      responseBody,
+      error: error ?? (succeeded ? null : `Endpoint answered with HTTP ${responseStatus}`),
+      nextAttemptAt: retry ? new Date(now.getTime() + delay) : null,
+      deliveredAt: succeeded ? now : null,
+      updatedAt: now,
+    },
+  });
+
+  if (retry) {
+    logger.info({ deliveryId, attempt, responseStatus, retryInMs: delay }, 'Webhook delivery failed, retrying');
+    schedule(delivery.id, delay);
+  } else if (!succeeded) {
+    logger.warn({ deliveryId, attempt, responseStatus, error }, 'Webhook delivery failed');
+  }
+};
+
+/**
+ * Queue an Event for Every Endpoint Subscribed to It
+ *
+ * @returns Deliveries created
+ */
+const emitWebhookEvent = async (
+  event: WebhookEvent,
+  loadData: () => Promise<InvoiceEventData | PaymentEventData | null>
+): Promise<WebhookDelivery[]> => {
+  const webhooks = await prisma.webhook.findMany({
+    where: { enabled: true, events: { has: event } },
+  });
+  if (!webhooks.length) return [];
+
+  const data = await loadData();
+  if (!data) return [];
+
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    event,
+    created_at: new Date().toISOString(),
+    data,
+  };
+  const json = JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue;
+
+  const deliveries = await Promise.all(
+    webhooks.map((webhook) =>
+      prisma.webhookDelivery.create({
+        data: { webhookId: webhook.id, eventId: payload.id, event, payload: json },
+      })
+    )
+  );
+
+  for (const delivery of deliveries) {
+    schedule(delivery.id, 0);
+  }
+  return deliveries;
+};
+
+/**
+ * Notify Webhooks of an Invoice Event
+ *
+ * Runs in the background and never throws; the invoice row must already
+ * hold the new state.
+ *
+ * @param event - invoice.settled or invoice.expired
+ * @param paymentHash - Invoice that changed
+ */
+export const notifyInvoiceEvent = (event: 'invoice.settled' | 'invoice.expired', paymentHash: string): void => {
+  emitWebhookEvent(event, async () => {
+    const invoice = await prisma.invoice.findUnique({ where: { paymentHash } });
+    return invoice && toInvoiceEventData(invoice);
+  }).catch((err) => logger.error({ event, paymentHash, err }, 'Could not queue webhook deliveries'));
+};
+
+/**
+ * Notify Webhooks of a Payment Event
+ *
+ * Runs in the background and never throws; the payment row must already
+ * hold the outcome.
+ *
+ * @param event - payment.succeeded or payment.failed
+ * @param paymentHash - Payment that finished
+ */
+export const notifyPaymentEvent = (event: 'payment.succeeded' | 'payment.failed', paymentHash: string): void => {
+  emitWebhookEvent(event, async () => {
+    const payment = await prisma.payment.findUnique({ where: { paymentHash } });
+    return payment && toPaymentEventData(payment);
+  }).catch((err) => logger.error({ event, paymentHash, err }, 'Could not queue webhook deliveries'));
+};
+
+/**
+ * Send a Delivery's Event Again
+ *
+ * Creates a new delivery with the same payload (and event id), sent now with
+ * a fresh set of attempts. The original stays in the log as it was.
+ *
+ * @param delivery - Delivery to replay
+ * @returns The new delivery
+ */
+export const redeliverWebhook = async (delivery: WebhookDelivery): Promise<WebhookDelivery> => {
+  const replay = await prisma.webhookDelivery.create({
+    data: {
+      webhookId: delivery.webhookId,
+      eventId: delivery.eventId,
+      event: delivery.event,
+      payload: delivery.payload as Prisma.InputJsonValue,
+    },
+  });
+
+  schedule(replay.id, 0);
+  return replay;
+};
+
+/**
+ * Resume Pending Deliveries
+ *
+ * Called on startup; each delivery is attempted when its next attempt is due.
+ *
+ * @returns Number of deliveries scheduled
+ */
+export const resumeWebhookDeliveries = async (): Promise<number> => {
+  const pending = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending' },
+    select: { id: true, nextAttemptAt: true },
+  });
+
+  const now = Date.now();
+  for (const { id, nextAttemptAt } of pending) {
+    schedule(id, Math.max(0, (nextAttemptAt?.getTime() ?? now) - now));
+  }
+
+  return pending.length;
+};
+
+/**
+ * Cancel Scheduled Deliveries (on shutdown)
+ */
+export const stopWebhookDeliveries = (): void => {
+  for (const timer of timers.values()) {
+    clearTimeout(timer);
+  }
+  timers.clear();
+};
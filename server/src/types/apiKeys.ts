@@ -0,0 +1,39 @@
+/**
+ * API Key Type Definitions
+ *
+ * Keys authenticate requests to /api and carry the scopes that decide which
+ * routes they may call.
+ */
+
+/**
+ * API Key Scope
+ *
+ * - read: Fetch invoices, payments, transactions, balances and nodes
+ * - invoices:write: Create, settle and cancel invoices, manage usernames
+ * - payments:write: Send payments and create withdraw vouchers
+ * - admin: Everything, including API keys and webhooks
+ */
+export type ApiKeyScope = 'read' | 'invoices:write' | 'payments:write' | 'admin';
+
+/**
+ * Key a Request Was Authenticated With
+ */
+export interface ApiKeyPrincipal {
+  id: string | null; // null for API_ADMIN_KEY
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * API Key as Returned by the API
+ */
+export interface ApiKeyResponse {
+  id: string;
+  name: string;
+  prefix: string; // Start of the key, to tell keys apart
+  scopes: ApiKeyScope[];
+  key?: string; // The key itself, only returned when it is created
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
@@ -0,0 +1,302 @@
+/**
+ * Lightning Backend Type Definitions
+ *
+ * The server talks to Lightning nodes through a LightningBackend. The default
+ * backend wraps ln-service against live LND nodes; the mock backend simulates
+ * the nodes in memory so the server can run without Polar.
+ *
+ * Field names follow ln-service conventions (snake_case, `tokens` for
+ * satoshis, `id` for the payment hash) so the LND backend can pass results
+ * through with minimal mapping.
+ */
+
+import { NodeId } from './lightning.js';
+
+/**
+ * Arguments for creating an invoice on a node
+ */
+export interface BackendCreateInvoiceArgs {
+  tokens: number; // Amount in satoshis (0 lets the payer choose)
+  mtokens?: string; // Amount in millisatoshis; replaces tokens when set
+  description?: string; // Description embedded in the invoice
+  description_hash?: string; // Hex SHA-256 of a description kept outside the invoice
+  expires_at?: string; // ISO 8601 expiry date
+}
+
+/**
+ * Arguments for creating a hold invoice on a node
+ *
+ * The caller keeps the preimage; the node only learns it on settle.
+ */
+export interface BackendCreateHoldInvoiceArgs extends BackendCreateInvoiceArgs {
+  id: string; // Payment hash
+}
+
+/**
+ * Hold invoice created on a node
+ */
+export interface BackendCreatedHoldInvoice {
+  id: string; // Payment hash
+  request: string; // BOLT11 payment request
+}
+
+/**
+ * Invoice created on a node
+ */
+export interface BackendCreatedInvoice {
+  id: string; // Payment hash
+  request: string; // BOLT11 payment request
+  secret: string; // Preimage
+}
+
+/**
+ * Invoice as currently known by the receiving node
+ */
+export interface BackendInvoice {
+  id: string; // Payment hash
+  request: string | null; // BOLT11 payment request (null for keysend)
+  tokens: number; // Invoiced amount in satoshis (0 for any amount)
+  received: number; // Amount received in satoshis
+  description: string; // Invoice description
+  secret: string | null; // Preimage
+  is_confirmed: boolean; // Invoice has been paid
+  is_held: boolean; // Hold invoice payment is waiting to be settled or canceled
+  is_canceled: boolean; // Invoice has been canceled
+  is_push: boolean; // Created by the node for an incoming keysend payment
+  created_at: string; // ISO 8601 creation date
+  expires_at: string; // ISO 8601 expiry date
+  confirmed_at: string | null; // ISO 8601 settlement date
+}
+
+/**
+ * Decoded BOLT11 payment request
+ */
+export interface BackendDecodedRequest {
+  id: string; // Payment hash
+  tokens: number; // Amount in satoshis (0 if not specified)
+  description: string; // Payment description
+  destination: string; // Payee public key
+  created_at: string; // ISO 8601 creation date
+  expires_at: string; // ISO 8601 expiry date
+}
+
+/**
+ * Arguments for paying a BOLT11 payment request
+ */
+export interface BackendPayArgs {
+  request: string; // BOLT11 payment request
+  tokens?: number; // Amount to pay for zero-amount invoices
+  max_fee?: number; // Maximum routing fee in satoshis
+  pathfinding_timeout?: number; // Give up finding a route after this many milliseconds
+}
+
+/**
+ * Custom TLV record carried by a payment
+ */
+export interface BackendTlvRecord {
+  type: string; // Record type number
+  value: string; // Hex encoded value
+}
+
+/**
+ * Arguments for sending a keysend (spontaneous) payment
+ *
+ * The payer chooses the preimage and sends it to the payee inside the payment.
+ */
+export interface BackendKeysendArgs {
+  destination: string; // Payee public key
+  tokens: number; // Amount in satoshis
+  secret: string; // Preimage
+  messages?: BackendTlvRecord[]; // Custom TLV records for the payee
+  max_fee?: number; // Maximum routing fee in satoshis
+  pathfinding_timeout?: number; // Give up finding a route after this many milliseconds
+}
+
+/**
+ * Hop along a payment route
+ */
+export interface BackendRouteHop {
+  channel: string; // Standard format channel id
+  public_key: string; // Public key of the node at the end of the hop
+  fee: number; // Fee charged for forwarding in satoshis
+}
+
+/**
+ * Completed outgoing payment
+ */
+export interface BackendPayment {
+  id: string; // Payment hash
+  secret: string; // Preimage (proof of payment)
+  fee: number; // Routing fee paid in satoshis
+  tokens: number; // Amount paid in satoshis (excluding fee)
+  hops?: BackendRouteHop[]; // Route the payment took, if known
+}
+
+/**
+ * Payment HTLC that failed somewhere along its route
+ */
+export interface BackendRoutingFailure {
+  reason: string; // BOLT 4 failure, e.g. TemporaryChannelFailure
+  channel?: string; // Channel where the failure happened
+  public_key?: string; // Node that reported the failure
+}
+
+/**
+ * Outgoing payment as currently known by the paying node
+ */
+export interface BackendPaymentStatus {
+  is_confirmed: boolean; // Payment succeeded
+  is_failed: boolean; // Payment failed
+  is_pending: boolean; // Payment is still in flight
+  payment?: {
+    secret: string; // Preimage (only when confirmed)
+    fee: number; // Routing fee paid in satoshis
+  };
+}
+
+/**
+ * Why an outgoing payment failed
+ *
+ * Mirrors the flags on ln-service's payment subscription 'failed' event.
+ */
+export interface BackendPaymentFailure {
+  is_canceled: boolean; // Payment was canceled
+  is_insufficient_balance: boolean; // Not enough outbound liquidity
+  is_invalid_payment: boolean; // Rejected by the destination
+  is_pathfinding_timeout: boolean; // Gave up looking for a route
+  is_route_not_found: boolean; // No route to the destination
+}
+
+/**
+ * Outgoing payment subscription
+ *
+ * Mirrors the EventEmitter returned by ln-service's subscribeToPayViaRequest
+ * and subscribeToPastPayment. Exactly one of 'confirmed', 'failed' or
+ * 'error' ends the subscription.
+ */
+export interface BackendPaymentSubscription {
+  on(event: 'paying', listener: (attempt: { hops: BackendRouteHop[] }) => void): this;
+  on(event: 'routing_failure', listener: (failure: BackendRoutingFailure) => void): this;
+  on(event: 'confirmed', listener: (payment: BackendPayment) => void): this;
+  on(event: 'failed', listener: (failure: BackendPaymentFailure) => void): this;
+  on(event: 'error', listener: (error: unknown) => void): this;
+  removeAllListeners(): this;
+}
+
+/**
+ * Node balances in satoshis
+ */
+export interface BackendBalance {
+  chain_balance: number; // Confirmed on-chain balance
+  channel_balance: number; // Local balance in active channels
+  pending_balance: number; // Local balance in pending channels
+}
+
+/**
+ * Node wallet information
+ */
+export interface BackendNodeInfo {
+  public_key: string; // Node identity public key
+  alias: string; // Node alias
+  active_channels_count: number; // Number of active channels
+  pending_channels_count: number; // Number of pending channels
+  is_synced_to_chain: boolean; // Whether the node is synced to the chain
+  current_block_height: number; // Best known block height
+  version: string; // Node software version
+  chains: string[]; // Ids of the chains the node runs on (reversed genesis block hash)
+}
+
+/**
+ * Invoice update pushed by a node subscription
+ */
+export interface BackendInvoiceUpdate {
+  id: string; // Payment hash
+  is_confirmed: boolean; // Invoice has been paid
+  is_held: boolean; // Hold invoice payment is waiting to be settled or canceled
+  is_canceled: boolean; // Invoice has been canceled
+  is_push: boolean; // Created by the node for an incoming keysend payment
+  tokens: number; // Invoiced amount in satoshis (0 for any amount)
+  received: number; // Amount received in satoshis
+  description: string; // Invoice description
+  secret: string | null; // Preimage
+  created_at: string; // ISO 8601 creation date
+  expires_at: string; // ISO 8601 expiry date
+  confirmed_at: string | null; // ISO 8601 settlement date
+  payments: { messages: BackendTlvRecord[] }[]; // Received HTLCs with their custom records
+  index: number; // Add index: the node numbers its invoices in the order they were created
+  confirmed_index: number | null; // Settle index: the node numbers settlements in order
+}
+
+/**
+ * Where an invoice subscription starts
+ *
+ * The node first replays the invoices added after `added_after` and those
+ * settled after `confirmed_after`, then sends live updates. Without them only
+ * live updates are sent.
+ */
+export interface BackendInvoiceSubscriptionStart {
+  added_after?: number;
+  confirmed_after?: number;
+}
+
+/**
+ * Invoice subscription
+ *
+ * Mirrors the EventEmitter returned by ln-service's subscribeToInvoices.
+ */
+export interface BackendInvoiceSubscription {
+  on(event: 'invoice_updated', listener: (invoice: BackendInvoiceUpdate) => void): this;
+  on(event: 'error', listener: (error: unknown) => void): this;
+  removeAllListeners(): this;
+}
+
+/**
+ * Connection State
+ *
+ * - idle: No connection has been needed yet
+ * - connecting: Client created, first health check pending
+ * - connected: Last health check succeeded
+ * - reconnecting: Last health check failed, retrying with backoff
+ */
+export type BackendConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting';
+
+/**
+ * Connection status of a node
+ */
+export interface BackendConnectionStatus {
+  state: BackendConnectionState;
+  connected_at: string | null; // When the current connection was established
+  checked_at: string | null; // When the last health check ran
+  credentials_loaded_at: string | null; // When cert and macaroon were last read
+  error: string | null; // Last health check error
+  reconnect_attempts: number; // Consecutive failed health checks
+  next_retry_at: string | null; // When the next reconnect attempt runs
+}
+
+/**
+ * Lightning Backend
+ *
+ * Every operation takes the node it should run against. Implementations
+ * reject with ln-service style `[code, message]` tuples so callers can
+ * handle errors the same way regardless of backend.
+ */
+export interface LightningBackend {
+  readonly name: string;
+  createInvoice(node: NodeId, args: BackendCreateInvoiceArgs): Promise<BackendCreatedInvoice>;
+  createHoldInvoice(node: NodeId, args: BackendCreateHoldInvoiceArgs): Promise<BackendCreatedHoldInvoice>;
+  settleHoldInvoice(node: NodeId, secret: string): Promise<void>;
+  cancelInvoice(node: NodeId, id: string): Promise<void>;
+  decodePaymentRequest(node: NodeId, request: string): Promise<BackendDecodedRequest>;
+  estimateRouteFee(node: NodeId, args: BackendPayArgs): Promise<number | null>;
+  pay(node: NodeId, args: BackendPayArgs): Promise<BackendPayment>;
+  subscribeToPayment(node: NodeId, args: BackendPayArgs): BackendPaymentSubscription;
+  subscribeToKeysend(node: NodeId, args: BackendKeysendArgs): BackendPaymentSubscription;
+  subscribeToPastPayment(node: NodeId, id: string): BackendPaymentSubscription;
+  getInvoice(node: NodeId, id: string): Promise<BackendInvoice>;
+  getPayment(node: NodeId, id: string): Promise<BackendPaymentStatus>;
+  getBalance(node: NodeId): Promise<BackendBalance>;
+  getInfo(node: NodeId): Promise<BackendNodeInfo>;
+  subscribeToInvoices(node: NodeId, start?: BackendInvoiceSubscriptionStart): BackendInvoiceSubscription;
+  getConnectionStatus(node: NodeId): BackendConnectionStatus;
+  close(): void;
+}
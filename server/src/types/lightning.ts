@@ -5,6 +5,8 @@
  * operations.
  */
 
+import type { BackendConnectionStatus } from './backend.js';
+
 /**
  * Transaction Type
  *
@@ -12,25 +14,70 @@
  */
 export type TransactionType = 'invoice' | 'payment';
 
+/**
+ * Transaction Kind
+ *
+ * How the payment was requested:
+ * - invoice: Paid against a BOLT11 invoice
+ * - keysend: Spontaneous payment pushed to a node's public key, no invoice involved
+ */
+export type TransactionKind = 'invoice' | 'keysend';
+
 /**
  * Transaction Status
  *
  * Tracks the current state of a Lightning transaction:
  * - pending: Invoice created but not yet paid, or payment initiated but not confirmed
+ * - held: Hold invoice paid, waiting for the receiver to settle or cancel it
  * - succeeded: Payment completed successfully, funds transferred
  * - failed: Payment attempt failed (insufficient funds, route not found, etc.)
+ * - canceled: Invoice canceled by the receiver
  * - expired: Invoice expired before being paid (Lightning invoices have time limits)
+ * - awaiting_approval: Payment above the approval threshold, not sent until a second key approves it
  */
-export type TransactionStatus = 'pending' | 'succeeded' | 'failed' | 'expired';
+export type TransactionStatus =
+  | 'pending'
+  | 'held'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled'
+  | 'expired'
+  | 'awaiting_approval';
+
+/**
+ * Invoice Status
+ *
+ * The transaction statuses an invoice can be in.
+ */
+export type InvoiceStatus = Exclude<TransactionStatus, 'failed' | 'awaiting_approval'>;
 
 /**
  * Node Identifier
  *
- * Identifies which Lightning node the transaction belongs to:
+ * Identifies which registered Lightning node the transaction belongs to.
+ * The default two-node setup registers:
  * - node_a: Receiver node (generates invoices)
  * - node_b: Sender node (makes payments)
  */
-export type NodeId = 'node_a' | 'node_b';
+export type NodeId = string;
+
+/**
+ * Lightning Network
+ *
+ * Bitcoin network the nodes run on. Payment requests name theirs in the
+ * prefix: lnbc (mainnet), lntb (testnet), lntbs (signet), lnbcrt (regtest).
+ */
+export type LightningNetwork = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+/**
+ * Node Role
+ *
+ * What a registered node is used for when a route doesn't name a node:
+ * - receiver: Generates invoices
+ * - sender: Pays invoices
+ * - both: Either
+ */
+export type NodeRole = 'receiver' | 'sender' | 'both';
 
 /**
  * Transaction Database Record
@@ -67,8 +114,10 @@ export interface Transaction {
  * ```
  */
 export interface CreateInvoiceRequest {
-  amount: number; // Amount in satoshis (must be positive)
+  amount: number | null; // Amount in satoshis (must be positive), or null to let the payer choose
+  amount_msat?: number; // Optional: exact amount in millisatoshis (amount is then its whole satoshis)
   description?: string; // Optional description (shown to payer)
+  description_hash?: string; // Optional: hex SHA-256 of a description kept outside the invoice
   expiry?: number; // Expiry time in seconds (default: 3600 = 1 hour)
 }
 
@@ -81,13 +130,39 @@ export interface CreateInvoiceRequest {
 export interface InvoiceResponse {
   payment_hash: string; // Unique payment identifier
   payment_request: string; // BOLT11 invoice string (what the payer needs)
-  amount: number; // Amount in satoshis
+  node_id: NodeId; // Node that created the invoice
+  amount: number | null; // Amount in satoshis (null: any amount)
   description: string | null; // Payment description
   expires_at: Date; // When this invoice expires
   created_at: Date; // When invoice was created
   qr_code?: string; // Base64-encoded QR code image (optional)
 }
 
+/**
+ * Route Hint Hop
+ *
+ * One channel of a private route to the payee, from a BOLT11 `r` field.
+ */
+export interface RouteHintHop {
+  public_key: string; // Node at the start of the channel
+  short_channel_id: string; // Channel as block x transaction x output
+  fee_base_msat: number; // Base fee in millisatoshis
+  fee_proportional_millionths: number; // Proportional fee in millionths
+  cltv_expiry_delta: number; // CLTV delta of the channel
+}
+
+/**
+ * Invoice Feature
+ *
+ * A feature bit set in a BOLT11 `9` field. Even bits are required, odd bits
+ * optional.
+ */
+export interface InvoiceFeature {
+  bit: number; // Bit number
+  name: string | null; // BOLT9 name, if known
+  is_required: boolean; // Payer must understand the feature
+}
+
 /**
  * Decoded Invoice Information
  *
@@ -104,11 +179,34 @@ export interface InvoiceResponse {
  */
 export interface DecodedInvoice {
   payment_hash: string; // What you're paying for
+  network: LightningNetwork; // Network the invoice is for
   amount: number; // Amount in satoshis (0 if no amount specified)
+  amount_msat: number; // Amount in millisatoshis (0 if no amount specified)
   description: string; // Payment description
+  description_hash: string | null; // SHA-256 of a description too long to include
   expires_at: Date; // When invoice expires
   destination: string; // Public key of the recipient node
   timestamp: number; // When invoice was created (Unix timestamp)
+  payment_secret: string | null; // Secret the payer must send with the payment
+  metadata: string | null; // Payment metadata to send back to the payee
+  min_final_cltv_expiry: number; // CLTV delta required by the last hop
+  fallback_addresses: string[]; // On-chain addresses to pay if Lightning fails
+  route_hints: RouteHintHop[][]; // Private routes to the recipient
+  features: InvoiceFeature[]; // Feature bits the invoice sets
+  signature: string; // Hex compact signature
+  signature_valid: boolean; // The recipient signed the invoice
+}
+
+/**
+ * Invoice Cross-Check
+ *
+ * Result of comparing the server's decoding of an invoice with a node's.
+ */
+export interface InvoiceCrossCheck {
+  node_id: NodeId; // Node that decoded the invoice
+  matches: boolean | null; // Both agree (null if the node could not decode it)
+  mismatches: string[]; // Fields the node decoded differently
+  error?: string; // Why the node could not decode it
 }
 
 /**
@@ -118,7 +216,36 @@ export interface DecodedInvoice {
  */
 export interface PayInvoiceRequest {
   payment_request: string; // BOLT11 invoice string to pay
-  amount?: number; // Optional: specify amount for zero-amount invoices
+  amount?: number; // Amount to send; required for zero-amount invoices, not allowed otherwise
+  max_fee_sats?: number; // Optional: routing fee cap in satoshis
+  max_fee_percent?: number; // Optional: routing fee cap as a percentage of the amount
+  timeout_seconds?: number; // Optional: time an attempt may spend finding a route
+}
+
+/**
+ * Custom Record
+ *
+ * TLV record attached to a keysend payment. Types below 65536 are reserved
+ * for the protocol.
+ */
+export interface CustomRecord {
+  type: string; // Record type number (decimal string; types can exceed 2^53)
+  value: string; // Hex encoded value
+}
+
+/**
+ * Keysend Request
+ *
+ * Parameters needed to push a payment to a node without an invoice.
+ */
+export interface KeysendRequest {
+  destination: string; // Public key of the receiving node
+  amount: number; // Amount in satoshis
+  preimage: string; // Preimage chosen by the payer, revealed to the payee
+  message?: string; // Optional text message for the payee
+  custom_records?: CustomRecord[]; // Optional extra TLV records
+  max_fee_sats?: number; // Optional: routing fee cap in satoshis
+  timeout_seconds?: number; // Optional: time an attempt may spend finding a route
 }
 
 /**
@@ -137,6 +264,101 @@ export interface PaymentResponse {
   error?: string; // Error message if payment failed
 }
 
+/**
+ * Payment Failure Code
+ *
+ * Why a payment attempt failed. The retry policy decides which codes are
+ * worth another attempt:
+ * - insufficient_balance: Not enough outbound liquidity
+ * - incorrect_payment_details: Destination rejected the payment (unknown hash, wrong amount)
+ * - route_not_found: No route to the destination
+ * - pathfinding_timeout: Gave up looking for a route
+ * - temporary_channel_failure: A channel along the route could not forward the payment
+ * - fee_limit_exceeded: Routes exist, but only above the payment's fee cap
+ * - canceled: Payment was canceled
+ * - unknown: Any other error
+ */
+export type PaymentFailureCode =
+  | 'insufficient_balance'
+  | 'incorrect_payment_details'
+  | 'route_not_found'
+  | 'pathfinding_timeout'
+  | 'temporary_channel_failure'
+  | 'fee_limit_exceeded'
+  | 'canceled'
+  | 'unknown';
+
+/**
+ * Payment Attempt Response
+ *
+ * One try at sending a payment, with the route it took.
+ */
+export interface PaymentAttemptResponse {
+  attempt_number: number; // 1 for the first try
+  status: 'pending' | 'succeeded' | 'failed'; // Outcome of this attempt
+  route: { channel: string; public_key: string; fee: number }[] | null; // Hops tried, if known
+  fee: number | null; // Routing fee paid in satoshis (succeeded attempts)
+  failure_code: PaymentFailureCode | null; // Why the attempt failed
+  failure_reason: string | null; // Human readable failure
+  started_at: Date; // When the attempt was sent
+  finished_at: Date | null; // When the attempt confirmed or failed
+}
+
+/**
+ * Spending Refusal Code
+ *
+ * Why the spending policy refused a payment before it was sent:
+ * - PAYMENT_AMOUNT_EXCEEDED: Larger than PAYMENT_MAX_AMOUNT_SATS
+ * - HOURLY_BUDGET_EXCEEDED: Would take the node over its hourly budget
+ * - DAILY_BUDGET_EXCEEDED: Would take the node over its daily budget
+ * - DESTINATION_NOT_ALLOWED: Payee is denied, or missing from the allow list
+ */
+export type SpendingRefusalCode =
+  | 'PAYMENT_AMOUNT_EXCEEDED'
+  | 'HOURLY_BUDGET_EXCEEDED'
+  | 'DAILY_BUDGET_EXCEEDED'
+  | 'DESTINATION_NOT_ALLOWED';
+
+/**
+ * Why an Approval or Rejection Was Refused
+ *
+ * - PAYMENT_NOT_FOUND: No payment with that hash
+ * - NOT_AWAITING_APPROVAL: The payment was already approved or rejected
+ * - SAME_API_KEY: The key that requested the payment can't review it
+ * - INVOICE_EXPIRED: The invoice expired while waiting; the payment is failed
+ */
+export type ApprovalRefusalCode =
+  | 'PAYMENT_NOT_FOUND'
+  | 'NOT_AWAITING_APPROVAL'
+  | 'SAME_API_KEY'
+  | 'INVOICE_EXPIRED';
+
+/**
+ * Spending Budget Usage
+ *
+ * Amounts in satoshis over a rolling window; `null` means no budget.
+ */
+export interface SpendingBudgetUsage {
+  budget: number | null; // Most the node may spend in the window
+  spent: number; // Pending, succeeded and awaiting approval payments in the window, fees included
+  remaining: number | null; // What is left of the budget
+}
+
+/**
+ * Spending Usage Response
+ *
+ * A node's spending policy and how much of its budgets is used.
+ */
+export interface SpendingUsageResponse {
+  node_id: NodeId;
+  max_amount: number | null; // Largest single payment in satoshis
+  hourly: SpendingBudgetUsage; // Last 60 minutes
+  daily: SpendingBudgetUsage; // Last 24 hours
+  allowed_destinations: string[] | null; // Only these payees (null: any payee)
+  denied_destinations: string[]; // Never these payees
+  approval_threshold: number | null; // Larger payments wait for approval by a second API key
+}
+
 /**
  * Transaction List Response
  *
@@ -175,6 +397,22 @@ export interface NodeInfo {
   synced_to_chain: boolean; // Whether node is synced with blockchain
   block_height: number; // Current blockchain height the node knows about
   version: string; // LND software version
+  network: LightningNetwork | null; // Network of the chain it runs on (null if unknown)
+}
+
+/**
+ * Registered Node Summary
+ *
+ * A node from the registry together with its live info.
+ */
+export interface NodeSummary {
+  id: NodeId; // Registry identifier
+  alias: string; // Configured alias
+  role: NodeRole; // Configured role
+  host: string; // Node's network address
+  connection: BackendConnectionStatus; // Connection pool state for the node
+  info: NodeInfo | null; // Live node info (null if unreachable)
+  error?: string; // Why live info could not be fetched
 }
 
 /**
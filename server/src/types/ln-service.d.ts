@@ -11,8 +11,10 @@ declare module 'ln-service' {
 
   interface CreateInvoiceArgs {
     lnd: any;
-    tokens: number;
+    tokens?: number;
+    mtokens?: string;
     description?: string;
+    description_hash?: string;
     expires_at?: string;
   }
 
@@ -22,6 +24,29 @@ declare module 'ln-service' {
     secret: string;
   }
 
+  interface CreateHodlInvoiceArgs {
+    lnd: any;
+    id: string;
+    tokens: number;
+    description?: string;
+    expires_at?: string;
+  }
+
+  interface CreateHodlInvoiceResult {
+    id: string;
+    request: string;
+  }
+
+  interface SettleHodlInvoiceArgs {
+    lnd: any;
+    secret: string;
+  }
+
+  interface CancelHodlInvoiceArgs {
+    lnd: any;
+    id: string;
+  }
+
   interface DecodePaymentRequestArgs {
     lnd: any;
     request: string;
@@ -30,22 +55,105 @@ declare module 'ln-service' {
   interface DecodePaymentRequestResult {
     id: string;
     tokens: number;
+    mtokens: string;
     description: string;
     expires_at: string;
     destination: string;
     created_at: string;
+    cltv_delta?: number;
+    payment?: string;
+    routes?: any[];
+  }
+
+  interface GetRouteToDestinationArgs {
+    lnd: any;
+    destination: string;
+    tokens: number;
+    cltv_delta?: number;
+    payment?: string;
+    routes?: any[];
+    total_mtokens?: string;
+  }
+
+  interface GetRouteToDestinationResult {
+    route?: {
+      fee: number;
+      hops: RouteHop[];
+    };
   }
 
   interface PayArgs {
     lnd: any;
     request: string;
     tokens?: number;
+    max_fee?: number;
+    pathfinding_timeout?: number;
+  }
+
+  interface RouteHop {
+    channel: string;
+    public_key: string;
+    fee: number;
   }
 
   interface PayResult {
     id: string;
     secret: string;
     fee: number;
+    tokens: number;
+    hops?: RouteHop[];
+    paths?: { hops: RouteHop[] }[];
+  }
+
+  interface PaymentRoutingFailure {
+    reason: string;
+    channel?: string;
+    public_key?: string;
+  }
+
+  interface SubscribeToPayViaRequestArgs {
+    lnd: any;
+    request: string;
+    tokens?: number;
+    max_fee?: number;
+    pathfinding_timeout?: number;
+  }
+
+  interface TlvRecord {
+    type: string;
+    value: string;
+  }
+
+  interface SubscribeToPayViaDetailsArgs {
+    lnd: any;
+    destination: string;
+    tokens: number;
+    id?: string;
+    messages?: TlvRecord[];
+    max_fee?: number;
+    pathfinding_timeout?: number;
+  }
+
+  interface SubscribeToPastPaymentArgs {
+    lnd: any;
+    id: string;
+  }
+
+  interface PaymentFailure {
+    is_canceled?: boolean;
+    is_insufficient_balance?: boolean;
+    is_invalid_payment?: boolean;
+    is_pathfinding_timeout?: boolean;
+    is_route_not_found?: boolean;
+  }
+
+  interface PaymentSubscription {
+    on(event: 'paying', listener: (payment: { paths?: { hops: RouteHop[] }[] }) => void): this;
+    on(event: 'routing_failure', listener: (failure: PaymentRoutingFailure) => void): this;
+    on(event: 'confirmed', listener: (payment: PayResult) => void): this;
+    on(event: 'failed', listener: (failure: PaymentFailure) => void): this;
+    on(event: 'error', listener: (error: unknown) => void): this;
+    removeAllListeners(): this;
   }
 
   interface GetInvoiceArgs {
@@ -54,9 +162,19 @@ declare module 'ln-service' {
   }
 
   interface GetInvoiceResult {
+    id: string;
+    request: string;
+    tokens: number;
+    received: number;
+    description: string;
     is_confirmed: boolean;
+    is_held: boolean;
+    is_canceled: boolean;
+    is_push?: boolean;
     secret: string;
+    created_at: string;
     expires_at: string;
+    confirmed_at?: string;
   }
 
   interface GetPaymentArgs {
@@ -67,8 +185,10 @@ declare module 'ln-service' {
   interface GetPaymentResult {
     is_confirmed: boolean;
     is_failed: boolean;
+    is_pending: boolean;
     payment?: {
       secret: string;
+      fee: number;
     };
   }
 
@@ -101,10 +221,14 @@ declare module 'ln-service' {
     is_synced_to_chain: boolean;
     current_block_height: number;
     version: string;
+    chains: string[];
   }
 
   interface SubscribeToInvoicesArgs {
     lnd: any;
+    added_after?: number;
+    confirmed_after?: number;
+    restart_delay_ms?: number;
   }
 
   interface InvoiceSubscription {
@@ -116,16 +240,32 @@ declare module 'ln-service' {
   interface InvoiceUpdate {
     id: string;
     is_confirmed: boolean;
+    is_held: boolean;
     is_canceled: boolean;
+    is_push?: boolean;
     tokens: number;
+    received: number;
+    description: string;
     secret: string | null;
+    created_at: string;
+    expires_at: string;
     confirmed_at: string | null;
+    payments: { messages: TlvRecord[] }[];
+    index: number;
+    confirmed_index?: number;
   }
 
   export function authenticatedLndGrpc(args: AuthenticatedLndGrpcArgs): AuthenticatedLnd;
   export function createInvoice(args: CreateInvoiceArgs): Promise<CreateInvoiceResult>;
+  export function createHodlInvoice(args: CreateHodlInvoiceArgs): Promise<CreateHodlInvoiceResult>;
+  export function settleHodlInvoice(args: SettleHodlInvoiceArgs): Promise<void>;
+  export function cancelHodlInvoice(args: CancelHodlInvoiceArgs): Promise<void>;
   export function decodePaymentRequest(args: DecodePaymentRequestArgs): Promise<DecodePaymentRequestResult>;
+  export function getRouteToDestination(args: GetRouteToDestinationArgs): Promise<GetRouteToDestinationResult>;
   export function pay(args: PayArgs): Promise<PayResult>;
+  export function subscribeToPayViaRequest(args: SubscribeToPayViaRequestArgs): PaymentSubscription;
+  export function subscribeToPayViaDetails(args: SubscribeToPayViaDetailsArgs): PaymentSubscription;
+  export function subscribeToPastPayment(args: SubscribeToPastPaymentArgs): PaymentSubscription;
   export function getInvoice(args: GetInvoiceArgs): Promise<GetInvoiceResult>;
   export function getPayment(args: GetPaymentArgs): Promise<GetPaymentResult>;
   export function getChainBalance(args: GetChainBalanceArgs): Promise<GetChainBalanceResult>;
@@ -0,0 +1,132 @@
+/**
+ * LNURL Type Definitions
+ *
+ * Responses of the LNURL-pay protocol (LUD-06) with Lightning Addresses
+ * (LUD-16) and payer comments (LUD-12). Wallets expect the field names from
+ * the LUD specs, which are camelCase unlike the rest of the API.
+ */
+
+import { NodeId } from './lightning.js';
+
+/**
+ * LNURL-pay Request
+ *
+ * What a wallet gets from /.well-known/lnurlp/:username before asking for an
+ * invoice.
+ */
+export interface LnurlPayRequest {
+  tag: 'payRequest';
+  callback: string; // URL to request the invoice from, with ?amount=<msat>
+  minSendable: number; // Smallest amount in millisatoshis
+  maxSendable: number; // Largest amount in millisatoshis
+  metadata: string; // JSON array of [type, content] pairs; the invoice commits to its SHA-256
+  commentAllowed: number; // Longest comment accepted (0: none)
+}
+
+/**
+ * LNURL-pay Callback Response
+ */
+export interface LnurlPayInvoice {
+  pr: string; // BOLT11 invoice for the requested amount
+  routes: []; // Always empty, kept for older wallets
+}
+
+/**
+ * LNURL-withdraw Request
+ *
+ * What a wallet gets from a withdraw link before sending its invoice.
+ */
+export interface LnurlWithdrawRequest {
+  tag: 'withdrawRequest';
+  callback: string; // URL to send the invoice to, with ?k1=<k1>&pr=<invoice>
+  k1: string; // Secret identifying the link
+  defaultDescription: string; // Suggested description for the wallet's invoice
+  minWithdrawable: number; // Smallest amount in millisatoshis
+  maxWithdrawable: number; // Largest amount in millisatoshis
+}
+
+/**
+ * LNURL Success Response
+ */
+export interface LnurlOk {
+  status: 'OK';
+}
+
+/**
+ * LNURL Error Response
+ */
+export interface LnurlError {
+  status: 'ERROR';
+  reason: string; // Shown to the payer
+}
+
+/**
+ * Pay Username as Returned by the API
+ */
+export interface PayUsernameResponse {
+  username: string; // Local part of the Lightning Address
+  node_id: NodeId; // Node the invoices are created on
+  lightning_address: string; // username@domain
+  lnurl: string; // Bech32-encoded LNURL of the pay request, for QR codes
+  description: string | null; // Shown to the payer (default: "Payment to <address>")
+  min_sendable: number; // Smallest amount in millisatoshis
+  max_sendable: number; // Largest amount in millisatoshis
+  comment_allowed: number; // Longest comment accepted (0: none)
+  created_at: Date; // When the username was registered
+}
+
+/**
+ * Response to an LNURL Request
+ */
+export interface LnurlFetchResponse {
+  status: number; // HTTP status
+  body: unknown; // Parsed JSON body (null if the body is not JSON)
+}
+
+/**
+ * Fetches LNURL Endpoints
+ *
+ * Replaceable so tests can answer from a local stand-in LNURL server.
+ */
+export type LnurlFetcher = (url: string) => Promise<LnurlFetchResponse>;
+
+/**
+ * Pay Request Resolved for Paying, as Returned by the API
+ */
+export interface ResolvedPayRequestResponse {
+  target: string; // Lightning Address or LNURL as entered
+  url: string; // Where the pay request was fetched from
+  domain: string; // Host of the LNURL service
+  description: string; // text/plain entry of the metadata
+  min_sendable: number; // Smallest amount in millisatoshis
+  max_sendable: number; // Largest amount in millisatoshis
+  comment_allowed: number; // Longest comment accepted (0: none)
+}
+
+/**
+ * Withdraw Link Status
+ *
+ * - active: Can be redeemed
+ * - exhausted: Every use has been redeemed
+ * - expired: Past its expiry
+ * - disabled: Turned off through the API
+ */
+export type WithdrawLinkStatus = 'active' | 'exhausted' | 'expired' | 'disabled';
+
+/**
+ * Withdraw Link as Returned by the API
+ */
+export interface WithdrawLinkResponse {
+  id: string; // Identifier for the management API
+  node_id: NodeId; // Node that pays the redemptions
+  lnurl: string; // Bech32-encoded LNURL of the voucher, for QR codes
+  description: string | null; // Suggested description for the wallet's invoice
+  min_withdrawable: number; // Smallest amount in millisatoshis
+  max_withdrawable: number; // Largest amount in millisatoshis
+  max_uses: number; // How many times the link can be redeemed
+  uses: number; // Redemptions so far, not counting failed payments
+  status: WithdrawLinkStatus;
+  expires_at: Date | null; // When the link stops working (null: never)
+  disabled_at: Date | null; // When the link was disabled
+  created_at: Date;
+}
@@ -0,0 +1,85 @@
+/**
+ * Real-time Event Type Definitions
+ *
+ * Socket.IO events pushed to clients. A client only receives the events of
+ * the payment hashes and nodes it has subscribed to; without an API key with
+ * the read scope their preimage is null.
+ */
+
+import { InvoiceStatus, NodeId, PaymentFailureCode, TransactionKind } from './lightning.js';
+import { ApiKeyPrincipal } from './apiKeys.js';
+
+/**
+ * invoice:updated
+ *
+ * A node reported a change to one of its invoices (or an incoming keysend).
+ */
+export interface InvoiceUpdateEvent {
+  payment_hash: string;
+  node_id: NodeId; // Node that issued the invoice
+  kind: TransactionKind;
+  status: InvoiceStatus;
+  amount: number | null; // Amount asked for in satoshis (null: any amount)
+  received_amount: number | null; // Amount received in satoshis, once settled
+  preimage: string | null;
+  settled_at: string | null;
+}
+
+/**
+ * payment:updated
+ *
+ * An outgoing payment started an attempt, failed one (and will retry), or
+ * finished.
+ */
+export interface PaymentUpdateEvent {
+  payment_hash: string;
+  node_id: NodeId; // Node sending the payment
+  status: 'pending' | 'succeeded' | 'failed';
+  attempt: number; // Attempt the update is about, starting at 1 (0 when rejected before sending)
+  fee: number | null; // Routing fee in satoshis, once succeeded
+  preimage: string | null; // Proof of payment, once succeeded
+  error_message: string | null; // Why the attempt failed
+  failure_code: PaymentFailureCode | null;
+}
+
+/**
+ * What to Subscribe To
+ *
+ * Either one payment hash (invoice and payment events for it) or a node
+ * (every invoice and payment event of that node).
+ */
+export interface SubscriptionRequest {
+  payment_hash?: string;
+  node_id?: NodeId;
+}
+
+/**
+ * Answer to subscribe / unsubscribe
+ */
+export interface SubscriptionAck {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Events the Server Sends
+ */
+export interface ServerToClientEvents {
+  'invoice:updated': (event: InvoiceUpdateEvent) => void;
+  'payment:updated': (event: PaymentUpdateEvent) => void;
+}
+
+/**
+ * What the Server Keeps per Connection
+ */
+export interface SocketData {
+  apiKey: ApiKeyPrincipal | null; // Key sent in the handshake, null without one
+}
+
+/**
+ * Events Clients Send
+ */
+export interface ClientToServerEvents {
+  subscribe: (request: SubscriptionRequest, ack?: (result: SubscriptionAck) => void) => void;
+  unsubscribe: (request: SubscriptionRequest, ack?: (result: SubscriptionAck) => void) => void;
+}
@@ -0,0 +1,98 @@
+/**
+ * Webhook Type Definitions
+ *
+ * Outgoing HTTP callbacks for invoice and payment state changes, and the
+ * delivery log kept for each of them.
+ */
+
+import { InvoiceStatus, NodeId, TransactionKind } from './lightning.js';
+
+/**
+ * Webhook Event
+ *
+ * - invoice.settled: An invoice (or incoming keysend) was paid
+ * - invoice.expired: An invoice expired unpaid
+ * - payment.succeeded: An outgoing payment completed
+ * - payment.failed: An outgoing payment failed for good (after any retries)
+ */
+export type WebhookEvent = 'invoice.settled' | 'invoice.expired' | 'payment.succeeded' | 'payment.failed';
+
+/**
+ * Invoice as Sent with invoice.* Events
+ */
+export interface InvoiceEventData {
+  payment_hash: string;
+  node_id: NodeId; // Node that issued the invoice
+  kind: TransactionKind;
+  status: InvoiceStatus;
+  amount: number | null; // Amount asked for in satoshis (null: any amount)
+  received_amount: number | null; // Amount received in satoshis
+  description: string | null;
+  preimage: string | null; // Proof of payment, once settled
+  username: string | null; // Lightning Address username the invoice was created for
+  expires_at: Date;
+  settled_at: Date | null;
+}
+
+/**
+ * Payment as Sent with payment.* Events
+ */
+export interface PaymentEventData {
+  payment_hash: string;
+  node_id: NodeId; // Node that sent the payment
+  kind: TransactionKind;
+  status: 'succeeded' | 'failed';
+  amount: number; // Amount sent in satoshis
+  fee: number; // Routing fee paid in satoshis
+  destination: string | null; // Payee public key
+  description: string | null;
+  preimage: string | null; // Proof of payment, once succeeded
+  error_message: string | null; // Why the payment failed
+  withdraw_link_id: string | null; // Voucher the payment redeemed
+  created_at: Date;
+  settled_at: Date | null;
+}
+
+/**
+ * Body of a Webhook Request
+ *
+ * Redeliveries carry the same id, so receivers can drop duplicates.
+ */
+export interface WebhookPayload {
+  id: string; // Event id
+  event: WebhookEvent;
+  created_at: string; // When the event happened (ISO 8601)
+  data: InvoiceEventData | PaymentEventData;
+}
+
+/**
+ * Webhook as Returned by the API
+ */
+export interface WebhookResponse {
+  id: string;
+  url: string; // Endpoint the events are POSTed to
+  events: WebhookEvent[]; // Events the endpoint receives
+  description: string | null;
+  enabled: boolean;
+  secret?: string; // HMAC key for the signatures, only returned on registration
+  created_at: Date;
+}
+
+/**
+ * Webhook Delivery as Returned by the API
+ */
+export interface WebhookDeliveryResponse {
+  id: string;
+  webhook_id: string;
+  event_id: string; // Same for a delivery and its redeliveries
+  event: WebhookEvent;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number; // Requests made so far
+  response_status: number | null; // HTTP status of the last response
+  response_body: string | null; // Start of the last response body
+  error: string | null; // Why the last request got no response
+  next_attempt_at: Date | null; // When the next attempt is due, while pending
+  delivered_at: Date | null;
+  created_at: Date;
+  payload: WebhookPayload;
+}